@@ -0,0 +1,106 @@
+import { NextRequest } from "next/server";
+import { CLIENT_ERROR_CONFIG, ERROR_MESSAGES } from "../../constants";
+import { apiErrorResponse } from "../../lib/apiErrors";
+import { getClientKey, takeReportSlot, writeClientErrorReport } from "../../lib/clientErrors";
+import { logger, requestContext } from "../../lib/logger";
+import { withRequestLogging } from "../../lib/requestLogging";
+import { parseClientErrorReport } from "../../utils/clientErrors";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Reads a request body as text, giving up once it exceeds a size
+ * Content-Length may be missing or wrong, so the streamed bytes are counted
+ *
+ * @param {NextRequest} request - Incoming request
+ * @param {number} maxBytes - Largest body accepted
+ * @returns {Promise<string | null>} Body text, or null when it is too large
+ */
+const readBodyText = async (request: NextRequest, maxBytes: number): Promise<string | null> => {
+  if (!request.body) return "";
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+/**
+ * POST handler for error reports sent by the browser (see reportClientError)
+ *
+ * Features:
+ * - Rejects bodies over CLIENT_ERROR_CONFIG.MAX_BODY_BYTES (413 REPORT_TOO_LARGE),
+ *   by Content-Length before reading and by the bytes actually read
+ * - Rate-limits reports per client (429 RATE_LIMITED with Retry-After); see
+ *   getClientKey for when X-Forwarded-For is trusted
+ * - Validates and re-sanitizes the report server-side (400 INVALID_REPORT)
+ * - Appends accepted reports to the client error log (see app/lib/clientErrors)
+ *   and logs them as warnings with the request id
+ * - Responds 202 without a body
+ *
+ * @param {NextRequest} request - Incoming request with a JSON ClientErrorReport body
+ * @returns {Promise<Response>} Empty 202 response or error
+ */
+async function receiveClientError(request: NextRequest) {
+  const declaredLength = Number(request.headers.get("content-length"));
+  if (declaredLength > CLIENT_ERROR_CONFIG.MAX_BODY_BYTES) {
+    return apiErrorResponse("REPORT_TOO_LARGE", ERROR_MESSAGES.REPORT_TOO_LARGE);
+  }
+
+  const slot = takeReportSlot(getClientKey(request.headers));
+  if (!slot.allowed) {
+    return apiErrorResponse("RATE_LIMITED", ERROR_MESSAGES.RATE_LIMITED, undefined, {
+      "Retry-After": Math.ceil(slot.retryAfterMs / 1000).toString(),
+    });
+  }
+
+  const text = await readBodyText(request, CLIENT_ERROR_CONFIG.MAX_BODY_BYTES);
+  if (text === null) {
+    return apiErrorResponse("REPORT_TOO_LARGE", ERROR_MESSAGES.REPORT_TOO_LARGE);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    body = null;
+  }
+
+  const { report, error: reportError } = parseClientErrorReport(body);
+  if (!report) {
+    return apiErrorResponse("INVALID_REPORT", ERROR_MESSAGES.INVALID_REPORT, reportError);
+  }
+
+  logger.warn("Client error reported", {
+    source: report.source,
+    message: report.message,
+    clientRoute: report.route,
+    appVersion: report.appVersion,
+  });
+
+  try {
+    await writeClientErrorReport({
+      ...report,
+      receivedAt: new Date().toISOString(),
+      requestId: requestContext.getStore()?.requestId,
+    });
+  } catch (error) {
+    logger.error("Error writing client error report", { error });
+
+    return apiErrorResponse("INTERNAL_ERROR", ERROR_MESSAGES.REPORT_FAILED);
+  }
+
+  return new Response(null, { status: 202 });
+}
+
+export const POST = withRequestLogging("/api/client-errors", receiveClientError);
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PriceHistoryResponse } from "../../../../types";
+import { ERROR_MESSAGES } from "../../../../constants";
+import { apiErrorResponse, failureResponse } from "../../../../lib/apiErrors";
+import { getPriceHistory } from "../../../../lib/priceHistory";
+import { isQuotedAsset } from "../../../../lib/quoteCache";
+import { logger } from "../../../../lib/logger";
+import { withRequestLogging } from "../../../../lib/requestLogging";
+import { parseHistoryQuery } from "../../../../utils/historyQuery";
+
+/** CORS headers shared by every response of this endpoint */
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+/**
+ * GET handler returning price candles for one asset
+ *
+ * Features:
+ * - Accepts `range` (1h, 24h, 7d, 30d or 1y) and `convert` query parameters;
+ *   invalid values or a non-numeric id return 400
+ * - Returns 404 ASSET_NOT_FOUND for ids the quote cache does not quote, so
+ *   arbitrary ids never reach upstream or the history cache
+ * - Uses the market data provider's historical endpoint and falls back to
+ *   prices recorded by the quote cache (see app/lib/priceHistory)
+ * - Reports the origin of the candles in `source`
+ * - Returns 502, 503 or 504 (see failureResponse) when neither the provider nor
+ *   recorded prices can serve the range
+ *
+ * @param {NextRequest} request - Incoming request with history query parameters
+ * @param {Object} context - Route context
+ * @param {Promise<{ id: string }>} context.params - Dynamic route parameters
+ * @returns {Promise<NextResponse>} JSON response with the price history or error
+ */
+async function getHistory(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const { request: historyRequest, error: queryError } = parseHistoryQuery(
+    id,
+    request.nextUrl.searchParams
+  );
+  if (!historyRequest) {
+    return apiErrorResponse("INVALID_QUERY", ERROR_MESSAGES.INVALID_HISTORY_QUERY, queryError, CORS_HEADERS);
+  }
+
+  try {
+    if (!(await isQuotedAsset(historyRequest.id, historyRequest.convert))) {
+      return apiErrorResponse(
+        "ASSET_NOT_FOUND",
+        ERROR_MESSAGES.ASSET_NOT_FOUND,
+        ERROR_MESSAGES.ASSET_NOT_FOUND_DETAILS,
+        CORS_HEADERS
+      );
+    }
+
+    const { candles, source } = await getPriceHistory(historyRequest);
+    const body: PriceHistoryResponse = { data: candles, ...historyRequest, source };
+
+    return NextResponse.json(body, {
+      status: 200,
+      headers: {
+        ...CORS_HEADERS,
+        'Cache-Control': 's-maxage=60, stale-while-revalidate=300',
+      },
+    });
+  } catch (error) {
+    logger.error("Error fetching price history", { error });
+
+    return failureResponse(error, "UPSTREAM_FAILED", ERROR_MESSAGES.HISTORY_FETCH_FAILED, CORS_HEADERS);
+  }
+}
+
+export const GET = withRequestLogging("/api/crypto/[id]/history", getHistory);
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ * Ensures proper cross-origin access for the API endpoint
+ *
+ * @returns {NextResponse} CORS headers for preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
@@ -1,94 +1,98 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { API_CONFIG, ERROR_MESSAGES } from "../../constants";
+import { apiErrorResponse, failureResponse } from "../../lib/apiErrors";
+import { getCachedListings, getCreditUsage, getUsdRate } from "../../lib/quoteCache";
+import { logger } from "../../lib/logger";
+import { withRequestLogging } from "../../lib/requestLogging";
+import { parseListingsQuery } from "../../utils/listingsQuery";
+
+/** CORS headers shared by every response of this endpoint */
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
 
 /**
  * GET handler for cryptocurrency data API endpoint
  * 
- * Fetches live cryptocurrency data from CoinMarketCap API and returns formatted response
+ * Fetches live cryptocurrency data from the configured market data provider and returns formatted response
  * 
  * Features:
- * - Fetches top cryptocurrencies by market cap from CoinMarketCap
- * - Requires COINMARKETCAP_API_KEY environment variable
- * - Limits results to configured maximum (API_CONFIG.MAX_CRYPTO_ASSETS)
- * - Handles API errors and returns appropriate HTTP status codes
+ * - Fetches a page of the top API_CONFIG.MAX_CRYPTO_ASSETS cryptocurrencies from the provider
+ *   selected by MARKET_DATA_PROVIDER
+ * - Supports CoinMarketCap, CoinGecko and an offline mock provider (see app/lib/providers)
+ * - Accepts `start`, `limit`, `convert`, `sort` and `sort_dir` query parameters; invalid values
+ *   return 400 and `limit` is capped at API_CONFIG.MAX_PAGE_SIZE
+ * - Accepts `ids` or `symbols` (comma-separated) to list only those assets, including ones
+ *   outside the top N; pages then run through the selection and `total` is its size
+ * - Accepts `q`, `min_price`, `max_price`, `min_rank` and `max_rank` to search and filter
+ *   the whole universe or selection before paging, so `total` counts the matches;
+ *   `sort=relevance` orders search matches best first
+ * - Serves snapshots from an in-process quote cache (see app/lib/quoteCache) so upstream
+ *   is refreshed at most once per QUOTE_CACHE_TTL_MS regardless of client count
+ * - Serves the last good snapshot flagged `stale: true` when upstream fails
+ * - Reports `usdRate`, the USD value of one unit of the quote currency, so clients can
+ *   convert the USD purchase limits (left out until both universes are cached)
+ * - Serves only assets that passed runtime validation in the quote cache; `dropped`
+ *   counts the malformed upstream records left out
+ * - Reports errors as an ApiErrorResponse envelope (`code`, `message`, `retryable`,
+ *   `details`): 400 INVALID_QUERY, then for upstream failures without a cached snapshot
+ *   502 UPSTREAM_FAILED, 503 UPSTREAM_UNAVAILABLE (with Retry-After) or 504 UPSTREAM_TIMEOUT;
+ *   upstream error text is logged, never returned
  * - Returns data in standardized format matching ApiResponse interface
  * 
+ * @param {NextRequest} request - Incoming request with listings query parameters
  * @returns {Promise<NextResponse>} JSON response with crypto data or error
  */
-export async function GET() {
-  try {
-    // Check if API key is available
-    const apiKey = process.env.COINMARKETCAP_API_KEY;
-    if (!apiKey) {
-      console.error("COINMARKETCAP_API_KEY environment variable is not set");
-      return NextResponse.json(
-        { error: "API key not configured" },
-        { status: 500 }
-      );
-    }
-
-    console.log("Fetching crypto data from CoinMarketCap...");
-    
-    // Fetch cryptocurrency data from CoinMarketCap Pro API
-    const response = await fetch(
-      `https://pro-api.coinmarketcap.com/v1/cryptocurrency/listings/latest?start=${API_CONFIG.API_START_POSITION}&limit=${API_CONFIG.MAX_CRYPTO_ASSETS}&convert=USD`,
-      {
-        headers: {
-          "X-CMC_PRO_API_KEY": apiKey,
-          Accept: "application/json",
-        },
-      }
-    );
-
-    // Check if API request was successful
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`CoinMarketCap API error: ${response.status} - ${errorText}`);
-      throw new Error(`CoinMarketCap API error: ${response.status} - ${errorText}`);
-    }
+async function getListings(request: NextRequest) {
+  const { request: listingsRequest, error: queryError } = parseListingsQuery(
+    request.nextUrl.searchParams
+  );
+  if (!listingsRequest) {
+    return apiErrorResponse("INVALID_QUERY", ERROR_MESSAGES.INVALID_QUERY, queryError, CORS_HEADERS);
+  }
 
-    const data = await response.json();
-    console.log(`Successfully fetched ${data.data?.length || 0} cryptocurrencies`);
+  try {
+    const { response: data, cacheStatus } = await getCachedListings(listingsRequest);
+    const credits = getCreditUsage();
+    logger.info("Serving listings", { count: data.data.length, cacheStatus });
 
     // Return formatted response with limited data set and proper headers
     return NextResponse.json(
       {
-        data: data.data?.slice(0, API_CONFIG.MAX_CRYPTO_ASSETS) || [],
+        data: data.data.slice(0, listingsRequest.limit),
         status: data.status,
+        stale: data.stale,
+        dropped: data.dropped,
+        usdRate: getUsdRate(listingsRequest.convert),
+        pagination: {
+          start: listingsRequest.start,
+          limit: listingsRequest.limit,
+          total: data.pagination?.total ?? API_CONFIG.MAX_CRYPTO_ASSETS,
+        },
       },
       {
         status: 200,
         headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'GET',
-          'Access-Control-Allow-Headers': 'Content-Type',
+          ...CORS_HEADERS,
           'Cache-Control': 's-maxage=60, stale-while-revalidate=300',
+          'X-Cache': cacheStatus.toUpperCase(),
+          'X-Upstream-Credits-Remaining': credits.remaining.toString(),
         },
       }
     );
   } catch (error) {
     // Log error details for debugging
-    console.error("Error fetching crypto data:", error);
-    console.error("Error details:", error instanceof Error ? error.message : error);
+    logger.error("Error fetching crypto data", { error });
 
     // Return user-friendly error response with proper headers
-    return NextResponse.json(
-      { 
-        error: ERROR_MESSAGES.FETCH_FAILED,
-        details: error instanceof Error ? error.message : "Unknown error"
-      },
-      { 
-        status: 500,
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'GET',
-          'Access-Control-Allow-Headers': 'Content-Type',
-        },
-      }
-    );
+    return failureResponse(error, "UPSTREAM_FAILED", ERROR_MESSAGES.FETCH_FAILED, CORS_HEADERS);
   }
 }
 
+export const GET = withRequestLogging("/api/crypto", getListings);
+
 /**
  * OPTIONS handler for CORS preflight requests
  * Ensures proper cross-origin access for the API endpoint
@@ -98,10 +102,6 @@ export async function GET() {
 export async function OPTIONS() {
   return new NextResponse(null, {
     status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    },
+    headers: CORS_HEADERS,
   });
 }
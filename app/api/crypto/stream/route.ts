@@ -0,0 +1,144 @@
+import { NextRequest } from "next/server";
+import { ERROR_MESSAGES, STREAM_CONFIG } from "../../../constants";
+import { apiErrorResponse } from "../../../lib/apiErrors";
+import { getCachedListings } from "../../../lib/quoteCache";
+import { logger } from "../../../lib/logger";
+import { withRequestLogging } from "../../../lib/requestLogging";
+import { CryptoAsset, PriceStreamSnapshot, PriceStreamUpdate } from "../../../types";
+import { parseListingsQuery } from "../../../utils/listingsQuery";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Computes the difference between two sets of tracked assets
+ *
+ * @param {Map<number, CryptoAsset>} previous - Assets sent in the last push, keyed by ID
+ * @param {CryptoAsset[]} current - Latest assets
+ * @returns {Object} Changed or added assets and IDs of removed assets
+ */
+const diffAssets = (previous: Map<number, CryptoAsset>, current: CryptoAsset[]) => {
+  const updates = current.filter((asset) => {
+    const before = previous.get(asset.id);
+    return !before || JSON.stringify(before) !== JSON.stringify(asset);
+  });
+  const currentIds = new Set(current.map((asset) => asset.id));
+  const removed = [...previous.keys()].filter((id) => !currentIds.has(id));
+
+  return { updates, removed };
+};
+
+/**
+ * GET handler for the live price stream endpoint
+ *
+ * Streams price changes for the tracked assets as Server-Sent Events
+ *
+ * Features:
+ * - Tracks the listings page described by the same query parameters as /api/crypto
+ * - Sends a `snapshot` event with every tracked asset when the connection opens
+ * - Checks the quote cache every STREAM_CONFIG.PUSH_INTERVAL and sends a `prices`
+ *   event containing only assets that changed since the previous push
+ * - Sends keep-alive comments so proxies do not drop idle connections
+ * - Stops all timers when the client disconnects
+ *
+ * @param {NextRequest} request - Incoming request (its abort signal ends the stream)
+ * @returns {Response} Event stream response
+ */
+async function streamPrices(request: NextRequest) {
+  const { request: listingsRequest, error: queryError } = parseListingsQuery(
+    request.nextUrl.searchParams
+  );
+  if (!listingsRequest) {
+    return apiErrorResponse("INVALID_QUERY", ERROR_MESSAGES.INVALID_QUERY, queryError);
+  }
+
+  const encoder = new TextEncoder();
+  let pushTimer: ReturnType<typeof setInterval> | undefined;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let lastSent: Map<number, CryptoAsset> | null = null;
+      let lastStale: boolean | undefined;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(pushTimer);
+        clearInterval(heartbeatTimer);
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed by the runtime
+        }
+      };
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close();
+        }
+      };
+
+      const send = (event: string, payload: PriceStreamSnapshot | PriceStreamUpdate) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+      };
+
+      const push = async () => {
+        try {
+          const { response } = await getCachedListings(listingsRequest);
+          if (closed) return;
+
+          if (!lastSent) {
+            send("snapshot", {
+              data: response.data,
+              timestamp: response.status.timestamp,
+              stale: response.stale,
+            });
+          } else {
+            const { updates, removed } = diffAssets(lastSent, response.data);
+            if (updates.length > 0 || removed.length > 0 || response.stale !== lastStale) {
+              send("prices", {
+                updates,
+                removed,
+                timestamp: response.status.timestamp,
+                stale: response.stale,
+              });
+            }
+          }
+
+          lastSent = new Map(response.data.map((asset) => [asset.id, asset]));
+          lastStale = response.stale;
+        } catch (error) {
+          // Keep the connection open; the next push retries through the cache
+          logger.error("Price stream refresh failed", { error });
+        }
+      };
+
+      push();
+      pushTimer = setInterval(push, STREAM_CONFIG.PUSH_INTERVAL);
+      heartbeatTimer = setInterval(() => write(": heartbeat\n\n"), STREAM_CONFIG.HEARTBEAT_INTERVAL);
+      request.signal.addEventListener("abort", close);
+    },
+    cancel() {
+      closed = true;
+      clearInterval(pushTimer);
+      clearInterval(heartbeatTimer);
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
+
+export const GET = withRequestLogging("/api/crypto/stream", streamPrices);
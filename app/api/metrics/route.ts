@@ -0,0 +1,25 @@
+import { renderMetrics } from "../../lib/metrics";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET handler exposing server metrics for Prometheus
+ *
+ * Features:
+ * - Renders every counter and histogram of this server process in the text
+ *   exposition format (see app/lib/metrics): API requests and latency, API
+ *   errors by code, upstream latency by provider and outcome, and quote cache
+ *   lookups by outcome
+ * - Counts since the process started; scrapes are not counted themselves
+ *
+ * @returns {Response} Plain text metrics response
+ */
+export async function GET() {
+  return new Response(renderMetrics(), {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
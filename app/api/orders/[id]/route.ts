@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ERROR_MESSAGES } from "../../../constants";
+import { apiErrorResponse, failureResponse } from "../../../lib/apiErrors";
+import { cancelPendingOrder, getPortfolio } from "../../../lib/portfolio";
+import { logger } from "../../../lib/logger";
+import { withRequestLogging } from "../../../lib/requestLogging";
+
+/** CORS headers shared by every response of this endpoint */
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'DELETE',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+/**
+ * DELETE handler cancelling an open limit or stop order
+ * 
+ * Features:
+ * - 404 when the order does not exist
+ * - 409 when the order has already filled, expired or been cancelled
+ * - Returns the cancelled order together with the revalued portfolio
+ * 
+ * @param {NextRequest} request - Incoming request
+ * @param {Object} context - Route context
+ * @param {Promise<{ id: string }>} context.params - Dynamic route parameters
+ * @returns {Promise<NextResponse>} JSON response with the cancelled order and portfolio or error
+ */
+async function cancelOrder(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const { pendingOrder, error: cancelError } = await cancelPendingOrder(id);
+    if (!pendingOrder) {
+      return apiErrorResponse(
+        cancelError === ERROR_MESSAGES.ORDER_NOT_FOUND ? "ORDER_NOT_FOUND" : "ORDER_NOT_OPEN",
+        ERROR_MESSAGES.CANCEL_FAILED,
+        cancelError,
+        CORS_HEADERS
+      );
+    }
+
+    logger.info("Cancelled order", { orderId: pendingOrder.id, type: pendingOrder.type, side: pendingOrder.side });
+    const portfolio = await getPortfolio();
+
+    return NextResponse.json(
+      { pendingOrder, portfolio },
+      { status: 200, headers: CORS_HEADERS }
+    );
+  } catch (error) {
+    logger.error("Error cancelling order", { error });
+
+    return failureResponse(error, "INTERNAL_ERROR", ERROR_MESSAGES.CANCEL_FAILED, CORS_HEADERS);
+  }
+}
+
+export const DELETE = withRequestLogging("/api/orders/[id]", cancelOrder);
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ * 
+ * @returns {NextResponse} CORS headers for preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
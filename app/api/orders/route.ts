@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ERROR_MESSAGES } from "../../constants";
+import { apiErrorResponse, failureResponse } from "../../lib/apiErrors";
+import { logger } from "../../lib/logger";
+import { getCachedUniverse } from "../../lib/quoteCache";
+import { withRequestLogging } from "../../lib/requestLogging";
+import {
+  evaluatePendingOrders,
+  getPortfolio,
+  listOpenOrders,
+  placeOrder,
+} from "../../lib/portfolio";
+import { parseOrderRequest } from "../../utils/orderRequest";
+
+export const dynamic = "force-dynamic";
+
+/** CORS headers shared by every response of this endpoint */
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+/**
+ * GET handler listing open limit and stop orders
+ * 
+ * Orders are evaluated by the quote cache whenever it refreshes its quotes
+ * 
+ * @returns {Promise<NextResponse>} JSON response `{ data: PendingOrder[] }` or error
+ */
+async function listOrders() {
+  try {
+    const data = await listOpenOrders();
+
+    return NextResponse.json(
+      { data },
+      {
+        status: 200,
+        headers: {
+          ...CORS_HEADERS,
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    logger.error("Error listing orders", { error });
+
+    return failureResponse(error, "INTERNAL_ERROR", ERROR_MESSAGES.ORDERS_FETCH_FAILED, CORS_HEADERS);
+  }
+}
+
+export const GET = withRequestLogging("/api/orders", listOrders);
+
+/**
+ * POST handler for simulated orders
+ * 
+ * Fills a market order at the current cached price, or stores a limit/stop order until its
+ * trigger price is crossed, and records it in the portfolio ledger
+ * 
+ * Features:
+ * - Validates `assetId`, `side`, `type`, `triggerPrice`, `amount` or `quantity` and
+ *   `currency` server-side (400 on invalid input)
+ * - Prices the order from the quote cache rather than trusting a client-side price,
+ *   applying the same fee and slippage the purchase form estimates
+ * - Rejects assets that are not currently quoted, order values outside the purchase
+ *   limits and sells exceeding the holding (422)
+ * - Refuses market orders whose `quotedPrice` is no longer within the requote
+ *   tolerance of the cached price (409), so the client can requote
+ * - Persists the fill and the updated position (see app/lib/portfolioStore)
+ * - Limit and stop orders are evaluated immediately, so an order whose trigger has
+ *   already been crossed fills right away
+ * - Returns the filled (`order`) or pending (`pendingOrder`) order together with the
+ *   revalued portfolio
+ * 
+ * @param {NextRequest} request - Incoming request with a JSON order body
+ * @returns {Promise<NextResponse>} JSON response with the order and portfolio or error
+ */
+async function submitOrder(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    body = null;
+  }
+
+  const { order: orderRequest, error: orderError } = parseOrderRequest(body);
+  if (!orderRequest) {
+    return apiErrorResponse("INVALID_ORDER", ERROR_MESSAGES.INVALID_ORDER, orderError, CORS_HEADERS);
+  }
+
+  try {
+    const { order, pendingOrder, error: fillError } = await placeOrder(orderRequest);
+    if (fillError !== undefined) {
+      return apiErrorResponse(
+        fillError === ERROR_MESSAGES.PRICE_MOVED ? "PRICE_MOVED" : "ORDER_REJECTED",
+        ERROR_MESSAGES.ORDER_FAILED,
+        fillError,
+        CORS_HEADERS
+      );
+    }
+
+    if (order) {
+      logger.info("Filled order", {
+        orderId: order.id,
+        side: order.side,
+        symbol: order.symbol,
+        quantity: order.fill.quantity,
+        fillPrice: order.fill.fillPrice,
+        currency: order.currency,
+      });
+    } else {
+      logger.info("Placed pending order", {
+        orderId: pendingOrder.id,
+        type: pendingOrder.type,
+        side: pendingOrder.side,
+        symbol: pendingOrder.symbol,
+        quantity: pendingOrder.quantity,
+        triggerPrice: pendingOrder.triggerPrice,
+        currency: pendingOrder.currency,
+      });
+      // The universe was just loaded to place the order, so this is served from the cache
+      await evaluatePendingOrders(pendingOrder.currency, await getCachedUniverse(pendingOrder.currency));
+    }
+    const portfolio = await getPortfolio();
+    // Report the order as evaluated, e.g. filled when its trigger was already crossed
+    const placed = pendingOrder && (portfolio.pendingOrders.find((entry) => entry.id === pendingOrder.id) ?? pendingOrder);
+
+    return NextResponse.json(
+      order ? { order, portfolio } : { pendingOrder: placed, portfolio },
+      { status: 201, headers: CORS_HEADERS }
+    );
+  } catch (error) {
+    logger.error("Error placing order", { error });
+
+    return failureResponse(error, "INTERNAL_ERROR", ERROR_MESSAGES.ORDER_FAILED, CORS_HEADERS);
+  }
+}
+
+export const POST = withRequestLogging("/api/orders", submitOrder);
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ * 
+ * @returns {NextResponse} CORS headers for preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { ERROR_MESSAGES } from "../../constants";
+import { failureResponse } from "../../lib/apiErrors";
+import { getPortfolio } from "../../lib/portfolio";
+import { logger } from "../../lib/logger";
+import { withRequestLogging } from "../../lib/requestLogging";
+
+export const dynamic = "force-dynamic";
+
+/** CORS headers shared by every response of this endpoint */
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+/**
+ * GET handler for the simulated portfolio
+ * 
+ * Returns every open position valued at the current cached price
+ * 
+ * Features:
+ * - Holdings with quantity, cost basis, current value and unrealized P&L
+ * - Portfolio totals across all holdings
+ * - Values in PORTFOLIO_CONFIG.BASE_CURRENCY
+ * - Falls back to last known prices (flagged `stale`) when quotes are unavailable
+ * - Lists open limit/stop orders (evaluated by the quote cache) with recently resolved ones
+ * 
+ * @returns {Promise<NextResponse>} JSON response matching PortfolioSummary or error
+ */
+async function getPortfolioSummary() {
+  try {
+    const portfolio = await getPortfolio();
+
+    return NextResponse.json(portfolio, {
+      status: 200,
+      headers: {
+        ...CORS_HEADERS,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    logger.error("Error loading portfolio", { error });
+
+    return failureResponse(error, "INTERNAL_ERROR", ERROR_MESSAGES.PORTFOLIO_FETCH_FAILED, CORS_HEADERS);
+  }
+}
+
+export const GET = withRequestLogging("/api/portfolio", getPortfolioSummary);
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ * 
+ * @returns {NextResponse} CORS headers for preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
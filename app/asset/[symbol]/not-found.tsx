@@ -0,0 +1,25 @@
+import Link from "next/link";
+import { API_CONFIG } from "../../constants";
+
+/**
+ * Not-found page for /asset/[symbol] when the symbol is not quoted
+ *
+ * @returns Not-found message with a link back to the asset list
+ */
+export default function AssetNotFound() {
+  return (
+    <div className="font-sans min-h-screen p-8 pb-20 sm:p-20">
+      <div className="max-w-xl mx-auto text-center py-12" role="main">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">
+          Asset not found
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mb-6">
+          No cryptocurrency with that symbol is among the top {API_CONFIG.MAX_CRYPTO_ASSETS} by market cap.
+        </p>
+        <Link href="/" className="text-blue-600 dark:text-blue-400 font-medium">
+          Back to all assets
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import AssetOverview from "../../components/AssetOverview";
+import { findAssetBySymbol } from "../../lib/assets";
+import { resolveAssetCurrency } from "../../utils/assetPath";
+import { formatCompactPrice, formatPercentChange, formatPrice } from "../../utils/formatters";
+import { getAssetQuote } from "../../utils/quotes";
+
+export const dynamic = "force-dynamic";
+
+interface AssetPageProps {
+  params: Promise<{ symbol: string }>;
+  searchParams: Promise<{ convert?: string | string[] }>;
+}
+
+/**
+ * Loads the asset named by the route and the quote currency it is shown in
+ *
+ * @param {AssetPageProps} props - Route props
+ * @returns Asset (null when the symbol is not quoted) and quote currency
+ */
+const loadAsset = async ({ params, searchParams }: AssetPageProps) => {
+  const { symbol } = await params;
+  const currency = resolveAssetCurrency((await searchParams).convert);
+  return { asset: await findAssetBySymbol(symbol, currency), currency };
+};
+
+/**
+ * Builds the page title, description and Open Graph tags from the asset quote
+ *
+ * @param {AssetPageProps} props - Route props
+ * @returns {Promise<Metadata>} Page metadata
+ */
+export async function generateMetadata(props: AssetPageProps): Promise<Metadata> {
+  const { asset, currency } = await loadAsset(props);
+  if (!asset) {
+    return { title: "Asset not found" };
+  }
+
+  const quote = getAssetQuote(asset, currency);
+  const title = `${asset.name} (${asset.symbol}) ${formatPrice(quote.price, currency)}`;
+  const description =
+    `${asset.name} is ranked #${asset.cmc_rank} by market cap at ${formatCompactPrice(quote.market_cap, currency)}, ` +
+    `${formatPercentChange(quote.percent_change_24h)} over 24 hours. Chart its price history and simulate orders.`;
+
+  return {
+    title,
+    description,
+    openGraph: { title, description, type: "website" },
+    twitter: { card: "summary", title, description },
+  };
+}
+
+/**
+ * Asset detail page at /asset/[symbol]
+ *
+ * Features:
+ * - Looks the symbol up case-insensitively among the quoted top assets
+ *   (`?convert=` selects the quote currency)
+ * - Server-renders the quote, rank and metadata, then keeps them live on the client
+ * - Renders the not-found page for unknown symbols
+ *
+ * @param {AssetPageProps} props - Route props
+ * @returns Asset page
+ */
+export default async function AssetPage(props: AssetPageProps) {
+  const { asset, currency } = await loadAsset(props);
+  if (!asset) {
+    notFound();
+  }
+
+  return <AssetOverview initialAsset={asset} currency={currency} />;
+}
@@ -0,0 +1,295 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCondition, AlertRule, AlertRuleDraft, ChangeWindow, QuoteCurrency } from "../types";
+import { ALERT_CONFIG } from "../constants";
+import { describeAlertRule } from "../utils/priceAlerts";
+
+interface AlertsPanelProps {
+  rules: AlertRule[];
+  unquotedSymbols: string[];
+  currency: QuoteCurrency;
+  browserNotifications: boolean;
+  onAdd: (draft: AlertRuleDraft) => string | null;
+  onRemove: (id: string) => void;
+  onToggle: (id: string) => void;
+  onBrowserNotificationsChange: (enabled: boolean) => Promise<string | null>;
+}
+
+/** Outcome of the last action, announced below the controls */
+interface PanelMessage {
+  text: string;
+  error: boolean;
+}
+
+/** Labels of the alert conditions in the condition select */
+const CONDITION_LABELS: Record<AlertCondition, string> = {
+  above: "Price rises above",
+  below: "Price falls below",
+  change: "Moves by at least (%)",
+};
+
+/**
+ * AlertsPanel component for defining price alerts
+ *
+ * Features:
+ * - Collapsible panel (`aria-expanded`) listing the rules with enable/disable
+ *   and delete controls
+ * - Form for price level rules (in the selected quote currency) and percent
+ *   change rules over 1h/24h/7d, for one symbol or every loaded asset
+ * - Per-rule cooldown choice
+ * - Marks enabled rules whose asset could not be quoted, since they cannot fire
+ * - Opt-in browser notifications, asking for permission when enabled
+ * - The outcome of each action is announced through a status or alert region
+ * - Dark mode support
+ *
+ * @param {AlertsPanelProps} props - Component props
+ * @param {AlertRule[]} props.rules - Every alert rule
+ * @param {string[]} props.unquotedSymbols - Symbols of enabled rules without a quote
+ * @param {QuoteCurrency} props.currency - Quote currency new price rules are expressed in
+ * @param {boolean} props.browserNotifications - Whether browser notifications are enabled
+ * @param {Function} props.onAdd - Adds a rule, returning a validation error or null
+ * @param {Function} props.onRemove - Deletes a rule
+ * @param {Function} props.onToggle - Enables or disables a rule
+ * @param {Function} props.onBrowserNotificationsChange - Switches browser notifications,
+ *   resolving to an error or null
+ */
+export default function AlertsPanel({
+  rules,
+  unquotedSymbols,
+  currency,
+  browserNotifications,
+  onAdd,
+  onRemove,
+  onToggle,
+  onBrowserNotificationsChange,
+}: AlertsPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [symbol, setSymbol] = useState("");
+  const [condition, setCondition] = useState<AlertCondition>("above");
+  const [threshold, setThreshold] = useState("");
+  const [changeWindow, setChangeWindow] = useState<ChangeWindow>("1h");
+  const [cooldownMinutes, setCooldownMinutes] = useState<number>(ALERT_CONFIG.DEFAULT_COOLDOWN_MINUTES);
+  const [message, setMessage] = useState<PanelMessage | null>(null);
+
+  /**
+   * Shows the outcome of an action
+   *
+   * @param {string | null} error - Error returned by the action, null on success
+   * @param {string} success - Message shown on success
+   * @returns {boolean} True when the action succeeded
+   */
+  const report = (error: string | null, success: string) => {
+    setMessage({ text: error ?? success, error: error !== null });
+    return error === null;
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const draft: AlertRuleDraft = {
+      symbol: symbol.trim() === "" ? null : symbol.trim(),
+      condition,
+      threshold: threshold.trim() === "" ? NaN : Number(threshold),
+      currency,
+      window: changeWindow,
+      cooldownMinutes,
+    };
+    if (report(onAdd(draft), "Alert added.")) {
+      setSymbol("");
+      setThreshold("");
+    }
+  };
+
+  const handleRemove = (rule: AlertRule) => {
+    onRemove(rule.id);
+    report(null, `Deleted the alert ${describeAlertRule(rule)}.`);
+  };
+
+  const handleBrowserNotifications = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const enabled = e.target.checked;
+    report(
+      await onBrowserNotificationsChange(enabled),
+      enabled ? "Browser notifications enabled." : "Browser notifications disabled."
+    );
+  };
+
+  const inputClass =
+    "px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100";
+  const buttonClass =
+    "px-3 py-2 rounded-md text-sm font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2";
+  const labelClass = "text-sm font-medium text-gray-700 dark:text-gray-300";
+  const activeCount = rules.filter((rule) => rule.enabled).length;
+
+  return (
+    <section
+      className="w-full bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg p-4 mb-6"
+      aria-labelledby="alerts-title"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 id="alerts-title" className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+          Price alerts
+        </h2>
+        <button
+          type="button"
+          onClick={() => setExpanded((current) => !current)}
+          className={buttonClass}
+          aria-expanded={expanded}
+          aria-controls="alert-controls"
+        >
+          {expanded ? "Hide" : "Manage"}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+        {rules.length > 0
+          ? `${activeCount} of ${rules.length} alert${rules.length === 1 ? "" : "s"} active, checked on every price refresh.`
+          : "Get notified when a price crosses a level or an asset moves sharply."}
+      </p>
+
+      {expanded && (
+        <div id="alert-controls" className="mt-4 space-y-4">
+          <form onSubmit={handleAdd} className="flex flex-wrap items-end gap-2">
+            <div className="flex flex-col gap-1">
+              <label htmlFor="alert-symbol" className={labelClass}>
+                Symbol
+              </label>
+              <input
+                id="alert-symbol"
+                type="text"
+                value={symbol}
+                onChange={(e) => setSymbol(e.target.value)}
+                placeholder={condition === "change" ? "Any asset" : "e.g. BTC"}
+                autoCapitalize="characters"
+                className={`${inputClass} font-mono w-28`}
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <label htmlFor="alert-condition" className={labelClass}>
+                Condition
+              </label>
+              <select
+                id="alert-condition"
+                value={condition}
+                onChange={(e) => setCondition(e.target.value as AlertCondition)}
+                className={inputClass}
+              >
+                {(Object.keys(CONDITION_LABELS) as AlertCondition[]).map((option) => (
+                  <option key={option} value={option}>
+                    {CONDITION_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-col gap-1">
+              <label htmlFor="alert-threshold" className={labelClass}>
+                {condition === "change" ? "Percent" : `Price (${currency})`}
+              </label>
+              <input
+                id="alert-threshold"
+                type="number"
+                min={0}
+                step="any"
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                className={`${inputClass} w-32`}
+              />
+            </div>
+            {condition === "change" && (
+              <div className="flex flex-col gap-1">
+                <label htmlFor="alert-window" className={labelClass}>
+                  Within
+                </label>
+                <select
+                  id="alert-window"
+                  value={changeWindow}
+                  onChange={(e) => setChangeWindow(e.target.value as ChangeWindow)}
+                  className={inputClass}
+                >
+                  {ALERT_CONFIG.CHANGE_WINDOWS.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className="flex flex-col gap-1">
+              <label htmlFor="alert-cooldown" className={labelClass}>
+                Cooldown
+              </label>
+              <select
+                id="alert-cooldown"
+                value={cooldownMinutes}
+                onChange={(e) => setCooldownMinutes(Number(e.target.value))}
+                className={inputClass}
+              >
+                {ALERT_CONFIG.COOLDOWN_OPTIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button type="submit" className={buttonClass}>
+              Add alert
+            </button>
+          </form>
+
+          {rules.length > 0 && (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700" aria-label="Alert rules">
+              {rules.map((rule) => (
+                <li key={rule.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                  <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-gray-100">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={() => onToggle(rule.id)}
+                      className="h-4 w-4 rounded focus:ring-2 focus:ring-blue-500"
+                    />
+                    {describeAlertRule(rule)}
+                    <span className="text-gray-500 dark:text-gray-400">
+                      (cooldown {rule.cooldownMinutes < 60 ? `${rule.cooldownMinutes} min` : `${rule.cooldownMinutes / 60} h`})
+                    </span>
+                    {rule.enabled && rule.symbol !== null && unquotedSymbols.includes(rule.symbol) && (
+                      <span className="text-yellow-800 dark:text-yellow-200">
+                        No quote for {rule.symbol}; this alert cannot fire
+                      </span>
+                    )}
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(rule)}
+                    className={buttonClass}
+                    aria-label={`Delete the alert ${describeAlertRule(rule)}`}
+                  >
+                    Delete
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={browserNotifications}
+              onChange={handleBrowserNotifications}
+              className="h-4 w-4 rounded focus:ring-2 focus:ring-blue-500"
+            />
+            Also show browser notifications
+          </label>
+        </div>
+      )}
+
+      <div aria-live="polite" className="mt-2 text-sm">
+        {message && (
+          <p
+            role={message.error ? "alert" : "status"}
+            className={message.error ? "text-red-600 dark:text-red-400" : "text-green-700 dark:text-green-300"}
+          >
+            {message.text}
+          </p>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import Link from "next/link";
+import { CryptoAsset, QuoteCurrency } from "../types";
+import { formatPrice } from "../utils/formatters";
+import { getAssetQuote } from "../utils/quotes";
+import { buildAssetPath } from "../utils/assetPath";
+import AssetHistoryChart from "./AssetHistoryChart";
+import PercentChangeBadge from "./PercentChangeBadge";
+
+interface AssetDetailViewProps {
+  asset: CryptoAsset;
+  currency: QuoteCurrency;
+  onClose: () => void;
+  trapFocus: (containerElement: HTMLElement) => () => void;
+}
+
+/**
+ * AssetDetailView component that shows one asset's price history in a dialog
+ *
+ * Features:
+ * - Modal dialog (`role="dialog"`, `aria-modal`) with focus trapped by
+ *   useKeyboardNavigation's trapFocus and restored to the opener on close
+ * - Current price and 1h/24h/7d change badges
+ * - Price history chart with range and chart type selection (AssetHistoryChart)
+ * - Link to the asset's own page
+ * - Escape, the Close button or the backdrop closes; global shortcuts are suspended
+ * - Dark mode support
+ *
+ * @param {AssetDetailViewProps} props - Component props
+ * @param {CryptoAsset} props.asset - Asset to show, with its latest quote
+ * @param {QuoteCurrency} props.currency - Quote currency of the asset data
+ * @param {Function} props.onClose - Closes the dialog
+ * @param {Function} props.trapFocus - Focus trap from useKeyboardNavigation
+ */
+export default function AssetDetailView({ asset, currency, onClose, trapFocus }: AssetDetailViewProps) {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const quote = getAssetQuote(asset, currency);
+
+  // Focus the selected range on open and hand focus back to the opener on close
+  useEffect(() => {
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    dialogRef.current?.querySelector<HTMLElement>("[aria-pressed='true']")?.focus();
+    return () => previouslyFocused?.focus();
+  }, []);
+
+  // Keep Tab and Shift+Tab inside the dialog
+  useEffect(() => {
+    if (!dialogRef.current) return;
+    return trapFocus(dialogRef.current);
+  }, [trapFocus]);
+
+  /**
+   * Closes on Escape and keeps keys away from the page-wide shortcuts
+   * @param {React.KeyboardEvent} e - Key event from inside the dialog
+   */
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === "Escape") {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        className="w-full max-w-3xl bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg p-6 shadow-lg"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="asset-detail-title"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+          <h2 id="asset-detail-title" className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            {asset.name} <span className="font-mono text-gray-500 dark:text-gray-400">{asset.symbol}</span>
+          </h2>
+          <div className="flex items-center gap-2">
+            <span className="text-xl font-bold text-gray-900 dark:text-gray-100">
+              {formatPrice(quote.price, currency)}
+            </span>
+            <PercentChangeBadge value={quote.percent_change_1h} period="1h" />
+            <PercentChangeBadge value={quote.percent_change_24h} period="24h" />
+            <PercentChangeBadge value={quote.percent_change_7d} period="7d" />
+          </div>
+        </div>
+
+        <AssetHistoryChart assetId={asset.id} assetName={asset.name} currency={currency} />
+
+        <div className="flex items-center justify-end gap-4 mt-4">
+          <Link
+            href={buildAssetPath(asset.symbol, currency)}
+            className="text-sm text-blue-600 dark:text-blue-400 font-medium"
+          >
+            Open asset page
+          </Link>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import { ChartType, HistoryRange, QuoteCurrency } from "../types";
+import { HISTORY_CONFIG, HISTORY_RANGES } from "../constants";
+import { useAssetHistory } from "../hooks/useAssetHistory";
+import PriceChart from "./PriceChart";
+
+interface AssetHistoryChartProps {
+  assetId: number;
+  assetName: string;
+  currency: QuoteCurrency;
+}
+
+/** Chart renderings offered by the chart type toggle */
+const CHART_TYPE_LABELS: Record<ChartType, string> = {
+  line: "Line",
+  candles: "Candles",
+};
+
+/**
+ * AssetHistoryChart component that loads and charts one asset's price history
+ *
+ * Features:
+ * - 1H/24H/7D/30D/1Y range selector and line/candlestick toggle (`aria-pressed`)
+ * - Loading, error (with retry) and empty states for the history
+ * - Notes when the history was recorded from live quotes instead of the provider
+ * - Dark mode support
+ *
+ * @param {AssetHistoryChartProps} props - Component props
+ * @param {number} props.assetId - Asset to chart
+ * @param {string} props.assetName - Asset name used in accessible labels
+ * @param {QuoteCurrency} props.currency - Quote currency of the prices
+ */
+export default function AssetHistoryChart({ assetId, assetName, currency }: AssetHistoryChartProps) {
+  const [range, setRange] = useState<HistoryRange>(HISTORY_CONFIG.DEFAULT_RANGE);
+  const [chartType, setChartType] = useState<ChartType>("line");
+  const { candles, source, loading, error, refetch } = useAssetHistory(assetId, currency, range);
+
+  const toggleClass = (selected: boolean) =>
+    `px-3 py-1 rounded text-sm font-medium transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${
+      selected
+        ? "bg-blue-500 text-white"
+        : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+    }`;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="flex gap-1" role="group" aria-label="Chart range">
+          {(Object.keys(HISTORY_RANGES) as HistoryRange[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setRange(option)}
+              className={toggleClass(range === option)}
+              aria-pressed={range === option}
+            >
+              {HISTORY_RANGES[option].label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1" role="group" aria-label="Chart type">
+          {(Object.keys(CHART_TYPE_LABELS) as ChartType[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setChartType(option)}
+              className={toggleClass(chartType === option)}
+              aria-pressed={chartType === option}
+            >
+              {CHART_TYPE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="min-h-[16rem]" aria-busy={loading}>
+        {loading && (
+          <div className="flex items-center justify-center h-64" role="status" aria-live="polite">
+            <div
+              className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mr-3"
+              aria-hidden="true"
+            ></div>
+            <span className="text-gray-600 dark:text-gray-400">Loading price history...</span>
+          </div>
+        )}
+
+        {!loading && error && (
+          <div className="flex flex-col items-center justify-center h-64 gap-3" role="alert">
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+            <button type="button" onClick={refetch} className={toggleClass(false)}>
+              Retry
+            </button>
+          </div>
+        )}
+
+        {!loading && !error && candles.length === 0 && (
+          <p className="flex items-center justify-center h-64 text-gray-600 dark:text-gray-400">
+            No price history has been recorded for this range yet.
+          </p>
+        )}
+
+        {!loading && !error && candles.length > 0 && (
+          <PriceChart
+            key={`${assetId}-${currency}-${range}`}
+            candles={candles}
+            currency={currency}
+            range={range}
+            chartType={chartType}
+            assetName={assetName}
+          />
+        )}
+      </div>
+
+      {!loading && source === "snapshots" && candles.length > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+          Recorded from live quotes since the server started.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import Link from "next/link";
+import { CryptoAsset, ListingsRequest, QuoteCurrency } from "../types";
+import { API_CONFIG, LISTING_SORTS, SORT_DIRECTIONS } from "../constants";
+import { useCryptoData } from "../hooks/useCryptoData";
+import { usePurchaseForm } from "../hooks/usePurchaseForm";
+import { usePortfolio } from "../hooks/usePortfolio";
+import { useNotification } from "../hooks/useNotification";
+import { useKeyboardNavigation } from "../hooks/useKeyboardNavigation";
+import { formatCompactPrice, formatPrice, formatSupply, formatTime } from "../utils/formatters";
+import { getAssetQuote } from "../utils/quotes";
+import AssetHistoryChart from "./AssetHistoryChart";
+import Notification from "./Notification";
+import OrderConfirmDialog from "./OrderConfirmDialog";
+import PercentChangeBadge from "./PercentChangeBadge";
+import PurchaseForm from "./PurchaseForm";
+
+interface AssetOverviewProps {
+  initialAsset: CryptoAsset;
+  currency: QuoteCurrency;
+}
+
+/**
+ * AssetOverview component that renders the body of an asset detail page
+ *
+ * Features:
+ * - Rank, price, 1h/24h/7d change badges and market statistics
+ * - Starts from the server-rendered quote and follows live prices by quoting
+ *   the asset by id, so it stays current whatever its rank
+ * - Price history chart with range and chart type selection
+ * - Order form pre-selected to the asset, with the price-locked confirmation dialog
+ * - Link back to the full asset list
+ * - Escape dismisses notifications; there is no search box, so S is not bound
+ * - Dark mode support
+ *
+ * @param {AssetOverviewProps} props - Component props
+ * @param {CryptoAsset} props.initialAsset - Asset as quoted when the page was rendered
+ * @param {QuoteCurrency} props.currency - Quote currency of the page
+ */
+export default function AssetOverview({ initialAsset, currency }: AssetOverviewProps) {
+  // The asset alone, quoted by id so its live price never depends on its rank
+  const listingsRequest = useMemo<ListingsRequest>(
+    () => ({
+      start: API_CONFIG.API_START_POSITION,
+      limit: 1,
+      convert: currency,
+      sort: LISTING_SORTS.MARKET_CAP,
+      sortDir: SORT_DIRECTIONS.DESC,
+      ids: [initialAsset.id],
+    }),
+    [initialAsset.id, currency]
+  );
+  const { cryptoData, lastUpdated, usdRate } = useCryptoData(listingsRequest);
+  // The server-rendered quote is shown only until the first live quote arrives
+  const asset = cryptoData[0]?.id === initialAsset.id ? cryptoData[0] : initialAsset;
+  const quote = getAssetQuote(asset, currency);
+
+  // Notification system for user feedback
+  const {
+    notifications,
+    showSuccess,
+    showError,
+    dismissNotification,
+    hideNotification,
+    pauseNotification,
+    resumeNotification,
+  } = useNotification();
+
+  // Simulated portfolio, needed for the holdings shown when selling
+  const { portfolio, updatePortfolio } = usePortfolio();
+
+  // The order form only offers this asset
+  const formAssets = useMemo(() => [asset], [asset]);
+  const getDefaultAsset = useCallback(() => initialAsset.id.toString(), [initialAsset.id]);
+
+  const {
+    formData,
+    formErrors,
+    submitting,
+    estimate,
+    heldQuantity,
+    limits,
+    quote: orderQuote,
+    quoteStatus,
+    quoteSecondsLeft,
+    handleSubmit,
+    confirmOrder,
+    requote,
+    cancelConfirmation,
+    updateField,
+  } = usePurchaseForm({
+    cryptoData: formAssets,
+    currency,
+    usdRate,
+    holdings: portfolio?.holdings ?? [],
+    getDefaultAsset,
+    onSuccess: (message) => showSuccess(message),
+    onError: showError,
+    onOrderPlaced: ({ portfolio: updated }) => updatePortfolio(updated),
+  });
+
+  // Keyboard shortcuts and the dialog focus trap
+  const { trapFocus } = useKeyboardNavigation({
+    onEscape: hideNotification,
+  });
+
+  const stats = [
+    { label: "Market cap", value: formatCompactPrice(quote.market_cap, currency) },
+    { label: "Volume (24h)", value: formatCompactPrice(quote.volume_24h, currency) },
+    { label: "Circulating supply", value: formatSupply(asset.circulating_supply, asset.symbol) },
+    { label: "Max supply", value: asset.max_supply ? formatSupply(asset.max_supply, asset.symbol) : "∞" },
+  ];
+
+  return (
+    <div className="font-sans min-h-screen p-8 pb-20 sm:p-20">
+      <div className="max-w-6xl mx-auto" role="main">
+        <Notification
+          notifications={notifications}
+          onDismiss={dismissNotification}
+          onPause={pauseNotification}
+          onResume={resumeNotification}
+        />
+
+        <nav className="mb-6" aria-label="Breadcrumb">
+          <Link href="/" className="text-sm text-blue-600 dark:text-blue-400 font-medium">
+            ← All assets
+          </Link>
+        </nav>
+
+        <header className="mb-8">
+          <div className="flex flex-wrap items-center gap-3 mb-2">
+            <span
+              className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 text-xs font-medium px-2 py-1 rounded"
+              aria-label={`Rank ${asset.cmc_rank}`}
+            >
+              #{asset.cmc_rank}
+            </span>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+              {asset.name} <span className="font-mono text-gray-500 dark:text-gray-400">{asset.symbol}</span>
+            </h1>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+              {formatPrice(quote.price, currency)}
+            </span>
+            <PercentChangeBadge value={quote.percent_change_1h} period="1h" />
+            <PercentChangeBadge value={quote.percent_change_24h} period="24h" />
+            <PercentChangeBadge value={quote.percent_change_7d} period="7d" />
+            {lastUpdated && (
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                Last updated <time dateTime={lastUpdated.toISOString()}>{formatTime(lastUpdated)}</time>
+              </span>
+            )}
+          </div>
+        </header>
+
+        <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+          {stats.map((stat) => (
+            <div
+              key={stat.label}
+              className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+            >
+              <dt className="text-xs text-gray-500 dark:text-gray-400">{stat.label}</dt>
+              <dd className="text-lg font-semibold text-gray-900 dark:text-gray-100">{stat.value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <section
+          className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 mb-8"
+          aria-labelledby="asset-history-title"
+        >
+          <h2 id="asset-history-title" className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-3">
+            Price history
+          </h2>
+          <AssetHistoryChart assetId={asset.id} assetName={asset.name} currency={currency} />
+        </section>
+
+        <PurchaseForm
+          cryptoData={formAssets}
+          currency={currency}
+          formData={formData}
+          formErrors={formErrors}
+          submitting={submitting}
+          estimate={estimate}
+          heldQuantity={heldQuantity}
+          limits={limits}
+          onSubmit={handleSubmit}
+          onUpdateField={updateField}
+        />
+
+        {orderQuote && quoteStatus && (
+          <OrderConfirmDialog
+            quote={orderQuote}
+            status={quoteStatus}
+            secondsLeft={quoteSecondsLeft}
+            submitting={submitting}
+            onConfirm={confirmOrder}
+            onRequote={requote}
+            onCancel={cancelConfirmation}
+            trapFocus={trapFocus}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
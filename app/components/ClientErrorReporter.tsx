@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect } from "react";
+import { reportClientError } from "../utils/clientErrors";
+
+/**
+ * ClientErrorReporter component that reports errors no ErrorBoundary catches
+ *
+ * Features:
+ * - Reports uncaught errors (window.onerror) and unhandled promise rejections
+ *   to POST /api/client-errors
+ * - Ignores failed resource loads (images, scripts), which carry no error
+ * - Renders nothing; mounted once in the root layout so every page is covered
+ */
+export default function ClientErrorReporter() {
+  useEffect(() => {
+    /**
+     * Reports an uncaught error
+     *
+     * @param {ErrorEvent} event - Error event dispatched on window
+     */
+    const handleError = (event: ErrorEvent) => {
+      if (!event.error && !event.message) return;
+      reportClientError("window", event.error ?? event.message);
+    };
+
+    /**
+     * Reports a rejected promise nothing handled
+     *
+     * @param {PromiseRejectionEvent} event - Rejection event dispatched on window
+     */
+    const handleRejection = (event: PromiseRejectionEvent) => {
+      reportClientError("unhandledrejection", event.reason);
+    };
+
+    window.addEventListener("error", handleError);
+    window.addEventListener("unhandledrejection", handleRejection);
+    return () => {
+      window.removeEventListener("error", handleError);
+      window.removeEventListener("unhandledrejection", handleRejection);
+    };
+  }, []);
+
+  return null;
+}
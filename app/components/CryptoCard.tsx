@@ -1,9 +1,23 @@
-import { CryptoAsset } from "../types";
-import { formatPrice } from "../utils/formatters";
+import Link from "next/link";
+import { CryptoAsset, PriceDirection, QuoteCurrency, VirtualItemPosition } from "../types";
+import { LIST_LAYOUT } from "../constants";
+import { formatCompactPrice, formatPercentChange, formatPrice, formatSupply } from "../utils/formatters";
+import { getAssetQuote } from "../utils/quotes";
+import { buildAssetPath } from "../utils/assetPath";
+import PercentChangeBadge from "./PercentChangeBadge";
+import Sparkline from "./Sparkline";
 
 interface CryptoCardProps {
   crypto: CryptoAsset;
+  currency: QuoteCurrency;
   viewMode: "list" | "boxed";
+  sparkline: number[];
+  priceChange?: PriceDirection;
+  starred: boolean;
+  watchlistName: string;
+  onSelect: (crypto: CryptoAsset) => void;
+  onToggleStar: (crypto: CryptoAsset) => void;
+  position?: VirtualItemPosition;
 }
 
 /**
@@ -12,51 +26,144 @@ interface CryptoCardProps {
  * Features:
  * - List view: Horizontal layout for table-style display
  * - Boxed view: Card-style layout for grid display
- * - Shows rank, name, symbol, and formatted USD price
+ * - Shows rank, name, symbol, and price formatted in the quote currency
+ * - Sparkline of the prices seen across recent refreshes
+ * - Flashes the price green/red when it moved in the latest refresh
+ * - Shows 1h/24h/7d change badges (green for gains, red for losses)
+ * - Shows market cap, 24h volume, and circulating/max supply
+ * - Asset name opens the price chart detail view; the symbol links to the asset page
+ * - Star toggle (`aria-pressed`) adding the asset to or removing it from a watchlist
+ * - Fixed row and card heights (long names are truncated) for the virtualized list and grid
  * - Responsive design with hover effects
  * - Dark mode support
  * 
  * @param {CryptoCardProps} props - Component props
  * @param {CryptoAsset} props.crypto - Cryptocurrency data to display
+ * @param {QuoteCurrency} props.currency - Quote currency the data was loaded in
  * @param {"list" | "boxed"} props.viewMode - Display mode (affects layout)
+ * @param {number[]} props.sparkline - Recent prices, oldest first
+ * @param {PriceDirection} [props.priceChange] - Direction the price moved in the latest refresh
+ * @param {boolean} props.starred - Whether the asset is in the watchlist the star acts on
+ * @param {string} props.watchlistName - Name of the watchlist the star acts on
+ * @param {Function} props.onSelect - Opens the detail view for the asset
+ * @param {Function} props.onToggleStar - Stars or unstars the asset
+ * @param {VirtualItemPosition} [props.position] - Position in the virtualized list or grid,
+ *   setting the ARIA row/column index and whether the item is the tab stop
  */
-export default function CryptoCard({ crypto, viewMode }: CryptoCardProps) {
+export default function CryptoCard({
+  crypto,
+  currency,
+  viewMode,
+  sparkline,
+  priceChange,
+  starred,
+  watchlistName,
+  onSelect,
+  onToggleStar,
+  position,
+}: CryptoCardProps) {
+  const quote = getAssetQuote(crypto, currency);
+  const maxSupply = crypto.max_supply ? formatSupply(crypto.max_supply, crypto.symbol) : "∞";
+  // Remounting the price on change restarts the flash animation
+  const priceFlashClass = priceChange ? `price-flash-${priceChange}` : "";
+  const nameButtonClass = "text-left hover:text-blue-600 dark:hover:text-blue-400 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded";
+
+  const starButton = (
+    <button
+      type="button"
+      onClick={() => onToggleStar(crypto)}
+      className={`text-lg leading-none rounded focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+        starred ? "text-yellow-500" : "text-gray-400 dark:text-gray-500 hover:text-yellow-500"
+      }`}
+      aria-pressed={starred}
+      aria-label={`Star ${crypto.name} in ${watchlistName}`}
+    >
+      <span aria-hidden="true">{starred ? "★" : "☆"}</span>
+    </button>
+  );
+
   // Render list view layout (horizontal, table-style)
   if (viewMode === "list") {
     return (
       <div 
-        className="px-6 py-4 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors focus-within:bg-gray-50 dark:focus-within:bg-gray-700"
+        className="px-6 py-4 overflow-hidden hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors focus-within:bg-gray-50 dark:focus-within:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500"
+        style={{ height: LIST_LAYOUT.ROW_HEIGHT }}
         role="row"
-        aria-label={`${crypto.name} (${crypto.symbol}): ${formatPrice(crypto.quote.USD.price)}`}
+        aria-label={`${crypto.name} (${crypto.symbol}): ${formatPrice(quote.price, currency)}`}
+        aria-rowindex={position?.row}
+        data-index={position?.index}
+        tabIndex={position ? (position.active ? 0 : -1) : undefined}
       >
-        <div className="grid grid-cols-3 gap-4 items-center">
-          <div className="flex items-center gap-3" role="gridcell">
+        <div className={`${LIST_LAYOUT.GRID_CLASS} items-center`}>
+          <div className="flex items-center" role="gridcell">
             <span 
               className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 text-xs font-medium px-2 py-1 rounded"
               aria-label={`Rank ${crypto.cmc_rank}`}
             >
               #{crypto.cmc_rank}
             </span>
+          </div>
+
+          <div className="flex items-center gap-3" role="gridcell">
+            {starButton}
             <div>
               <h3 className="font-semibold text-gray-900 dark:text-gray-100">
-                {crypto.name}
+                <button
+                  type="button"
+                  onClick={() => onSelect(crypto)}
+                  className={nameButtonClass}
+                  aria-label={`Show price chart for ${crypto.name}`}
+                >
+                  {crypto.name}
+                </button>
               </h3>
             </div>
           </div>
 
           <div role="gridcell">
-            <span className="text-gray-600 dark:text-gray-300 font-mono font-medium">
+            <Link
+              href={buildAssetPath(crypto.symbol, currency)}
+              className="text-gray-600 dark:text-gray-300 font-mono font-medium hover:text-blue-600 dark:hover:text-blue-400"
+              aria-label={`Open the ${crypto.name} asset page`}
+            >
               {crypto.symbol}
-            </span>
+            </Link>
           </div>
 
-          <div className="text-right" role="gridcell">
+          <div className="flex flex-col items-end" role="gridcell">
             <span 
-              className="text-lg font-bold text-gray-900 dark:text-gray-100"
-              aria-label={`Price: ${formatPrice(crypto.quote.USD.price)}`}
+              key={quote.price}
+              className={`text-lg font-bold text-gray-900 dark:text-gray-100 px-1 ${priceFlashClass}`}
+              aria-label={`Price: ${formatPrice(quote.price, currency)}`}
             >
-              {formatPrice(crypto.quote.USD.price)}
+              {formatPrice(quote.price, currency)}
             </span>
+            <Sparkline prices={sparkline} assetName={crypto.name} width={80} height={20} />
+          </div>
+
+          <div className={`${LIST_LAYOUT.EXTENDED_COLUMN_CLASS} justify-end`} role="gridcell">
+            <PercentChangeBadge value={quote.percent_change_1h} period="1h" />
+          </div>
+
+          <div className={`${LIST_LAYOUT.EXTENDED_COLUMN_CLASS} justify-end`} role="gridcell">
+            <PercentChangeBadge value={quote.percent_change_24h} period="24h" />
+          </div>
+
+          <div className={`${LIST_LAYOUT.EXTENDED_COLUMN_CLASS} justify-end`} role="gridcell">
+            <PercentChangeBadge value={quote.percent_change_7d} period="7d" />
+          </div>
+
+          <div className={`${LIST_LAYOUT.EXTENDED_COLUMN_CLASS} justify-end text-sm text-gray-700 dark:text-gray-300`} role="gridcell">
+            {formatCompactPrice(quote.market_cap, currency)}
+          </div>
+
+          <div className={`${LIST_LAYOUT.EXTENDED_COLUMN_CLASS} justify-end text-sm text-gray-700 dark:text-gray-300`} role="gridcell">
+            {formatCompactPrice(quote.volume_24h, currency)}
+          </div>
+
+          <div className={`${LIST_LAYOUT.EXTENDED_COLUMN_CLASS} flex-col items-end text-sm text-gray-700 dark:text-gray-300`} role="gridcell">
+            <span>{formatSupply(crypto.circulating_supply, crypto.symbol)}</span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">Max: {maxSupply}</span>
           </div>
         </div>
       </div>
@@ -66,28 +173,76 @@ export default function CryptoCard({ crypto, viewMode }: CryptoCardProps) {
   // Render boxed view layout (card-style for grid)
   return (
     <div 
-      className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4 hover:shadow-md transition-shadow focus-within:shadow-md focus-within:ring-2 focus-within:ring-blue-500 focus-within:ring-offset-2"
+      className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4 overflow-hidden hover:shadow-md transition-shadow focus-within:shadow-md focus-within:ring-2 focus-within:ring-blue-500 focus-within:ring-offset-2"
       role="gridcell"
-      aria-label={`${crypto.name} (${crypto.symbol}) cryptocurrency card: Rank ${crypto.cmc_rank}, Price ${formatPrice(crypto.quote.USD.price)}`}
-      tabIndex={0}
+      aria-label={`${crypto.name} (${crypto.symbol}) cryptocurrency card: Rank ${crypto.cmc_rank}, Price ${formatPrice(quote.price, currency)}, 24h change ${formatPercentChange(quote.percent_change_24h)}`}
+      aria-colindex={position?.column}
+      data-index={position?.index}
+      tabIndex={position && !position.active ? -1 : 0}
     >
       <div className="text-center mb-3">
         <div className="flex items-center justify-center gap-2 mb-2">
           <span className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 text-xs font-medium px-2 py-1 rounded">
             #{crypto.cmc_rank}
           </span>
+          {starButton}
         </div>
-        <h3 className="font-semibold text-gray-900 dark:text-gray-100 text-sm">
-          {crypto.name} ({crypto.symbol})
+        <h3 className="font-semibold text-gray-900 dark:text-gray-100 text-sm truncate">
+          <button
+            type="button"
+            onClick={() => onSelect(crypto)}
+            className={nameButtonClass}
+            aria-label={`Show price chart for ${crypto.name}`}
+          >
+            {crypto.name}
+          </button>{" "}
+          (
+          <Link
+            href={buildAssetPath(crypto.symbol, currency)}
+            className="font-mono hover:text-blue-600 dark:hover:text-blue-400"
+            aria-label={`Open the ${crypto.name} asset page`}
+          >
+            {crypto.symbol}
+          </Link>
+          )
         </h3>
       </div>
 
       <div className="text-center">
         <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Price:</p>
         <p className="text-lg font-bold text-gray-900 dark:text-gray-100">
-          {formatPrice(crypto.quote.USD.price)}
+          <span key={quote.price} className={`px-1 ${priceFlashClass}`}>
+            {formatPrice(quote.price, currency)}
+          </span>
         </p>
+        <div className="flex justify-center mt-1">
+          <Sparkline prices={sparkline} assetName={crypto.name} />
+        </div>
+        <div className="flex items-center justify-center gap-1 mt-2 flex-wrap">
+          <PercentChangeBadge value={quote.percent_change_1h} period="1h" />
+          <PercentChangeBadge value={quote.percent_change_24h} period="24h" />
+          <PercentChangeBadge value={quote.percent_change_7d} period="7d" />
+        </div>
       </div>
+
+      <dl className="grid grid-cols-2 gap-x-2 gap-y-1 mt-3 pt-3 border-t border-gray-100 dark:border-gray-700 text-xs">
+        <dt className="text-gray-500 dark:text-gray-400">Market cap</dt>
+        <dd className="text-right text-gray-900 dark:text-gray-100 font-medium">
+          {formatCompactPrice(quote.market_cap, currency)}
+        </dd>
+        <dt className="text-gray-500 dark:text-gray-400">Volume (24h)</dt>
+        <dd className="text-right text-gray-900 dark:text-gray-100 font-medium">
+          {formatCompactPrice(quote.volume_24h, currency)}
+        </dd>
+        <dt className="text-gray-500 dark:text-gray-400">Circulating</dt>
+        <dd className="text-right text-gray-900 dark:text-gray-100 font-medium">
+          {formatSupply(crypto.circulating_supply, crypto.symbol)}
+        </dd>
+        <dt className="text-gray-500 dark:text-gray-400">Max supply</dt>
+        <dd className="text-right text-gray-900 dark:text-gray-100 font-medium">
+          {maxSupply}
+        </dd>
+      </dl>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,34 @@
+/**
+ * DashboardSkeleton component shown while the dashboard reads its state from
+ * the URL
+ *
+ * Features:
+ * - Placeholder blocks in the layout of the header, order form, search and
+ *   the first page of assets, so the page does not jump when it renders
+ * - Announced once as a loading status; the blocks are hidden from screen readers
+ * - Dark mode support
+ */
+export default function DashboardSkeleton() {
+  const blockClass = "bg-gray-200 dark:bg-gray-700 rounded-lg";
+
+  return (
+    <div className="font-sans min-h-screen p-8 pb-20 gap-16 sm:p-20">
+      <div className="max-w-6xl mx-auto" role="status" aria-label="Loading dashboard">
+        <span className="sr-only">Loading dashboard...</span>
+        <div className="animate-pulse space-y-6" aria-hidden="true">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className={`${blockClass} h-9 w-64`} />
+            <div className={`${blockClass} h-9 w-48`} />
+          </div>
+          <div className={`${blockClass} h-40`} />
+          <div className={`${blockClass} h-24`} />
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {Array.from({ length: 6 }, (_, index) => (
+              <div key={index} className={`${blockClass} h-32`} />
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { DegradedReason, DegradedState } from "../types";
+import { formatTime } from "../utils/formatters";
+
+interface DegradedBannerProps {
+  degraded: DegradedState | null;
+  lastUpdated: Date | null;
+  onRetry: () => void;
+}
+
+/**
+ * DegradedBanner component that explains why the displayed prices may be out of date
+ *
+ * Features:
+ * - Shown above the asset list while the last good data stays on screen
+ * - Names the cause: offline browser, failed refresh or upstream outage
+ * - States the time of the displayed prices and of the next automatic retry
+ * - Retry button after a failed refresh
+ * - Announced politely to screen readers
+ * - Dark mode support
+ *
+ * @param {DegradedBannerProps} props - Component props
+ * @param {DegradedState | null} props.degraded - Degraded state, or null when the data is up to date
+ * @param {Date | null} props.lastUpdated - Timestamp of the displayed market data
+ * @param {Function} props.onRetry - Callback to refresh the data now
+ */
+export default function DegradedBanner({ degraded, lastUpdated, onRetry }: DegradedBannerProps) {
+  // Headline for each degraded reason
+  const titles: Record<DegradedReason, string> = {
+    offline: "You are offline.",
+    "refresh-failed": "Prices could not be refreshed.",
+    stale: "The market data provider is unavailable.",
+  };
+
+  return (
+    <div role="status" aria-live="polite">
+      {degraded && (
+        <div className="flex flex-wrap items-center justify-between gap-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-200 rounded-lg px-4 py-3 mb-6 text-sm">
+          <p>
+            <span className="font-semibold">{titles[degraded.reason]}</span>
+            {degraded.message && <> {degraded.message}.</>}
+            {lastUpdated && (
+              <>
+                {" "}Showing prices from{" "}
+                <time dateTime={lastUpdated.toISOString()}>{formatTime(lastUpdated)}</time>.
+              </>
+            )}
+            {degraded.reason === "offline" && " Updates resume when you reconnect."}
+            {degraded.retryAt && (
+              <>
+                {" "}Retrying at <time dateTime={degraded.retryAt.toISOString()}>{formatTime(degraded.retryAt)}</time>.
+              </>
+            )}
+          </p>
+          {degraded.reason === "refresh-failed" && (
+            <button
+              type="button"
+              onClick={onRetry}
+              className="px-3 py-1 rounded text-sm font-medium bg-yellow-100 dark:bg-yellow-800/40 hover:bg-yellow-200 dark:hover:bg-yellow-800/60 focus:ring-2 focus:ring-yellow-500 focus:ring-offset-2"
+            >
+              Retry now
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import React from "react";
+import { reportClientError } from "../utils/clientErrors";
 
 interface ErrorBoundaryState {
   hasError: boolean;
@@ -9,6 +10,8 @@ interface ErrorBoundaryState {
 
 interface ErrorBoundaryProps {
   children: React.ReactNode;
+  /** Called after the boundary resets, e.g. to refetch the data that failed to render */
+  onRetry?: () => void;
 }
 
 /**
@@ -17,8 +20,8 @@ interface ErrorBoundaryProps {
  * Features:
  * - Catches and handles React component errors gracefully
  * - Displays user-friendly error UI with retry functionality
- * - Logs error details to console for debugging
- * - Provides "Try Again" button to reset error state
+ * - Logs error details to console and reports them to POST /api/client-errors
+ * - Provides "Try Again" button to reset error state and refetch data (onRetry)
  * - Styled with red error theme and proper accessibility
  * 
  * Used to wrap cryptocurrency display components to prevent entire app crashes
@@ -41,18 +44,20 @@ export default class ErrorBoundary extends React.Component<
   }
 
   /**
-   * Logs error details for debugging purposes
+   * Logs error details for debugging purposes and reports them with the component stack
    * Called during the commit phase, so side effects are allowed
    */
   componentDidCatch(error: Error, errorInfo: React.ErrorInfo) {
     console.error("ErrorBoundary caught an error:", error, errorInfo);
+    reportClientError("boundary", error, errorInfo.componentStack);
   }
 
   /**
-   * Resets the error state to allow retry functionality
+   * Resets the error state and refetches data to allow retry functionality
    */
   retry = () => {
     this.setState({ hasError: false, error: null });
+    this.props.onRetry?.();
   };
 
   render() {
@@ -81,6 +86,7 @@ export default class ErrorBoundary extends React.Component<
             An unexpected error occurred while displaying the cryptocurrency data.
           </p>
           <button
+            type="button"
             onClick={this.retry}
             className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors font-medium"
           >
@@ -1,58 +1,112 @@
 "use client";
 
-import { ViewMode } from "../types";
-import { VIEW_MODES } from "../constants";
+import { QuoteCurrency, StreamStatus, ViewMode, Watchlist } from "../types";
+import { API_CONFIG, QUOTE_CURRENCIES, STREAM_STATUS, VIEW_MODES } from "../constants";
+import { formatTime } from "../utils/formatters";
 
 interface HeaderProps {
-  countdown: number;
+  streamStatus: StreamStatus;
+  lastUpdated: Date | null;
   loading: boolean;
   error: string | null;
   hasData: boolean;
   viewMode: ViewMode;
   onViewModeChange: (mode: ViewMode) => void;
+  currency: QuoteCurrency;
+  onCurrencyChange: (currency: QuoteCurrency) => void;
+  watchlists: Watchlist[];
+  activeWatchlistId: string | null;
+  onWatchlistChange: (id: string | null) => void;
 }
 
 /**
- * Header component that displays the app title, countdown timer, and view mode toggle
+ * Header component that displays the app title, live data status, and view mode and currency controls
  * 
  * Features:
  * - Shows "Crypto prices" title
- * - Displays countdown timer with animated indicator when data is loaded
+ * - Displays live / reconnecting / polling indicator driven by the price stream state
+ * - Shows when the displayed market data was last updated
  * - Provides view mode switcher (Tiles/List) when data is available
+ * - Provides quote currency selector (fiat and BTC/ETH) when data is available
+ * - Provides a watchlist filter once a watchlist exists; it stays available when
+ *   the selected watchlist is empty or fails to load, so the filter can be cleared
  * - Responsive design with appropriate spacing and styling
  * 
  * @param {HeaderProps} props - Component props
- * @param {number} props.countdown - Seconds until next data refresh
+ * @param {StreamStatus} props.streamStatus - Live price stream connection state
+ * @param {Date | null} props.lastUpdated - Timestamp of the displayed market data
  * @param {boolean} props.loading - Whether data is currently loading
  * @param {string | null} props.error - Error message if any
  * @param {boolean} props.hasData - Whether crypto data is available
  * @param {ViewMode} props.viewMode - Current view mode (list/boxed)
  * @param {Function} props.onViewModeChange - Callback to change view mode
+ * @param {QuoteCurrency} props.currency - Selected quote currency
+ * @param {Function} props.onCurrencyChange - Callback to change quote currency
+ * @param {Watchlist[]} props.watchlists - Watchlists offered by the filter
+ * @param {string | null} props.activeWatchlistId - Watchlist the asset list is filtered to
+ * @param {Function} props.onWatchlistChange - Callback to filter to a watchlist (null for all assets)
  */
 export default function Header({
-  countdown,
+  streamStatus,
+  lastUpdated,
   loading,
   error,
   hasData,
   viewMode,
   onViewModeChange,
+  currency,
+  onCurrencyChange,
+  watchlists,
+  activeWatchlistId,
+  onWatchlistChange,
 }: HeaderProps) {
+  // Visual treatment and wording for each stream connection state
+  const streamIndicators: Record<StreamStatus, { label: string; className: string; dotClassName: string }> = {
+    connecting: {
+      label: "Connecting",
+      className: "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300",
+      dotClassName: "bg-gray-400",
+    },
+    live: {
+      label: "Live",
+      className: "bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300",
+      dotClassName: "bg-green-500",
+    },
+    reconnecting: {
+      label: "Reconnecting",
+      className: "bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-300",
+      dotClassName: "bg-yellow-500",
+    },
+    polling: {
+      label: "Polling for updates",
+      className: "bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300",
+      dotClassName: "bg-blue-500",
+    },
+  };
+  const streamIndicator = streamIndicators[streamStatus];
+  const updatedAt = lastUpdated ? formatTime(lastUpdated) : null;
+
   return (
     <header className="text-center mb-12" role="banner">
       <h1 className="text-4xl font-bold mb-4">Crypto prices</h1>
 
       {!loading && !error && (
         <div 
-          className="inline-flex items-center gap-2 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 px-4 py-2 rounded-full text-sm font-medium mb-6"
+          className={`inline-flex items-center gap-2 ${streamIndicator.className} px-4 py-2 rounded-full text-sm font-medium mb-6`}
           role="status"
           aria-live="polite"
-          aria-label={`Data will refresh in ${countdown} seconds`}
+          aria-label={`${streamIndicator.label}${updatedAt ? `, last updated at ${updatedAt}` : ""}`}
         >
           <div 
-            className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"
+            className={`w-2 h-2 ${streamIndicator.dotClassName} rounded-full ${streamStatus === STREAM_STATUS.LIVE ? "animate-pulse" : ""}`}
             aria-hidden="true"
           ></div>
-          <span>Next update in <span className="font-semibold">{countdown}</span> seconds</span>
+          <span className="font-semibold">{streamIndicator.label}</span>
+          {updatedAt && (
+            <span>
+              · Last updated <time dateTime={lastUpdated?.toISOString()}>{updatedAt}</time>
+            </span>
+          )}
         </div>
       )}
 
@@ -91,6 +145,51 @@ export default function Header({
           </div>
         </div>
       )}
+
+      {!loading && !error && hasData && (
+        <div className="flex items-center justify-center gap-2 mb-6">
+          <label htmlFor="quote-currency" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Currency:
+          </label>
+          <select
+            id="quote-currency"
+            value={currency}
+            onChange={(e) => onCurrencyChange(e.target.value as QuoteCurrency)}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded text-sm focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100"
+            aria-describedby="quote-currency-help"
+          >
+            {API_CONFIG.SUPPORTED_CONVERT.map((code) => (
+              <option key={code} value={code}>
+                {code} ({QUOTE_CURRENCIES[code].symbol}) - {QUOTE_CURRENCIES[code].label}
+              </option>
+            ))}
+          </select>
+          <span id="quote-currency-help" className="sr-only">
+            Prices, market caps and volumes are shown in the selected currency
+          </span>
+        </div>
+      )}
+
+      {!loading && watchlists.length > 0 && (
+        <div className="flex items-center justify-center gap-2 mb-6">
+          <label htmlFor="watchlist-filter" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Show:
+          </label>
+          <select
+            id="watchlist-filter"
+            value={activeWatchlistId ?? ""}
+            onChange={(e) => onWatchlistChange(e.target.value || null)}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded text-sm focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100"
+          >
+            <option value="">All assets</option>
+            {watchlists.map((list) => (
+              <option key={list.id} value={list.id}>
+                ★ {list.name} ({list.symbols.length})
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
     </header>
   );
 }
\ No newline at end of file
@@ -1,113 +1,130 @@
 "use client";
 
-import { SortOption, SortDirection } from "../types";
+import { QuoteCurrency, SortOption, SortKey } from "../types";
+import { LIST_LAYOUT } from "../constants";
 
 interface ListHeaderProps {
-  onSortClick: (option: SortOption) => void;
-  sortBy: SortOption | null;
-  sortDirection: SortDirection;
+  onSortClick: (option: SortOption, additive: boolean) => void;
+  sortKeys: SortKey[];
+  currency: QuoteCurrency;
+}
+
+/** Sortable column definition for the list header */
+interface ListColumn {
+  option: SortOption;
+  label: string;
+  description: string;
+  align: "left" | "right";
+  extended?: boolean;
+  /** Whether the label is suffixed with the quote currency, e.g. "Price (EUR)" */
+  quoted?: boolean;
 }
 
+/**
+ * Columns in display order - must match the cells rendered by CryptoCard list rows
+ * Extended columns are only shown on large screens
+ */
+const LIST_COLUMNS: ListColumn[] = [
+  { option: "rank", label: "#", description: "rank", align: "left" },
+  { option: "name", label: "Asset", description: "asset name", align: "left" },
+  { option: "symbol", label: "Symbol", description: "symbol", align: "left" },
+  { option: "price", label: "Price", description: "price", align: "right", quoted: true },
+  { option: "percent_change_1h", label: "1h %", description: "1 hour change", align: "right", extended: true },
+  { option: "percent_change_24h", label: "24h %", description: "24 hour change", align: "right", extended: true },
+  { option: "percent_change_7d", label: "7d %", description: "7 day change", align: "right", extended: true },
+  { option: "market_cap", label: "Market Cap", description: "market cap", align: "right", extended: true },
+  { option: "volume_24h", label: "Volume (24h)", description: "24 hour volume", align: "right", extended: true },
+  { option: "circulating_supply", label: "Supply", description: "circulating supply", align: "right", extended: true },
+];
+
 /**
  * ListHeader component that provides column headers with sorting functionality for list view
- * 
+ *
  * Features:
- * - Clickable column headers for sorting (Asset, Symbol, Price)
- * - Visual sort indicators (↑ for ascending, ↓ for descending, ↕ for unsorted)
+ * - Clickable column headers for sorting (Rank, Asset, Symbol, Price, 1h/24h/7d
+ *   change, Market Cap, Volume, Supply)
+ * - Shift-click adds a column as a secondary sort key, or cycles an existing key
+ *   from ascending to descending to removed
+ * - Visual sort indicators (↑ for ascending, ↓ for descending, ↕ for unsorted),
+ *   numbered by priority when several columns are sorted
+ * - `aria-sort` on the most significant column only, as ARIA allows a single
+ *   sorted header; secondary keys are described in the button labels
  * - Hover effects and transitions
- * - Responsive grid layout matching the data rows
+ * - Responsive grid layout matching the data rows (extended columns on large screens)
  * - Dark mode support
- * 
+ *
  * @param {ListHeaderProps} props - Component props
- * @param {Function} props.onSortClick - Callback when a column header is clicked
- * @param {SortOption | null} props.sortBy - Currently active sort column
- * @param {SortDirection} props.sortDirection - Current sort direction
+ * @param {Function} props.onSortClick - Callback with the clicked column and whether Shift was held
+ * @param {SortKey[]} props.sortKeys - Active sort keys, most significant first
+ * @param {QuoteCurrency} props.currency - Quote currency shown in the price column label
  */
-export default function ListHeader({ onSortClick, sortBy, sortDirection }: ListHeaderProps) {
+export default function ListHeader({ onSortClick, sortKeys, currency }: ListHeaderProps) {
+  const multiSort = sortKeys.length > 1;
+
   /**
    * Gets the appropriate sort icon for a column
-   * @param {SortOption} option - Column name to get icon for
+   * @param {SortKey | undefined} key - Sort key of the column, if sorted
    * @returns {string} Unicode arrow character indicating sort state
    */
-  const getSortIcon = (option: SortOption) => {
-    if (sortBy === option) {
-      return sortDirection === "asc" ? "↑" : "↓";
+  const getSortIcon = (key: SortKey | undefined) => {
+    if (key) {
+      return key.direction === "asc" ? "↑" : "↓";
     }
     return "↕";
   };
 
+  /**
+   * Describes the sort state of a column for its button label
+   * @param {number} priority - Index of the column among the sort keys, -1 if unsorted
+   * @returns {string} Sort state, empty for unsorted columns
+   */
+  const describeSort = (priority: number) => {
+    if (priority === -1) return "";
+    const direction = sortKeys[priority].direction === "asc" ? "ascending" : "descending";
+    return multiSort
+      ? ` (currently sort ${priority + 1} of ${sortKeys.length}, ${direction})`
+      : ` (currently ${direction})`;
+  };
+
   return (
     <div className="bg-gray-50 dark:bg-gray-700 px-6 py-4 border-b border-gray-200 dark:border-gray-600" role="rowgroup">
-      <div className="grid grid-cols-3 gap-4 text-sm font-medium text-gray-500 dark:text-gray-400" role="row">
-        <button
-          onClick={() => onSortClick("name")}
-          className="flex items-center gap-1 text-left hover:text-gray-700 dark:hover:text-gray-200 transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded px-2 py-1"
-          role="columnheader"
-          aria-sort={
-            sortBy === "name" 
-              ? sortDirection === "asc" 
-                ? "ascending" 
-                : "descending"
-              : "none"
-          }
-          aria-label={`Sort by asset name ${
-            sortBy === "name" 
-              ? sortDirection === "asc" 
-                ? "(currently ascending)" 
-                : "(currently descending)"
-              : ""
-          }`}
-        >
-          Asset
-          <span className="text-xs" aria-hidden="true">{getSortIcon("name")}</span>
-        </button>
-
-        <button
-          onClick={() => onSortClick("symbol")}
-          className="flex items-center gap-1 text-left hover:text-gray-700 dark:hover:text-gray-200 transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded px-2 py-1"
-          role="columnheader"
-          aria-sort={
-            sortBy === "symbol" 
-              ? sortDirection === "asc" 
-                ? "ascending" 
-                : "descending"
-              : "none"
-          }
-          aria-label={`Sort by symbol ${
-            sortBy === "symbol" 
-              ? sortDirection === "asc" 
-                ? "(currently ascending)" 
-                : "(currently descending)"
-              : ""
-          }`}
-        >
-          Symbol
-          <span className="text-xs" aria-hidden="true">{getSortIcon("symbol")}</span>
-        </button>
-
-        <button
-          onClick={() => onSortClick("price")}
-          className="flex items-center gap-1 justify-end text-right hover:text-gray-700 dark:hover:text-gray-200 transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded px-2 py-1"
-          role="columnheader"
-          aria-sort={
-            sortBy === "price" 
-              ? sortDirection === "asc" 
-                ? "ascending" 
-                : "descending"
-              : "none"
-          }
-          aria-label={`Sort by price ${
-            sortBy === "price" 
-              ? sortDirection === "asc" 
-                ? "(currently ascending)" 
-                : "(currently descending)"
-              : ""
-          }`}
-        >
-          Price (USD)
-          <span className="text-xs" aria-hidden="true">{getSortIcon("price")}</span>
-        </button>
+      {/* Hidden, but still read out through aria-describedby */}
+      <span id="list-sort-hint" hidden>
+        Hold Shift to add the column as a secondary sort.
+      </span>
+      <div className={`${LIST_LAYOUT.GRID_CLASS} text-sm font-medium text-gray-500 dark:text-gray-400`} role="row" aria-rowindex={1}>
+        {LIST_COLUMNS.map((column) => {
+          const priority = sortKeys.findIndex((key) => key.option === column.option);
+          const sortKey = priority === -1 ? undefined : sortKeys[priority];
+          return (
+            <button
+              key={column.option}
+              onClick={(e) => onSortClick(column.option, e.shiftKey)}
+              className={`${column.extended ? LIST_LAYOUT.EXTENDED_COLUMN_CLASS : "flex"} items-center gap-1 ${
+                column.align === "right" ? "justify-end text-right" : "text-left"
+              } hover:text-gray-700 dark:hover:text-gray-200 transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded px-2 py-1`}
+              role="columnheader"
+              aria-sort={
+                sortKey && priority === 0
+                  ? sortKey.direction === "asc"
+                    ? "ascending"
+                    : "descending"
+                  : "none"
+              }
+              aria-label={`Sort by ${column.description}${describeSort(priority)}`}
+              aria-describedby="list-sort-hint"
+            >
+              {column.quoted ? `${column.label} (${currency})` : column.label}
+              <span className="text-xs" aria-hidden="true">{getSortIcon(sortKey)}</span>
+              {multiSort && sortKey && (
+                <sup className="text-[10px] font-semibold text-blue-600 dark:text-blue-400" aria-hidden="true">
+                  {priority + 1}
+                </sup>
+              )}
+            </button>
+          );
+        })}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,83 +1,130 @@
 "use client";
 
-import { NotificationState } from "../types";
+import { NotificationType, ToastNotification } from "../types";
 
 interface NotificationProps {
-  notification: NotificationState;
-  onClose: () => void;
+  notifications: ToastNotification[];
+  onDismiss: (id: string) => void;
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
 }
 
+// Theme configurations for different notification types
+export const NOTIFICATION_THEMES: Record<NotificationType, { bgColor: string; textColor: string; icon: string }> = {
+  success: {
+    bgColor: "bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800",
+    textColor: "text-green-600 dark:text-green-400",
+    icon: "✓",
+  },
+  error: {
+    bgColor: "bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800",
+    textColor: "text-red-600 dark:text-red-400",
+    icon: "✕",
+  },
+  info: {
+    bgColor: "bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800",
+    textColor: "text-blue-600 dark:text-blue-400",
+    icon: "ⓘ",
+  },
+};
+
 /**
- * Notification component that displays toast-style messages
- * 
+ * Notification component that displays a stack of toast-style messages
+ *
  * Features:
  * - Three notification types: success (green), error (red), info (blue)
- * - Fixed positioning in top-right corner with z-index overlay
+ * - Toasts stacked in the top-right corner with z-index overlay, newest last
  * - Auto-themed colors and icons based on notification type
+ * - Repeat counter when the same message was shown again
+ * - Optional action button (e.g., "Undo") that also dismisses the toast
+ * - Auto-dismiss pauses while a toast is hovered or has keyboard focus
  * - Manual close button with hover effects
  * - Dark mode support with appropriate color schemes
- * - Conditional rendering (hidden when show = false)
- * 
+ *
  * @param {NotificationProps} props - Component props
- * @param {NotificationState} props.notification - Notification data and state
- * @param {Function} props.onClose - Callback to close the notification
+ * @param {ToastNotification[]} props.notifications - Toasts on screen
+ * @param {Function} props.onDismiss - Callback to close a toast
+ * @param {Function} props.onPause - Callback pausing a toast's auto-dismiss timer
+ * @param {Function} props.onResume - Callback resuming a toast's auto-dismiss timer
  */
-export default function Notification({ notification, onClose }: NotificationProps) {
-  if (!notification.show) return null;
-
-  // Theme configurations for different notification types
-  const bgColor = {
-    success: "bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800",
-    error: "bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800",
-    info: "bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800",
-  };
-
-  const textColor = {
-    success: "text-green-600 dark:text-green-400",
-    error: "text-red-600 dark:text-red-400",
-    info: "text-blue-600 dark:text-blue-400",
-  };
-
-  const icon = {
-    success: "✓",
-    error: "✕",
-    info: "ⓘ",
+export default function Notification({ notifications, onDismiss, onPause, onResume }: NotificationProps) {
+  /**
+   * Resumes the timer once focus leaves the toast, not when it moves between its buttons
+   *
+   * @param {React.FocusEvent} event - Blur event from within the toast
+   * @param {string} id - Toast id
+   */
+  const handleBlur = (event: React.FocusEvent<HTMLDivElement>, id: string) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      onResume(id);
+    }
   };
 
+  // The region stays mounted so toasts added to it are announced
   return (
-    <div 
-      className="fixed top-4 right-4 z-50 max-w-md"
-      role="region" 
+    <div
+      className="fixed top-4 right-4 z-50 max-w-md flex flex-col gap-2"
+      role="region"
       aria-label="Notifications"
     >
-      <div 
-        className={`${bgColor[notification.type]} border rounded-lg p-4 shadow-lg`}
-        role={notification.type === "error" ? "alert" : "status"}
-        aria-live={notification.type === "error" ? "assertive" : "polite"}
-        aria-atomic="true"
-      >
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <span 
-              className={`${textColor[notification.type]} font-bold`}
-              aria-hidden="true"
-            >
-              {icon[notification.type]}
-            </span>
-            <p className={`${textColor[notification.type]} text-sm font-medium`}>
-              {notification.message}
-            </p>
-          </div>
-          <button
-            onClick={onClose}
-            className={`${textColor[notification.type]} hover:opacity-70 transition-opacity ml-4 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded p-1`}
-            aria-label="Close notification"
-            type="button"
+      {notifications.map((notification) => {
+        const { bgColor, textColor, icon } = NOTIFICATION_THEMES[notification.type];
+        return (
+          <div
+            key={notification.id}
+            className={`${bgColor} border rounded-lg p-4 shadow-lg`}
+            role={notification.type === "error" ? "alert" : "status"}
+            aria-live={notification.type === "error" ? "assertive" : "polite"}
+            aria-atomic="true"
+            onMouseEnter={() => onPause(notification.id)}
+            onMouseLeave={() => onResume(notification.id)}
+            onFocus={() => onPause(notification.id)}
+            onBlur={(event) => handleBlur(event, notification.id)}
           >
-            <span aria-hidden="true">✕</span>
-          </button>
-        </div>
-      </div>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span
+                  className={`${textColor} font-bold`}
+                  aria-hidden="true"
+                >
+                  {icon}
+                </span>
+                <p className={`${textColor} text-sm font-medium`}>
+                  {notification.message}
+                  {notification.count > 1 && (
+                    <span className="ml-2 text-xs font-semibold opacity-80">
+                      <span aria-hidden="true">×{notification.count}</span>
+                      <span className="sr-only">(shown {notification.count} times)</span>
+                    </span>
+                  )}
+                </p>
+              </div>
+              <div className="flex items-center ml-4 gap-1">
+                {notification.action && (
+                  <button
+                    onClick={() => {
+                      notification.action?.onClick();
+                      onDismiss(notification.id);
+                    }}
+                    className={`${textColor} text-sm font-semibold underline hover:opacity-70 transition-opacity focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded px-2 py-1`}
+                    type="button"
+                  >
+                    {notification.action.label}
+                  </button>
+                )}
+                <button
+                  onClick={() => onDismiss(notification.id)}
+                  className={`${textColor} hover:opacity-70 transition-opacity focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded p-1`}
+                  aria-label="Close notification"
+                  type="button"
+                >
+                  <span aria-hidden="true">✕</span>
+                </button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { NotificationHistoryEntry } from "../types";
+import { formatTime } from "../utils/formatters";
+import { NOTIFICATION_THEMES } from "./Notification";
+
+interface NotificationHistoryProps {
+  history: NotificationHistoryEntry[];
+  onClear: () => void;
+}
+
+/**
+ * NotificationHistory component offering a drawer with past notifications
+ *
+ * Features:
+ * - Toggle button in the bottom-right corner with the number of past notifications
+ * - Drawer listing recent notifications, newest first, with their time and repeat count
+ * - Clear button emptying the history
+ * - Focus moves into the drawer when it opens and back to the toggle when it
+ *   closes; Escape closes it
+ * - Dark mode support
+ *
+ * @param {NotificationHistoryProps} props - Component props
+ * @param {NotificationHistoryEntry[]} props.history - Recent notifications, newest first
+ * @param {Function} props.onClear - Callback emptying the history
+ */
+export default function NotificationHistory({ history, onClear }: NotificationHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const toggleRef = useRef<HTMLButtonElement>(null);
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      closeRef.current?.focus();
+    }
+  }, [open]);
+
+  /**
+   * Closes the drawer and returns focus to its toggle
+   */
+  const close = () => {
+    setOpen(false);
+    toggleRef.current?.focus();
+  };
+
+  /**
+   * Closes the drawer on Escape
+   *
+   * @param {React.KeyboardEvent} event - Key event from within the drawer
+   */
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
+    if (event.key === "Escape") {
+      event.stopPropagation();
+      close();
+    }
+  };
+
+  const buttonClass =
+    "px-3 py-2 rounded-md text-sm font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2";
+
+  return (
+    <>
+      <button
+        ref={toggleRef}
+        type="button"
+        onClick={() => (open ? close() : setOpen(true))}
+        className={`fixed bottom-4 right-4 z-40 shadow-lg ${buttonClass}`}
+        aria-expanded={open}
+        aria-controls="notification-history"
+      >
+        Notifications{history.length > 0 && ` (${history.length})`}
+      </button>
+
+      {open && (
+        <aside
+          id="notification-history"
+          className="fixed top-0 right-0 z-50 h-full w-full max-w-sm overflow-y-auto bg-white dark:bg-gray-800 border-l border-gray-300 dark:border-gray-600 shadow-xl p-4"
+          aria-labelledby="notification-history-title"
+          onKeyDown={handleKeyDown}
+        >
+          <div className="flex items-center justify-between gap-2 mb-4">
+            <h2 id="notification-history-title" className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              Notification history
+            </h2>
+            <div className="flex gap-2">
+              <button type="button" onClick={onClear} className={buttonClass} disabled={history.length === 0}>
+                Clear
+              </button>
+              <button ref={closeRef} type="button" onClick={close} className={buttonClass}>
+                Close
+              </button>
+            </div>
+          </div>
+
+          {history.length === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">No notifications yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {history.map((entry) => {
+                const { textColor, icon } = NOTIFICATION_THEMES[entry.type];
+                return (
+                  <li key={entry.id} className="flex items-start gap-2 py-2 text-sm">
+                    <span className={`${textColor} font-bold`} aria-hidden="true">
+                      {icon}
+                    </span>
+                    <div>
+                      <p className="text-gray-900 dark:text-gray-100">
+                        <span className="sr-only">{entry.type}: </span>
+                        {entry.message}
+                        {entry.count > 1 && ` (${entry.count} times)`}
+                      </p>
+                      <time
+                        dateTime={new Date(entry.shownAt).toISOString()}
+                        className="text-xs text-gray-500 dark:text-gray-400"
+                      >
+                        {formatTime(new Date(entry.shownAt))}
+                      </time>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </aside>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,104 @@
+import { PendingOrder } from "../types";
+import { ORDER_TYPES } from "../constants";
+import { formatPrice, formatQuantity, formatTime } from "../utils/formatters";
+
+interface OpenOrdersPanelProps {
+  orders: PendingOrder[];
+  cancellingId: string | null;
+  onCancel: (id: string) => void;
+}
+
+/**
+ * OpenOrdersPanel component that lists open limit and stop orders
+ *
+ * Features:
+ * - Type, side, asset, quantity, trigger price and expiry per order
+ * - Cancel button per order, disabled while its cancellation is in flight
+ * - Renders nothing when no orders are open
+ * - Focusable as the target of "View order" notification actions (`#open-orders`)
+ * - Dark mode support
+ *
+ * @param {OpenOrdersPanelProps} props - Component props
+ * @param {PendingOrder[]} props.orders - Pending orders; only open ones are listed
+ * @param {string | null} props.cancellingId - Id of the order being cancelled
+ * @param {Function} props.onCancel - Called with the id of the order to cancel
+ */
+export default function OpenOrdersPanel({ orders, cancellingId, onCancel }: OpenOrdersPanelProps) {
+  const openOrders = orders.filter((order) => order.status === "open");
+  if (openOrders.length === 0) return null;
+
+  return (
+    <section
+      id="open-orders"
+      tabIndex={-1}
+      className="w-full bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg p-4 mb-6 focus:ring-2 focus:ring-blue-500"
+      aria-labelledby="open-orders-title"
+    >
+      <h2 id="open-orders-title" className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-3">
+        Open orders
+      </h2>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <caption className="sr-only">
+            Limit and stop orders waiting for their trigger price
+          </caption>
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+              <th scope="col" className="py-2 pr-4 font-medium">Order</th>
+              <th scope="col" className="py-2 pr-4 font-medium">Asset</th>
+              <th scope="col" className="py-2 pr-4 font-medium text-right">Quantity</th>
+              <th scope="col" className="py-2 pr-4 font-medium text-right">Trigger</th>
+              <th scope="col" className="py-2 pr-4 font-medium text-right">Expires</th>
+              <th scope="col" className="py-2 font-medium text-right">
+                <span className="sr-only">Actions</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+            {openOrders.map((order) => {
+              const description = `${ORDER_TYPES[order.type].label} ${order.side}`;
+              const expiresAt = new Date(order.expiresAt);
+              return (
+                <tr key={order.id}>
+                  <th scope="row" className="py-2 pr-4 text-left font-semibold text-gray-900 dark:text-gray-100">
+                    <span className={order.side === "buy" ? "text-green-700 dark:text-green-300" : "text-red-700 dark:text-red-300"}>
+                      {description}
+                    </span>
+                  </th>
+                  <td className="py-2 pr-4 text-gray-700 dark:text-gray-300">
+                    {order.name}{" "}
+                    <span className="font-mono text-gray-500 dark:text-gray-400">{order.symbol}</span>
+                  </td>
+                  <td className="py-2 pr-4 text-right text-gray-700 dark:text-gray-300">
+                    {formatQuantity(order.quantity, order.symbol)}
+                  </td>
+                  <td className="py-2 pr-4 text-right text-gray-900 dark:text-gray-100 font-medium">
+                    {formatPrice(order.triggerPrice, order.currency)}
+                  </td>
+                  <td className="py-2 pr-4 text-right text-gray-700 dark:text-gray-300">
+                    <time dateTime={order.expiresAt}>
+                      {expiresAt.toLocaleDateString()} {formatTime(expiresAt)}
+                    </time>
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => onCancel(order.id)}
+                      disabled={cancellingId === order.id}
+                      aria-busy={cancellingId === order.id}
+                      className="px-3 py-1 rounded text-sm font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                      aria-label={`Cancel ${description.toLowerCase()} order for ${order.symbol}`}
+                    >
+                      {cancellingId === order.id ? "Cancelling..." : "Cancel"}
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { OrderQuote, QuoteStatus } from "../types";
+import { ORDER_TYPES, PORTFOLIO_CONFIG } from "../constants";
+import { formatPrice, formatQuantity } from "../utils/formatters";
+
+interface OrderConfirmDialogProps {
+  quote: OrderQuote;
+  status: QuoteStatus;
+  secondsLeft: number | null;
+  submitting: boolean;
+  onConfirm: () => void;
+  onRequote: () => void;
+  onCancel: () => void;
+  trapFocus: (containerElement: HTMLElement) => () => void;
+}
+
+/**
+ * OrderConfirmDialog component that asks the user to confirm a quoted order
+ *
+ * Features:
+ * - Modal dialog (`role="dialog"`, `aria-modal`) with focus trapped by
+ *   useKeyboardNavigation's trapFocus and restored to the trigger on close
+ * - Locked price, quantity, fee, slippage and total for the order
+ * - Countdown until the price lock expires (market orders)
+ * - Confirm turns into Requote once the lock expires or the price moves
+ *   beyond PORTFOLIO_CONFIG.REQUOTE_TOLERANCE, with the reason announced
+ * - Escape or the backdrop cancels; global keyboard shortcuts are suspended
+ * - Dark mode support
+ *
+ * @param {OrderConfirmDialogProps} props - Component props
+ * @param {OrderQuote} props.quote - Order awaiting confirmation
+ * @param {QuoteStatus} props.status - Whether the quote can be confirmed
+ * @param {number | null} props.secondsLeft - Seconds left on the price lock, null when not locked
+ * @param {boolean} props.submitting - Whether the order is being placed
+ * @param {Function} props.onConfirm - Places the order
+ * @param {Function} props.onRequote - Quotes the order again at the current price
+ * @param {Function} props.onCancel - Closes the dialog without placing the order
+ * @param {Function} props.trapFocus - Focus trap from useKeyboardNavigation
+ */
+export default function OrderConfirmDialog({
+  quote,
+  status,
+  secondsLeft,
+  submitting,
+  onConfirm,
+  onRequote,
+  onCancel,
+  trapFocus,
+}: OrderConfirmDialogProps) {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const primaryButtonRef = useRef<HTMLButtonElement>(null);
+
+  const { order, estimate } = quote;
+  const isMarket = order.type === "market";
+  const isSell = order.side === "sell";
+  const needsRequote = status !== "locked";
+  const orderLabel = `${isMarket ? "" : `${ORDER_TYPES[order.type].label} `}${isSell ? "sell" : "buy"}`;
+
+  // Focus the primary action on open and hand focus back to the trigger on close
+  useEffect(() => {
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    primaryButtonRef.current?.focus();
+    return () => previouslyFocused?.focus();
+  }, []);
+
+  // Keep Tab and Shift+Tab inside the dialog
+  useEffect(() => {
+    if (!dialogRef.current) return;
+    return trapFocus(dialogRef.current);
+  }, [trapFocus]);
+
+  /**
+   * Cancels on Escape and keeps keys away from the page-wide shortcuts
+   * @param {React.KeyboardEvent} e - Key event from inside the dialog
+   */
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === "Escape" && !submitting) {
+      onCancel();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/50 p-4"
+      onClick={() => !submitting && onCancel()}
+    >
+      <div
+        ref={dialogRef}
+        className="w-full max-w-md bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg p-6 shadow-lg"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="order-confirm-title"
+        aria-describedby="order-confirm-summary"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <h2 id="order-confirm-title" className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-1">
+          Confirm {orderLabel} order
+        </h2>
+        <p id="order-confirm-summary" className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          {isSell ? "Sell" : "Buy"} {formatQuantity(estimate.quantity, quote.symbol)} ({quote.name})
+          {isMarket ? " at the locked market price" : ` when the price reaches ${formatPrice(quote.price, order.currency)}`}.
+        </p>
+
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm mb-4">
+          <dt className="text-gray-500 dark:text-gray-400">{isMarket ? "Locked price" : ORDER_TYPES[order.type].triggerLabel}</dt>
+          <dd className="text-right font-semibold text-gray-900 dark:text-gray-100">
+            {formatPrice(quote.price, order.currency)}
+          </dd>
+          <dt className="text-gray-500 dark:text-gray-400">Quantity</dt>
+          <dd className="text-right text-gray-900 dark:text-gray-100">
+            {formatQuantity(estimate.quantity, quote.symbol)}
+          </dd>
+          <dt className="text-gray-500 dark:text-gray-400">Slippage ({PORTFOLIO_CONFIG.SLIPPAGE_RATE * 100}%)</dt>
+          <dd className="text-right text-gray-900 dark:text-gray-100">
+            {formatPrice(estimate.slippage, order.currency)}
+          </dd>
+          <dt className="text-gray-500 dark:text-gray-400">Fee ({PORTFOLIO_CONFIG.FEE_RATE * 100}%)</dt>
+          <dd className="text-right text-gray-900 dark:text-gray-100">
+            {formatPrice(estimate.fee, order.currency)}
+          </dd>
+          <dt className="text-gray-500 dark:text-gray-400">{isSell ? "Est. net proceeds" : "Est. total cost"}</dt>
+          <dd className="text-right font-semibold text-gray-900 dark:text-gray-100">
+            {formatPrice(estimate.total, order.currency)}
+          </dd>
+        </dl>
+
+        <p
+          className={`text-sm mb-4 ${
+            needsRequote ? "text-yellow-700 dark:text-yellow-300" : "text-gray-600 dark:text-gray-400"
+          }`}
+          role="status"
+          aria-live="polite"
+        >
+          {status === "moved" && "The price moved since this quote. Requote to see the current price."}
+          {status === "expired" && "This quote has expired. Requote to lock the current price."}
+          {status === "locked" && secondsLeft !== null && (
+            <>
+              Price locked for <span aria-hidden="true">{secondsLeft}s</span>
+              <span className="sr-only">{Math.round(PORTFOLIO_CONFIG.PRICE_LOCK_MS / 1000)} seconds</span>
+            </>
+          )}
+          {status === "locked" && secondsLeft === null && "The order stays open until it fills, expires or is cancelled."}
+        </p>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={submitting}
+            className="px-4 py-2 rounded font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Cancel
+          </button>
+          <button
+            ref={primaryButtonRef}
+            type="button"
+            onClick={needsRequote ? onRequote : onConfirm}
+            disabled={submitting}
+            aria-busy={submitting}
+            className="px-4 py-2 rounded font-medium bg-blue-500 hover:bg-blue-600 text-white focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? "Placing order..." : needsRequote ? "Requote" : `Confirm ${isSell ? "sell" : "buy"}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
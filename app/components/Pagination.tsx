@@ -0,0 +1,97 @@
+"use client";
+
+import { API_CONFIG } from "../constants";
+
+interface PaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+}
+
+/**
+ * Pagination component for browsing the asset universe page by page
+ *
+ * Features:
+ * - Previous/Next buttons with disabled states at the boundaries
+ * - Current page and visible range announced to screen readers
+ * - Page size selector using API_CONFIG.PAGE_SIZE_OPTIONS
+ * - Dark mode support
+ *
+ * @param {PaginationProps} props - Component props
+ * @param {number} props.page - Current page (1-based)
+ * @param {number} props.pageSize - Number of assets per page
+ * @param {number} props.total - Total number of assets available
+ * @param {Function} props.onPageChange - Callback with the requested page
+ * @param {Function} props.onPageSizeChange - Callback with the selected page size
+ */
+export default function Pagination({
+  page,
+  pageSize,
+  total,
+  onPageChange,
+  onPageSizeChange,
+}: PaginationProps) {
+  const totalPages = Math.max(Math.ceil(total / pageSize), 1);
+  const firstItem = (page - 1) * pageSize + 1;
+  const lastItem = Math.min(page * pageSize, total);
+
+  const buttonClassName =
+    "px-3 py-1 rounded text-sm font-medium transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <nav
+      className="flex items-center justify-between gap-4 flex-wrap mt-6"
+      aria-label="Cryptocurrency list pagination"
+    >
+      <p className="text-sm text-gray-600 dark:text-gray-400" aria-live="polite" aria-atomic="true">
+        Showing <span className="font-semibold">{firstItem}</span>–
+        <span className="font-semibold">{lastItem}</span> of{" "}
+        <span className="font-semibold">{total}</span>
+      </p>
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => onPageChange(page - 1)}
+          className={buttonClassName}
+          disabled={page <= 1}
+          aria-label="Previous page"
+        >
+          <span aria-hidden="true">←</span> Prev
+        </button>
+        <span className="text-sm text-gray-700 dark:text-gray-300" aria-current="page">
+          Page {page} of {totalPages}
+        </span>
+        <button
+          type="button"
+          onClick={() => onPageChange(page + 1)}
+          className={buttonClassName}
+          disabled={page >= totalPages}
+          aria-label="Next page"
+        >
+          Next <span aria-hidden="true">→</span>
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <label htmlFor="page-size" className="text-sm text-gray-700 dark:text-gray-300">
+          Per page:
+        </label>
+        <select
+          id="page-size"
+          value={pageSize}
+          onChange={(e) => onPageSizeChange(parseInt(e.target.value, 10))}
+          className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded text-sm focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100"
+        >
+          {API_CONFIG.PAGE_SIZE_OPTIONS.map((size) => (
+            <option key={size} value={size}>
+              {size}
+            </option>
+          ))}
+        </select>
+      </div>
+    </nav>
+  );
+}
@@ -0,0 +1,47 @@
+import { formatPercentChange } from "../utils/formatters";
+
+interface PercentChangeBadgeProps {
+  value: number;
+  period: string;
+}
+
+/**
+ * PercentChangeBadge component that displays a price change with directional coloring
+ *
+ * Features:
+ * - Green badge with ▲ for gains, red with ▼ for losses, grey when unchanged
+ * - Signed percentage text (e.g., "+1.23%")
+ * - Screen reader text naming the period
+ * - Dark mode support
+ *
+ * @param {PercentChangeBadgeProps} props - Component props
+ * @param {number} props.value - Change in percent
+ * @param {string} props.period - Period label used in the accessible name (e.g., "24h")
+ */
+export default function PercentChangeBadge({ value, period }: PercentChangeBadgeProps) {
+  // Direction follows the displayed (rounded) value so float noise reads as flat
+  const rounded = Math.round(value * 100) / 100;
+  const direction = rounded > 0 ? "up" : rounded < 0 ? "down" : "flat";
+
+  const colors = {
+    up: "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300",
+    down: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300",
+    flat: "bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300",
+  };
+
+  const icon = {
+    up: "▲",
+    down: "▼",
+    flat: "•",
+  };
+
+  return (
+    <span
+      className={`${colors[direction]} inline-flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded`}
+    >
+      <span aria-hidden="true">{icon[direction]}</span>
+      <span className="sr-only">{period} change </span>
+      {formatPercentChange(value)}
+    </span>
+  );
+}
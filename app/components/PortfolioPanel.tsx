@@ -0,0 +1,150 @@
+import { PortfolioSummary } from "../types";
+import { formatPrice, formatQuantity } from "../utils/formatters";
+import PercentChangeBadge from "./PercentChangeBadge";
+
+interface PortfolioPanelProps {
+  portfolio: PortfolioSummary | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * PortfolioPanel component that displays the simulated portfolio
+ *
+ * Features:
+ * - Totals for current value, cost basis, unrealized and realized P&L
+ * - Holdings table with quantity, cost basis, value and P&L per asset
+ * - Green/red P&L coloring with percent change badges
+ * - Marks holdings valued at their last known price
+ * - Empty, loading and error states
+ * - Dark mode support
+ *
+ * @param {PortfolioPanelProps} props - Component props
+ * @param {PortfolioSummary | null} props.portfolio - Valued portfolio, null until loaded
+ * @param {boolean} props.loading - Whether the first load is in progress
+ * @param {string | null} props.error - Error message if the portfolio failed to load
+ */
+export default function PortfolioPanel({ portfolio, loading, error }: PortfolioPanelProps) {
+  /**
+   * Gets text color classes for a profit or loss amount
+   * @param {number} value - P&L amount
+   * @returns {string} Tailwind color classes
+   */
+  const getPnlClassName = (value: number) => {
+    if (value > 0) return "text-green-700 dark:text-green-300";
+    if (value < 0) return "text-red-700 dark:text-red-300";
+    return "text-gray-700 dark:text-gray-300";
+  };
+
+  return (
+    <section
+      className="w-full bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg p-4 mb-6"
+      aria-labelledby="portfolio-title"
+    >
+      <h2 id="portfolio-title" className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-3">
+        Portfolio
+      </h2>
+
+      {loading && !portfolio && (
+        <p className="text-sm text-gray-600 dark:text-gray-400" role="status">
+          Loading portfolio...
+        </p>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-3" role="alert">
+          {error}
+        </p>
+      )}
+
+      {portfolio && portfolio.holdings.length === 0 && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {portfolio.totals.realizedPnl !== 0
+            ? `No open positions. Realized P&L: ${formatPrice(portfolio.totals.realizedPnl, portfolio.currency)}`
+            : "No holdings yet. Use the form above to buy your first asset."}
+        </p>
+      )}
+
+      {portfolio && portfolio.holdings.length > 0 && (
+        <>
+          <dl className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-4" aria-live="polite">
+            <div>
+              <dt className="text-xs text-gray-500 dark:text-gray-400">Current value</dt>
+              <dd className="text-xl font-bold text-gray-900 dark:text-gray-100">
+                {formatPrice(portfolio.totals.currentValue, portfolio.currency)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500 dark:text-gray-400">Cost basis</dt>
+              <dd className="text-xl font-bold text-gray-900 dark:text-gray-100">
+                {formatPrice(portfolio.totals.costBasis, portfolio.currency)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500 dark:text-gray-400">Unrealized P&amp;L</dt>
+              <dd className={`flex items-center gap-2 text-xl font-bold ${getPnlClassName(portfolio.totals.unrealizedPnl)}`}>
+                {formatPrice(portfolio.totals.unrealizedPnl, portfolio.currency)}
+                <PercentChangeBadge value={portfolio.totals.unrealizedPnlPercent} period="Total" />
+              </dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500 dark:text-gray-400">Realized P&amp;L</dt>
+              <dd className={`text-xl font-bold ${getPnlClassName(portfolio.totals.realizedPnl)}`}>
+                {formatPrice(portfolio.totals.realizedPnl, portfolio.currency)}
+              </dd>
+            </div>
+          </dl>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <caption className="sr-only">
+                Portfolio holdings in {portfolio.currency}
+              </caption>
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th scope="col" className="py-2 pr-4 font-medium">Asset</th>
+                  <th scope="col" className="py-2 pr-4 font-medium text-right">Quantity</th>
+                  <th scope="col" className="py-2 pr-4 font-medium text-right">Cost basis</th>
+                  <th scope="col" className="py-2 pr-4 font-medium text-right">Value</th>
+                  <th scope="col" className="py-2 font-medium text-right">P&amp;L</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {portfolio.holdings.map((holding) => (
+                  <tr key={holding.assetId}>
+                    <th scope="row" className="py-2 pr-4 text-left font-semibold text-gray-900 dark:text-gray-100">
+                      {holding.name}{" "}
+                      <span className="font-mono font-medium text-gray-500 dark:text-gray-400">
+                        {holding.symbol}
+                      </span>
+                    </th>
+                    <td className="py-2 pr-4 text-right text-gray-700 dark:text-gray-300">
+                      {formatQuantity(holding.quantity, holding.symbol)}
+                    </td>
+                    <td className="py-2 pr-4 text-right text-gray-700 dark:text-gray-300">
+                      {formatPrice(holding.costBasis, portfolio.currency)}
+                    </td>
+                    <td className="py-2 pr-4 text-right text-gray-900 dark:text-gray-100 font-medium">
+                      {formatPrice(holding.currentValue, portfolio.currency)}
+                      {holding.stale && (
+                        <span className="block text-xs text-yellow-700 dark:text-yellow-300">
+                          Last known price
+                        </span>
+                      )}
+                    </td>
+                    <td className={`py-2 text-right ${getPnlClassName(holding.unrealizedPnl)}`}>
+                      <div className="flex items-center justify-end gap-2">
+                        {formatPrice(holding.unrealizedPnl, portfolio.currency)}
+                        <PercentChangeBadge value={holding.unrealizedPnlPercent} period={holding.symbol} />
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
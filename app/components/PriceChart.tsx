@@ -0,0 +1,287 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { ChartType, HistoryRange, PriceCandle, QuoteCurrency } from "../types";
+import { formatChartTime, formatPercentChange, formatPrice } from "../utils/formatters";
+
+interface PriceChartProps {
+  candles: PriceCandle[];
+  currency: QuoteCurrency;
+  range: HistoryRange;
+  chartType: ChartType;
+  assetName: string;
+}
+
+/** SVG coordinate system; the chart scales to its container width */
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 260;
+const PADDING = { top: 12, right: 72, bottom: 24, left: 8 };
+const PLOT_WIDTH = CHART_WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+
+/** Horizontal grid lines, including the top and bottom edges */
+const GRID_LINES = 4;
+
+/** Points moved by Page Up / Page Down */
+const PAGE_STEP = 10;
+
+/**
+ * PriceChart component that draws a price history as an SVG line or candlestick chart
+ *
+ * Features:
+ * - Line chart of closing prices or candlesticks (green up, red down)
+ * - Price axis and start/middle/end time labels formatted for the range
+ * - Hover crosshair with a price and time tooltip
+ * - Keyboard-navigable data points: Tab focuses the latest point, arrow keys
+ *   move between points, Home/End jump to the first/last and Page Up/Down
+ *   move by 10; each point announces its time and prices
+ * - Screen reader summary of the range's low, high and change
+ * - Dark mode support
+ *
+ * @param {PriceChartProps} props - Component props
+ * @param {PriceCandle[]} props.candles - Candles in chronological order
+ * @param {QuoteCurrency} props.currency - Quote currency of the prices
+ * @param {HistoryRange} props.range - Range the candles cover
+ * @param {ChartType} props.chartType - Line or candlestick rendering
+ * @param {string} props.assetName - Asset name used in accessible labels
+ */
+export default function PriceChart({ candles, currency, range, chartType, assetName }: PriceChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const pointRefs = useRef<(SVGCircleElement | null)[]>([]);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  // Point that receives focus when tabbing into the chart
+  const [focusIndex, setFocusIndex] = useState<number>(candles.length - 1);
+
+  if (candles.length === 0) return null;
+
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+  const low = Math.min(...candles.map((candle) => candle.low));
+  const high = Math.max(...candles.map((candle) => candle.high));
+  // Pad the price axis so extremes do not touch the edges; flat series get a nominal span
+  const margin = (high - low) * 0.05 || high * 0.01 || 1;
+  const axisMin = low - margin;
+  const axisMax = high + margin;
+
+  const slotWidth = PLOT_WIDTH / candles.length;
+  const x = (index: number) => PADDING.left + (index + 0.5) * slotWidth;
+  const y = (price: number) => PADDING.top + ((axisMax - price) / (axisMax - axisMin)) * PLOT_HEIGHT;
+
+  const rising = last.close >= first.open;
+  const change = ((last.close - first.open) / first.open) * 100;
+  const lineColor = rising ? "stroke-green-600 dark:stroke-green-400" : "stroke-red-600 dark:stroke-red-400";
+  const clampedFocusIndex = Math.min(Math.max(focusIndex, 0), candles.length - 1);
+  const active = activeIndex !== null ? candles[activeIndex] : null;
+
+  /**
+   * Describes a candle for tooltips and screen readers
+   * @param {PriceCandle} candle - Candle to describe
+   * @returns {string} Time and prices of the candle
+   */
+  const describe = (candle: PriceCandle) =>
+    chartType === "line"
+      ? `${formatChartTime(candle.time, range, true)}: ${formatPrice(candle.close, currency)}`
+      : `${formatChartTime(candle.time, range, true)}: open ${formatPrice(candle.open, currency)}, high ${formatPrice(candle.high, currency)}, low ${formatPrice(candle.low, currency)}, close ${formatPrice(candle.close, currency)}`;
+
+  /**
+   * Moves the keyboard focus to a data point
+   * @param {number} index - Index of the point to focus
+   */
+  const focusPoint = (index: number) => {
+    const next = Math.min(Math.max(index, 0), candles.length - 1);
+    setFocusIndex(next);
+    setActiveIndex(next);
+    pointRefs.current[next]?.focus();
+  };
+
+  /**
+   * Handles arrow, Home/End and Page Up/Down keys between data points
+   * @param {React.KeyboardEvent} e - Key event from a focused point
+   */
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const keySteps: Record<string, number> = {
+      ArrowLeft: -1,
+      ArrowDown: -1,
+      ArrowRight: 1,
+      ArrowUp: 1,
+      PageDown: -PAGE_STEP,
+      PageUp: PAGE_STEP,
+    };
+
+    if (e.key === "Home") {
+      e.preventDefault();
+      focusPoint(0);
+    } else if (e.key === "End") {
+      e.preventDefault();
+      focusPoint(candles.length - 1);
+    } else if (e.key in keySteps) {
+      e.preventDefault();
+      focusPoint(clampedFocusIndex + keySteps[e.key]);
+    }
+  };
+
+  /**
+   * Follows the pointer with the crosshair
+   * @param {React.MouseEvent} e - Mouse move over the chart
+   */
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const bounds = svgRef.current?.getBoundingClientRect();
+    if (!bounds || bounds.width === 0) return;
+    const svgX = ((e.clientX - bounds.left) / bounds.width) * CHART_WIDTH;
+    const index = Math.floor((svgX - PADDING.left) / slotWidth);
+    setActiveIndex(Math.min(Math.max(index, 0), candles.length - 1));
+  };
+
+  const linePath = candles
+    .map((candle, index) => `${index === 0 ? "M" : "L"}${x(index).toFixed(2)},${y(candle.close).toFixed(2)}`)
+    .join(" ");
+  const timeLabelIndexes = [...new Set([0, Math.floor((candles.length - 1) / 2), candles.length - 1])];
+
+  return (
+    <figure className="relative m-0">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-auto select-none"
+        role="group"
+        aria-label={`${assetName} price chart`}
+        aria-describedby="price-chart-summary"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setActiveIndex(null)}
+      >
+        {Array.from({ length: GRID_LINES }, (_, line) => {
+          const price = axisMax - ((axisMax - axisMin) * line) / (GRID_LINES - 1);
+          return (
+            <g key={line} aria-hidden="true">
+              <line
+                x1={PADDING.left}
+                x2={PADDING.left + PLOT_WIDTH}
+                y1={y(price)}
+                y2={y(price)}
+                className="stroke-gray-200 dark:stroke-gray-700"
+              />
+              <text
+                x={CHART_WIDTH - PADDING.right + 6}
+                y={y(price)}
+                dominantBaseline="middle"
+                className="fill-gray-500 dark:fill-gray-400 text-[10px]"
+              >
+                {formatPrice(price, currency)}
+              </text>
+            </g>
+          );
+        })}
+
+        {timeLabelIndexes.map((index) => (
+          <text
+            key={index}
+            x={x(index)}
+            y={CHART_HEIGHT - 6}
+            textAnchor={index === 0 ? "start" : index === candles.length - 1 ? "end" : "middle"}
+            className="fill-gray-500 dark:fill-gray-400 text-[10px]"
+            aria-hidden="true"
+          >
+            {formatChartTime(candles[index].time, range)}
+          </text>
+        ))}
+
+        {chartType === "line" ? (
+          <path d={linePath} fill="none" strokeWidth={2} className={lineColor} aria-hidden="true" />
+        ) : (
+          <g aria-hidden="true">
+            {candles.map((candle, index) => {
+              const up = candle.close >= candle.open;
+              const color = up
+                ? "stroke-green-600 fill-green-600 dark:stroke-green-400 dark:fill-green-400"
+                : "stroke-red-600 fill-red-600 dark:stroke-red-400 dark:fill-red-400";
+              const bodyTop = y(Math.max(candle.open, candle.close));
+              const bodyHeight = Math.max(Math.abs(y(candle.open) - y(candle.close)), 1);
+              return (
+                <g key={candle.time} className={color}>
+                  <line x1={x(index)} x2={x(index)} y1={y(candle.high)} y2={y(candle.low)} strokeWidth={1} />
+                  <rect
+                    x={x(index) - slotWidth * 0.35}
+                    y={bodyTop}
+                    width={slotWidth * 0.7}
+                    height={bodyHeight}
+                    strokeWidth={0}
+                  />
+                </g>
+              );
+            })}
+          </g>
+        )}
+
+        {active && activeIndex !== null && (
+          <g aria-hidden="true" className="pointer-events-none">
+            <line
+              x1={x(activeIndex)}
+              x2={x(activeIndex)}
+              y1={PADDING.top}
+              y2={PADDING.top + PLOT_HEIGHT}
+              strokeDasharray="4 3"
+              className="stroke-gray-400 dark:stroke-gray-500"
+            />
+            <line
+              x1={PADDING.left}
+              x2={PADDING.left + PLOT_WIDTH}
+              y1={y(active.close)}
+              y2={y(active.close)}
+              strokeDasharray="4 3"
+              className="stroke-gray-400 dark:stroke-gray-500"
+            />
+          </g>
+        )}
+
+        <g role="list" aria-label={`${assetName} price points`} onKeyDown={handleKeyDown}>
+          {candles.map((candle, index) => (
+            <circle
+              key={candle.time}
+              ref={(element) => {
+                pointRefs.current[index] = element;
+              }}
+              cx={x(index)}
+              cy={y(candle.close)}
+              r={index === activeIndex ? 4 : 0}
+              role="listitem"
+              tabIndex={index === clampedFocusIndex ? 0 : -1}
+              aria-label={describe(candle)}
+              onFocus={() => {
+                setFocusIndex(index);
+                setActiveIndex(index);
+              }}
+              onBlur={() => setActiveIndex(null)}
+              className="fill-blue-600 dark:fill-blue-400 stroke-white dark:stroke-gray-800 outline-none"
+              strokeWidth={2}
+            />
+          ))}
+        </g>
+      </svg>
+
+      {active && activeIndex !== null && (
+        <div
+          className="absolute top-0 pointer-events-none bg-gray-900/90 text-white text-xs rounded px-2 py-1 whitespace-nowrap"
+          style={{
+            left: `${(x(activeIndex) / CHART_WIDTH) * 100}%`,
+            transform: `translateX(${activeIndex > candles.length / 2 ? "-105%" : "5%"})`,
+          }}
+          aria-hidden="true"
+        >
+          <div className="font-semibold">{formatPrice(active.close, currency)}</div>
+          <div className="text-gray-300">{formatChartTime(active.time, range, true)}</div>
+          {chartType === "candles" && (
+            <div className="text-gray-300">
+              O {formatPrice(active.open, currency)} H {formatPrice(active.high, currency)} L {formatPrice(active.low, currency)}
+            </div>
+          )}
+        </div>
+      )}
+
+      <figcaption id="price-chart-summary" className="sr-only">
+        {assetName} traded between {formatPrice(low, currency)} and {formatPrice(high, currency)} from{" "}
+        {formatChartTime(first.time, range, true)} to {formatChartTime(last.time, range, true)}, a change of{" "}
+        {formatPercentChange(change)}. Use the arrow keys to move between price points.
+      </figcaption>
+    </figure>
+  );
+}
@@ -1,71 +1,207 @@
 "use client";
 
-import { CryptoAsset, PurchaseFormData, FormErrors } from "../types";
-import { PURCHASE_LIMITS } from "../constants";
-import { formatPrice } from "../utils/formatters";
+import {
+  CryptoAsset,
+  PurchaseFormData,
+  FormErrors,
+  OrderEstimate,
+  OrderLimits,
+  OrderSide,
+  OrderType,
+  QuoteCurrency,
+} from "../types";
+import { ORDER_TYPES, PORTFOLIO_CONFIG, QUOTE_CURRENCIES } from "../constants";
+import { formatPrice, formatQuantity } from "../utils/formatters";
+import { getAssetQuote } from "../utils/quotes";
 
 interface PurchaseFormProps {
   cryptoData: CryptoAsset[];
+  currency: QuoteCurrency;
   formData: PurchaseFormData;
   formErrors: FormErrors;
+  submitting: boolean;
+  estimate: OrderEstimate | null;
+  heldQuantity: number;
+  limits: OrderLimits | null;
   onSubmit: (e: React.FormEvent) => void;
   onUpdateField: (field: keyof PurchaseFormData, value: string) => void;
 }
 
+/** Order sides offered by the buy/sell toggle */
+const ORDER_SIDES: { value: OrderSide; label: string }[] = [
+  { value: "buy", label: "Buy" },
+  { value: "sell", label: "Sell" },
+];
+
+/**
+ * Formats a number for a numeric input without trailing zeros
+ *
+ * @param {number} value - Value to display
+ * @param {number} fractionDigits - Maximum decimal places
+ * @returns {string} Input value, e.g. "0.0015"
+ */
+const toInputValue = (value: number, fractionDigits: number): string =>
+  parseFloat(value.toFixed(fractionDigits)).toString();
+
 /**
- * PurchaseForm component that allows users to simulate cryptocurrency purchases
- * 
+ * PurchaseForm component that allows users to simulate cryptocurrency buys and sells
+ *
  * Features:
- * - USD amount input with currency symbol and validation
+ * - Buy/Sell toggle
+ * - Market, limit or stop order type with a trigger price input
+ * - Order size entered as an amount in the selected quote currency or as a coin
+ *   quantity, with the other field converted live at the current price
  * - Dropdown selection for cryptocurrency asset
+ * - Held quantity with a "Max" shortcut when selling
+ * - Fill price, fee, slippage and total estimate before the order is placed
+ *   (at the trigger price for limit and stop orders)
  * - Form validation with error display
  * - Responsive inline layout
- * - Submit button with loading/disabled states
+ * - Submit button with loading/disabled states while the order is placed
  * - Dark mode support
- * - Configurable purchase limits from constants
- * 
+ * - Purchase limits (configured in USD) shown in the quote currency once its rate is known
+ *
  * @param {PurchaseFormProps} props - Component props
  * @param {CryptoAsset[]} props.cryptoData - Available cryptocurrencies for selection
+ * @param {QuoteCurrency} props.currency - Quote currency of the amount and listed prices
  * @param {PurchaseFormData} props.formData - Current form data state
  * @param {FormErrors} props.formErrors - Form validation errors
+ * @param {boolean} props.submitting - Whether an order is being placed
+ * @param {OrderEstimate | null} props.estimate - Estimated fill, null until the order is sized
+ * @param {number} props.heldQuantity - Quantity held of the selected asset
+ * @param {OrderLimits | null} props.limits - Purchase limits in the quote currency, null while unknown
  * @param {Function} props.onSubmit - Form submission handler
  * @param {Function} props.onUpdateField - Field update handler
  */
 export default function PurchaseForm({
   cryptoData,
+  currency,
   formData,
   formErrors,
+  submitting,
+  estimate,
+  heldQuantity,
+  limits,
   onSubmit,
   onUpdateField,
 }: PurchaseFormProps) {
+  const minAmount = limits && formatPrice(limits.min, currency);
+  const maxAmount = limits && formatPrice(limits.max, currency);
+  const limitsText = limits && `between ${minAmount} and ${maxAmount}`;
+  const isSell = formData.side === "sell";
+  const sideLabel = isSell ? "Sell" : "Buy";
+  const selectedAsset = cryptoData.find(
+    (crypto) => crypto.id.toString() === formData.selectedAsset
+  );
+  const coinSymbol = selectedAsset?.symbol ?? "";
+  const triggerLabel = ORDER_TYPES[formData.orderType].triggerLabel;
+
+  // The field the user is not typing in shows the live conversion
+  const amountValue = formData.entryMode === "amount"
+    ? formData.amount
+    : estimate ? toInputValue(estimate.value, QUOTE_CURRENCIES[currency].fractionDigits) : "";
+  const quantityValue = formData.entryMode === "quantity"
+    ? formData.quantity
+    : estimate ? toInputValue(estimate.quantity, PORTFOLIO_CONFIG.QUANTITY_DECIMALS) : "";
+
   return (
-    <section 
+    <section
       className="w-full bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg p-4 mb-6"
       aria-labelledby="purchase-form-title"
     >
-      <h2 id="purchase-form-title" className="sr-only">Purchase Cryptocurrency</h2>
-      <form onSubmit={onSubmit} className="w-full" role="form" aria-label="Cryptocurrency purchase form">
+      <h2 id="purchase-form-title" className="sr-only">Buy or Sell Cryptocurrency</h2>
+      <form onSubmit={onSubmit} className="w-full" role="form" aria-label="Cryptocurrency order form">
         <div className="flex items-center gap-4 flex-wrap w-full">
-          <span className="text-gray-700 dark:text-gray-300 font-medium">
-            Buy
-          </span>
+          <div className="flex gap-1 flex-shrink-0" role="radiogroup" aria-label="Order side">
+            {ORDER_SIDES.map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => onUpdateField("side", value)}
+                className={`px-3 py-2 rounded text-sm font-medium transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${
+                  formData.side === value
+                    ? "bg-blue-500 text-white"
+                    : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                }`}
+                role="radio"
+                aria-checked={formData.side === value}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-shrink-0">
+            <label htmlFor="order-type" className="sr-only">
+              Order type
+            </label>
+            <select
+              id="order-type"
+              value={formData.orderType}
+              onChange={(e) => onUpdateField("orderType", e.target.value)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+              aria-describedby="order-type-help"
+            >
+              {(Object.keys(ORDER_TYPES) as OrderType[]).map((type) => (
+                <option key={type} value={type}>
+                  {ORDER_TYPES[type].label}
+                </option>
+              ))}
+            </select>
+            <div id="order-type-help" className="sr-only">
+              Market orders fill immediately. Limit orders fill once the price reaches your limit or better;
+              stop orders fill once the price moves through your stop price.
+            </div>
+          </div>
+
+          {triggerLabel && (
+            <div className="relative flex-shrink-0">
+              <label htmlFor="trigger-price" className="sr-only">
+                {triggerLabel} in {currency}
+              </label>
+              <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500" aria-hidden="true">
+                @
+              </span>
+              <input
+                id="trigger-price"
+                type="number"
+                value={formData.triggerPrice}
+                onChange={(e) => onUpdateField("triggerPrice", e.target.value)}
+                placeholder={triggerLabel}
+                min="0"
+                step="any"
+                className={`w-36 pl-8 pr-4 py-2 border rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-gray-100 ${
+                  formErrors.triggerPrice
+                    ? "border-red-500 focus:ring-red-500"
+                    : "border-gray-300 dark:border-gray-600"
+                }`}
+                aria-invalid={formErrors.triggerPrice ? "true" : "false"}
+                aria-describedby={formErrors.triggerPrice ? "trigger-price-error" : undefined}
+              />
+              {formErrors.triggerPrice && (
+                <div id="trigger-price-error" className="text-red-500 text-sm mt-1" role="alert">
+                  {formErrors.triggerPrice}
+                </div>
+              )}
+            </div>
+          )}
 
           <div className="relative flex-shrink-0">
             <label htmlFor="purchase-amount" className="sr-only">
-              Purchase amount in USD (minimum $0.01, maximum ${PURCHASE_LIMITS.MAX_AMOUNT.toLocaleString()})
+              Order amount in {currency}{limitsText && ` (${limitsText})`}
             </label>
             <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500" aria-hidden="true">
-              $
+              {QUOTE_CURRENCIES[currency].symbol}
             </span>
             <input
               id="purchase-amount"
               type="number"
-              value={formData.amount}
+              value={amountValue}
               onChange={(e) => onUpdateField("amount", e.target.value)}
               placeholder="0.00"
               min="0"
-              max={PURCHASE_LIMITS.MAX_AMOUNT.toString()}
-              step={PURCHASE_LIMITS.AMOUNT_STEP.toString()}
+              max={limits?.max.toString()}
+              step={(10 ** -QUOTE_CURRENCIES[currency].fractionDigits).toString()}
               className={`w-32 pl-8 pr-4 py-2 border rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-gray-100 ${
                 formErrors.amount
                   ? "border-red-500 focus:ring-red-500"
@@ -80,7 +216,45 @@ export default function PurchaseForm({
               </div>
             )}
             <div id="amount-help" className="sr-only">
-              Enter the USD amount you want to purchase, between $0.01 and ${PURCHASE_LIMITS.MAX_AMOUNT.toLocaleString()}
+              Enter the {currency} amount you want to {sideLabel.toLowerCase()}{limitsText && `, ${limitsText}`}.
+              The quantity is calculated from the {triggerLabel ? triggerLabel.toLowerCase() : "current price"}.
+            </div>
+          </div>
+
+          <span className="text-gray-700 dark:text-gray-300 font-medium" aria-hidden="true">
+            ≈
+          </span>
+
+          <div className="relative flex-shrink-0">
+            <label htmlFor="purchase-quantity" className="sr-only">
+              Quantity in {coinSymbol || "coins"}
+            </label>
+            <input
+              id="purchase-quantity"
+              type="number"
+              value={quantityValue}
+              onChange={(e) => onUpdateField("quantity", e.target.value)}
+              placeholder="0.00000000"
+              min="0"
+              step="any"
+              className={`w-40 pl-3 pr-14 py-2 border rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:border-gray-600 dark:text-gray-100 ${
+                formErrors.quantity
+                  ? "border-red-500 focus:ring-red-500"
+                  : "border-gray-300 dark:border-gray-600"
+              }`}
+              aria-invalid={formErrors.quantity ? "true" : "false"}
+              aria-describedby={formErrors.quantity ? "quantity-error" : "quantity-help"}
+            />
+            <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500 font-mono text-sm" aria-hidden="true">
+              {coinSymbol}
+            </span>
+            {formErrors.quantity && (
+              <div id="quantity-error" className="text-red-500 text-sm mt-1" role="alert">
+                {formErrors.quantity}
+              </div>
+            )}
+            <div id="quantity-help" className="sr-only">
+              Or enter the number of coins to {sideLabel.toLowerCase()}. The amount is calculated from the {triggerLabel ? triggerLabel.toLowerCase() : "current price"}.
             </div>
           </div>
 
@@ -90,7 +264,7 @@ export default function PurchaseForm({
 
           <div className="flex-grow">
             <label htmlFor="crypto-select" className="sr-only">
-              Choose cryptocurrency to purchase
+              Choose cryptocurrency to {sideLabel.toLowerCase()}
             </label>
             <select
               id="crypto-select"
@@ -108,7 +282,7 @@ export default function PurchaseForm({
               <option value="">Choose an asset...</option>
               {cryptoData.map((crypto) => (
                 <option key={crypto.id} value={crypto.id}>
-                  {crypto.name} ({crypto.symbol}) - {formatPrice(crypto.quote.USD.price)}
+                  {crypto.name} ({crypto.symbol}) - {formatPrice(getAssetQuote(crypto, currency).price, currency)}
                 </option>
               ))}
             </select>
@@ -118,37 +292,106 @@ export default function PurchaseForm({
               </div>
             )}
             <div id="asset-help" className="sr-only">
-              Select a cryptocurrency from the dropdown to purchase
+              Select a cryptocurrency from the dropdown to {sideLabel.toLowerCase()}
             </div>
           </div>
 
           <button
             type="submit"
             className="flex-shrink-0 px-6 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded transition-colors font-medium focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
-            aria-label="Submit cryptocurrency purchase order"
-            disabled={!formData.amount || !formData.selectedAsset}
+            aria-label={`Submit cryptocurrency ${isSell ? "sell" : "purchase"} order`}
+            disabled={!estimate || !formData.selectedAsset || submitting}
+            aria-busy={submitting}
           >
-            Buy
+            {submitting
+              ? `${isSell ? "Selling" : "Buying"}...`
+              : triggerLabel ? `Place ${sideLabel.toLowerCase()} order` : sideLabel}
           </button>
         </div>
 
         <div className="mt-2 w-full">
-          <p className="text-xs text-gray-500 dark:text-gray-400">
-            Minimum: ${PURCHASE_LIMITS.MIN_AMOUNT} • Maximum: $
-            {PURCHASE_LIMITS.MAX_AMOUNT.toLocaleString()}
-          </p>
+          {limits && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Minimum: {minAmount} • Maximum: {maxAmount}
+            </p>
+          )}
+          {isSell && selectedAsset && (
+            <p className="mt-1 flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+              <span>Available: {formatQuantity(heldQuantity, coinSymbol)}</span>
+              {heldQuantity > 0 && (
+                <button
+                  type="button"
+                  onClick={() => onUpdateField("quantity", toInputValue(heldQuantity, PORTFOLIO_CONFIG.QUANTITY_DECIMALS))}
+                  className="px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 font-medium focus:ring-2 focus:ring-blue-500"
+                  aria-label={`Sell all ${formatQuantity(heldQuantity, coinSymbol)}`}
+                >
+                  Max
+                </button>
+              )}
+            </p>
+          )}
           {formErrors.amount && (
             <p className="mt-1 text-sm text-red-600 dark:text-red-400">
               {formErrors.amount}
             </p>
           )}
+          {formErrors.quantity && (
+            <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+              {formErrors.quantity}
+            </p>
+          )}
+          {formErrors.triggerPrice && (
+            <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+              {formErrors.triggerPrice}
+            </p>
+          )}
           {formErrors.asset && (
             <p className="mt-1 text-sm text-red-600 dark:text-red-400">
               {formErrors.asset}
             </p>
           )}
         </div>
+
+        {estimate && triggerLabel && (
+          <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+            Estimated at your {triggerLabel.toLowerCase()}. The order stays open for up to
+            {" "}{PORTFOLIO_CONFIG.PENDING_ORDER_TTL_MS / 3_600_000} hours and fills at the market price once it is reached.
+          </p>
+        )}
+
+        {estimate && (
+          <dl
+            className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs text-gray-600 dark:text-gray-400"
+            aria-label="Order estimate"
+            aria-live="polite"
+          >
+            <div>
+              <dt>Est. fill price</dt>
+              <dd className="font-medium text-gray-900 dark:text-gray-100">
+                {formatPrice(estimate.fillPrice, currency)}
+              </dd>
+            </div>
+            <div>
+              <dt>Slippage ({PORTFOLIO_CONFIG.SLIPPAGE_RATE * 100}%)</dt>
+              <dd className="font-medium text-gray-900 dark:text-gray-100">
+                {formatPrice(estimate.slippage, currency)}
+              </dd>
+            </div>
+            <div>
+              <dt>Fee ({PORTFOLIO_CONFIG.FEE_RATE * 100}%)</dt>
+              <dd className="font-medium text-gray-900 dark:text-gray-100">
+                {formatPrice(estimate.fee, currency)}
+              </dd>
+            </div>
+            <div>
+              <dt>{isSell ? "Est. net proceeds" : "Est. total cost"}</dt>
+              <dd className="font-semibold text-gray-900 dark:text-gray-100">
+                {formatPrice(estimate.total, currency)}
+              </dd>
+            </div>
+          </dl>
+        )}
       </form>
     </section>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,201 @@
+"use client";
+
+import { AssetFilters, QuoteCurrency } from "../types";
+import { API_CONFIG, QUOTE_CURRENCIES } from "../constants";
+import { clearFilter, EMPTY_ASSET_FILTERS, getFilterChips } from "../utils/assetFilters";
+
+interface SearchFiltersProps {
+  filters: AssetFilters;
+  currency: QuoteCurrency;
+  resultCount: number | null;
+  onChange: (filters: AssetFilters) => void;
+}
+
+/** Range inputs, each bound to one numeric filter field */
+type RangeField = "minPrice" | "maxPrice" | "minRank" | "maxRank";
+
+/**
+ * Parses a number input value into a filter bound
+ * Values /api/crypto would reject (negative, or fractional ranks) clear the bound
+ *
+ * @param {string} value - Raw input value
+ * @param {boolean} integer - Whether only positive integers are accepted
+ * @returns {number | null} Bound, or null when the input is empty or invalid
+ */
+const parseBound = (value: string, integer: boolean): number | null => {
+  if (value.trim() === "") return null;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) return null;
+  return integer && (!Number.isInteger(parsed) || parsed < 1) ? null : parsed;
+};
+
+/**
+ * SearchFilters component with the search box, range filters and filter chips
+ * for the listings; the filters are applied by /api/crypto across every asset
+ * before paging
+ *
+ * Features:
+ * - Fuzzy search over name and symbol (focused by the S shortcut)
+ * - Price (in the selected quote currency) and market cap rank ranges
+ * - Removable chip per active filter and a clear-all button
+ * - Result count announced to screen readers as filters change
+ * - Flags ranges whose minimum exceeds their maximum
+ * - Dark mode support
+ *
+ * @param {SearchFiltersProps} props - Component props
+ * @param {AssetFilters} props.filters - Active filters
+ * @param {QuoteCurrency} props.currency - Quote currency of the price range
+ * @param {number | null} props.resultCount - Number of assets matching the filters, null while unknown
+ * @param {Function} props.onChange - Callback with the updated filters
+ */
+export default function SearchFilters({
+  filters,
+  currency,
+  resultCount,
+  onChange,
+}: SearchFiltersProps) {
+  const chips = getFilterChips(filters, currency);
+  const priceInvalid =
+    filters.minPrice !== null && filters.maxPrice !== null && filters.minPrice > filters.maxPrice;
+  const rankInvalid =
+    filters.minRank !== null && filters.maxRank !== null && filters.minRank > filters.maxRank;
+
+  const updateRange = (field: RangeField, value: string) => {
+    onChange({ ...filters, [field]: parseBound(value, field === "minRank" || field === "maxRank") });
+  };
+
+  const inputClass =
+    "px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100 aria-[invalid=true]:border-red-500";
+  const rangeInputClass = `${inputClass} w-28`;
+  const labelClass = "text-sm font-medium text-gray-700 dark:text-gray-300";
+
+  return (
+    <section
+      className="w-full bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg p-4 mb-6"
+      aria-label="Search and filter assets"
+    >
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex flex-col gap-1 grow min-w-[12rem]">
+          <label htmlFor="asset-search" className={labelClass}>
+            Search
+          </label>
+          <input
+            id="asset-search"
+            type="search"
+            value={filters.query}
+            onChange={(e) => onChange({ ...filters, query: e.target.value })}
+            placeholder="Name or symbol, e.g. btc"
+            autoComplete="off"
+            maxLength={API_CONFIG.MAX_SEARCH_LENGTH}
+            className={inputClass}
+            aria-describedby="asset-filter-results"
+          />
+        </div>
+
+        <fieldset className="flex items-end gap-2">
+          <legend className={`${labelClass} mb-1`}>
+            Price ({QUOTE_CURRENCIES[currency].symbol})
+          </legend>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={filters.minPrice ?? ""}
+            onChange={(e) => updateRange("minPrice", e.target.value)}
+            placeholder="Min"
+            className={rangeInputClass}
+            aria-label="Minimum price"
+            aria-invalid={priceInvalid}
+          />
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={filters.maxPrice ?? ""}
+            onChange={(e) => updateRange("maxPrice", e.target.value)}
+            placeholder="Max"
+            className={rangeInputClass}
+            aria-label="Maximum price"
+            aria-invalid={priceInvalid}
+          />
+        </fieldset>
+
+        <fieldset className="flex items-end gap-2">
+          <legend className={`${labelClass} mb-1`}>Rank</legend>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={filters.minRank ?? ""}
+            onChange={(e) => updateRange("minRank", e.target.value)}
+            placeholder="From"
+            className={rangeInputClass}
+            aria-label="Best rank"
+            aria-invalid={rankInvalid}
+          />
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={filters.maxRank ?? ""}
+            onChange={(e) => updateRange("maxRank", e.target.value)}
+            placeholder="To"
+            className={rangeInputClass}
+            aria-label="Worst rank"
+            aria-invalid={rankInvalid}
+          />
+        </fieldset>
+      </div>
+
+      {(priceInvalid || rankInvalid) && (
+        <p className="text-sm text-red-600 dark:text-red-400 mt-2" role="alert">
+          {priceInvalid ? "Minimum price" : "Best rank"} is above the maximum, so nothing can match.
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mt-3">
+        <p
+          id="asset-filter-results"
+          className="text-sm text-gray-600 dark:text-gray-400 mr-2"
+          role="status"
+          aria-live="polite"
+          aria-atomic="true"
+        >
+          {resultCount === null
+            ? "Counting assets…"
+            : chips.length > 0
+              ? `${resultCount} asset${resultCount === 1 ? "" : "s"} match`
+              : `${resultCount} assets listed`}
+        </p>
+
+        {chips.length > 0 && (
+          <ul className="flex flex-wrap gap-2" aria-label="Active filters">
+            {chips.map((chip) => (
+              <li key={chip.key}>
+                <button
+                  type="button"
+                  onClick={() => onChange(clearFilter(filters, chip.key))}
+                  className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm bg-blue-50 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200 hover:bg-blue-100 dark:hover:bg-blue-900/50 focus:ring-2 focus:ring-blue-500"
+                  aria-label={`Remove filter: ${chip.label}`}
+                >
+                  {chip.label}
+                  <span aria-hidden="true">×</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {chips.length > 1 && (
+          <button
+            type="button"
+            onClick={() => onChange(EMPTY_ASSET_FILTERS)}
+            className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline focus:ring-2 focus:ring-blue-500 rounded"
+          >
+            Clear all
+          </button>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,66 @@
+import { formatPercentChange } from "../utils/formatters";
+
+interface SparklineProps {
+  prices: number[];
+  assetName: string;
+  width?: number;
+  height?: number;
+}
+
+/** Vertical inset so the stroke is not clipped at the extremes */
+const STROKE_INSET = 2;
+
+/**
+ * Sparkline component that draws recent prices as a small SVG line
+ *
+ * Features:
+ * - Green when the last price is at or above the first, red otherwise
+ * - Keeps its size with fewer than two prices so layouts do not shift
+ * - Accessible label with the number of updates and the change over them
+ * - Dark mode support
+ *
+ * @param {SparklineProps} props - Component props
+ * @param {number[]} props.prices - Recent prices, oldest first
+ * @param {string} props.assetName - Asset name used in the accessible label
+ * @param {number} [props.width=96] - Width in pixels
+ * @param {number} [props.height=28] - Height in pixels
+ */
+export default function Sparkline({ prices, assetName, width = 96, height = 28 }: SparklineProps) {
+  if (prices.length < 2) {
+    return <span className="inline-block" style={{ width, height }} aria-hidden="true" />;
+  }
+
+  const first = prices[0];
+  const last = prices[prices.length - 1];
+  const low = Math.min(...prices);
+  const span = Math.max(...prices) - low;
+  const points = prices
+    .map((price, index) => {
+      const x = (index / (prices.length - 1)) * width;
+      // Flat series are drawn through the middle
+      const y = span === 0
+        ? height / 2
+        : STROKE_INSET + (1 - (price - low) / span) * (height - STROKE_INSET * 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+  const change = ((last - first) / first) * 100;
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      role="img"
+      aria-label={`${assetName} trend over the last ${prices.length} updates: ${formatPercentChange(change)}`}
+    >
+      <polyline
+        points={points}
+        fill="none"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        className={last >= first ? "stroke-green-600 dark:stroke-green-400" : "stroke-red-600 dark:stroke-red-400"}
+      />
+    </svg>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { CryptoAsset, ViewMode, VirtualItemPosition } from "../types";
+import { BOXED_LAYOUT, LIST_LAYOUT, VIEW_MODES } from "../constants";
+import { useGridColumns } from "../hooks/useGridColumns";
+import { useVirtualRows } from "../hooks/useVirtualRows";
+
+interface VirtualAssetListProps {
+  assets: CryptoAsset[];
+  viewMode: ViewMode;
+  header?: React.ReactNode;
+  renderAsset: (asset: CryptoAsset, position: VirtualItemPosition) => React.ReactNode;
+}
+
+/**
+ * VirtualAssetList component rendering the asset list or card grid with
+ * windowed rendering, so only the rows near the viewport are in the DOM
+ *
+ * Features:
+ * - List view as a `role="table"` below the given header row, card grid as a
+ *   `role="grid"` whose column count follows the viewport width
+ * - Fixed row heights (LIST_LAYOUT, BOXED_LAYOUT), so offsets stay stable
+ *   across refreshes
+ * - `aria-rowcount`/`aria-rowindex` (and `aria-colcount`/`aria-colindex` in the
+ *   grid) describe the full set to screen readers
+ * - Single tab stop with Arrow keys (Left/Right between cards in the grid) and
+ *   Home/End moving focus, scrolling unrendered rows into view first
+ *
+ * @param {VirtualAssetListProps} props - Component props
+ * @param {CryptoAsset[]} props.assets - Assets in display order
+ * @param {ViewMode} props.viewMode - List or card grid
+ * @param {React.ReactNode} [props.header] - Header row of the list view
+ * @param {Function} props.renderAsset - Renders an asset at its position
+ */
+export default function VirtualAssetList({ assets, viewMode, header, renderAsset }: VirtualAssetListProps) {
+  const isList = viewMode === VIEW_MODES.LIST;
+  const gridColumns = useGridColumns();
+  const columns = isList ? 1 : gridColumns;
+  const rowCount = Math.ceil(assets.length / columns);
+  const { containerRef, start, end, paddingTop, paddingBottom, scrollToRow } = useVirtualRows<HTMLDivElement>({
+    rowCount,
+    rowHeight: isList ? LIST_LAYOUT.ROW_HEIGHT : BOXED_LAYOUT.CARD_HEIGHT + BOXED_LAYOUT.GAP,
+  });
+
+  // Tab stop of the collection, and an item to focus once it is rendered
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [pendingFocus, setPendingFocus] = useState<number | null>(null);
+  const tabStop = Math.min(activeIndex, Math.max(assets.length - 1, 0));
+  // The header takes the first row of the list table
+  const firstRowIndex = isList ? 2 : 1;
+
+  useEffect(() => {
+    if (pendingFocus === null) return;
+    const item = containerRef.current?.querySelector<HTMLElement>(`[data-index="${pendingFocus}"]`);
+    if (item) {
+      item.focus({ preventScroll: true });
+      setPendingFocus(null);
+    }
+  }, [pendingFocus, start, end, containerRef]);
+
+  /**
+   * Moves focus between items with the arrow keys, Home and End
+   * Keys pressed on buttons and links inside an item keep their default behavior
+   *
+   * @param {React.KeyboardEvent} event - Key event from within the rows
+   */
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const item = event.target as HTMLElement;
+    if (!item.dataset.index) return;
+    const index = Number(item.dataset.index);
+
+    const targets: Record<string, number> = {
+      ArrowDown: index + columns,
+      ArrowUp: index - columns,
+      Home: 0,
+      End: assets.length - 1,
+      ...(isList ? {} : { ArrowRight: index + 1, ArrowLeft: index - 1 }),
+    };
+    const target = targets[event.key];
+    if (target === undefined || target < 0 || target >= assets.length) return;
+
+    event.preventDefault();
+    setActiveIndex(target);
+    setPendingFocus(target);
+    scrollToRow(Math.floor(target / columns));
+  };
+
+  /**
+   * Makes a focused item the tab stop, e.g. after a click
+   *
+   * @param {React.FocusEvent} event - Focus event from within the rows
+   */
+  const handleFocus = (event: React.FocusEvent<HTMLDivElement>) => {
+    const { index } = (event.target as HTMLElement).dataset;
+    if (index) {
+      setActiveIndex(Number(index));
+    }
+  };
+
+  /**
+   * Position of the asset at an index
+   *
+   * @param {number} index - Index among all assets
+   * @returns {VirtualItemPosition} Position for rendering
+   */
+  const positionOf = (index: number): VirtualItemPosition => ({
+    index,
+    row: Math.floor(index / columns) + firstRowIndex,
+    column: (index % columns) + 1,
+    active: index === tabStop,
+  });
+
+  const rowsProps = {
+    ref: containerRef,
+    style: { paddingTop, paddingBottom },
+    onKeyDown: handleKeyDown,
+    onFocus: handleFocus,
+  };
+
+  if (isList) {
+    return (
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 overflow-hidden"
+        role="table"
+        aria-label="Cryptocurrency prices in list format"
+        aria-rowcount={assets.length + 1}
+      >
+        {header}
+
+        <div {...rowsProps} className="divide-y divide-gray-200 dark:divide-gray-700" role="rowgroup">
+          {assets.slice(start, end).map((asset, offset) => renderAsset(asset, positionOf(start + offset)))}
+        </div>
+      </div>
+    );
+  }
+
+  const rows = Array.from({ length: end - start }, (_, offset) => start + offset);
+
+  return (
+    <div
+      role="grid"
+      aria-label="Cryptocurrency prices in card format"
+      aria-rowcount={rowCount}
+      aria-colcount={columns}
+    >
+      <div {...rowsProps} role="rowgroup">
+        {rows.map((row) => (
+          <div
+            key={row}
+            className="grid"
+            style={{
+              gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+              gap: BOXED_LAYOUT.GAP,
+              height: BOXED_LAYOUT.CARD_HEIGHT + BOXED_LAYOUT.GAP,
+              paddingBottom: BOXED_LAYOUT.GAP,
+            }}
+            role="row"
+            aria-rowindex={row + firstRowIndex}
+          >
+            {assets
+              .slice(row * columns, (row + 1) * columns)
+              .map((asset, offset) => renderAsset(asset, positionOf(row * columns + offset)))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import { useState } from "react";
+import { Watchlist } from "../types";
+import { WATCHLIST_CONFIG } from "../constants";
+
+interface WatchlistManagerProps {
+  watchlists: Watchlist[];
+  starTarget: Watchlist | null;
+  onCreate: (name: string) => string | null;
+  onRename: (id: string, name: string) => string | null;
+  onDelete: (id: string) => void;
+  onAddSymbol: (symbol: string) => string | null;
+  onExport: () => string;
+  onImport: (text: string) => string | null;
+}
+
+/** Outcome of the last action, announced below the controls */
+interface ManagerMessage {
+  text: string;
+  error: boolean;
+}
+
+/**
+ * WatchlistManager component with the controls for creating and editing watchlists
+ *
+ * Features:
+ * - Collapsible panel (`aria-expanded`) so the controls stay out of the way
+ * - Create, rename and delete watchlists
+ * - Add assets by ticker symbol, including ones outside the top-N listing
+ * - Export every watchlist as a JSON file and import (merge) such a file
+ * - Acts on the watchlist stars currently add to; the outcome of each action
+ *   is announced through a status or alert region
+ * - Dark mode support
+ *
+ * @param {WatchlistManagerProps} props - Component props
+ * @param {Watchlist[]} props.watchlists - Every watchlist
+ * @param {Watchlist | null} props.starTarget - Watchlist that stars and edits act on
+ * @param {Function} props.onCreate - Creates a watchlist, returning a validation error or null
+ * @param {Function} props.onRename - Renames a watchlist, returning a validation error or null
+ * @param {Function} props.onDelete - Deletes a watchlist
+ * @param {Function} props.onAddSymbol - Adds a symbol to the star target, returning an error or null
+ * @param {Function} props.onExport - Returns the export file contents
+ * @param {Function} props.onImport - Merges an export file, returning an error or null
+ */
+export default function WatchlistManager({
+  watchlists,
+  starTarget,
+  onCreate,
+  onRename,
+  onDelete,
+  onAddSymbol,
+  onExport,
+  onImport,
+}: WatchlistManagerProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [rename, setRename] = useState("");
+  const [symbol, setSymbol] = useState("");
+  const [message, setMessage] = useState<ManagerMessage | null>(null);
+
+  /**
+   * Shows the outcome of an action
+   *
+   * @param {string | null} error - Error returned by the action, null on success
+   * @param {string} success - Message shown on success
+   * @returns {boolean} True when the action succeeded
+   */
+  const report = (error: string | null, success: string) => {
+    setMessage({ text: error ?? success, error: error !== null });
+    return error === null;
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (report(onCreate(newName), `Created ${newName.trim()}.`)) {
+      setNewName("");
+    }
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (starTarget && report(onRename(starTarget.id, rename), `Renamed ${starTarget.name} to ${rename.trim()}.`)) {
+      setRename("");
+    }
+  };
+
+  const handleDelete = () => {
+    if (starTarget && window.confirm(`Delete the watchlist ${starTarget.name}?`)) {
+      onDelete(starTarget.id);
+      report(null, `Deleted ${starTarget.name}.`);
+    }
+  };
+
+  const handleAddSymbol = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = starTarget?.name ?? WATCHLIST_CONFIG.DEFAULT_NAME;
+    if (report(onAddSymbol(symbol), `Added ${symbol.trim().toUpperCase()} to ${name}.`)) {
+      setSymbol("");
+    }
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([onExport()], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = WATCHLIST_CONFIG.EXPORT_FILE_NAME;
+    link.click();
+    URL.revokeObjectURL(url);
+    report(null, `Exported ${watchlists.length} watchlist${watchlists.length === 1 ? "" : "s"}.`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so importing the same file again still fires a change
+    e.target.value = "";
+    if (!file) return;
+    report(onImport(await file.text()), `Imported ${file.name}.`);
+  };
+
+  const inputClass =
+    "px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100";
+  const buttonClass =
+    "px-3 py-2 rounded-md text-sm font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <section
+      className="w-full bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg p-4 mb-6"
+      aria-labelledby="watchlists-title"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 id="watchlists-title" className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+          Watchlists
+        </h2>
+        <button
+          type="button"
+          onClick={() => setExpanded((current) => !current)}
+          className={buttonClass}
+          aria-expanded={expanded}
+          aria-controls="watchlist-controls"
+        >
+          {expanded ? "Hide" : "Manage"}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+        {starTarget
+          ? <>Stars add assets to <strong>{starTarget.name}</strong> ({starTarget.symbols.length}/{WATCHLIST_CONFIG.MAX_ASSETS}).</>
+          : <>Star an asset to start a {WATCHLIST_CONFIG.DEFAULT_NAME} watchlist.</>}
+      </p>
+
+      {expanded && (
+        <div id="watchlist-controls" className="grid gap-4 mt-4 md:grid-cols-2">
+          <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-2">
+            <div className="flex flex-col gap-1">
+              <label htmlFor="watchlist-new-name" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                New watchlist
+              </label>
+              <input
+                id="watchlist-new-name"
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                maxLength={WATCHLIST_CONFIG.MAX_NAME_LENGTH}
+                className={inputClass}
+              />
+            </div>
+            <button type="submit" className={buttonClass}>
+              Create
+            </button>
+          </form>
+
+          <form onSubmit={handleAddSymbol} className="flex flex-wrap items-end gap-2">
+            <div className="flex flex-col gap-1">
+              <label htmlFor="watchlist-symbol" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Add symbol to {starTarget?.name ?? WATCHLIST_CONFIG.DEFAULT_NAME}
+              </label>
+              <input
+                id="watchlist-symbol"
+                type="text"
+                value={symbol}
+                onChange={(e) => setSymbol(e.target.value)}
+                placeholder="e.g. ETH"
+                autoCapitalize="characters"
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+            <button type="submit" className={buttonClass}>
+              Add
+            </button>
+          </form>
+
+          {starTarget && (
+            <form onSubmit={handleRename} className="flex flex-wrap items-end gap-2">
+              <div className="flex flex-col gap-1">
+                <label htmlFor="watchlist-rename" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Rename {starTarget.name}
+                </label>
+                <input
+                  id="watchlist-rename"
+                  type="text"
+                  value={rename}
+                  onChange={(e) => setRename(e.target.value)}
+                  maxLength={WATCHLIST_CONFIG.MAX_NAME_LENGTH}
+                  className={inputClass}
+                />
+              </div>
+              <button type="submit" className={buttonClass}>
+                Rename
+              </button>
+              <button type="button" onClick={handleDelete} className={buttonClass}>
+                Delete
+              </button>
+            </form>
+          )}
+
+          <div className="flex flex-wrap items-end gap-2">
+            <button type="button" onClick={handleExport} className={buttonClass} disabled={watchlists.length === 0}>
+              Export JSON
+            </button>
+            <label className={`${buttonClass} cursor-pointer focus-within:ring-2 focus-within:ring-blue-500`}>
+              Import JSON
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={handleImport}
+                className="sr-only"
+              />
+            </label>
+          </div>
+        </div>
+      )}
+
+      <div aria-live="polite" className="mt-2 text-sm">
+        {message && (
+          <p
+            role={message.error ? "alert" : "status"}
+            className={message.error ? "text-red-600 dark:text-red-400" : "text-green-700 dark:text-green-300"}
+          >
+            {message.text}
+          </p>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -5,10 +5,219 @@
 export const API_CONFIG = {
   /** Interval in milliseconds between auto-refresh requests (10 seconds) */
   REFRESH_INTERVAL: 10000,
-  /** Maximum number of cryptocurrency assets to fetch and display */
-  MAX_CRYPTO_ASSETS: 10,
+  /** Milliseconds after which a listings request is aborted (8 seconds, above UPSTREAM_CONFIG.DEADLINE_MS) */
+  REQUEST_TIMEOUT: 8000,
+  /** Initial retry delay in milliseconds after a failed refresh, doubled on each consecutive failure */
+  RETRY_BASE_DELAY: 2000,
+  /** Upper bound for the retry delay in milliseconds (60 seconds) */
+  RETRY_MAX_DELAY: 60000,
+  /** Size of the browsable asset universe (top N by market cap) */
+  MAX_CRYPTO_ASSETS: 500,
   /** Starting position for API pagination (1-based) */
   API_START_POSITION: 1,
+  /** Number of assets per page when no limit is requested */
+  DEFAULT_PAGE_SIZE: 10,
+  /** Largest page size accepted by /api/crypto (larger limits are capped) */
+  MAX_PAGE_SIZE: 100,
+  /** Page sizes offered by the pagination controls */
+  PAGE_SIZE_OPTIONS: [10, 25, 50, 100],
+  /** Quote currency used when no convert parameter is given */
+  DEFAULT_CONVERT: "USD",
+  /** Quote currencies accepted by the convert parameter (see QUOTE_CURRENCIES) */
+  SUPPORTED_CONVERT: ["USD", "EUR", "GBP", "JPY", "BTC", "ETH"],
+  /** Listing order used when no sort parameter is given */
+  DEFAULT_LISTING_SORT: "market_cap",
+  /** Most assets an `ids` or `symbols` selection may name */
+  MAX_SELECTION_SIZE: 100,
+  /** Sort parameter value ordering search matches best first (only with `q`) */
+  RELEVANCE_SORT: "relevance",
+  /** Longest search query accepted by the `q` parameter, in characters */
+  MAX_SEARCH_LENGTH: 100,
+  /** Milliseconds the search and range filters must stay unchanged before they are requested */
+  FILTER_DEBOUNCE_MS: 300,
+} as const;
+
+/**
+ * Server-side listing sort fields accepted by the /api/crypto sort parameter
+ * Names follow the CoinMarketCap listings API
+ */
+export const LISTING_SORTS = {
+  /** Market capitalization (rank order) */
+  MARKET_CAP: "market_cap",
+  /** Asset name */
+  NAME: "name",
+  /** Ticker symbol */
+  SYMBOL: "symbol",
+  /** Current price */
+  PRICE: "price",
+  /** Price change over the last hour */
+  PERCENT_CHANGE_1H: "percent_change_1h",
+  /** Price change over the last 24 hours */
+  PERCENT_CHANGE_24H: "percent_change_24h",
+  /** Price change over the last 7 days */
+  PERCENT_CHANGE_7D: "percent_change_7d",
+  /** Trading volume over the last 24 hours */
+  VOLUME_24H: "volume_24h",
+  /** Coins in circulation */
+  CIRCULATING_SUPPLY: "circulating_supply",
+} as const;
+
+/**
+ * Display settings for each supported quote currency
+ * Fiat currencies are formatted as Intl currencies, crypto quote currencies
+ * use their own symbol with enough decimals for small-cap prices
+ */
+export const QUOTE_CURRENCIES = {
+  USD: { label: "US Dollar", symbol: "$", crypto: false, fractionDigits: 2 },
+  EUR: { label: "Euro", symbol: "€", crypto: false, fractionDigits: 2 },
+  GBP: { label: "British Pound", symbol: "£", crypto: false, fractionDigits: 2 },
+  JPY: { label: "Japanese Yen", symbol: "¥", crypto: false, fractionDigits: 0 },
+  BTC: { label: "Bitcoin", symbol: "₿", crypto: true, fractionDigits: 8 },
+  ETH: { label: "Ether", symbol: "Ξ", crypto: true, fractionDigits: 6 },
+} as const;
+
+/**
+ * Market data providers that can back the /api/crypto endpoint
+ * Selected at runtime through the MARKET_DATA_PROVIDER environment variable
+ */
+export const MARKET_DATA_PROVIDERS = {
+  /** CoinMarketCap Pro API (requires COINMARKETCAP_API_KEY) */
+  COINMARKETCAP: "coinmarketcap",
+  /** CoinGecko public API (COINGECKO_API_KEY is optional) */
+  COINGECKO: "coingecko",
+  /** Offline fixture provider with deterministic random-walk prices */
+  MOCK: "mock",
+} as const;
+
+/**
+ * Configuration for the offline mock market data provider
+ * Keeps generated prices reproducible between runs
+ */
+export const MOCK_PROVIDER_CONFIG = {
+  /** Default seed for the random walk (override with MOCK_PROVIDER_SEED) */
+  DEFAULT_SEED: 42,
+  /** Maximum relative price move per step for regular assets (0.5%) */
+  VOLATILITY: 0.005,
+  /** Maximum relative price move per step for stablecoins (0.01%) */
+  STABLE_VOLATILITY: 0.0001,
+  /** Random-walk steps that stand for one hour when deriving percent changes */
+  STEPS_PER_HOUR: 1,
+  /** Steps of price history kept per asset (7 days) */
+  HISTORY_STEPS: 168,
+  /** Fixed fiat exchange rates (units per USD); BTC/ETH quotes use the mock prices */
+  FIAT_RATES: { USD: 1, EUR: 0.92, GBP: 0.79, JPY: 151.5 },
+} as const;
+
+/**
+ * Server-side quote cache configuration for the /api/crypto route
+ * Bounds how often upstream providers are called regardless of client count
+ */
+export const QUOTE_CACHE_CONFIG = {
+  /** Minimum time between upstream refreshes in ms (override with QUOTE_CACHE_TTL_MS) */
+  DEFAULT_TTL_MS: 60000,
+  /** Maximum snapshot age served while revalidating in the background (10 minutes) */
+  MAX_STALE_MS: 600000,
+  /** Upstream credits allowed per window (override with UPSTREAM_CREDIT_BUDGET) */
+  DEFAULT_CREDIT_BUDGET: 333,
+  /** Length of the credit budgeting window (24 hours) */
+  CREDIT_WINDOW_MS: 86400000,
+  /** Most `ids`/`symbols` selections cached at once; least recently used ones are evicted */
+  MAX_SELECTION_ENTRIES: 200,
+} as const;
+
+/**
+ * Resilience settings for requests to upstream market data providers
+ * Applied to every provider request (see app/lib/upstream)
+ */
+export const UPSTREAM_CONFIG = {
+  /** Time allowed for one upstream attempt in ms */
+  TIMEOUT_MS: 4000,
+  /**
+   * Time allowed for one upstream request in ms, retries and their delays included
+   * Kept below API_CONFIG.REQUEST_TIMEOUT, so the server answers (with a stale
+   * snapshot or an error) before the browser gives up on it
+   */
+  DEADLINE_MS: 6000,
+  /** Retries after a 429, 5xx or network error */
+  MAX_RETRIES: 2,
+  /** Delay before the first retry in ms, doubled for each further retry */
+  RETRY_BASE_DELAY_MS: 500,
+  /** Longest Retry-After waited for before failing instead (5 seconds) */
+  MAX_RETRY_DELAY_MS: 5000,
+  /** HTTP statuses that are retried */
+  RETRYABLE_STATUSES: [429, 500, 502, 503, 504],
+  /** Consecutive failed requests after which the circuit opens */
+  CIRCUIT_FAILURE_THRESHOLD: 5,
+  /** Time an open circuit short-circuits requests before letting one through (30 seconds) */
+  CIRCUIT_COOLDOWN_MS: 30000,
+} as const;
+
+/**
+ * Server-side logging and metrics configuration (see app/lib/logger and app/lib/metrics)
+ */
+export const OBSERVABILITY_CONFIG = {
+  /** Lowest level written to the log (override with LOG_LEVEL) */
+  DEFAULT_LOG_LEVEL: "info",
+  /** Header carrying the request id, accepted from clients and set on every API response */
+  REQUEST_ID_HEADER: "X-Request-Id",
+  /** Upper bounds in seconds of the latency histogram buckets */
+  LATENCY_BUCKETS: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+} as const;
+
+/**
+ * Client error reporting configuration (see app/utils/clientErrors and POST /api/client-errors)
+ */
+export const CLIENT_ERROR_CONFIG = {
+  /** Endpoint receiving client error reports */
+  ENDPOINT: "/api/client-errors",
+  /** Log file reports are appended to, relative to the working directory (override with CLIENT_ERROR_LOG_PATH) */
+  DEFAULT_LOG_PATH: ".data/client-errors.log",
+  /** Size at which the log file is rotated to `<path>.1` (5 MB) */
+  MAX_LOG_BYTES: 5 * 1024 * 1024,
+  /** Longest message kept, in characters */
+  MAX_MESSAGE_LENGTH: 1000,
+  /** Longest stack or component stack kept, in characters */
+  MAX_STACK_LENGTH: 8000,
+  /** Longest route or app version accepted, in characters */
+  MAX_FIELD_LENGTH: 200,
+  /** Largest report body accepted, in bytes (16 KB) */
+  MAX_BODY_BYTES: 16 * 1024,
+  /** Reports accepted per client address within RATE_LIMIT_WINDOW_MS */
+  RATE_LIMIT: 10,
+  /** Rate limit window (1 minute) */
+  RATE_LIMIT_WINDOW_MS: 60000,
+  /** Client addresses tracked at once; reports from new addresses are limited once full */
+  MAX_TRACKED_CLIENTS: 1000,
+  /** Reports a page sends at most, so an error loop cannot flood the endpoint */
+  MAX_REPORTS_PER_PAGE: 20,
+} as const;
+
+/**
+ * Time ranges offered by the asset price chart, keyed by HistoryRange
+ * `intervalMs` is the candle width; each range yields 52-120 candles
+ */
+export const HISTORY_RANGES = {
+  "1h": { label: "1H", durationMs: 3600000, intervalMs: 60000 },
+  "24h": { label: "24H", durationMs: 86400000, intervalMs: 900000 },
+  "7d": { label: "7D", durationMs: 604800000, intervalMs: 7200000 },
+  "30d": { label: "30D", durationMs: 2592000000, intervalMs: 21600000 },
+  "1y": { label: "1Y", durationMs: 31536000000, intervalMs: 604800000 },
+} as const;
+
+/**
+ * Server-side price history configuration for /api/crypto/[id]/history
+ */
+export const HISTORY_CONFIG = {
+  /** Range used when no range parameter is given */
+  DEFAULT_RANGE: "24h",
+  /** Time a fetched history is reused before asking the provider again */
+  CACHE_TTL_MS: 60000,
+  /** Minimum spacing between prices recorded from quote cache refreshes */
+  SNAPSHOT_INTERVAL_MS: 60000,
+  /** Recorded prices kept per asset and currency (24 hours at one per minute) */
+  MAX_SNAPSHOTS: 1440,
+  /** Most fetched histories cached at once; expired, then least recently fetched ones are evicted */
+  MAX_CACHE_ENTRIES: 500,
 } as const;
 
 /**
@@ -16,23 +225,202 @@ export const API_CONFIG = {
  * Defines acceptable ranges for form inputs
  */
 export const PURCHASE_LIMITS = {
-  /** Minimum purchase amount in USD */
+  /** Minimum order value in USD, converted to the selected quote currency */
   MIN_AMOUNT: 0.01,
-  /** Maximum purchase amount in USD */
+  /** Maximum order value in USD, converted to the selected quote currency */
   MAX_AMOUNT: 5000,
-  /** Step increment for amount input field */
-  AMOUNT_STEP: 0.01,
 } as const;
 
 /**
- * User interface timing and behavior configuration
- * Controls countdown timers and refresh cycles
+ * Simulated portfolio configuration
+ * Orders are filled at the cached market price and persisted to a JSON file
+ */
+export const PORTFOLIO_CONFIG = {
+  /** Ledger file, relative to the working directory (override with PORTFOLIO_STORE_PATH) */
+  DEFAULT_STORE_PATH: ".data/portfolio.json",
+  /** Currency cost basis and valuations are tracked in */
+  BASE_CURRENCY: "USD",
+  /** Endpoint accepting simulated orders */
+  ORDERS_URL: "/api/orders",
+  /** Endpoint returning the valued portfolio */
+  PORTFOLIO_URL: "/api/portfolio",
+  /** Trading fee charged on the filled value of every order (0.5%) */
+  FEE_RATE: 0.005,
+  /** Estimated price slippage against the order side (0.1%) */
+  SLIPPAGE_RATE: 0.001,
+  /** Decimal places used for coin quantities */
+  QUANTITY_DECIMALS: 8,
+  /** How long a confirmed market price stays locked before a requote (15 seconds) */
+  PRICE_LOCK_MS: 15 * 1000,
+  /** Relative price move that invalidates a locked quote (0.5%) */
+  REQUOTE_TOLERANCE: 0.005,
+  /** Lifetime of an open limit or stop order before it expires (24 hours) */
+  PENDING_ORDER_TTL_MS: 24 * 60 * 60 * 1000,
+  /** Resolved limit/stop orders returned with the portfolio for fill notifications */
+  RECENT_RESOLVED_ORDERS: 20,
+} as const;
+
+/**
+ * Order types offered by the order form, keyed by OrderType
+ * `triggerLabel` names the price input shown for limit and stop orders
+ */
+export const ORDER_TYPES = {
+  market: { label: "Market", triggerLabel: null },
+  limit: { label: "Limit", triggerLabel: "Limit price" },
+  stop: { label: "Stop", triggerLabel: "Stop price" },
+} as const;
+
+/**
+ * Client-side rolling price buffer behind the CryptoCard sparklines
+ * Prices are recorded once per data refresh and kept for the browser session
+ */
+export const SPARKLINE_CONFIG = {
+  /** Prices kept per asset (about 5 minutes of 10-second refreshes) */
+  MAX_POINTS: 30,
+  /** sessionStorage key of the persisted buffer */
+  STORAGE_KEY: "crypto-dashboard:price-buffer",
+} as const;
+
+/**
+ * Client-side watchlists, kept in localStorage and exchanged as JSON files
+ */
+export const WATCHLIST_CONFIG = {
+  /** localStorage key of the persisted watchlists */
+  STORAGE_KEY: "crypto-dashboard:watchlists",
+  /** Name of the watchlist created by the first star when none exists */
+  DEFAULT_NAME: "Favorites",
+  /** Longest accepted watchlist name */
+  MAX_NAME_LENGTH: 40,
+  /** Most assets a watchlist can hold (one /api/crypto selection) */
+  MAX_ASSETS: API_CONFIG.MAX_SELECTION_SIZE,
+  /** Version written to and accepted from exported files */
+  EXPORT_VERSION: 1,
+  /** File name offered for exports */
+  EXPORT_FILE_NAME: "watchlists.json",
+} as const;
+
+/**
+ * Client-side price alerts, kept in localStorage
+ */
+export const ALERT_CONFIG = {
+  /** localStorage key of the persisted rules */
+  STORAGE_KEY: "crypto-dashboard:alerts",
+  /** Most rules that can be defined */
+  MAX_RULES: 20,
+  /** Cooldown choices in minutes */
+  COOLDOWN_OPTIONS: [5, 15, 60, 240],
+  /** Cooldown preselected for new rules */
+  DEFAULT_COOLDOWN_MINUTES: 15,
+  /** Percent change windows a change rule can watch */
+  CHANGE_WINDOWS: ["1h", "24h", "7d"],
+  /** Triggers named in one notification before the rest are counted */
+  MAX_LISTED_TRIGGERS: 3,
+  /** Title of browser notifications */
+  NOTIFICATION_TITLE: "Price alert",
+  /** Minimum interval between quote requests for rule assets outside the loaded page (1 minute, the server cache TTL) */
+  QUOTE_REFRESH_MS: 60000,
+} as const;
+
+/**
+ * Toast notification queue and history
+ */
+export const NOTIFICATION_CONFIG = {
+  /** Milliseconds each type stays on screen unless a duration is given */
+  DURATIONS: {
+    success: 5000,
+    info: 5000,
+    error: 8000,
+  },
+  /** Toasts stacked at once; the oldest is dropped beyond this */
+  MAX_VISIBLE: 4,
+  /** Notifications kept in the history drawer */
+  HISTORY_LIMIT: 50,
+} as const;
+
+/**
+ * Home page state kept in the URL, with preferences remembered across visits
+ */
+export const DASHBOARD_STATE_CONFIG = {
+  /** localStorage key of the last-used sort, view mode and currency */
+  STORAGE_KEY: "crypto-dashboard:preferences",
+} as const;
+
+/**
+ * Layout settings for the list view
+ * The grid template is shared by ListHeader and list-view CryptoCard rows so
+ * header and data columns stay aligned (4 columns on small screens, 10 on large)
+ */
+export const LIST_LAYOUT = {
+  /** Tailwind grid classes for header and data rows */
+  GRID_CLASS:
+    "grid grid-cols-[3.5rem_2fr_1fr_1.5fr] lg:grid-cols-[3.5rem_2fr_1fr_1.5fr_repeat(3,1fr)_repeat(3,1.4fr)] gap-4",
+  /** Tailwind classes for columns only shown on large screens */
+  EXTENDED_COLUMN_CLASS: "hidden lg:flex",
+  /** Row height in pixels - fixed so virtualized rows keep their offsets across refreshes */
+  ROW_HEIGHT: 88,
+} as const;
+
+/**
+ * Layout settings for the boxed (card grid) view
+ * Cards have a fixed height and the column count follows the viewport width,
+ * so the virtualized grid can compute row offsets without measuring
+ */
+export const BOXED_LAYOUT = {
+  /** Card height in pixels */
+  CARD_HEIGHT: 320,
+  /** Gap between cards in pixels */
+  GAP: 16,
+  /** Column count per minimum viewport width, widest first (Tailwind md/lg/xl); narrower screens use one column */
+  BREAKPOINTS: [
+    { minWidth: 1280, columns: 4 },
+    { minWidth: 1024, columns: 3 },
+    { minWidth: 768, columns: 2 },
+  ],
+} as const;
+
+/**
+ * Windowed rendering of the asset list and grid
+ * Only rows near the viewport are rendered; the rest are replaced by padding
+ */
+export const VIRTUALIZATION_CONFIG = {
+  /** Rows rendered above and below the viewport */
+  OVERSCAN_ROWS: 4,
+  /** Rows rendered before the viewport has been measured */
+  INITIAL_ROWS: 12,
+} as const;
+
+/**
+ * Live price stream configuration (Server-Sent Events)
+ * Controls server push cadence and client reconnection behavior
  */
-export const UI_CONFIG = {
-  /** Value to reset countdown to after reaching zero (10 seconds) */
-  COUNTDOWN_RESET: 10,
-  /** Initial countdown value when component mounts (10 seconds) */
-  INITIAL_COUNTDOWN: 10,
+export const STREAM_CONFIG = {
+  /** Endpoint streaming price updates as Server-Sent Events */
+  URL: "/api/crypto/stream",
+  /** Interval in milliseconds between server-side price checks (5 seconds) */
+  PUSH_INTERVAL: 5000,
+  /** Interval in milliseconds between keep-alive comments (15 seconds) */
+  HEARTBEAT_INTERVAL: 15000,
+  /** Initial reconnect delay in milliseconds, doubled on each failed attempt */
+  RECONNECT_BASE_DELAY: 1000,
+  /** Upper bound for the reconnect delay in milliseconds (30 seconds) */
+  RECONNECT_MAX_DELAY: 30000,
+  /** Failed attempts after which the client reports polling fallback */
+  MAX_RECONNECT_ATTEMPTS: 5,
+} as const;
+
+/**
+ * Connection states of the live price stream
+ * Drives the status indicator in the header
+ */
+export const STREAM_STATUS = {
+  /** First connection attempt in progress */
+  CONNECTING: "connecting",
+  /** Stream is open and delivering updates */
+  LIVE: "live",
+  /** Stream dropped, reconnecting with backoff while polling */
+  RECONNECTING: "reconnecting",
+  /** Stream unavailable, data is refreshed by interval polling */
+  POLLING: "polling",
 } as const;
 
 /**
@@ -57,6 +445,36 @@ export const SORT_DIRECTIONS = {
   DESC: "desc",
 } as const;
 
+/**
+ * Client-side sorting of the asset list
+ */
+export const SORT_CONFIG = {
+  /** Market cap rank, sorted on the dashboard as reverse market cap order */
+  RANK: "rank",
+  /** Maximum number of columns in a multi-column sort */
+  MAX_KEYS: 3,
+} as const;
+
+/**
+ * HTTP status and retryability of each API error code
+ */
+export const API_ERRORS = {
+  INVALID_QUERY: { status: 400, retryable: false },
+  INVALID_ORDER: { status: 400, retryable: false },
+  ORDER_REJECTED: { status: 422, retryable: false },
+  PRICE_MOVED: { status: 409, retryable: true },
+  ORDER_NOT_FOUND: { status: 404, retryable: false },
+  ORDER_NOT_OPEN: { status: 409, retryable: false },
+  ASSET_NOT_FOUND: { status: 404, retryable: false },
+  UPSTREAM_FAILED: { status: 502, retryable: true },
+  UPSTREAM_UNAVAILABLE: { status: 503, retryable: true },
+  UPSTREAM_TIMEOUT: { status: 504, retryable: true },
+  INVALID_REPORT: { status: 400, retryable: false },
+  RATE_LIMITED: { status: 429, retryable: true },
+  REPORT_TOO_LARGE: { status: 413, retryable: false },
+  INTERNAL_ERROR: { status: 500, retryable: true },
+} as const;
+
 /**
  * User-facing error messages for various failure scenarios
  * Provides consistent, friendly error messaging throughout the application
@@ -64,20 +482,154 @@ export const SORT_DIRECTIONS = {
 export const ERROR_MESSAGES = {
   /** API data fetching failed */
   FETCH_FAILED: "Failed to fetch cryptocurrency data",
+  /** Listings request aborted after API_CONFIG.REQUEST_TIMEOUT */
+  REQUEST_TIMEOUT: "The request timed out",
+  /** Listings request failed before reaching the server */
+  NETWORK_ERROR: "Could not reach the server",
   /** Purchase form validation - missing amount */
-  AMOUNT_REQUIRED: "USD amount is required",
+  AMOUNT_REQUIRED: "Amount is required",
+  /** Purchase form validation - missing quantity */
+  QUANTITY_REQUIRED: "Quantity is required",
+  /** Purchase form validation - quantity must be positive */
+  QUANTITY_TOO_LOW: "Quantity must be greater than 0",
+  /** Order form validation - missing limit/stop price */
+  TRIGGER_PRICE_REQUIRED: "Trigger price is required",
+  /** Order form validation - non-positive limit/stop price */
+  TRIGGER_PRICE_TOO_LOW: "Trigger price must be greater than 0",
+  /** Sell validation - quantity exceeds the held balance */
+  INSUFFICIENT_HOLDINGS: "Sell quantity exceeds your holdings",
   /** Purchase form validation - non-numeric input */
   INVALID_NUMBER: "Please enter a valid number",
   /** Purchase form validation - amount too small */
   AMOUNT_TOO_LOW: "Amount must be greater than 0",
-  /** Purchase form validation - amount exceeds maximum */
-  AMOUNT_TOO_HIGH: `Amount must not exceed $${PURCHASE_LIMITS.MAX_AMOUNT.toLocaleString()}`,
   /** Purchase form validation - no asset selected */
   SELECT_ASSET: "Please select an asset to purchase",
   /** Fallback error message for unexpected scenarios */
   GENERIC_ERROR: "An unknown error occurred",
+  /** Order rejected by /api/orders */
+  INVALID_ORDER: "Invalid order",
+  /** Order validation - malformed asset id */
+  INVALID_ORDER_ASSET: "assetId must be a positive integer",
+  /** Order validation - unsupported side */
+  INVALID_ORDER_SIDE: "side must be buy or sell",
+  /** Order validation - neither or both of amount and quantity given */
+  INVALID_ORDER_SIZE: "Provide either amount or quantity",
+  /** Order validation - non-positive quantity */
+  INVALID_ORDER_QUANTITY: "quantity must be a positive number",
+  /** Order validation - non-positive amount */
+  INVALID_ORDER_AMOUNT: "amount must be a positive number",
+  /** Order validation - unsupported order type */
+  INVALID_ORDER_TYPE: "type must be market, limit or stop",
+  /** Order validation - missing or non-positive trigger price */
+  INVALID_ORDER_TRIGGER: "triggerPrice must be a positive number for limit and stop orders",
+  /** Order validation - non-positive quoted price */
+  INVALID_ORDER_QUOTED_PRICE: "quotedPrice must be a positive number",
+  /** Market price moved beyond the tolerance of the confirmed quote */
+  PRICE_MOVED: "The price moved since your quote. Please review the new price.",
+  /** Order validation - unsupported currency */
+  INVALID_ORDER_CURRENCY: `currency must be one of ${API_CONFIG.SUPPORTED_CONVERT.join(", ")}`,
+  /** Ordered asset has no current quote */
+  ASSET_NOT_QUOTED: `Asset is not quoted among the top ${API_CONFIG.MAX_CRYPTO_ASSETS} cryptocurrencies`,
+  /** Order could not be filled or persisted */
+  ORDER_FAILED: "Failed to place order",
+  /** Cancelled order id does not exist */
+  ORDER_NOT_FOUND: "Order not found",
+  /** Cancelled order already filled, expired or was cancelled */
+  ORDER_NOT_OPEN: "Order is no longer open",
+  /** Open orders could not be listed */
+  ORDERS_FETCH_FAILED: "Failed to load orders",
+  /** Order could not be cancelled */
+  CANCEL_FAILED: "Failed to cancel order",
+  /** Portfolio could not be loaded */
+  PORTFOLIO_FETCH_FAILED: "Failed to load portfolio",
+  /** Listings query rejected by /api/crypto */
+  INVALID_QUERY: "Invalid listings query",
+  /** Listings query validation - start outside the asset universe */
+  INVALID_START: `start must be an integer between 1 and ${API_CONFIG.MAX_CRYPTO_ASSETS}`,
+  /** Listings query validation - non-positive or non-numeric limit */
+  INVALID_LIMIT: "limit must be a positive integer",
+  /** Listings query validation - unsupported quote currency */
+  INVALID_CONVERT: `convert must be one of ${API_CONFIG.SUPPORTED_CONVERT.join(", ")}`,
+  /** Listings query validation - unknown sort field */
+  INVALID_SORT: `sort must be one of ${Object.values(LISTING_SORTS).join(", ")} or ${API_CONFIG.RELEVANCE_SORT}`,
+  /** Listings query validation - unknown sort direction */
+  INVALID_SORT_DIR: "sort_dir must be asc or desc",
+  /** Listings query validation - malformed or oversized secondary sort keys */
+  INVALID_THEN_BY: `then_by must be a comma-separated list of at most ${SORT_CONFIG.MAX_KEYS - 1} field:direction pairs`,
+  /** Listings query validation - malformed or oversized ids list */
+  INVALID_IDS: `ids must be a comma-separated list of at most ${API_CONFIG.MAX_SELECTION_SIZE} positive integers`,
+  /** Listings query validation - malformed or oversized symbols list */
+  INVALID_SYMBOLS: `symbols must be a comma-separated list of at most ${API_CONFIG.MAX_SELECTION_SIZE} ticker symbols`,
+  /** Listings query validation - ids and symbols given together */
+  INVALID_SELECTION: "Use either ids or symbols, not both",
+  /** Listings query validation - search query too long */
+  INVALID_SEARCH: `q must be at most ${API_CONFIG.MAX_SEARCH_LENGTH} characters`,
+  /** Listings query validation - malformed price bound */
+  INVALID_PRICE_BOUND: "min_price and max_price must be non-negative numbers",
+  /** Listings query validation - malformed rank bound */
+  INVALID_RANK_BOUND: "min_rank and max_rank must be positive integers",
+  /** Price history request rejected by /api/crypto/[id]/history */
+  INVALID_HISTORY_QUERY: "Invalid price history query",
+  /** History request validation - non-numeric asset id */
+  INVALID_ASSET_ID: "Asset id must be a positive integer",
+  /** History request validation - unknown range */
+  INVALID_HISTORY_RANGE: `range must be one of ${Object.keys(HISTORY_RANGES).join(", ")}`,
+  /** Price history could not be loaded */
+  HISTORY_FETCH_FAILED: "Failed to load price history",
+  /** History requested for an asset outside the quoted universe and selections */
+  ASSET_NOT_FOUND: "Asset not found",
+  /** Details of ASSET_NOT_FOUND */
+  ASSET_NOT_FOUND_DETAILS: `id is not among the top ${API_CONFIG.MAX_CRYPTO_ASSETS} cryptocurrencies or the quoted watchlist assets`,
+  /** Payload failed runtime validation */
+  INVALID_API_RESPONSE: "Received malformed market data",
+  /** Market data provider answered with an error */
+  UPSTREAM_FAILED: "The market data provider returned an error",
+  /** Market data provider unreachable, rate limiting or short-circuited */
+  UPSTREAM_UNAVAILABLE: "The market data provider is temporarily unavailable",
+  /** Market data provider did not answer within UPSTREAM_CONFIG.DEADLINE_MS */
+  UPSTREAM_TIMEOUT: "The market data provider did not respond in time",
+  /** Client error report rejected by /api/client-errors */
+  INVALID_REPORT: "Invalid error report",
+  /** Report validation - unknown source */
+  INVALID_REPORT_SOURCE: "source must be boundary, window or unhandledrejection",
+  /** Report validation - missing message */
+  INVALID_REPORT_MESSAGE: "message must be a non-empty string",
+  /** Report validation - optional text field of the wrong type */
+  INVALID_REPORT_FIELD: "stack and componentStack must be strings",
+  /** Report validation - missing or oversized route or app version */
+  INVALID_REPORT_CONTEXT: `route and appVersion must be non-empty strings of at most ${CLIENT_ERROR_CONFIG.MAX_FIELD_LENGTH} characters`,
+  /** Client sent more than CLIENT_ERROR_CONFIG.RATE_LIMIT reports per window */
+  RATE_LIMITED: "Too many error reports",
+  /** Report body larger than CLIENT_ERROR_CONFIG.MAX_BODY_BYTES */
+  REPORT_TOO_LARGE: `Error reports must not exceed ${CLIENT_ERROR_CONFIG.MAX_BODY_BYTES} bytes`,
+  /** Error report could not be written to the log */
+  REPORT_FAILED: "Failed to record error report",
   /** Message when no cryptocurrency data is available */
   NO_DATA: "No cryptocurrency data available.",
+  /** Watchlist validation - empty name */
+  WATCHLIST_NAME_REQUIRED: "Watchlist name is required",
+  /** Watchlist validation - name used by another watchlist */
+  WATCHLIST_NAME_TAKEN: "A watchlist with that name already exists",
+  /** Watchlist validation - name longer than WATCHLIST_CONFIG.MAX_NAME_LENGTH */
+  WATCHLIST_NAME_TOO_LONG: `Watchlist name must not exceed ${WATCHLIST_CONFIG.MAX_NAME_LENGTH} characters`,
+  /** Watchlist validation - entry is not a ticker symbol */
+  INVALID_WATCHLIST_SYMBOL: "Enter a ticker symbol such as BTC",
+  /** Watchlist validation - watchlist already holds WATCHLIST_CONFIG.MAX_ASSETS assets */
+  WATCHLIST_FULL: `A watchlist can hold at most ${WATCHLIST_CONFIG.MAX_ASSETS} assets`,
+  /** Imported file is not a watchlist export */
+  WATCHLIST_IMPORT_FAILED: "The file is not a valid watchlist export",
+  /** Alert validation - price alert without a symbol */
+  ALERT_SYMBOL_REQUIRED: "Price alerts need a ticker symbol such as BTC",
+  /** Alert validation - entry is not a ticker symbol */
+  INVALID_ALERT_SYMBOL: "Enter a ticker symbol such as BTC, or leave it empty to watch every asset",
+  /** Alert validation - missing, zero or negative threshold */
+  INVALID_ALERT_THRESHOLD: "Threshold must be a positive number",
+  /** Alert validation - ALERT_CONFIG.MAX_RULES rules already defined */
+  ALERT_LIMIT_REACHED: `At most ${ALERT_CONFIG.MAX_RULES} alerts can be defined`,
+  /** Browser without the Web Notifications API */
+  NOTIFICATIONS_UNSUPPORTED: "This browser does not support notifications",
+  /** Notification permission refused */
+  NOTIFICATIONS_DENIED: "Notifications are blocked for this site in the browser settings",
 } as const;
 
 /**
@@ -87,7 +639,15 @@ export const ERROR_MESSAGES = {
 export const SUCCESS_MESSAGES = {
   /** Message shown after successful purchase form submission */
   PURCHASE_SUBMITTED:
-    "Purchase order submitted! Check browser console for details.",
+    "Purchase order filled! Your portfolio has been updated.",
+  /** Message shown after a sell order is filled */
+  SALE_SUBMITTED:
+    "Sell order filled! Your portfolio has been updated.",
+  /** Message shown after a limit or stop order is accepted */
+  ORDER_PLACED:
+    "Order placed! It will fill when the price reaches your trigger.",
+  /** Message shown after an open order is cancelled */
+  ORDER_CANCELLED: "Order cancelled.",
 } as const;
 
 /**
@@ -101,4 +661,6 @@ export const DEFAULTS = {
   VIEW_MODE: VIEW_MODES.BOXED,
   /** Default sort direction for new sorts */
   SORT_DIRECTION: SORT_DIRECTIONS.ASC,
+  /** Locale used to format prices and numbers */
+  LOCALE: "en-US",
 } as const;
@@ -0,0 +1,91 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { HistoryRange, HistorySource, PriceCandle, PriceHistoryResponse, QuoteCurrency } from "../types";
+import { ERROR_MESSAGES } from "../constants";
+import { describeApiError, parseApiError, readJson } from "../utils/apiValidation";
+import { buildHistoryUrl } from "../utils/historyQuery";
+
+/**
+ * Custom hook for loading the price history of one asset
+ *
+ * Features:
+ * - Fetches candles from /api/crypto/[id]/history for the selected range and currency
+ * - Aborts the previous request when the asset, range or currency changes
+ * - Provides loading and error states
+ *
+ * @param {number | null} assetId - Asset to load, or null to load nothing
+ * @param {QuoteCurrency} currency - Quote currency of the prices
+ * @param {HistoryRange} range - Time span to load
+ *
+ * @returns {Object} Hook state and methods
+ * @returns {PriceCandle[]} candles - Candles in chronological order
+ * @returns {HistorySource | null} source - Where the candles came from
+ * @returns {boolean} loading - True while a request is in flight
+ * @returns {string | null} error - Error message if the last fetch failed
+ * @returns {Function} refetch - Manual refresh function
+ */
+export function useAssetHistory(assetId: number | null, currency: QuoteCurrency, range: HistoryRange) {
+  const [candles, setCandles] = useState<PriceCandle[]>([]);
+  const [source, setSource] = useState<HistorySource | null>(null);
+  const [loading, setLoading] = useState<boolean>(assetId !== null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetches the history, ignoring the result once the signal aborts
+   *
+   * @param {AbortSignal} [signal] - Abort signal of the request
+   */
+  const fetchHistory = useCallback(async (signal?: AbortSignal) => {
+    if (assetId === null) return;
+
+    try {
+      // Drop the previous selection's candles so they are never drawn with the new range
+      setCandles([]);
+      setSource(null);
+      setLoading(true);
+      const response = await fetch(buildHistoryUrl({ id: assetId, convert: currency, range }), { signal });
+
+      const body = await readJson(response);
+
+      if (!response.ok) {
+        const apiError = parseApiError(body, response.status, ERROR_MESSAGES.HISTORY_FETCH_FAILED);
+        throw new Error(describeApiError(apiError));
+      }
+
+      const result = body as PriceHistoryResponse;
+
+      if (!Array.isArray(result.data)) {
+        throw new Error("Invalid API response format");
+      }
+
+      setCandles(result.data);
+      setSource(result.source);
+      setError(null);
+    } catch (err) {
+      if (signal?.aborted) return;
+      console.error("Price history fetch error:", err);
+      setCandles([]);
+      setError(err instanceof Error ? err.message : ERROR_MESSAGES.HISTORY_FETCH_FAILED);
+    } finally {
+      if (!signal?.aborted) {
+        setLoading(false);
+      }
+    }
+  }, [assetId, currency, range]);
+
+  // Load whenever the asset, currency or range changes
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchHistory(controller.signal);
+    return () => controller.abort();
+  }, [fetchHistory]);
+
+  return {
+    candles,
+    source,
+    loading,
+    error,
+    refetch: () => fetchHistory(),
+  };
+}
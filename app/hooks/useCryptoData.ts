@@ -1,93 +1,330 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
-import { CryptoAsset, ApiResponse } from "../types";
-import { API_CONFIG, ERROR_MESSAGES, UI_CONFIG, DEFAULTS } from "../constants";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { CryptoAsset, DegradedState, ListingsRequest, PaginationInfo, QuoteCurrency } from "../types";
+import { API_CONFIG, ERROR_MESSAGES, DEFAULTS, STREAM_CONFIG, STREAM_STATUS } from "../constants";
+import {
+  describeApiError,
+  parseApiError,
+  readJson,
+  reportDroppedRecords,
+  validateApiResponse,
+  validateStreamSnapshot,
+  validateStreamUpdate,
+} from "../utils/apiValidation";
+import { buildListingsQuery } from "../utils/listingsQuery";
+import { usePriceStream } from "./usePriceStream";
+import { usePriceBuffer } from "./usePriceBuffer";
+
+interface UseCryptoDataOptions {
+  onRefresh?: (assets: CryptoAsset[], currency: QuoteCurrency) => void;
+}
 
 /**
- * Custom hook for fetching and managing cryptocurrency data with auto-refresh
+ * Custom hook for fetching and managing cryptocurrency data with live updates
  * 
  * Features:
- * - Fetches cryptocurrency data from CoinMarketCap API
- * - Auto-refreshes every 10 seconds with countdown timer
- * - Provides loading and error states
+ * - Loads the listings page described by the request (start, limit, sort, currency)
+ * - Subscribes to the live price stream and merges pushed price diffs
+ * - Fetches an initial snapshot from the API for a fast first render
+ * - Falls back to polling every 10 seconds while the stream is not live
+ * - Aborts requests after API_CONFIG.REQUEST_TIMEOUT, and cancels requests that are
+ *   superseded by a newer one or outlive the hook
+ * - Retries failed refreshes with exponential backoff and jitter, unless the API
+ *   reports the error as not retryable
+ * - Pauses polling, retries and the stream while the page is hidden or the browser
+ *   is offline, refreshing and reconnecting as soon as it is visible and online again
+ * - Keeps the last good data on screen when a refresh fails and reports the
+ *   degraded state instead of an error
+ * - Keeps a rolling per-asset price history across refreshes for sparklines
+ *   and reports which prices moved in the latest refresh
+ * - Hands every refresh (snapshot, stream update or poll) to `onRefresh`,
+ *   e.g. to evaluate price alerts
+ * - Validates every response and stream event at runtime (see app/utils/apiValidation),
+ *   leaving out malformed assets with a console warning
+ * - Provides loading, error and last-updated states
  * - Returns default asset selection helper
  * 
+ * @param {ListingsRequest} request - Listings page to load and stream
+ * @param {UseCryptoDataOptions} [options] - Hook options
+ * @param {Function} [options.onRefresh] - Called with the assets and their quote currency after each refresh
+ * 
  * @returns {Object} Hook state and methods
  * @returns {CryptoAsset[]} cryptoData - Array of cryptocurrency assets
  * @returns {boolean} loading - Loading state indicator
- * @returns {string | null} error - Error message if fetch fails
- * @returns {number} countdown - Seconds until next refresh
- * @returns {Function} refetch - Manual refresh function
+ * @returns {string | null} error - Error message if the requested page could not be loaded
+ * @returns {DegradedState | null} degraded - Why the loaded page is not up to date, if it is not
+ * @returns {StreamStatus} streamStatus - Live stream connection state
+ * @returns {Date | null} lastUpdated - Timestamp of the displayed market data
+ * @returns {PaginationInfo | null} pagination - Pagination details of the loaded page
+ * @returns {QuoteCurrency} currency - Quote currency of the loaded data (lags the request until it loads)
+ * @returns {number | null} usdRate - USD value of one unit of that currency, null until the server reports it
+ * @returns {Record<number, number[]>} sparklines - Recent prices per asset id, oldest first
+ * @returns {Record<number, PriceDirection>} priceChanges - Up/down moves in the latest refresh per asset id
+ * @returns {Function} refetch - Manual refresh function, also retrying errors that are not retried automatically
  * @returns {Function} getDefaultAsset - Get default asset ID (Bitcoin or first asset)
  */
-export function useCryptoData() {
+export function useCryptoData(request: ListingsRequest, { onRefresh }: UseCryptoDataOptions = {}) {
   const [cryptoData, setCryptoData] = useState<CryptoAsset[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
-  const [countdown, setCountdown] = useState<number>(UI_CONFIG.INITIAL_COUNTDOWN);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+  const [retryAt, setRetryAt] = useState<Date | null>(null);
+  const [online, setOnline] = useState<boolean>(true);
+  const [hidden, setHidden] = useState<boolean>(false);
+  const [stale, setStale] = useState<boolean>(false);
+  const [loadedQuery, setLoadedQuery] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [currency, setCurrency] = useState<QuoteCurrency>(request.convert);
+  const [usdRate, setUsdRate] = useState<number | null>(null);
+
+  const query = buildListingsQuery(request);
+  const { convert } = request;
+
+  // Request in flight; a newer request, a page change or unmounting aborts it
+  const controllerRef = useRef<AbortController | null>(null);
+  // Pending poll or retry
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  // Consecutive failed refreshes, driving the retry backoff
+  const failuresRef = useRef(0);
+  // Whether the latest failure may be retried automatically
+  const retryableRef = useRef(true);
+  const streamLiveRef = useRef(false);
+
+  /**
+   * Schedules the next poll, or a retry with exponential backoff and jitter
+   * after a failure. Nothing is scheduled while the stream is live, while the
+   * page is hidden or offline (refreshes resume when it returns), or after a
+   * failure that is not retryable.
+   */
+  const scheduleRefresh = useCallback(() => {
+    clearTimeout(refreshTimerRef.current);
+    if (streamLiveRef.current || !retryableRef.current || document.hidden || !navigator.onLine) {
+      setRetryAt(null);
+      return;
+    }
+
+    const failures = failuresRef.current;
+    const delay = failures === 0
+      ? API_CONFIG.REFRESH_INTERVAL
+      : Math.min(API_CONFIG.RETRY_BASE_DELAY * 2 ** (failures - 1), API_CONFIG.RETRY_MAX_DELAY) +
+        Math.random() * API_CONFIG.RETRY_BASE_DELAY;
+    refreshTimerRef.current = setTimeout(() => fetchRef.current(), delay);
+    setRetryAt(failures === 0 ? null : new Date(Date.now() + delay));
+  }, []);
 
   /**
    * Fetches cryptocurrency data from the API endpoint
-   * Handles loading states, error handling, and data validation
+   * Handles request timeouts, cancellation, error handling and data validation,
+   * then schedules the next refresh
    */
   const fetchCryptoData = useCallback(async () => {
+    clearTimeout(refreshTimerRef.current);
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, API_CONFIG.REQUEST_TIMEOUT);
+    // Failures are retried unless the API reports otherwise
+    let retryable = true;
+
     try {
-      setLoading(true);
-      const response = await fetch("/api/crypto");
+      const response = await fetch(`/api/crypto?${query}`, { signal: controller.signal });
+
+      const body = await readJson(response);
 
       if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to fetch crypto data: ${response.status} ${errorText}`);
+        const apiError = parseApiError(body, response.status, ERROR_MESSAGES.FETCH_FAILED);
+        retryable = apiError.retryable;
+        throw new Error(describeApiError(apiError));
       }
 
-      const result: ApiResponse = await response.json();
-
-      if (!result.data || !Array.isArray(result.data)) {
-        throw new Error("Invalid API response format");
+      const { value: result, dropped, error: validationError } = validateApiResponse(body, convert);
+      if (!result) {
+        throw new Error(`${ERROR_MESSAGES.INVALID_API_RESPONSE}: ${validationError}`);
       }
 
+      if (controllerRef.current !== controller) return;
+      reportDroppedRecords("/api/crypto", dropped);
+
+      failuresRef.current = 0;
       setCryptoData(result.data);
-      setError(null);
-      setCountdown(UI_CONFIG.INITIAL_COUNTDOWN);
+      setCurrency(convert);
+      setUsdRate(result.usdRate ?? null);
+      setLastUpdated(new Date(result.status.timestamp));
+      setPagination(result.pagination ?? null);
+      setStale(result.stale === true);
+      setLoadedQuery(query);
+      setRefreshError(null);
     } catch (err) {
+      // Superseded and cancelled requests report nothing
+      if (controllerRef.current !== controller) return;
       console.error("Crypto data fetch error:", err);
-      setError(
-        err instanceof Error ? err.message : ERROR_MESSAGES.GENERIC_ERROR
+      failuresRef.current += 1;
+      setRefreshError(
+        timedOut
+          ? ERROR_MESSAGES.REQUEST_TIMEOUT
+          : err instanceof TypeError
+            ? ERROR_MESSAGES.NETWORK_ERROR
+            : err instanceof Error ? err.message : ERROR_MESSAGES.GENERIC_ERROR
       );
     } finally {
-      setLoading(false);
+      clearTimeout(timeout);
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        retryableRef.current = retryable;
+        setLoading(false);
+        scheduleRefresh();
+      }
     }
-  }, []);
+  }, [query, convert, scheduleRefresh]);
+
+  // Latest fetch, for timers and listeners that outlive a render
+  const fetchRef = useRef(fetchCryptoData);
+  fetchRef.current = fetchCryptoData;
+
+  /**
+   * Replaces the asset set with a full snapshot from the stream
+   * Malformed snapshots are ignored and reported like a failed refresh;
+   * malformed assets are left out
+   *
+   * @param {unknown} payload - Parsed `snapshot` event data, null when it was not JSON
+   */
+  const applySnapshot = useCallback((payload: unknown) => {
+    const { value: snapshot, dropped, error: validationError } = validateStreamSnapshot(payload, convert);
+    if (!snapshot) {
+      console.warn("Ignored malformed price snapshot:", validationError);
+      setRefreshError(`${ERROR_MESSAGES.INVALID_API_RESPONSE}: ${validationError}`);
+      return;
+    }
+    reportDroppedRecords("price stream snapshot", dropped);
+    failuresRef.current = 0;
+    setCryptoData(snapshot.data);
+    setCurrency(convert);
+    setLastUpdated(new Date(snapshot.timestamp));
+    setStale(snapshot.stale === true);
+    setLoadedQuery(query);
+    setRefreshError(null);
+    setLoading(false);
+  }, [convert, query]);
+
+  /**
+   * Merges a price diff from the stream into the current asset set
+   * Malformed diffs are ignored and reported like a failed refresh until the
+   * next valid one; malformed assets are left out
+   *
+   * @param {unknown} payload - Parsed `prices` event data, null when it was not JSON
+   */
+  const applyUpdate = useCallback((payload: unknown) => {
+    const { value: update, dropped, error: validationError } = validateStreamUpdate(payload, convert);
+    if (!update) {
+      console.warn("Ignored malformed price update:", validationError);
+      setRefreshError(`${ERROR_MESSAGES.INVALID_API_RESPONSE}: ${validationError}`);
+      return;
+    }
+    reportDroppedRecords("price stream update", dropped);
+    setCryptoData((current) => {
+      const updates = new Map(update.updates.map((asset) => [asset.id, asset]));
+      const removed = new Set(update.removed);
+      const merged = current
+        .filter((asset) => !removed.has(asset.id))
+        .map((asset) => updates.get(asset.id) ?? asset);
+      const knownIds = new Set(merged.map((asset) => asset.id));
+      return [...merged, ...update.updates.filter((asset) => !knownIds.has(asset.id))];
+    });
+    setLastUpdated(new Date(update.timestamp));
+    setStale(update.stale === true);
+    setRefreshError(null);
+  }, [convert]);
+
+  const { status: streamStatus } = usePriceStream({
+    url: `${STREAM_CONFIG.URL}?${query}`,
+    onSnapshot: applySnapshot,
+    onUpdate: applyUpdate,
+    paused: hidden || !online,
+  });
+
+  // Rolling price history that outlives each wholesale data replacement
+  const { sparklines, priceChanges } = usePriceBuffer(cryptoData, currency, lastUpdated);
+
+  // Latest refresh callback, so a new function identity does not count as a refresh
+  const onRefreshRef = useRef(onRefresh);
+  onRefreshRef.current = onRefresh;
 
-  // Initial data fetch and setup auto-refresh interval
+  // Every refresh moves lastUpdated along with the data
   useEffect(() => {
-    fetchCryptoData();
+    if (lastUpdated) {
+      onRefreshRef.current?.(cryptoData, currency);
+    }
+  }, [cryptoData, currency, lastUpdated]);
 
-    // Set up auto-refresh every 10 seconds
-    const refreshInterval = setInterval(() => {
-      fetchCryptoData();
-    }, API_CONFIG.REFRESH_INTERVAL);
+  // Load each page as soon as it is requested, so the first render does not
+  // wait for the stream; leaving the page cancels its requests
+  useEffect(() => {
+    failuresRef.current = 0;
+    retryableRef.current = true;
+    setLoading(true);
+    setRefreshError(null);
+    fetchCryptoData();
 
-    return () => clearInterval(refreshInterval);
+    return () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+      clearTimeout(refreshTimerRef.current);
+    };
   }, [fetchCryptoData]);
 
-  // Countdown timer that runs when data is loaded and no errors
+  // Poll while the stream is not live (connecting, reconnecting or unavailable)
   useEffect(() => {
-    if (loading || error) return;
+    streamLiveRef.current = streamStatus === STREAM_STATUS.LIVE;
+    // A request in flight schedules the next refresh when it settles
+    if (!controllerRef.current) {
+      scheduleRefresh();
+    }
+  }, [scheduleRefresh, streamStatus]);
 
-    // Update countdown every second
-    const countdownInterval = setInterval(() => {
-      setCountdown((prev) => {
-        if (prev <= 1) {
-          return UI_CONFIG.COUNTDOWN_RESET; // Reset to 10 seconds
-        }
-        return prev - 1;
-      });
-    }, 1000);
+  // Pause refreshes and the stream while the page is hidden or offline, and refresh on return
+  useEffect(() => {
+    const handleAvailabilityChange = () => {
+      setOnline(navigator.onLine);
+      setHidden(document.hidden);
+      if (document.hidden || !navigator.onLine) {
+        clearTimeout(refreshTimerRef.current);
+        setRetryAt(null);
+      } else if (!streamLiveRef.current && !controllerRef.current) {
+        fetchRef.current();
+      }
+    };
+
+    setOnline(navigator.onLine);
+    setHidden(document.hidden);
+    document.addEventListener("visibilitychange", handleAvailabilityChange);
+    window.addEventListener("online", handleAvailabilityChange);
+    window.addEventListener("offline", handleAvailabilityChange);
+    return () => {
+      document.removeEventListener("visibilitychange", handleAvailabilityChange);
+      window.removeEventListener("online", handleAvailabilityChange);
+      window.removeEventListener("offline", handleAvailabilityChange);
+    };
+  }, []);
 
-    return () => clearInterval(countdownInterval);
-  }, [loading, error]);
+  // Failures block the page only until it has loaded once; afterwards the last
+  // good data stays on screen in a degraded state
+  const loaded = loadedQuery === query;
+  const error = loaded ? null : refreshError;
+  const degraded: DegradedState | null = !loaded
+    ? null
+    : !online
+      ? { reason: "offline", message: null, retryAt: null }
+      : refreshError
+        ? { reason: "refresh-failed", message: refreshError, retryAt }
+        : stale
+          ? { reason: "stale", message: null, retryAt: null }
+          : null;
 
   /**
    * Gets the default cryptocurrency asset for form selection
@@ -109,8 +346,15 @@ export function useCryptoData() {
     cryptoData,
     loading,
     error,
-    countdown,
+    degraded,
+    streamStatus,
+    lastUpdated,
+    pagination,
+    currency,
+    usdRate,
+    sparklines,
+    priceChanges,
     refetch: fetchCryptoData,
     getDefaultAsset,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { AssetFilters, DashboardPreferences, DashboardState, QuoteCurrency, SortKey, ViewMode } from "../types";
+import { DASHBOARD_STATE_CONFIG } from "../constants";
+import {
+  buildDashboardQuery,
+  hasDashboardQuery,
+  parseDashboardPreferences,
+  parseDashboardQuery,
+} from "../utils/dashboardQuery";
+
+/**
+ * Reads the last-used preferences persisted in this browser
+ *
+ * @returns {DashboardPreferences | null} Stored preferences, or null when absent or unreadable
+ */
+const readStoredPreferences = (): DashboardPreferences | null => {
+  try {
+    const stored = localStorage.getItem(DASHBOARD_STATE_CONFIG.STORAGE_KEY);
+    return stored ? parseDashboardPreferences(JSON.parse(stored)) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Persists the last-used preferences in this browser
+ * Storage failures (quota, privacy mode) only cost persistence
+ *
+ * @param {DashboardPreferences} preferences - Preferences to store
+ */
+const writeStoredPreferences = (preferences: DashboardPreferences) => {
+  try {
+    localStorage.setItem(DASHBOARD_STATE_CONFIG.STORAGE_KEY, JSON.stringify(preferences));
+  } catch (err) {
+    console.warn("Dashboard preferences could not be persisted:", err);
+  }
+};
+
+/**
+ * Custom hook keeping the dashboard sort, view mode, currency, filters and
+ * page in the page URL
+ *
+ * Features:
+ * - Restores the state from query parameters, so links and reloads reopen the
+ *   same view; unknown values fall back to their defaults
+ * - Without dashboard query parameters, restores the last-used sort, view mode
+ *   and currency from localStorage
+ * - Mirrors every change into the query string with `router.replace`, so
+ *   tweaking the view does not add history entries
+ *
+ * Must be rendered below a Suspense boundary, as it reads the search params.
+ *
+ * @returns {Object} Dashboard state and setters
+ * @returns {SortKey[]} sortKeys - Column sorts in priority order, empty for the default rank order
+ * @returns {ViewMode} viewMode - Grid or list layout
+ * @returns {QuoteCurrency} currency - Quote currency of prices
+ * @returns {AssetFilters} filters - Search and range filters
+ * @returns {number} page - Listings page (1-based)
+ * @returns {number} pageSize - Assets per page
+ * @returns {Function} setSortKeys - Replaces the column sorts
+ * @returns {Function} setViewMode - Switches the layout
+ * @returns {Function} setCurrency - Switches the quote currency
+ * @returns {Function} setFilters - Replaces the filters
+ * @returns {Function} setPage - Moves to another page
+ * @returns {Function} setPageSize - Changes the page size, keeping the first visible asset on screen
+ */
+export function useDashboardState() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [state, setState] = useState<DashboardState>(() =>
+    parseDashboardQuery(new URLSearchParams(searchParams.toString()))
+  );
+  // Storage is only read after mounting, so the server render matches the first client render
+  const [restored, setRestored] = useState(false);
+
+  useEffect(() => {
+    // An explicit query string wins over the remembered preferences
+    if (!hasDashboardQuery(new URLSearchParams(window.location.search))) {
+      const preferences = readStoredPreferences();
+      if (preferences) {
+        setState((current) => ({ ...current, ...preferences }));
+      }
+    }
+    setRestored(true);
+  }, []);
+
+  useEffect(() => {
+    if (!restored) return;
+
+    const { sortKeys, viewMode, currency } = state;
+    writeStoredPreferences({ sortKeys, viewMode, currency });
+
+    // Also rewrites URLs carrying invalid or non-canonical values
+    const query = buildDashboardQuery(state);
+    if (query !== window.location.search.replace(/^\?/, "")) {
+      router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+    }
+  }, [state, restored, router, pathname]);
+
+  /**
+   * Replaces the column sorts
+   *
+   * @param {SortKey[]} sortKeys - Sort keys in priority order, empty for the default rank order
+   */
+  const setSortKeys = useCallback((sortKeys: SortKey[]) => {
+    setState((current) => ({ ...current, sortKeys }));
+  }, []);
+
+  /**
+   * Switches between the grid and list layouts
+   *
+   * @param {ViewMode} viewMode - Layout to show
+   */
+  const setViewMode = useCallback((viewMode: ViewMode) => {
+    setState((current) => ({ ...current, viewMode }));
+  }, []);
+
+  /**
+   * Switches the quote currency
+   *
+   * @param {QuoteCurrency} currency - Currency to quote prices in
+   */
+  const setCurrency = useCallback((currency: QuoteCurrency) => {
+    setState((current) => ({ ...current, currency }));
+  }, []);
+
+  /**
+   * Replaces the search and range filters
+   *
+   * @param {AssetFilters} filters - New filters
+   */
+  const setFilters = useCallback((filters: AssetFilters) => {
+    setState((current) => ({ ...current, filters }));
+  }, []);
+
+  /**
+   * Moves to another listings page
+   *
+   * @param {number} page - Page to show (1-based)
+   */
+  const setPage = useCallback((page: number) => {
+    setState((current) => ({ ...current, page }));
+  }, []);
+
+  /**
+   * Changes the page size, moving to the page holding the first visible asset
+   *
+   * @param {number} pageSize - New number of assets per page
+   */
+  const setPageSize = useCallback((pageSize: number) => {
+    setState((current) => {
+      const firstVisible = (current.page - 1) * current.pageSize;
+      return { ...current, pageSize, page: Math.floor(firstVisible / pageSize) + 1 };
+    });
+  }, []);
+
+  return {
+    ...state,
+    setSortKeys,
+    setViewMode,
+    setCurrency,
+    setFilters,
+    setPage,
+    setPageSize,
+  };
+}
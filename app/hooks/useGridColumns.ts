@@ -0,0 +1,33 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { BOXED_LAYOUT } from "../constants";
+
+/**
+ * Reads the card grid column count for the current viewport width
+ *
+ * @returns {number} Column count
+ */
+const getGridColumns = (): number =>
+  BOXED_LAYOUT.BREAKPOINTS.find(({ minWidth }) => window.matchMedia(`(min-width: ${minWidth}px)`).matches)
+    ?.columns ?? 1;
+
+/**
+ * Custom hook tracking the column count of the boxed card grid
+ * Mirrors the Tailwind breakpoints in BOXED_LAYOUT, so the virtualized grid
+ * knows how many cards share a row
+ *
+ * @returns {number} Column count, 1 until mounted
+ */
+export function useGridColumns() {
+  const [columns, setColumns] = useState(1);
+
+  useEffect(() => {
+    const update = () => setColumns(getGridColumns());
+    update();
+    window.addEventListener("resize", update);
+    return () => window.removeEventListener("resize", update);
+  }, []);
+
+  return columns;
+}
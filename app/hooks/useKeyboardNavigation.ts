@@ -12,7 +12,7 @@ import { useEffect, useCallback } from "react";
  * 
  * @param {Object} handlers - Keyboard event handlers
  * @param {Function} handlers.onViewModeToggle - Toggle between view modes
- * @param {Function} handlers.onFocusSearch - Focus the search/amount input
+ * @param {Function} handlers.onFocusSearch - Focus the asset search; S does nothing without it
  * @param {Function} handlers.onEscape - Handle escape key press
  * 
  * @returns {Object} Keyboard navigation utilities
@@ -60,7 +60,7 @@ export function useKeyboardNavigation({
         
       case 's':
       case 'S':
-        // Focus search/amount input with 'S' key
+        // Focus the asset search (or amount input) with 'S' key
         if (!event.ctrlKey && !event.metaKey && onFocusSearch) {
           event.preventDefault();
           onFocusSearch();
@@ -89,13 +89,13 @@ export function useKeyboardNavigation({
     console.log(`
 🔑 Keyboard Shortcuts:
 • V - Toggle view mode (List ↔ Tiles)
-• S - Focus amount input
+• S - Focus search (order amount on asset pages)
 • Escape - Clear focus/close dialogs
 • Shift + ? - Show this help
 • Tab - Navigate between interactive elements
 • Enter - Activate buttons/submit forms
 • Space - Activate buttons
-• Arrow keys - Navigate in lists
+• Arrow keys / Home / End - Move between assets in the list or grid
     `);
   };
 
@@ -1,76 +1,228 @@
 "use client";
 
-import { useState, useCallback } from "react";
-import { NotificationState } from "../types";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { NotificationHistoryEntry, NotificationOptions, NotificationType, ToastNotification } from "../types";
+import { NOTIFICATION_CONFIG } from "../constants";
+
+/** Auto-dismiss timer of a toast; `timeout` is null while paused */
+interface ToastTimer {
+  timeout: ReturnType<typeof setTimeout> | null;
+  /** Milliseconds left when the timer was last started or paused */
+  remaining: number;
+  startedAt: number;
+}
+
+let toastCount = 0;
 
 /**
- * Custom hook for managing notification state and display
- * 
+ * Custom hook for managing a queue of toast notifications
+ *
  * Features:
  * - Success, error, and info notification types
- * - Auto-hide functionality with 5-second timeout
- * - Manual hide capability
- * - Simple API for showing different notification types
- * 
+ * - Stacked toasts with unique ids, the oldest dropped beyond NOTIFICATION_CONFIG.MAX_VISIBLE
+ * - Per-toast durations (NOTIFICATION_CONFIG.DURATIONS by default), or kept until dismissed
+ * - Auto-dismiss timers pause while a toast is hovered or focused
+ * - Optional action button per toast (e.g., "Undo")
+ * - An identical message already on screen is counted and its timer restarted
+ *   instead of stacking a duplicate
+ * - History of recent notifications for the history drawer
+ *
  * @returns {Object} Notification state and methods
- * @returns {NotificationState} notification - Current notification state
- * @returns {Function} showNotification - Generic show notification function
+ * @returns {ToastNotification[]} notifications - Toasts on screen, oldest first
+ * @returns {NotificationHistoryEntry[]} history - Recent notifications, newest first
+ * @returns {Function} showNotification - Generic show notification function, returning the toast id
  * @returns {Function} showSuccess - Show success notification
- * @returns {Function} showError - Show error notification  
- * @returns {Function} hideNotification - Manually hide notification
+ * @returns {Function} showError - Show error notification
+ * @returns {Function} dismissNotification - Dismiss one toast
+ * @returns {Function} hideNotification - Manually hide every toast
+ * @returns {Function} pauseNotification - Pause a toast's auto-dismiss timer
+ * @returns {Function} resumeNotification - Resume a toast's auto-dismiss timer
+ * @returns {Function} clearHistory - Empty the notification history
  */
 export function useNotification() {
-  const [notification, setNotification] = useState<NotificationState>({
-    message: "",
-    type: "info",
-    show: false,
-  });
+  const [notifications, setNotifications] = useState<ToastNotification[]>([]);
+  const [history, setHistory] = useState<NotificationHistoryEntry[]>([]);
+
+  // Queue as of the latest update, read by timers and deduplication between renders
+  const queueRef = useRef<ToastNotification[]>([]);
+  const timersRef = useRef(new Map<string, ToastTimer>());
+
+  /**
+   * Replaces the queue
+   *
+   * @param {ToastNotification[]} queue - Toasts to show
+   */
+  const updateQueue = useCallback((queue: ToastNotification[]) => {
+    queueRef.current = queue;
+    setNotifications(queue);
+  }, []);
+
+  /**
+   * Stops a toast's auto-dismiss timer for good
+   *
+   * @param {string} id - Toast id
+   */
+  const clearTimer = useCallback((id: string) => {
+    const timer = timersRef.current.get(id);
+    if (timer?.timeout) {
+      clearTimeout(timer.timeout);
+    }
+    timersRef.current.delete(id);
+  }, []);
+
+  /**
+   * Removes a toast from the screen
+   *
+   * @param {string} id - Toast id
+   */
+  const dismissNotification = useCallback((id: string) => {
+    clearTimer(id);
+    updateQueue(queueRef.current.filter((toast) => toast.id !== id));
+  }, [clearTimer, updateQueue]);
+
+  /**
+   * (Re)starts a toast's auto-dismiss timer
+   *
+   * @param {string} id - Toast id
+   * @param {number} delay - Milliseconds until the toast is dismissed
+   */
+  const startTimer = useCallback((id: string, delay: number) => {
+    clearTimer(id);
+    timersRef.current.set(id, {
+      timeout: setTimeout(() => dismissNotification(id), delay),
+      remaining: delay,
+      startedAt: Date.now(),
+    });
+  }, [clearTimer, dismissNotification]);
+
+  // Timers must not fire after unmounting
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => {
+      timers.forEach((timer) => {
+        if (timer.timeout) clearTimeout(timer.timeout);
+      });
+      timers.clear();
+    };
+  }, []);
 
   /**
-   * Shows a notification with auto-hide after 5 seconds
-   * 
+   * Shows a notification, or counts it again when the same message is on screen
+   *
    * @param {string} message - Notification message to display
-   * @param {"success" | "error" | "info"} type - Type of notification
+   * @param {NotificationType} type - Type of notification
+   * @param {NotificationOptions} [options] - Duration and action button
+   * @returns {string} Id of the toast showing the message
    */
-  const showNotification = useCallback((message: string, type: "success" | "error" | "info" = "info") => {
-    setNotification({ message, type, show: true });
-    
-    // Auto-hide after 5 seconds
-    setTimeout(() => {
-      setNotification(prev => ({ ...prev, show: false }));
-    }, 5000);
+  const showNotification = useCallback((
+    message: string,
+    type: NotificationType = "info",
+    options: NotificationOptions = {}
+  ): string => {
+    const queue = queueRef.current;
+    const duration = options.duration === undefined ? NOTIFICATION_CONFIG.DURATIONS[type] : options.duration;
+    const shownAt = Date.now();
+    const duplicate = queue.find((toast) => toast.message === message && toast.type === type);
+
+    let toast: ToastNotification;
+    if (duplicate) {
+      toast = { ...duplicate, count: duplicate.count + 1, shownAt, duration, action: options.action ?? duplicate.action };
+      updateQueue(queue.map((current) => (current.id === duplicate.id ? toast : current)));
+      setHistory((current) =>
+        current.map((entry) => (entry.id === toast.id ? { ...entry, count: toast.count, shownAt } : entry))
+      );
+    } else {
+      toast = { id: `toast-${++toastCount}`, message, type, count: 1, shownAt, duration, action: options.action };
+      const next = [...queue, toast];
+      next.slice(0, Math.max(next.length - NOTIFICATION_CONFIG.MAX_VISIBLE, 0)).forEach((dropped) => clearTimer(dropped.id));
+      updateQueue(next.slice(-NOTIFICATION_CONFIG.MAX_VISIBLE));
+      setHistory((current) =>
+        [{ id: toast.id, message, type, count: 1, shownAt }, ...current].slice(0, NOTIFICATION_CONFIG.HISTORY_LIMIT)
+      );
+    }
+
+    const timer = timersRef.current.get(toast.id);
+    if (duration === null) {
+      clearTimer(toast.id);
+    } else if (timer && !timer.timeout) {
+      // Hovered or focused: the full duration starts once it is left
+      timer.remaining = duration;
+    } else {
+      startTimer(toast.id, duration);
+    }
+    return toast.id;
+  }, [clearTimer, startTimer, updateQueue]);
+
+  /**
+   * Pauses a toast's auto-dismiss timer, e.g. while it is hovered
+   *
+   * @param {string} id - Toast id
+   */
+  const pauseNotification = useCallback((id: string) => {
+    const timer = timersRef.current.get(id);
+    if (!timer?.timeout) return;
+    clearTimeout(timer.timeout);
+    timer.timeout = null;
+    timer.remaining = Math.max(timer.remaining - (Date.now() - timer.startedAt), 0);
   }, []);
 
   /**
-   * Manually hides the currently displayed notification
+   * Resumes a paused auto-dismiss timer with the time it had left
+   *
+   * @param {string} id - Toast id
+   */
+  const resumeNotification = useCallback((id: string) => {
+    const timer = timersRef.current.get(id);
+    if (timer && !timer.timeout) {
+      startTimer(id, timer.remaining);
+    }
+  }, [startTimer]);
+
+  /**
+   * Manually hides every toast on screen
    */
   const hideNotification = useCallback(() => {
-    setNotification(prev => ({ ...prev, show: false }));
+    queueRef.current.forEach((toast) => clearTimer(toast.id));
+    updateQueue([]);
+  }, [clearTimer, updateQueue]);
+
+  /**
+   * Empties the notification history
+   */
+  const clearHistory = useCallback(() => {
+    setHistory([]);
   }, []);
 
   /**
    * Shows a success notification (green theme)
-   * 
+   *
    * @param {string} message - Success message to display
+   * @param {NotificationOptions} [options] - Duration and action button
    */
-  const showSuccess = useCallback((message: string) => {
-    showNotification(message, "success");
+  const showSuccess = useCallback((message: string, options?: NotificationOptions) => {
+    showNotification(message, "success", options);
   }, [showNotification]);
 
   /**
    * Shows an error notification (red theme)
-   * 
+   *
    * @param {string} message - Error message to display
+   * @param {NotificationOptions} [options] - Duration and action button
    */
-  const showError = useCallback((message: string) => {
-    showNotification(message, "error");
+  const showError = useCallback((message: string, options?: NotificationOptions) => {
+    showNotification(message, "error", options);
   }, [showNotification]);
 
   return {
-    notification,
+    notifications,
+    history,
     showNotification,
+    dismissNotification,
     hideNotification,
+    pauseNotification,
+    resumeNotification,
+    clearHistory,
     showSuccess,
     showError,
   };
-}
\ No newline at end of file
+}
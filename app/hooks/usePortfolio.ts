@@ -0,0 +1,140 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { PendingOrder, PortfolioSummary } from "../types";
+import { API_CONFIG, ERROR_MESSAGES, PORTFOLIO_CONFIG } from "../constants";
+import { describeApiError, parseApiError, readJson } from "../utils/apiValidation";
+
+interface UsePortfolioProps {
+  onPendingOrderResolved?: (order: PendingOrder) => void;
+}
+
+/**
+ * Custom hook for loading the simulated portfolio
+ *
+ * Features:
+ * - Fetches holdings and totals from the portfolio API
+ * - Revalues every 10 seconds so P&L follows the market
+ * - Accepts a portfolio returned by an order fill without refetching
+ * - Reports limit/stop orders that filled, expired or were rejected since the
+ *   previous valuation (cancellations are initiated by the user and not reported)
+ * - Cancels open limit/stop orders
+ * - Provides loading and error states
+ *
+ * @param {UsePortfolioProps} [props] - Hook configuration
+ * @param {Function} [props.onPendingOrderResolved] - Called for each order that resolved
+ *
+ * @returns {Object} Hook state and methods
+ * @returns {PortfolioSummary | null} portfolio - Valued holdings and totals
+ * @returns {boolean} loading - True until the first response arrives
+ * @returns {string | null} error - Error message if the last fetch failed
+ * @returns {Function} refetch - Manual refresh function
+ * @returns {Function} updatePortfolio - Replace the portfolio with a newer valuation
+ * @returns {Function} cancelOrder - Cancel an open order by id (rejects with a user-facing message)
+ */
+export function usePortfolio({ onPendingOrderResolved }: UsePortfolioProps = {}) {
+  const [portfolio, setPortfolio] = useState<PortfolioSummary | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Ids of orders open in the last valuation; null until the first one arrives
+  const openOrderIdsRef = useRef<Set<string> | null>(null);
+  // Latest callback, so polling does not restart when the caller re-renders
+  const onResolvedRef = useRef(onPendingOrderResolved);
+  onResolvedRef.current = onPendingOrderResolved;
+
+  /**
+   * Stores a valuation and reports orders that were open in the previous one
+   * but have since filled, expired or been rejected
+   *
+   * @param {PortfolioSummary} summary - Newer portfolio valuation
+   */
+  const applySummary = useCallback((summary: PortfolioSummary) => {
+    const previousOpenIds = openOrderIdsRef.current;
+    if (previousOpenIds) {
+      summary.pendingOrders
+        .filter((order) => order.status !== "open" && order.status !== "cancelled" && previousOpenIds.has(order.id))
+        .forEach((order) => onResolvedRef.current?.(order));
+    }
+    openOrderIdsRef.current = new Set(
+      summary.pendingOrders.filter((order) => order.status === "open").map((order) => order.id)
+    );
+
+    setPortfolio(summary);
+    setError(null);
+  }, []);
+
+  /**
+   * Fetches the valued portfolio from the API endpoint
+   */
+  const fetchPortfolio = useCallback(async () => {
+    try {
+      const response = await fetch(PORTFOLIO_CONFIG.PORTFOLIO_URL);
+
+      const body = await readJson(response);
+
+      if (!response.ok) {
+        const apiError = parseApiError(body, response.status, ERROR_MESSAGES.PORTFOLIO_FETCH_FAILED);
+        throw new Error(describeApiError(apiError));
+      }
+
+      applySummary(body as PortfolioSummary);
+    } catch (err) {
+      console.error("Portfolio fetch error:", err);
+      setError(err instanceof Error ? err.message : ERROR_MESSAGES.GENERIC_ERROR);
+    } finally {
+      setLoading(false);
+    }
+  }, [applySummary]);
+
+  /**
+   * Replaces the portfolio with a valuation returned by another endpoint
+   *
+   * @param {PortfolioSummary} summary - Newer portfolio valuation
+   */
+  const updatePortfolio = useCallback((summary: PortfolioSummary) => {
+    applySummary(summary);
+  }, [applySummary]);
+
+  /**
+   * Cancels an open limit or stop order and applies the returned valuation
+   *
+   * @param {string} id - Pending order id
+   * @returns {Promise<PendingOrder>} Cancelled order
+   * @throws {Error} With a user-facing message when the order cannot be cancelled
+   */
+  const cancelOrder = useCallback(async (id: string): Promise<PendingOrder> => {
+    const response = await fetch(`${PORTFOLIO_CONFIG.ORDERS_URL}/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+    });
+    const result = await readJson(response);
+
+    if (!response.ok) {
+      throw new Error(describeApiError(parseApiError(result, response.status, ERROR_MESSAGES.CANCEL_FAILED)));
+    }
+
+    const { portfolio, pendingOrder } = result as { portfolio: PortfolioSummary; pendingOrder: PendingOrder };
+    applySummary(portfolio);
+    return pendingOrder;
+  }, [applySummary]);
+
+  // Initial fetch and periodic revaluation
+  useEffect(() => {
+    fetchPortfolio();
+
+    const refreshInterval = setInterval(() => {
+      fetchPortfolio();
+    }, API_CONFIG.REFRESH_INTERVAL);
+
+    return () => clearInterval(refreshInterval);
+  }, [fetchPortfolio]);
+
+  return {
+    portfolio,
+    loading,
+    error,
+    refetch: fetchPortfolio,
+    updatePortfolio,
+    cancelOrder,
+  };
+}
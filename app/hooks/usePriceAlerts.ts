@@ -0,0 +1,327 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { AlertRuleDraft, AlertState, CryptoAsset, QuoteCurrency } from "../types";
+import { ALERT_CONFIG, API_CONFIG, ERROR_MESSAGES, LISTING_SORTS, SORT_DIRECTIONS } from "../constants";
+import {
+  describeApiError,
+  parseApiError,
+  readJson,
+  reportDroppedRecords,
+  validateApiResponse,
+} from "../utils/apiValidation";
+import { buildListingsQuery } from "../utils/listingsQuery";
+import {
+  createAlertRule,
+  describeAlertTriggers,
+  evaluateAlertRules,
+  markAlertsTriggered,
+  validateAlertDraft,
+} from "../utils/priceAlerts";
+
+interface UsePriceAlertsOptions {
+  onTrigger: (message: string) => void;
+}
+
+/** Quotes of rule assets outside the loaded page, and the request that loaded them */
+interface RuleQuotes {
+  /** Quote currency and symbols requested, e.g. "USD:BTC,ETH" */
+  key: string;
+  fetchedAt: number;
+  assets: CryptoAsset[];
+  pending: Promise<CryptoAsset[]> | null;
+}
+
+/** State before anything was stored: no rules, in-app notifications only */
+const EMPTY_STATE: AlertState = { rules: [], browserNotifications: false };
+
+/**
+ * Quotes assets by symbol through /api/crypto
+ *
+ * @param {string[]} symbols - Ticker symbols to quote (at most API_CONFIG.MAX_SELECTION_SIZE)
+ * @param {QuoteCurrency} currency - Quote currency
+ * @returns {Promise<CryptoAsset[]>} Quoted assets; symbols the provider does not know are missing
+ * @throws {Error} When the request fails, times out or returns malformed data
+ */
+const fetchRuleQuotes = async (symbols: string[], currency: QuoteCurrency): Promise<CryptoAsset[]> => {
+  const query = buildListingsQuery({
+    start: 1,
+    limit: symbols.length,
+    convert: currency,
+    sort: LISTING_SORTS.MARKET_CAP,
+    sortDir: SORT_DIRECTIONS.DESC,
+    symbols,
+  });
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), API_CONFIG.REQUEST_TIMEOUT);
+
+  try {
+    const response = await fetch(`/api/crypto?${query}`, { signal: controller.signal });
+    const body = await readJson(response);
+    if (!response.ok) {
+      throw new Error(describeApiError(parseApiError(body, response.status, ERROR_MESSAGES.FETCH_FAILED)));
+    }
+
+    const { value: result, dropped, error: validationError } = validateApiResponse(body, currency);
+    if (!result) {
+      throw new Error(`${ERROR_MESSAGES.INVALID_API_RESPONSE}: ${validationError}`);
+    }
+    reportDroppedRecords("/api/crypto", dropped);
+    return result.data;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/**
+ * Reads the alert rules persisted in this browser
+ *
+ * @returns {AlertState | null} Stored state, or null when absent or unreadable
+ */
+const readStoredAlerts = (): AlertState | null => {
+  try {
+    const stored = localStorage.getItem(ALERT_CONFIG.STORAGE_KEY);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored) as AlertState;
+    if (!Array.isArray(parsed?.rules)) return null;
+    return { rules: parsed.rules, browserNotifications: parsed.browserNotifications === true };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Persists the alert rules in this browser
+ * Storage failures (quota, privacy mode) only cost persistence
+ *
+ * @param {AlertState} state - State to store
+ */
+const writeStoredAlerts = (state: AlertState) => {
+  try {
+    localStorage.setItem(ALERT_CONFIG.STORAGE_KEY, JSON.stringify(state));
+  } catch (err) {
+    console.warn("Price alerts could not be persisted:", err);
+  }
+};
+
+/**
+ * Checks whether browser notifications can be shown without asking
+ *
+ * @returns {boolean} True when the Notifications API is available and permitted
+ */
+const canNotify = (): boolean => typeof Notification !== "undefined" && Notification.permission === "granted";
+
+/**
+ * Custom hook managing price alert rules and evaluating them on data refreshes
+ *
+ * Features:
+ * - Above/below price level rules (firing when the price crosses the level)
+ *   and percent change rules over 1h/24h/7d for one asset or every loaded asset
+ * - Rules for assets outside the loaded page are evaluated against their own
+ *   quotes (`/api/crypto?symbols=`), requested at most every
+ *   ALERT_CONFIG.QUOTE_REFRESH_MS; rules whose asset cannot be quoted are
+ *   reported through `unquotedSymbols`
+ * - Per-rule cooldown per asset, so a rule does not fire on every refresh
+ * - Triggers of one refresh are delivered together through `onTrigger`, and as
+ *   a browser notification when enabled and permitted
+ * - Rules persisted to localStorage and kept in sync across tabs, including
+ *   their cooldowns
+ *
+ * @param {UsePriceAlertsOptions} options - Hook options
+ * @param {Function} options.onTrigger - Shows an alert message in the app
+ * @returns {Object} Alert state and actions
+ * @returns {AlertRule[]} rules - Every rule in creation order
+ * @returns {boolean} browserNotifications - Whether browser notifications are enabled
+ * @returns {string[]} unquotedSymbols - Symbols of enabled rules that had no quote in the latest evaluation
+ * @returns {Function} addRule - Validates and adds a rule, returning an error or null
+ * @returns {Function} removeRule - Deletes a rule
+ * @returns {Function} toggleRule - Enables or disables a rule
+ * @returns {Function} setBrowserNotifications - Enables browser notifications (asking for
+ *   permission) or disables them, resolving to an error or null
+ * @returns {Function} evaluate - Evaluates the rules against a data refresh, quoting
+ *   rule assets the refresh does not hold
+ */
+export function usePriceAlerts({ onTrigger }: UsePriceAlertsOptions) {
+  const [state, setState] = useState<AlertState>(EMPTY_STATE);
+  // Storage is only read after mounting, so the server render matches the first client render
+  const [restored, setRestored] = useState(false);
+  const [unquotedSymbols, setUnquotedSymbols] = useState<string[]>([]);
+
+  // Latest state and callback for evaluate, which stays stable across renders
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const onTriggerRef = useRef(onTrigger);
+  onTriggerRef.current = onTrigger;
+
+  // Prices of the previous refresh, to detect level crossings
+  const previousPricesRef = useRef<{ currency: QuoteCurrency | null; prices: Map<number, number> }>({
+    currency: null,
+    prices: new Map(),
+  });
+  // Quotes of rule assets outside the loaded page, reused until they are due again
+  const ruleQuotesRef = useRef<RuleQuotes | null>(null);
+  // Latest evaluation; an older one still waiting for quotes is dropped
+  const evaluationRef = useRef(0);
+
+  useEffect(() => {
+    setState(readStoredAlerts() ?? EMPTY_STATE);
+    setRestored(true);
+
+    // Follow changes made in other tabs, including cooldowns started there
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === ALERT_CONFIG.STORAGE_KEY) {
+        setState(readStoredAlerts() ?? EMPTY_STATE);
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  useEffect(() => {
+    if (restored) {
+      writeStoredAlerts(state);
+    }
+  }, [state, restored]);
+
+  /**
+   * Validates and adds an alert rule
+   *
+   * @param {AlertRuleDraft} draft - Rule fields as entered
+   * @returns {string | null} Validation error, or null when added
+   */
+  const addRule = useCallback((draft: AlertRuleDraft): string | null => {
+    const error = validateAlertDraft(draft, state.rules.length);
+    if (error) return error;
+    const rule = createAlertRule(draft);
+    setState((current) => ({ ...current, rules: [...current.rules, rule] }));
+    return null;
+  }, [state.rules.length]);
+
+  /**
+   * Deletes an alert rule
+   *
+   * @param {string} id - Rule id
+   */
+  const removeRule = useCallback((id: string) => {
+    setState((current) => ({ ...current, rules: current.rules.filter((rule) => rule.id !== id) }));
+  }, []);
+
+  /**
+   * Enables or disables an alert rule
+   *
+   * @param {string} id - Rule id
+   */
+  const toggleRule = useCallback((id: string) => {
+    setState((current) => ({
+      ...current,
+      rules: current.rules.map((rule) => (rule.id === id ? { ...rule, enabled: !rule.enabled } : rule)),
+    }));
+  }, []);
+
+  /**
+   * Enables or disables browser notifications
+   * Enabling asks for notification permission when it was not decided yet
+   *
+   * @param {boolean} enabled - Whether to show browser notifications
+   * @returns {Promise<string | null>} Error when notifications are unavailable, otherwise null
+   */
+  const setBrowserNotifications = useCallback(async (enabled: boolean): Promise<string | null> => {
+    if (enabled) {
+      if (typeof Notification === "undefined") return ERROR_MESSAGES.NOTIFICATIONS_UNSUPPORTED;
+      const permission =
+        Notification.permission === "default" ? await Notification.requestPermission() : Notification.permission;
+      if (permission !== "granted") return ERROR_MESSAGES.NOTIFICATIONS_DENIED;
+    }
+    setState((current) => ({ ...current, browserNotifications: enabled }));
+    return null;
+  }, []);
+
+  /**
+   * Returns quotes for rule assets outside the loaded page
+   * Quotes are reused for ALERT_CONFIG.QUOTE_REFRESH_MS, and concurrent callers
+   * share one request; a failed request counts as quoting nothing
+   *
+   * @param {string[]} symbols - Sorted symbols to quote
+   * @param {QuoteCurrency} currency - Quote currency
+   * @returns {Promise<CryptoAsset[]>} Quoted assets
+   */
+  const loadRuleQuotes = useCallback((symbols: string[], currency: QuoteCurrency): Promise<CryptoAsset[]> => {
+    const key = `${currency}:${symbols.join(",")}`;
+    const cached = ruleQuotesRef.current;
+    if (cached?.key === key && (cached.pending || Date.now() - cached.fetchedAt < ALERT_CONFIG.QUOTE_REFRESH_MS)) {
+      return cached.pending ?? Promise.resolve(cached.assets);
+    }
+
+    const entry: RuleQuotes = { key, fetchedAt: Date.now(), assets: [], pending: null };
+    entry.pending = fetchRuleQuotes(symbols, currency)
+      .catch((err) => {
+        console.warn("Price alert quotes could not be loaded:", err);
+        return [];
+      })
+      .then((assets) => {
+        entry.assets = assets;
+        entry.fetchedAt = Date.now();
+        entry.pending = null;
+        return assets;
+      });
+    ruleQuotesRef.current = entry;
+    return entry.pending;
+  }, []);
+
+  /**
+   * Evaluates the rules against a data refresh and delivers the triggers
+   * Symbols of enabled rules missing from the refresh are quoted first, so
+   * every rule is checked against a current price
+   *
+   * @param {CryptoAsset[]} assets - Assets of the refresh
+   * @param {QuoteCurrency} currency - Quote currency of the refresh
+   */
+  const evaluate = useCallback(async (assets: CryptoAsset[], currency: QuoteCurrency) => {
+    const evaluation = ++evaluationRef.current;
+    const loadedSymbols = new Set(assets.map((asset) => asset.symbol));
+    const missingSymbols = [
+      ...new Set(
+        stateRef.current.rules.flatMap((rule) =>
+          rule.enabled && rule.symbol !== null && !loadedSymbols.has(rule.symbol) ? [rule.symbol] : []
+        )
+      ),
+    ].sort();
+    const ruleQuotes = missingSymbols.length > 0 ? await loadRuleQuotes(missingSymbols, currency) : [];
+    if (evaluation !== evaluationRef.current) return;
+
+    const quoted = [...assets, ...ruleQuotes.filter((asset) => !loadedSymbols.has(asset.symbol))];
+    const quotedSymbols = new Set(quoted.map((asset) => asset.symbol));
+    const unquoted = missingSymbols.filter((symbol) => !quotedSymbols.has(symbol));
+    setUnquotedSymbols((current) => (current.join(",") === unquoted.join(",") ? current : unquoted));
+
+    const previous = previousPricesRef.current;
+    const previousPrices = previous.currency === currency ? previous.prices : new Map<number, number>();
+    previousPricesRef.current = {
+      currency,
+      prices: new Map(quoted.map((asset) => [asset.id, asset.quote[currency]?.price ?? 0])),
+    };
+
+    const { rules, browserNotifications } = stateRef.current;
+    const now = Date.now();
+    const triggers = evaluateAlertRules(rules, quoted, currency, previousPrices, now);
+    if (triggers.length === 0) return;
+
+    setState((current) => ({ ...current, rules: markAlertsTriggered(current.rules, triggers, now) }));
+    const message = describeAlertTriggers(triggers, currency);
+    onTriggerRef.current(message);
+    if (browserNotifications && canNotify()) {
+      new Notification(ALERT_CONFIG.NOTIFICATION_TITLE, { body: message });
+    }
+  }, [loadRuleQuotes]);
+
+  return {
+    rules: state.rules,
+    browserNotifications: state.browserNotifications,
+    unquotedSymbols,
+    addRule,
+    removeRule,
+    toggleRule,
+    setBrowserNotifications,
+    evaluate,
+  };
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { CryptoAsset, PriceBuffer, PriceDirection, QuoteCurrency } from "../types";
+import { SPARKLINE_CONFIG } from "../constants";
+
+/**
+ * Reads the buffer persisted earlier in this browser session
+ *
+ * @returns {PriceBuffer | null} Stored buffer, or null when absent or unreadable
+ */
+const readStoredBuffer = (): PriceBuffer | null => {
+  try {
+    const stored = sessionStorage.getItem(SPARKLINE_CONFIG.STORAGE_KEY);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored) as PriceBuffer;
+    return typeof parsed?.currency === "string" && typeof parsed.prices === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Persists the buffer for the rest of the browser session
+ * Storage failures (quota, privacy mode) only cost persistence
+ *
+ * @param {PriceBuffer} buffer - Buffer to store
+ */
+const writeStoredBuffer = (buffer: PriceBuffer) => {
+  try {
+    sessionStorage.setItem(SPARKLINE_CONFIG.STORAGE_KEY, JSON.stringify(buffer));
+  } catch (err) {
+    console.warn("Price buffer could not be persisted:", err);
+  }
+};
+
+/**
+ * Custom hook keeping a rolling price history per asset across data refreshes
+ *
+ * Features:
+ * - Records every asset's price once per refresh (keyed by the data timestamp)
+ * - Keeps the last SPARKLINE_CONFIG.MAX_POINTS prices per asset id, including
+ *   assets that are no longer on the current page
+ * - Persists the buffer to sessionStorage and restores it after a reload
+ * - Starts over when the quote currency changes
+ * - Reports which prices went up or down in the latest refresh (never for
+ *   the first refresh after a reload)
+ *
+ * @param {CryptoAsset[]} cryptoData - Currently loaded assets
+ * @param {QuoteCurrency} currency - Quote currency of the loaded assets
+ * @param {Date | null} lastUpdated - Timestamp of the loaded market data
+ *
+ * @returns {Object} Buffer state
+ * @returns {Record<number, number[]>} sparklines - Recent prices per asset id, oldest first
+ * @returns {Record<number, PriceDirection>} priceChanges - Direction of each price that changed in the latest refresh
+ */
+export function usePriceBuffer(
+  cryptoData: CryptoAsset[],
+  currency: QuoteCurrency,
+  lastUpdated: Date | null
+) {
+  const [sparklines, setSparklines] = useState<Record<number, number[]>>({});
+  const [priceChanges, setPriceChanges] = useState<Record<number, PriceDirection>>({});
+
+  // Buffer recorded in this page view; null until the first refresh is recorded
+  const bufferRef = useRef<PriceBuffer | null>(null);
+  // Data timestamp of the last recorded refresh, so re-renders are not recorded twice
+  const recordedAtRef = useRef<number | null>(null);
+
+  // Append the prices of each new refresh
+  useEffect(() => {
+    const timestamp = lastUpdated?.getTime() ?? null;
+    if (timestamp === null || timestamp === recordedAtRef.current || cryptoData.length === 0) return;
+    recordedAtRef.current = timestamp;
+
+    const live = bufferRef.current !== null;
+    const previous = bufferRef.current ?? readStoredBuffer();
+    const prices = previous?.currency === currency ? { ...previous.prices } : {};
+    const changes: Record<number, PriceDirection> = {};
+
+    for (const asset of cryptoData) {
+      const price = asset.quote[currency]?.price;
+      if (price === undefined) continue;
+
+      const series = prices[asset.id] ?? [];
+      const last = series[series.length - 1];
+      if (live && last !== undefined && price !== last) {
+        changes[asset.id] = price > last ? "up" : "down";
+      }
+      prices[asset.id] = [...series, price].slice(-SPARKLINE_CONFIG.MAX_POINTS);
+    }
+
+    bufferRef.current = { currency, prices };
+    writeStoredBuffer(bufferRef.current);
+    setSparklines(prices);
+    setPriceChanges(changes);
+  }, [cryptoData, currency, lastUpdated]);
+
+  return { sparklines, priceChanges };
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { StreamStatus } from "../types";
+import { STREAM_CONFIG, STREAM_STATUS } from "../constants";
+
+interface UsePriceStreamProps {
+  url: string;
+  onSnapshot: (snapshot: unknown) => void;
+  onUpdate: (update: unknown) => void;
+  /** Closes the connection while true (e.g., page hidden or offline) */
+  paused: boolean;
+}
+
+/**
+ * Reads the JSON data of a stream event
+ * Truncated or malformed frames yield null, which the stream validators reject
+ * like any other malformed payload
+ *
+ * @param {Event} event - Server-sent event
+ * @returns {unknown} Parsed data, or null when it is not JSON
+ */
+const parseEventData = (event: Event): unknown => {
+  try {
+    return JSON.parse((event as MessageEvent).data);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Custom hook for subscribing to the live price stream (Server-Sent Events)
+ *
+ * Features:
+ * - Connects to the given stream URL with EventSource, reconnecting when it changes
+ * - Delivers the initial snapshot and subsequent price diffs through callbacks,
+ *   parsed but not validated (see validateStreamSnapshot/validateStreamUpdate);
+ *   frames that are not JSON are delivered as null
+ * - Reconnects with exponential backoff and jitter when the connection drops
+ * - Closes the connection while paused and reconnects once resumed, so hidden
+ *   or offline pages do not keep the server refreshing quotes
+ * - Reports "polling" after repeated failures (or without EventSource support)
+ *   so callers can fall back to interval polling
+ *
+ * @param {UsePriceStreamProps} props - Hook configuration
+ * @param {string} props.url - Stream URL including the listings query
+ * @param {Function} props.onSnapshot - Called with the full asset set on (re)connect
+ * @param {Function} props.onUpdate - Called with changed assets on each push
+ * @param {boolean} props.paused - Whether to stay disconnected
+ *
+ * @returns {Object} Stream state
+ * @returns {StreamStatus} status - Current connection state
+ */
+export function usePriceStream({ url, onSnapshot, onUpdate, paused }: UsePriceStreamProps) {
+  const [status, setStatus] = useState<StreamStatus>(STREAM_STATUS.CONNECTING);
+
+  // Keep the latest callbacks without reopening the connection on every render
+  const handlersRef = useRef({ onSnapshot, onUpdate });
+  useEffect(() => {
+    handlersRef.current = { onSnapshot, onUpdate };
+  }, [onSnapshot, onUpdate]);
+
+  useEffect(() => {
+    if (typeof EventSource === "undefined") {
+      setStatus(STREAM_STATUS.POLLING);
+      return;
+    }
+
+    // Nothing stays open while paused; resuming connects from scratch
+    setStatus(STREAM_STATUS.CONNECTING);
+    if (paused) return;
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let disposed = false;
+
+    const connect = () => {
+      source = new EventSource(url);
+
+      source.addEventListener("snapshot", (event) => {
+        attempts = 0;
+        setStatus(STREAM_STATUS.LIVE);
+        handlersRef.current.onSnapshot(parseEventData(event));
+      });
+
+      source.addEventListener("prices", (event) => {
+        handlersRef.current.onUpdate(parseEventData(event));
+      });
+
+      source.onerror = () => {
+        // Close the built-in auto-reconnect and apply our own backoff instead
+        source?.close();
+        source = null;
+        if (disposed) return;
+
+        attempts += 1;
+        setStatus(
+          attempts > STREAM_CONFIG.MAX_RECONNECT_ATTEMPTS
+            ? STREAM_STATUS.POLLING
+            : STREAM_STATUS.RECONNECTING
+        );
+
+        const delay = Math.min(
+          STREAM_CONFIG.RECONNECT_BASE_DELAY * 2 ** (attempts - 1),
+          STREAM_CONFIG.RECONNECT_MAX_DELAY
+        );
+        retryTimer = setTimeout(connect, delay + Math.random() * STREAM_CONFIG.RECONNECT_BASE_DELAY);
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(retryTimer);
+      source?.close();
+    };
+  }, [url, paused]);
+
+  return { status };
+}
@@ -1,52 +1,119 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
-import { PurchaseFormData, FormErrors, CryptoAsset } from "../types";
-import { PURCHASE_LIMITS, ERROR_MESSAGES } from "../constants";
+import { useState, useCallback, useEffect, useMemo } from "react";
+import {
+  PurchaseFormData,
+  FormErrors,
+  CryptoAsset,
+  OrderEstimate,
+  OrderLimits,
+  OrderRequest,
+  OrderQuote,
+  OrderResponse,
+  PendingOrder,
+  PortfolioHolding,
+  QuoteCurrency,
+  QuoteStatus,
+} from "../types";
+import { ERROR_MESSAGES, PORTFOLIO_CONFIG, SUCCESS_MESSAGES } from "../constants";
+import { describeApiError, parseApiError, readJson } from "../utils/apiValidation";
+import { amountToQuantity, describeOrderLimits, estimateOrder, getOrderLimits } from "../utils/orderPricing";
+
+/** Tolerance for float noise when comparing a sell against the held quantity */
+const QUANTITY_EPSILON = 1e-10;
 
 interface UsePurchaseFormProps {
   cryptoData: CryptoAsset[];
+  currency: QuoteCurrency;
+  usdRate: number | null;
+  holdings: PortfolioHolding[];
   getDefaultAsset: () => string;
-  onSuccess: (message: string) => void;
+  onSuccess: (message: string, pendingOrder?: PendingOrder) => void;
   onError: (message: string) => void;
+  onOrderPlaced: (response: OrderResponse) => void;
 }
 
 /**
  * Custom hook for managing cryptocurrency purchase form functionality
  * 
  * Features:
- * - Form state management for amount and asset selection
- * - Comprehensive validation with error handling
- * - Purchase simulation with quantity calculation
+ * - Form state management for side, order type, order size and asset selection
+ * - Market orders, or limit/stop orders with a trigger price
+ * - Order size entered either as an amount in the quote currency or as a coin
+ *   quantity; the other is derived live from the current price
+ * - Fee and slippage estimate for the order before it is placed (at the trigger
+ *   price for limit and stop orders)
+ * - Comprehensive validation with error handling, including sells larger than
+ *   the held quantity
+ * - Confirmation step with a price-locked quote and countdown; the order is
+ *   requoted when the lock expires or the live price moves beyond tolerance
+ * - Submits buy and sell orders to the simulated portfolio (priced server-side)
  * - Success/error callback integration
  * 
  * @param {UsePurchaseFormProps} props - Hook configuration
  * @param {CryptoAsset[]} props.cryptoData - Available cryptocurrency assets
+ * @param {QuoteCurrency} props.currency - Quote currency of the amount and asset prices
+ * @param {number | null} props.usdRate - USD value of one unit of the currency, converting the
+ *   USD purchase limits; without it, only the server checks the limits
+ * @param {PortfolioHolding[]} props.holdings - Current holdings, used to validate sells
  * @param {Function} props.getDefaultAsset - Function to get default asset ID (prefers Bitcoin)
- * @param {Function} props.onSuccess - Success callback with message
+ * @param {Function} props.onSuccess - Success callback with message, and the open order when
+ *   a limit or stop order was placed
  * @param {Function} props.onError - Error callback with message
+ * @param {Function} props.onOrderPlaced - Called with the filled or pending order and updated portfolio
  * 
  * @returns {Object} Form state and handlers
  * @returns {PurchaseFormData} formData - Current form data
  * @returns {FormErrors} formErrors - Validation errors
- * @returns {Function} handleSubmit - Form submission handler
+ * @returns {boolean} submitting - True while an order is being placed
+ * @returns {OrderEstimate | null} estimate - Estimated fill, null until the order is sized
+ * @returns {number} heldQuantity - Quantity held of the selected asset
+ * @returns {OrderLimits | null} limits - Purchase limits in the quote currency, null until the rate is known
+ * @returns {OrderQuote | null} quote - Order awaiting confirmation
+ * @returns {QuoteStatus | null} quoteStatus - Whether the quote can be confirmed
+ * @returns {number | null} quoteSecondsLeft - Seconds left on the price lock
+ * @returns {Function} handleSubmit - Form submission handler (opens the confirmation step)
+ * @returns {Function} confirmOrder - Places the quoted order
+ * @returns {Function} requote - Quotes the order again at the current price
+ * @returns {Function} cancelConfirmation - Closes the confirmation step
  * @returns {Function} updateField - Field update handler
  * @returns {Function} setSelectedAsset - Asset selection helper
  * @returns {Function} validateForm - Manual validation trigger
  */
-export function usePurchaseForm({ cryptoData, getDefaultAsset, onSuccess, onError }: UsePurchaseFormProps) {
+export function usePurchaseForm({
+  cryptoData,
+  currency,
+  usdRate,
+  holdings,
+  getDefaultAsset,
+  onSuccess,
+  onError,
+  onOrderPlaced,
+}: UsePurchaseFormProps) {
   const [formData, setFormData] = useState<PurchaseFormData>({
+    side: "buy",
+    orderType: "market",
+    triggerPrice: "",
+    entryMode: "amount",
     amount: "",
+    quantity: "",
     selectedAsset: "",
   });
   const [formErrors, setFormErrors] = useState<FormErrors>({});
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [quote, setQuote] = useState<OrderQuote | null>(null);
+  const [now, setNow] = useState<number>(() => Date.now());
 
   /**
    * Effect to set default asset when crypto data becomes available
    * Automatically selects Bitcoin (BTC) if available, otherwise first asset
+   * Also reselects when the chosen asset is no longer listed (e.g. after a page change)
    */
   useEffect(() => {
-    if (cryptoData.length > 0 && !formData.selectedAsset) {
+    const isListed = cryptoData.some(
+      (crypto) => crypto.id.toString() === formData.selectedAsset
+    );
+    if (cryptoData.length > 0 && (!formData.selectedAsset || !isListed)) {
       const defaultAssetId = getDefaultAsset();
       if (defaultAssetId) {
         setFormData(prev => ({ ...prev, selectedAsset: defaultAssetId }));
@@ -54,25 +121,100 @@ export function usePurchaseForm({ cryptoData, getDefaultAsset, onSuccess, onErro
     }
   }, [cryptoData, getDefaultAsset, formData.selectedAsset]);
 
+  /**
+   * Quantity held of the selected asset (0 when not held)
+   */
+  const heldQuantity = useMemo(() => {
+    const holding = holdings.find(
+      (entry) => entry.assetId.toString() === formData.selectedAsset
+    );
+    return holding?.quantity ?? 0;
+  }, [holdings, formData.selectedAsset]);
+
+  /**
+   * PURCHASE_LIMITS converted from USD to the quote currency
+   */
+  const limits = useMemo(
+    (): OrderLimits | null => (usdRate ? getOrderLimits(usdRate, currency) : null),
+    [usdRate, currency]
+  );
+
+  /**
+   * Estimated fill for the entered order size at the selected asset's current
+   * price, or at the trigger price for limit and stop orders
+   * Recomputed as prices update, so the derived amount or quantity stays live
+   */
+  const estimate = useMemo((): OrderEstimate | null => {
+    const asset = cryptoData.find(
+      (crypto) => crypto.id.toString() === formData.selectedAsset
+    );
+    const price = formData.orderType === "market"
+      ? asset?.quote[currency]?.price
+      : parseFloat(formData.triggerPrice);
+    const size = parseFloat(formData.entryMode === "amount" ? formData.amount : formData.quantity);
+    if (!asset || !(price && price > 0) || !(size > 0)) {
+      return null;
+    }
+
+    const quantity = formData.entryMode === "amount" ? amountToQuantity(size, price) : size;
+    return estimateOrder(formData.side, quantity, price);
+  }, [cryptoData, currency, formData]);
+
   /**
    * Validates the purchase form data
-   * Checks amount validity (required, numeric, within limits) and asset selection
+   * Checks the entered amount or quantity (required, numeric, within limits),
+   * sells against the held quantity and asset selection
    * 
    * @returns {boolean} True if form is valid, false otherwise
    */
   const validateForm = useCallback((): boolean => {
     const errors: FormErrors = {};
     const amount = parseFloat(formData.amount);
+    const quantity = parseFloat(formData.quantity);
 
-    // Validate amount field
-    if (!formData.amount || formData.amount.trim() === "") {
-      errors.amount = ERROR_MESSAGES.AMOUNT_REQUIRED;
-    } else if (isNaN(amount)) {
-      errors.amount = ERROR_MESSAGES.INVALID_NUMBER;
-    } else if (amount <= 0) {
-      errors.amount = ERROR_MESSAGES.AMOUNT_TOO_LOW;
-    } else if (amount > PURCHASE_LIMITS.MAX_AMOUNT) {
-      errors.amount = ERROR_MESSAGES.AMOUNT_TOO_HIGH;
+    // Validate whichever size field the user entered
+    if (formData.entryMode === "amount") {
+      if (!formData.amount || formData.amount.trim() === "") {
+        errors.amount = ERROR_MESSAGES.AMOUNT_REQUIRED;
+      } else if (isNaN(amount)) {
+        errors.amount = ERROR_MESSAGES.INVALID_NUMBER;
+      } else if (amount <= 0) {
+        errors.amount = ERROR_MESSAGES.AMOUNT_TOO_LOW;
+      } else if (limits && (amount < limits.min || amount > limits.max)) {
+        errors.amount = describeOrderLimits(limits, currency);
+      }
+    } else {
+      if (!formData.quantity || formData.quantity.trim() === "") {
+        errors.quantity = ERROR_MESSAGES.QUANTITY_REQUIRED;
+      } else if (isNaN(quantity)) {
+        errors.quantity = ERROR_MESSAGES.INVALID_NUMBER;
+      } else if (quantity <= 0) {
+        errors.quantity = ERROR_MESSAGES.QUANTITY_TOO_LOW;
+      } else if (estimate && limits && (estimate.value < limits.min || estimate.value > limits.max)) {
+        errors.quantity = describeOrderLimits(limits, currency);
+      }
+    }
+
+    // Limit and stop orders need a trigger price
+    if (formData.orderType !== "market") {
+      const triggerPrice = parseFloat(formData.triggerPrice);
+      if (!formData.triggerPrice || formData.triggerPrice.trim() === "") {
+        errors.triggerPrice = ERROR_MESSAGES.TRIGGER_PRICE_REQUIRED;
+      } else if (isNaN(triggerPrice)) {
+        errors.triggerPrice = ERROR_MESSAGES.INVALID_NUMBER;
+      } else if (triggerPrice <= 0) {
+        errors.triggerPrice = ERROR_MESSAGES.TRIGGER_PRICE_TOO_LOW;
+      }
+    }
+
+    // Sells cannot exceed the quantity held
+    if (
+      formData.side === "sell" &&
+      !errors[formData.entryMode] &&
+      estimate &&
+      estimate.quantity > heldQuantity + QUANTITY_EPSILON
+    ) {
+      errors[formData.entryMode] = ERROR_MESSAGES.INSUFFICIENT_HOLDINGS;
     }
 
     // Validate asset selection
@@ -82,62 +224,203 @@ export function usePurchaseForm({ cryptoData, getDefaultAsset, onSuccess, onErro
 
     setFormErrors(errors);
     return Object.keys(errors).length === 0;
-  }, [formData]);
+  }, [formData, estimate, limits, currency, heldQuantity]);
+
+  /**
+   * Quotes the entered order at the selected asset's current price
+   * Market orders lock the price for PORTFOLIO_CONFIG.PRICE_LOCK_MS; limit and
+   * stop orders are quoted at their trigger price and never expire
+   *
+   * @returns {OrderQuote | null} Quote, or null when the order cannot be sized
+   */
+  const buildQuote = useCallback((): OrderQuote | null => {
+    const asset = cryptoData.find(
+      (crypto) => crypto.id.toString() === formData.selectedAsset
+    );
+    const marketPrice = asset?.quote[currency]?.price;
+    if (!asset || !marketPrice || !estimate) {
+      return null;
+    }
+
+    const isMarket = formData.orderType === "market";
+    const price = isMarket ? marketPrice : parseFloat(formData.triggerPrice);
+
+    // The quoted quantity is sent, so the fill matches what the user confirmed
+    const order: OrderRequest = {
+      assetId: asset.id,
+      side: formData.side,
+      type: formData.orderType,
+      ...(isMarket ? { quotedPrice: price } : { triggerPrice: price }),
+      quantity: estimate.quantity,
+      currency,
+    };
+
+    return {
+      order,
+      name: asset.name,
+      symbol: asset.symbol,
+      price,
+      estimate,
+      expiresAt: isMarket ? Date.now() + PORTFOLIO_CONFIG.PRICE_LOCK_MS : null,
+      requoteRequired: false,
+    };
+  }, [cryptoData, currency, estimate, formData]);
+
+  // Tick once a second while a quote is shown so its countdown and expiry stay current
+  useEffect(() => {
+    if (!quote) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [quote]);
+
+  /**
+   * Whether the quote can still be confirmed
+   * A market quote needs a requote once its lock expires, once the live price
+   * moves beyond PORTFOLIO_CONFIG.REQUOTE_TOLERANCE or when the server refused it
+   */
+  const quoteStatus = useMemo((): QuoteStatus | null => {
+    if (!quote) return null;
+    if (quote.order.type !== "market") return "locked";
+
+    const asset = cryptoData.find((crypto) => crypto.id === quote.order.assetId);
+    const livePrice = asset?.quote[quote.order.currency]?.price;
+    if (
+      quote.requoteRequired ||
+      !livePrice ||
+      Math.abs(livePrice - quote.price) / quote.price > PORTFOLIO_CONFIG.REQUOTE_TOLERANCE
+    ) {
+      return "moved";
+    }
+    if (quote.expiresAt !== null && now >= quote.expiresAt) return "expired";
+    return "locked";
+  }, [quote, cryptoData, now]);
+
+  /** Whole seconds left on the price lock, null for limit and stop orders */
+  const quoteSecondsLeft = quote?.expiresAt != null
+    ? Math.max(0, Math.ceil((quote.expiresAt - now) / 1000))
+    : null;
 
   /**
    * Handles form submission for cryptocurrency purchase
-   * Validates form, calculates purchase details, and logs transaction data
+   * Validates the form and opens the confirmation step with a price-locked quote;
+   * nothing is sent until the quote is confirmed
    * 
    * @param {React.FormEvent} e - Form submission event
    */
   const handleSubmit = useCallback((e: React.FormEvent) => {
     e.preventDefault();
+    if (submitting) return;
 
     if (!validateForm()) {
       onError("Please fix the form errors before submitting");
       return;
     }
 
-    const asset = cryptoData.find(
-      (crypto) => crypto.id.toString() === formData.selectedAsset
-    );
-    const amount = parseFloat(formData.amount);
-
-    if (!asset) {
+    const nextQuote = buildQuote();
+    if (!nextQuote) {
       onError("Selected asset not found");
       return;
     }
+    setQuote(nextQuote);
+  }, [validateForm, buildQuote, submitting, onError]);
 
-    // Create purchase transaction data for logging
-    const purchaseData = {
-      usdAmount: amount,
-      selectedAsset: {
-        id: asset.id,
-        name: asset.name,
-        symbol: asset.symbol,
-        price: asset.quote.USD.price,
-      },
-      estimatedQuantity: amount / asset.quote.USD.price, // Calculate crypto quantity
-      timestamp: new Date().toISOString(),
-    };
+  /**
+   * Replaces the quote with one at the current price and restarts the price lock
+   * Closes the confirmation step when the order can no longer be quoted
+   */
+  const requote = useCallback(() => {
+    setQuote(buildQuote());
+  }, [buildQuote]);
 
-    // Log transaction details to console (in real app, this would be sent to backend)
-    console.log("Purchase Data:", purchaseData);
+  /**
+   * Closes the confirmation step without placing the order
+   */
+  const cancelConfirmation = useCallback(() => {
+    setQuote(null);
+  }, []);
 
-    // Reset form after successful submission
-    setFormData({ amount: "", selectedAsset: "" });
-    setFormErrors({});
-    onSuccess("Purchase order submitted successfully! Check console for details.");
-  }, [formData, validateForm, cryptoData, onSuccess, onError]);
+  /**
+   * Places the quoted order with the orders API and reports the fill
+   * Quotes that expired or moved are requoted instead; a server-side price
+   * check that fails keeps the dialog open and asks for a requote
+   */
+  const confirmOrder = useCallback(async () => {
+    if (!quote || submitting) return;
+    if (quoteStatus !== "locked") {
+      requote();
+      return;
+    }
+
+    const { order } = quote;
+    try {
+      setSubmitting(true);
+      const response = await fetch(PORTFOLIO_CONFIG.ORDERS_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(order),
+      });
+      const result = await readJson(response);
+
+      if (!response.ok) {
+        const apiError = parseApiError(result, response.status, ERROR_MESSAGES.ORDER_FAILED);
+        if (apiError.code === "PRICE_MOVED") {
+          setQuote(prev => prev && { ...prev, requoteRequired: true });
+          return;
+        }
+        setQuote(null);
+        onError(describeApiError(apiError));
+        return;
+      }
+
+      // Reset form after successful submission
+      const placed = result as OrderResponse;
+      setQuote(null);
+      setFormData(prev => ({ ...prev, amount: "", quantity: "", triggerPrice: "", selectedAsset: "" }));
+      setFormErrors({});
+      onOrderPlaced(placed);
+      // Limit/stop orders whose trigger was already crossed resolve immediately
+      if (placed.pendingOrder?.status === "open") {
+        onSuccess(SUCCESS_MESSAGES.ORDER_PLACED, placed.pendingOrder);
+      } else if (placed.pendingOrder && placed.pendingOrder.status !== "filled") {
+        onError(placed.pendingOrder.reason || ERROR_MESSAGES.ORDER_FAILED);
+      } else {
+        onSuccess(
+          order.side === "sell" ? SUCCESS_MESSAGES.SALE_SUBMITTED : SUCCESS_MESSAGES.PURCHASE_SUBMITTED
+        );
+      }
+    } catch (err) {
+      console.error("Order submission error:", err);
+      setQuote(null);
+      onError(ERROR_MESSAGES.ORDER_FAILED);
+    } finally {
+      setSubmitting(false);
+    }
+  }, [quote, quoteStatus, submitting, requote, onSuccess, onError, onOrderPlaced]);
 
   /**
    * Updates a specific field in the form data and clears related errors
+   * Editing the amount or quantity makes it the field the other is derived from
    * 
    * @param {keyof PurchaseFormData} field - Field name to update
    * @param {string} value - New field value
    */
   const updateField = useCallback((field: keyof PurchaseFormData, value: string) => {
-    setFormData(prev => ({ ...prev, [field]: value }));
+    setFormData(prev => ({
+      ...prev,
+      [field]: value,
+      ...(field === "amount" || field === "quantity" ? { entryMode: field } : {}),
+    }));
+    // Both size fields describe the same order, and switching side or order
+    // type changes which limits apply, so size errors are cleared together
+    if (field === "side" || field === "amount" || field === "quantity") {
+      setFormErrors(prev => ({ ...prev, amount: undefined, quantity: undefined }));
+      return;
+    }
+    if (field === "orderType") {
+      setFormErrors(prev => ({ ...prev, amount: undefined, quantity: undefined, triggerPrice: undefined }));
+      return;
+    }
     // Clear error for this field when user starts typing
     if (formErrors[field as keyof FormErrors]) {
       setFormErrors(prev => ({ ...prev, [field]: undefined }));
@@ -156,7 +439,17 @@ export function usePurchaseForm({ cryptoData, getDefaultAsset, onSuccess, onErro
   return {
     formData,
     formErrors,
+    submitting,
+    estimate,
+    heldQuantity,
+    limits,
+    quote,
+    quoteStatus,
+    quoteSecondsLeft,
     handleSubmit,
+    confirmOrder,
+    requote,
+    cancelConfirmation,
     updateField,
     setSelectedAsset,
     validateForm,
@@ -0,0 +1,115 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { VIRTUALIZATION_CONFIG } from "../constants";
+
+interface UseVirtualRowsOptions {
+  rowCount: number;
+  rowHeight: number;
+  overscan?: number;
+}
+
+/** Rendered rows, `end` exclusive */
+interface RowRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Custom hook windowing a list of fixed-height rows scrolled with the page
+ *
+ * Features:
+ * - Renders only the rows within the viewport plus an overscan margin
+ * - Follows window scrolling, resizing and layout shifts, measured at most once per frame
+ * - Padding above and below the rendered rows keeps the full scroll height
+ * - Scrolls a row into view, e.g. when keyboard focus moves to an unrendered row
+ *
+ * @param {UseVirtualRowsOptions} options - Windowing options
+ * @param {number} options.rowCount - Number of rows
+ * @param {number} options.rowHeight - Height of every row in pixels
+ * @param {number} [options.overscan] - Rows rendered beyond each viewport edge
+ * @returns {Object} Window state
+ * @returns {React.RefObject} containerRef - Ref for the element holding the rows
+ * @returns {number} start - First rendered row
+ * @returns {number} end - Row after the last rendered one
+ * @returns {number} paddingTop - Height in pixels standing in for the rows above
+ * @returns {number} paddingBottom - Height in pixels standing in for the rows below
+ * @returns {Function} scrollToRow - Scrolls the page just enough to show a row
+ */
+export function useVirtualRows<T extends HTMLElement>({
+  rowCount,
+  rowHeight,
+  overscan = VIRTUALIZATION_CONFIG.OVERSCAN_ROWS,
+}: UseVirtualRowsOptions) {
+  const containerRef = useRef<T>(null);
+  const [range, setRange] = useState<RowRange>({ start: 0, end: VIRTUALIZATION_CONFIG.INITIAL_ROWS });
+
+  /**
+   * Recomputes the rendered rows from the container's position in the viewport
+   */
+  const measure = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const top = container.getBoundingClientRect().top;
+    const firstVisible = Math.floor(Math.max(0, -top) / rowHeight);
+    const lastVisible = Math.ceil(Math.max(0, window.innerHeight - top) / rowHeight);
+    const start = Math.min(Math.max(firstVisible - overscan, 0), rowCount);
+    const end = Math.min(Math.max(lastVisible + overscan, start), rowCount);
+    setRange((current) => (current.start === start && current.end === end ? current : { start, end }));
+  }, [rowCount, rowHeight, overscan]);
+
+  useEffect(() => {
+    measure();
+
+    let frame = 0;
+    const scheduleMeasure = () => {
+      if (!frame) {
+        frame = requestAnimationFrame(() => {
+          frame = 0;
+          measure();
+        });
+      }
+    };
+    window.addEventListener("scroll", scheduleMeasure, { passive: true });
+    window.addEventListener("resize", scheduleMeasure);
+    // Content above the rows (e.g., an expanding panel) moves them without scrolling
+    const observer = new ResizeObserver(scheduleMeasure);
+    observer.observe(document.body);
+    return () => {
+      cancelAnimationFrame(frame);
+      observer.disconnect();
+      window.removeEventListener("scroll", scheduleMeasure);
+      window.removeEventListener("resize", scheduleMeasure);
+    };
+  }, [measure]);
+
+  /**
+   * Scrolls the page just enough for a row to be fully visible, and renders it
+   *
+   * @param {number} row - Row index
+   */
+  const scrollToRow = useCallback((row: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const rowTop = container.getBoundingClientRect().top + row * rowHeight;
+    if (rowTop < 0) {
+      window.scrollBy({ top: rowTop });
+    } else if (rowTop + rowHeight > window.innerHeight) {
+      window.scrollBy({ top: rowTop + rowHeight - window.innerHeight });
+    }
+    measure();
+  }, [rowHeight, measure]);
+
+  // The row count can shrink before the next measurement
+  const start = Math.min(range.start, rowCount);
+  const end = Math.min(range.end, rowCount);
+
+  return {
+    containerRef,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: (rowCount - end) * rowHeight,
+    scrollToRow,
+  };
+}
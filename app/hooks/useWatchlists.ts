@@ -0,0 +1,269 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Watchlist, WatchlistState } from "../types";
+import { ERROR_MESSAGES, WATCHLIST_CONFIG } from "../constants";
+import { normalizeSymbol } from "../utils/listingsQuery";
+import {
+  createWatchlistId,
+  mergeWatchlists,
+  parseWatchlistImport,
+  serializeWatchlists,
+  validateWatchlistName,
+} from "../utils/watchlists";
+
+/** State before anything was stored: no lists, all assets shown */
+const EMPTY_STATE: WatchlistState = { lists: [], activeId: null };
+
+/**
+ * Reads the watchlists persisted in this browser
+ *
+ * @returns {WatchlistState | null} Stored state, or null when absent or unreadable
+ */
+const readStoredWatchlists = (): WatchlistState | null => {
+  try {
+    const stored = localStorage.getItem(WATCHLIST_CONFIG.STORAGE_KEY);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored) as WatchlistState;
+    if (!Array.isArray(parsed?.lists)) return null;
+    const activeId = parsed.lists.some((list) => list.id === parsed.activeId) ? parsed.activeId : null;
+    return { lists: parsed.lists, activeId };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Persists the watchlists in this browser
+ * Storage failures (quota, privacy mode) only cost persistence
+ *
+ * @param {WatchlistState} state - State to store
+ */
+const writeStoredWatchlists = (state: WatchlistState) => {
+  try {
+    localStorage.setItem(WATCHLIST_CONFIG.STORAGE_KEY, JSON.stringify(state));
+  } catch (err) {
+    console.warn("Watchlists could not be persisted:", err);
+  }
+};
+
+/**
+ * Custom hook managing named watchlists of ticker symbols
+ *
+ * Features:
+ * - Multiple named watchlists persisted to localStorage, kept in sync across tabs
+ * - Active watchlist the asset list is filtered to (null shows all assets)
+ * - Star toggles act on the active watchlist, or the first one when all assets
+ *   are shown; the first star creates a WATCHLIST_CONFIG.DEFAULT_NAME list
+ * - Adding symbols by hand, so lists can hold assets outside the top-N listing
+ * - JSON export and import (imported lists merge into same-named lists)
+ *
+ * Mutators return a user-facing error message, or null on success.
+ *
+ * @returns {Object} Watchlist state and actions
+ * @returns {Watchlist[]} watchlists - Every watchlist in creation order
+ * @returns {Watchlist | null} activeWatchlist - Watchlist the asset list is filtered to
+ * @returns {Watchlist | null} starTarget - Watchlist star toggles add to and remove from
+ * @returns {Function} selectWatchlist - Filters to a watchlist id, or null for all assets
+ * @returns {Function} createWatchlist - Creates and activates a named watchlist
+ * @returns {Function} renameWatchlist - Renames a watchlist
+ * @returns {Function} deleteWatchlist - Deletes a watchlist
+ * @returns {Function} toggleSymbol - Stars or unstars a symbol in the star target
+ * @returns {Function} addSymbol - Adds a typed symbol to the star target
+ * @returns {Function} restoreSymbol - Puts a removed symbol back into a watchlist
+ * @returns {Function} exportWatchlists - Serializes every watchlist to JSON
+ * @returns {Function} importWatchlists - Merges watchlists from exported JSON
+ */
+export function useWatchlists() {
+  const [state, setState] = useState<WatchlistState>(EMPTY_STATE);
+  // Storage is only read after mounting, so the server render matches the first client render
+  const [restored, setRestored] = useState(false);
+
+  useEffect(() => {
+    setState(readStoredWatchlists() ?? EMPTY_STATE);
+    setRestored(true);
+
+    // Follow changes made in other tabs
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === WATCHLIST_CONFIG.STORAGE_KEY) {
+        setState(readStoredWatchlists() ?? EMPTY_STATE);
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  useEffect(() => {
+    if (restored) {
+      writeStoredWatchlists(state);
+    }
+  }, [state, restored]);
+
+  const activeWatchlist = state.lists.find((list) => list.id === state.activeId) ?? null;
+  const starTarget = activeWatchlist ?? state.lists[0] ?? null;
+
+  /**
+   * Replaces the symbols of the star target, creating the default list when there is none
+   *
+   * @param {Function} update - Computes the new symbols from the current ones
+   */
+  const updateStarTarget = useCallback((update: (symbols: string[]) => string[]) => {
+    setState((current) => {
+      const target =
+        current.lists.find((list) => list.id === current.activeId) ?? current.lists[0];
+      if (!target) {
+        const created: Watchlist = {
+          id: createWatchlistId(),
+          name: WATCHLIST_CONFIG.DEFAULT_NAME,
+          symbols: update([]),
+        };
+        return { ...current, lists: [created] };
+      }
+      return {
+        ...current,
+        lists: current.lists.map((list) =>
+          list.id === target.id ? { ...list, symbols: update(list.symbols) } : list
+        ),
+      };
+    });
+  }, []);
+
+  /**
+   * Filters the asset list to a watchlist
+   *
+   * @param {string | null} id - Watchlist id, or null to show all assets
+   */
+  const selectWatchlist = useCallback((id: string | null) => {
+    setState((current) => ({ ...current, activeId: id }));
+  }, []);
+
+  /**
+   * Creates an empty watchlist and filters to it
+   *
+   * @param {string} name - Watchlist name
+   * @returns {string | null} Validation error, or null when created
+   */
+  const createWatchlist = useCallback((name: string): string | null => {
+    const error = validateWatchlistName(name, state.lists);
+    if (error) return error;
+    const created: Watchlist = { id: createWatchlistId(), name: name.trim(), symbols: [] };
+    setState((current) => ({ lists: [...current.lists, created], activeId: created.id }));
+    return null;
+  }, [state.lists]);
+
+  /**
+   * Renames a watchlist
+   *
+   * @param {string} id - Watchlist id
+   * @param {string} name - New name
+   * @returns {string | null} Validation error, or null when renamed
+   */
+  const renameWatchlist = useCallback((id: string, name: string): string | null => {
+    const error = validateWatchlistName(name, state.lists, id);
+    if (error) return error;
+    setState((current) => ({
+      ...current,
+      lists: current.lists.map((list) => (list.id === id ? { ...list, name: name.trim() } : list)),
+    }));
+    return null;
+  }, [state.lists]);
+
+  /**
+   * Deletes a watchlist; deleting the active one shows all assets again
+   *
+   * @param {string} id - Watchlist id
+   */
+  const deleteWatchlist = useCallback((id: string) => {
+    setState((current) => ({
+      lists: current.lists.filter((list) => list.id !== id),
+      activeId: current.activeId === id ? null : current.activeId,
+    }));
+  }, []);
+
+  /**
+   * Stars or unstars an asset in the star target
+   *
+   * @param {string} symbol - Ticker symbol of the asset
+   * @returns {string | null} Error when the watchlist is full, otherwise null
+   */
+  const toggleSymbol = useCallback((symbol: string): string | null => {
+    const symbols = starTarget?.symbols ?? [];
+    if (!symbols.includes(symbol) && symbols.length >= WATCHLIST_CONFIG.MAX_ASSETS) {
+      return ERROR_MESSAGES.WATCHLIST_FULL;
+    }
+    updateStarTarget((current) =>
+      current.includes(symbol) ? current.filter((entry) => entry !== symbol) : [...current, symbol]
+    );
+    return null;
+  }, [starTarget, updateStarTarget]);
+
+  /**
+   * Adds a typed ticker symbol to the star target
+   * Symbols already in the list are accepted without change
+   *
+   * @param {string} value - Symbol as typed (any case)
+   * @returns {string | null} Validation error, or null when added
+   */
+  const addSymbol = useCallback((value: string): string | null => {
+    const symbol = normalizeSymbol(value);
+    if (!symbol) return ERROR_MESSAGES.INVALID_WATCHLIST_SYMBOL;
+    const symbols = starTarget?.symbols ?? [];
+    if (symbols.includes(symbol)) return null;
+    if (symbols.length >= WATCHLIST_CONFIG.MAX_ASSETS) return ERROR_MESSAGES.WATCHLIST_FULL;
+    updateStarTarget((current) => (current.includes(symbol) ? current : [...current, symbol]));
+    return null;
+  }, [starTarget, updateStarTarget]);
+
+  /**
+   * Puts a removed symbol back into a watchlist, e.g. to undo unstarring
+   * Does nothing when the watchlist is gone, full or already holds the symbol
+   *
+   * @param {string} id - Watchlist id
+   * @param {string} symbol - Ticker symbol of the asset
+   */
+  const restoreSymbol = useCallback((id: string, symbol: string) => {
+    setState((current) => ({
+      ...current,
+      lists: current.lists.map((list) =>
+        list.id === id && !list.symbols.includes(symbol) && list.symbols.length < WATCHLIST_CONFIG.MAX_ASSETS
+          ? { ...list, symbols: [...list.symbols, symbol] }
+          : list
+      ),
+    }));
+  }, []);
+
+  /**
+   * Serializes every watchlist for download
+   *
+   * @returns {string} Export file contents
+   */
+  const exportWatchlists = useCallback(() => serializeWatchlists(state.lists), [state.lists]);
+
+  /**
+   * Merges the watchlists of an export file into the existing ones
+   *
+   * @param {string} text - Export file contents
+   * @returns {string | null} Import error, or null when merged
+   */
+  const importWatchlists = useCallback((text: string): string | null => {
+    const { watchlists, error } = parseWatchlistImport(text);
+    if (!watchlists) return error;
+    setState((current) => ({ ...current, lists: mergeWatchlists(current.lists, watchlists) }));
+    return null;
+  }, []);
+
+  return {
+    watchlists: state.lists,
+    activeWatchlist,
+    starTarget,
+    selectWatchlist,
+    createWatchlist,
+    renameWatchlist,
+    deleteWatchlist,
+    toggleSymbol,
+    addSymbol,
+    restoreSymbol,
+    exportWatchlists,
+    importWatchlists,
+  };
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { ApiErrorCode, ApiErrorResponse } from "../types";
+import { API_ERRORS, ERROR_MESSAGES } from "../constants";
+import { logger, requestContext } from "./logger";
+import { recordApiError } from "./metrics";
+import { readUpstreamFailure } from "./upstream";
+
+/**
+ * Builds the JSON error response shared by every API route
+ * The HTTP status and retryability follow from the code (see API_ERRORS); the
+ * error is counted and logged with the current request
+ *
+ * @param {ApiErrorCode} code - Error code
+ * @param {string} message - User-facing summary
+ * @param {string} [details] - Specific cause
+ * @param {HeadersInit} [headers] - Extra response headers (e.g., CORS)
+ * @returns {NextResponse<ApiErrorResponse>} Error response
+ *
+ * @example
+ * apiErrorResponse("INVALID_QUERY", ERROR_MESSAGES.INVALID_QUERY, ERROR_MESSAGES.INVALID_LIMIT)
+ * // Responds 400 with { error: { code: "INVALID_QUERY", message: "Invalid listings query",
+ * //   retryable: false, details: "limit must be a positive integer" } }
+ */
+export function apiErrorResponse(
+  code: ApiErrorCode,
+  message: string,
+  details?: string,
+  headers?: HeadersInit
+): NextResponse<ApiErrorResponse> {
+  const { status, retryable } = API_ERRORS[code];
+  recordApiError(requestContext.getStore()?.route ?? "unknown", code);
+  logger.warn("API error response", { code, status, details });
+  return NextResponse.json(
+    { error: { code, message, retryable, ...(details !== undefined && { details }) } },
+    { status, headers }
+  );
+}
+
+/**
+ * Builds the error response for a failure caught by a route handler
+ *
+ * Upstream failures (see app/lib/upstream) map to 504 UPSTREAM_TIMEOUT,
+ * 503 UPSTREAM_UNAVAILABLE (with Retry-After when known) or 502 UPSTREAM_FAILED;
+ * other errors use the fallback code. Details are fixed descriptions: caught
+ * error messages may carry upstream bodies or server paths, so they are only logged.
+ *
+ * @param {unknown} error - Caught value
+ * @param {ApiErrorCode} fallbackCode - Code for errors that are not upstream failures
+ * @param {string} message - User-facing summary
+ * @param {Record<string, string>} [headers] - Extra response headers (e.g., CORS)
+ * @returns {NextResponse<ApiErrorResponse>} Error response
+ */
+export function failureResponse(
+  error: unknown,
+  fallbackCode: ApiErrorCode,
+  message: string,
+  headers: Record<string, string> = {}
+): NextResponse<ApiErrorResponse> {
+  const failure = readUpstreamFailure(error);
+  switch (failure?.kind) {
+    case "timeout":
+      return apiErrorResponse("UPSTREAM_TIMEOUT", message, ERROR_MESSAGES.UPSTREAM_TIMEOUT, headers);
+    case "unavailable":
+      return apiErrorResponse("UPSTREAM_UNAVAILABLE", message, ERROR_MESSAGES.UPSTREAM_UNAVAILABLE, {
+        ...headers,
+        ...(failure.retryAfterMs !== undefined && {
+          "Retry-After": Math.ceil(failure.retryAfterMs / 1000).toString(),
+        }),
+      });
+    case "failed":
+      return apiErrorResponse("UPSTREAM_FAILED", message, ERROR_MESSAGES.UPSTREAM_FAILED, headers);
+    default:
+      return apiErrorResponse(fallbackCode, message, undefined, headers);
+  }
+}
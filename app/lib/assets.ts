@@ -0,0 +1,19 @@
+import { CryptoAsset, QuoteCurrency } from "../types";
+import { getCachedUniverse } from "./quoteCache";
+
+/**
+ * Looks up an asset of the quoted universe by ticker symbol
+ *
+ * Symbols are matched case-insensitively. Tickers are not unique across all
+ * cryptocurrencies, so the highest-ranked asset wins.
+ *
+ * @param {string} symbol - Ticker symbol (e.g., "btc")
+ * @param {QuoteCurrency} convert - Quote currency of the returned asset
+ * @returns {Promise<CryptoAsset | null>} Matching asset, or null when none is quoted
+ * @throws {Error} When upstream fails and no snapshot has been cached yet
+ */
+export async function findAssetBySymbol(symbol: string, convert: QuoteCurrency): Promise<CryptoAsset | null> {
+  const wanted = symbol.toUpperCase();
+  const assets = await getCachedUniverse(convert);
+  return assets.find((asset) => asset.symbol.toUpperCase() === wanted) ?? null;
+}
@@ -0,0 +1,132 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { ClientErrorReport } from "../types";
+import { CLIENT_ERROR_CONFIG } from "../constants";
+import { globalState } from "./globalState";
+
+/** Reports accepted from one client address in the current window */
+interface RateLimitWindow {
+  /** Epoch milliseconds the window started at */
+  startedAt: number;
+  count: number;
+}
+
+/** Outcome of a rate limit check */
+export type RateLimitResult = { allowed: true } | { allowed: false; retryAfterMs: number };
+
+/** Client error report as written to the log */
+export interface ClientErrorLogEntry extends ClientErrorReport {
+  /** ISO timestamp the report was received at */
+  receivedAt: string;
+  /** Id of the request that delivered the report */
+  requestId?: string;
+}
+
+const logPath = path.resolve(process.env.CLIENT_ERROR_LOG_PATH || CLIENT_ERROR_CONFIG.DEFAULT_LOG_PATH);
+
+// Proxies in front of the server that append to X-Forwarded-For; without any,
+// the header is set by the client itself and cannot identify it
+const parsedProxyCount = parseInt(process.env.TRUSTED_PROXY_COUNT ?? "", 10);
+const trustedProxyCount = isNaN(parsedProxyCount) || parsedProxyCount < 0 ? 0 : parsedProxyCount;
+
+// Process-wide, so every request shares the rate limit windows and write queue
+const windows = globalState("clientErrorWindows", () => new Map<string, RateLimitWindow>());
+const logQueue = globalState("clientErrorLogQueue", () => ({ tail: Promise.resolve() as Promise<unknown> }));
+
+/**
+ * Identifies the client that sent a request, for rate limiting
+ *
+ * Features:
+ * - With TRUSTED_PROXY_COUNT set, reads the address the outermost trusted proxy
+ *   appended to X-Forwarded-For; entries before it are client-controlled
+ * - Without it, or when the header has fewer hops than trusted proxies, every
+ *   request shares the "direct" key, so a spoofed header cannot evade the limit
+ *
+ * @param {Headers} headers - Request headers
+ * @returns {string} Client address or "direct"
+ *
+ * @example
+ * // TRUSTED_PROXY_COUNT=1
+ * getClientKey(new Headers({ "x-forwarded-for": "1.1.1.1, 203.0.113.7" }))
+ * // Returns "203.0.113.7"
+ */
+export function getClientKey(headers: Headers): string {
+  if (trustedProxyCount === 0) return "direct";
+
+  const hops = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops[hops.length - trustedProxyCount] ?? "direct";
+}
+
+/**
+ * Counts a report against its client's rate limit
+ *
+ * Features:
+ * - Fixed windows of CLIENT_ERROR_CONFIG.RATE_LIMIT_WINDOW_MS allow RATE_LIMIT reports each
+ * - Expired windows are dropped on every check
+ * - Tracks at most CLIENT_ERROR_CONFIG.MAX_TRACKED_CLIENTS clients; reports from
+ *   new clients are refused until the oldest window expires, so rotating
+ *   addresses can neither grow the map nor reset other clients' limits
+ *
+ * @param {string} clientKey - Client address (see getClientKey)
+ * @returns {RateLimitResult} Whether the report is accepted, or when to send again
+ */
+export function takeReportSlot(clientKey: string): RateLimitResult {
+  const now = Date.now();
+  windows.forEach((window, key) => {
+    if (now - window.startedAt >= CLIENT_ERROR_CONFIG.RATE_LIMIT_WINDOW_MS) windows.delete(key);
+  });
+
+  if (!windows.has(clientKey) && windows.size >= CLIENT_ERROR_CONFIG.MAX_TRACKED_CLIENTS) {
+    // Windows are inserted in start order, so the first one expires first
+    const [oldest] = windows.values();
+    return { allowed: false, retryAfterMs: oldest.startedAt + CLIENT_ERROR_CONFIG.RATE_LIMIT_WINDOW_MS - now };
+  }
+
+  const window = windows.get(clientKey) ?? { startedAt: now, count: 0 };
+  windows.set(clientKey, window);
+  if (window.count >= CLIENT_ERROR_CONFIG.RATE_LIMIT) {
+    return { allowed: false, retryAfterMs: window.startedAt + CLIENT_ERROR_CONFIG.RATE_LIMIT_WINDOW_MS - now };
+  }
+  window.count += 1;
+  return { allowed: true };
+}
+
+/**
+ * Appends one entry to the log, rotating a full log to `<path>.1` first
+ *
+ * @param {ClientErrorLogEntry} entry - Entry to write
+ */
+const appendEntry = async (entry: ClientErrorLogEntry) => {
+  await fs.mkdir(path.dirname(logPath), { recursive: true });
+  const size = await fs.stat(logPath).then(
+    (stats) => stats.size,
+    () => 0
+  );
+  if (size >= CLIENT_ERROR_CONFIG.MAX_LOG_BYTES) {
+    await fs.rename(logPath, `${logPath}.1`);
+  }
+  await fs.appendFile(logPath, `${JSON.stringify(entry)}\n`, "utf8");
+};
+
+/**
+ * Writes a client error report to the log file as a JSON line
+ *
+ * Features:
+ * - Appends to CLIENT_ERROR_LOG_PATH (default CLIENT_ERROR_CONFIG.DEFAULT_LOG_PATH),
+ *   creating its directory when missing
+ * - Rotates the file to `<path>.1` once it reaches CLIENT_ERROR_CONFIG.MAX_LOG_BYTES
+ * - Serializes writes, so concurrent reports never interleave with a rotation
+ *
+ * @param {ClientErrorLogEntry} entry - Sanitized report with its receipt details
+ * @returns {Promise<void>} Resolves once the entry is written
+ * @throws {Error} When the log file cannot be written
+ */
+export function writeClientErrorReport(entry: ClientErrorLogEntry): Promise<void> {
+  const run = () => appendEntry(entry);
+  const queued = logQueue.tail.then(run, run);
+  logQueue.tail = queued.catch(() => undefined);
+  return queued;
+}
@@ -0,0 +1,18 @@
+/**
+ * Returns process-wide state stored on globalThis, creating it on first use
+ *
+ * Route handlers are bundled separately, so module-level variables would hold
+ * one copy per route. Keeping the state on globalThis shares a single copy
+ * between every route handler in this server process (and across dev reloads).
+ *
+ * @param {string} key - globalThis property holding the state
+ * @param {Function} init - Creates the initial state
+ * @returns {T} State stored under `key`
+ *
+ * @example
+ * const circuits = globalState("upstreamCircuits", () => new Map<string, CircuitState>());
+ */
+export const globalState = <T>(key: string, init: () => T): T => {
+  const store = globalThis as typeof globalThis & Record<string, unknown>;
+  return (store[key] ??= init()) as T;
+};
@@ -0,0 +1,110 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { OBSERVABILITY_CONFIG } from "../constants";
+
+/** Severity of a log entry, lowest first */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Extra fields of a log entry */
+export type LogFields = Record<string, unknown>;
+
+/** Request the code is running for, added to every entry logged on its behalf */
+export interface RequestContext {
+  requestId: string;
+  /** Route pattern (e.g., "/api/orders/[id]") */
+  route: string;
+}
+
+/** Rank of each level, entries below the configured one are dropped */
+const LOG_LEVEL_RANKS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+/**
+ * Checks whether a string names a log level
+ *
+ * @param {string | undefined} value - Candidate level
+ * @returns {boolean} True for debug, info, warn and error
+ */
+const isLogLevel = (value: string | undefined): value is LogLevel =>
+  value !== undefined && Object.hasOwn(LOG_LEVEL_RANKS, value);
+
+const configuredLevel = process.env.LOG_LEVEL?.toLowerCase();
+const minimumRank =
+  LOG_LEVEL_RANKS[isLogLevel(configuredLevel) ? configuredLevel : OBSERVABILITY_CONFIG.DEFAULT_LOG_LEVEL];
+
+/**
+ * Context of the request being handled, propagated across awaits, timers and
+ * streams started while handling it (see withRequestLogging)
+ */
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Converts a field value to its JSON form
+ * Errors keep their name, message, stack and cause, which JSON.stringify drops
+ *
+ * @param {unknown} value - Field value
+ * @returns {unknown} Serializable value
+ */
+const serializeValue = (value: unknown): unknown =>
+  value instanceof Error
+    ? {
+        name: value.name,
+        message: value.message,
+        stack: value.stack,
+        ...(value.cause !== undefined && { cause: serializeValue(value.cause) }),
+      }
+    : value;
+
+/**
+ * Writes one log entry as a JSON line
+ * Warnings and errors go to stderr, other levels to stdout
+ *
+ * @param {LogLevel} level - Severity
+ * @param {string} message - What happened
+ * @param {LogFields} [fields] - Extra fields
+ */
+const write = (level: LogLevel, message: string, fields: LogFields = {}) => {
+  if (LOG_LEVEL_RANKS[level] < minimumRank) return;
+
+  const entry: LogFields = {
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    ...requestContext.getStore(),
+  };
+  Object.entries(fields).forEach(([key, value]) => {
+    entry[key] = serializeValue(value);
+  });
+
+  const line = JSON.stringify(entry);
+  if (level === "error") {
+    console.error(line);
+  } else if (level === "warn") {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+};
+
+/**
+ * Server-side structured logger
+ *
+ * Features:
+ * - One JSON object per line with `time`, `level`, `msg` and the given fields
+ * - Adds `requestId` and `route` while a request is being handled
+ * - Drops entries below LOG_LEVEL (default OBSERVABILITY_CONFIG.DEFAULT_LOG_LEVEL)
+ * - Serializes Error fields with their message, stack and cause
+ *
+ * @example
+ * logger.info("Refreshing listings", { provider: "coinmarketcap" });
+ * // {"time":"...","level":"info","msg":"Refreshing listings","requestId":"...","route":"/api/crypto","provider":"coinmarketcap"}
+ */
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write("debug", message, fields),
+  info: (message: string, fields?: LogFields) => write("info", message, fields),
+  warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+  error: (message: string, fields?: LogFields) => write("error", message, fields),
+};
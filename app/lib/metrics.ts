@@ -0,0 +1,213 @@
+import { ApiErrorCode } from "../types";
+import { OBSERVABILITY_CONFIG } from "../constants";
+import type { CacheStatus } from "./quoteCache";
+import { globalState } from "./globalState";
+
+/** Label values of one metric series */
+type Labels = Record<string, string>;
+
+/** Counter series: a value that only goes up */
+interface CounterSeries {
+  labels: Labels;
+  value: number;
+}
+
+/** Histogram series: observation counts per bucket, plus their sum and count */
+interface HistogramSeries {
+  labels: Labels;
+  /** Observations per bucket of OBSERVABILITY_CONFIG.LATENCY_BUCKETS (not cumulative) */
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+/** Exposition metadata of each metric */
+const METRIC_DEFINITIONS = {
+  http_requests_total: { type: "counter", help: "API requests by route, method and status" },
+  http_request_duration_seconds: { type: "histogram", help: "API request latency by route and method" },
+  api_errors_total: { type: "counter", help: "API error responses by route and error code" },
+  upstream_request_duration_seconds: {
+    type: "histogram",
+    help: "Upstream provider request latency by provider and outcome (status, timeout or network_error)",
+  },
+  quote_cache_lookups_total: { type: "counter", help: "Quote cache lookups by outcome" },
+} as const;
+
+type MetricName = keyof typeof METRIC_DEFINITIONS;
+
+/** Process-wide metric series, keyed by metric name and then by serialized labels */
+interface MetricsState {
+  counters: Map<MetricName, Map<string, CounterSeries>>;
+  histograms: Map<MetricName, Map<string, HistogramSeries>>;
+}
+
+// Process-wide, so /api/metrics exposes every route's measurements
+const state = globalState<MetricsState>("metricsState", () => ({
+  counters: new Map(),
+  histograms: new Map(),
+}));
+
+/**
+ * Returns the series of a metric for a label set, creating missing ones
+ *
+ * @param {Map} store - Series per metric
+ * @param {MetricName} name - Metric name
+ * @param {Labels} labels - Label values
+ * @param {Function} create - Creates an empty series
+ * @returns {T} Series of the label set
+ */
+const getSeries = <T>(
+  store: Map<MetricName, Map<string, T>>,
+  name: MetricName,
+  labels: Labels,
+  create: () => T
+): T => {
+  let series = store.get(name);
+  if (!series) {
+    series = new Map();
+    store.set(name, series);
+  }
+  const key = JSON.stringify(labels);
+  let entry = series.get(key);
+  if (!entry) {
+    entry = create();
+    series.set(key, entry);
+  }
+  return entry;
+};
+
+/**
+ * Adds one to a counter
+ *
+ * @param {MetricName} name - Counter name
+ * @param {Labels} labels - Label values
+ */
+const incrementCounter = (name: MetricName, labels: Labels) => {
+  getSeries(state.counters, name, labels, () => ({ labels, value: 0 })).value += 1;
+};
+
+/**
+ * Records a latency observation in a histogram
+ *
+ * @param {MetricName} name - Histogram name
+ * @param {Labels} labels - Label values
+ * @param {number} seconds - Observed latency
+ */
+const observeHistogram = (name: MetricName, labels: Labels, seconds: number) => {
+  const series = getSeries(state.histograms, name, labels, () => ({
+    labels,
+    buckets: OBSERVABILITY_CONFIG.LATENCY_BUCKETS.map(() => 0),
+    sum: 0,
+    count: 0,
+  }));
+  const bucket = OBSERVABILITY_CONFIG.LATENCY_BUCKETS.findIndex((bound) => seconds <= bound);
+  if (bucket !== -1) series.buckets[bucket] += 1;
+  series.sum += seconds;
+  series.count += 1;
+};
+
+/**
+ * Records a handled API request
+ *
+ * @param {string} route - Route pattern
+ * @param {string} method - HTTP method
+ * @param {number} status - Response status
+ * @param {number} seconds - Time until the response was returned
+ */
+export function recordRequest(route: string, method: string, status: number, seconds: number) {
+  incrementCounter("http_requests_total", { route, method, status: status.toString() });
+  observeHistogram("http_request_duration_seconds", { route, method }, seconds);
+}
+
+/**
+ * Records an API error response
+ *
+ * @param {string} route - Route pattern, or "unknown" outside a request
+ * @param {ApiErrorCode} code - Error code
+ */
+export function recordApiError(route: string, code: ApiErrorCode) {
+  incrementCounter("api_errors_total", { route, code });
+}
+
+/**
+ * Records one upstream request attempt
+ *
+ * @param {string} provider - Provider name
+ * @param {string} outcome - Response status, "timeout" or "network_error"
+ * @param {number} seconds - Time until the attempt settled
+ */
+export function recordUpstreamRequest(provider: string, outcome: string, seconds: number) {
+  observeHistogram("upstream_request_duration_seconds", { provider, outcome }, seconds);
+}
+
+/**
+ * Records a quote cache lookup
+ *
+ * @param {CacheStatus} status - Cache outcome
+ */
+export function recordCacheLookup(status: CacheStatus) {
+  incrementCounter("quote_cache_lookups_total", { status });
+}
+
+/**
+ * Escapes a label value for the Prometheus text format
+ *
+ * @param {string} value - Raw label value
+ * @returns {string} Escaped value
+ */
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+/**
+ * Formats a label set as `{name="value",...}`
+ *
+ * @param {Labels} labels - Label values
+ * @returns {string} Label block, empty without labels
+ */
+const formatLabels = (labels: Labels): string => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+};
+
+/**
+ * Renders every metric in the Prometheus text exposition format (version 0.0.4)
+ *
+ * @returns {string} Exposition text
+ *
+ * @example
+ * renderMetrics()
+ * // # HELP http_requests_total API requests by route, method and status
+ * // # TYPE http_requests_total counter
+ * // http_requests_total{route="/api/crypto",method="GET",status="200"} 12
+ * // ...
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+
+  (Object.keys(METRIC_DEFINITIONS) as MetricName[]).forEach((name) => {
+    const { type, help } = METRIC_DEFINITIONS[name];
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+
+    if (type === "counter") {
+      state.counters.get(name)?.forEach(({ labels, value }) => {
+        lines.push(`${name}${formatLabels(labels)} ${value}`);
+      });
+      return;
+    }
+
+    state.histograms.get(name)?.forEach(({ labels, buckets, sum, count }) => {
+      let cumulative = 0;
+      OBSERVABILITY_CONFIG.LATENCY_BUCKETS.forEach((bound, index) => {
+        cumulative += buckets[index];
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: bound.toString() })} ${cumulative}`);
+      });
+      lines.push(
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`
+      );
+    });
+  });
+
+  return `${lines.join("\n")}\n`;
+}
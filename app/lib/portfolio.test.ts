@@ -0,0 +1,306 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { CryptoAsset, PendingOrder, QuoteCurrency } from "../types";
+import { ERROR_MESSAGES } from "../constants";
+import { describeOrderLimits, getOrderLimits } from "../utils/orderPricing";
+import { PortfolioLedger, readLedger, updateLedger } from "./portfolioStore";
+import { getCachedUniverse, peekFreshUniverse } from "./quoteCache";
+import { logger } from "./logger";
+import { evaluatePendingOrders, placeOrder } from "./portfolio";
+
+// In-memory ledger standing in for the JSON file
+const store = vi.hoisted(() => ({
+  ledger: { positions: [], orders: [], pendingOrders: [] } as PortfolioLedger,
+}));
+
+vi.mock("./portfolioStore", () => ({
+  readLedger: vi.fn(async () => structuredClone(store.ledger)),
+  updateLedger: vi.fn(async <T>(mutate: (ledger: PortfolioLedger) => T | Promise<T>) => {
+    const ledger = structuredClone(store.ledger);
+    const result = await mutate(ledger);
+    store.ledger = ledger;
+    return result;
+  }),
+}));
+
+vi.mock("./quoteCache", () => ({
+  getCachedUniverse: vi.fn(),
+  peekFreshUniverse: vi.fn(() => null),
+}));
+
+vi.mock("./logger", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+/**
+ * Builds an asset quoted at one price per currency
+ *
+ * @param {Partial<Record<QuoteCurrency, number>>} prices - Price per quote currency
+ * @returns {CryptoAsset} Asset with id 1 (BTC)
+ */
+const makeAsset = (prices: Partial<Record<QuoteCurrency, number>>): CryptoAsset => ({
+  id: 1,
+  name: "Bitcoin",
+  symbol: "BTC",
+  cmc_rank: 1,
+  circulating_supply: 19_000_000,
+  max_supply: 21_000_000,
+  quote: Object.fromEntries(
+    Object.entries(prices).map(([currency, price]) => [
+      currency,
+      {
+        price,
+        volume_24h: 0,
+        percent_change_1h: 0,
+        percent_change_24h: 0,
+        percent_change_7d: 0,
+        market_cap: 0,
+      },
+    ])
+  ),
+});
+
+/**
+ * Serves the quote cache universe from fixed prices
+ *
+ * @param {Partial<Record<QuoteCurrency, number>>} prices - BTC price per quote currency
+ */
+const quotePrices = (prices: Partial<Record<QuoteCurrency, number>>) => {
+  vi.mocked(getCachedUniverse).mockImplementation(async (convert) =>
+    prices[convert] === undefined ? [] : [makeAsset({ [convert]: prices[convert] })]
+  );
+};
+
+/**
+ * Builds an open pending order for BTC
+ *
+ * @param {Partial<PendingOrder>} overrides - Fields that differ from a limit buy at 45000 USD
+ * @returns {PendingOrder} Open order expiring in an hour
+ */
+const makePendingOrder = (overrides: Partial<PendingOrder> = {}): PendingOrder => ({
+  id: "pending-1",
+  assetId: 1,
+  name: "Bitcoin",
+  symbol: "BTC",
+  side: "buy",
+  type: "limit",
+  currency: "USD",
+  quantity: 0.01,
+  triggerPrice: 45000,
+  status: "open",
+  createdAt: new Date().toISOString(),
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  ...overrides,
+});
+
+beforeEach(() => {
+  store.ledger = { positions: [], orders: [], pendingOrders: [] };
+  vi.clearAllMocks();
+  quotePrices({ USD: 50000 });
+});
+
+describe("placeOrder", () => {
+  it("fills a market buy by amount and opens a position at its USD cost", async () => {
+    const result = await placeOrder({
+      assetId: 1,
+      side: "buy",
+      type: "market",
+      amount: 100,
+      currency: "USD",
+    });
+
+    expect(result.order?.fill.quantity).toBe(0.002);
+    expect(store.ledger.positions).toEqual([
+      expect.objectContaining({
+        assetId: 1,
+        quantity: 0.002,
+        costBasis: result.order?.fill.total,
+        lastPrice: 50000,
+      }),
+    ]);
+    expect(store.ledger.orders).toHaveLength(1);
+  });
+
+  it("rejects assets the quote cache does not quote", async () => {
+    const result = await placeOrder({
+      assetId: 2,
+      side: "buy",
+      type: "market",
+      amount: 100,
+      currency: "USD",
+    });
+
+    expect(result).toEqual({ error: ERROR_MESSAGES.ASSET_NOT_QUOTED });
+  });
+
+  it("rejects a confirmed price that moved beyond the requote tolerance", async () => {
+    const result = await placeOrder({
+      assetId: 1,
+      side: "buy",
+      type: "market",
+      quantity: 0.001,
+      quotedPrice: 49000,
+      currency: "USD",
+    });
+
+    expect(result).toEqual({ error: ERROR_MESSAGES.PRICE_MOVED });
+    expect(store.ledger.orders).toHaveLength(0);
+  });
+
+  it("checks the USD limits converted to the order currency", async () => {
+    // 1 EUR = 1.25 USD, so the $5,000 maximum is €4,000
+    quotePrices({ USD: 50000, EUR: 40000 });
+
+    const result = await placeOrder({
+      assetId: 1,
+      side: "buy",
+      type: "market",
+      amount: 4500,
+      currency: "EUR",
+    });
+
+    expect(result.error).toBe(describeOrderLimits(getOrderLimits(1.25, "EUR"), "EUR"));
+    expect(result.error).toContain("4,000.00");
+  });
+
+  it("accepts a quantity rounded up from an amount at the maximum", async () => {
+    quotePrices({ USD: 3 });
+
+    // 5000 / 3 rounds to 1666.66666667 coins, worth a fraction of a cent over $5,000
+    const result = await placeOrder({
+      assetId: 1,
+      side: "buy",
+      type: "market",
+      quantity: 1666.66666667,
+      quotedPrice: 3,
+      currency: "USD",
+    });
+
+    expect(result.order?.fill.quantity).toBe(1666.66666667);
+  });
+
+  it("rejects a sell larger than the holding", async () => {
+    const result = await placeOrder({
+      assetId: 1,
+      side: "sell",
+      type: "market",
+      quantity: 0.01,
+      currency: "USD",
+    });
+
+    expect(result).toEqual({ error: ERROR_MESSAGES.INSUFFICIENT_HOLDINGS });
+  });
+
+  it("stores limit orders as open, sized at their trigger price", async () => {
+    const result = await placeOrder({
+      assetId: 1,
+      side: "buy",
+      type: "limit",
+      triggerPrice: 40000,
+      amount: 100,
+      currency: "USD",
+    });
+
+    expect(result.pendingOrder).toEqual(
+      expect.objectContaining({
+        status: "open",
+        quantity: 0.0025,
+        triggerPrice: 40000,
+      })
+    );
+    expect(store.ledger.pendingOrders).toHaveLength(1);
+    expect(store.ledger.positions).toHaveLength(0);
+  });
+});
+
+describe("evaluatePendingOrders", () => {
+  const usdUniverse = [makeAsset({ USD: 50000 })];
+
+  it("fills a limit buy once the price reaches its trigger", async () => {
+    store.ledger.pendingOrders = [makePendingOrder({ triggerPrice: 50000 })];
+
+    const resolved = await evaluatePendingOrders("USD", usdUniverse);
+
+    expect(resolved).toEqual([expect.objectContaining({ id: "pending-1", status: "filled" })]);
+    expect(store.ledger.pendingOrders[0].filledOrderId).toBe(store.ledger.orders[0].id);
+    expect(store.ledger.positions).toEqual([expect.objectContaining({ assetId: 1, quantity: 0.01 })]);
+  });
+
+  it("leaves untriggered orders open without rewriting the ledger", async () => {
+    store.ledger.pendingOrders = [makePendingOrder()];
+
+    const resolved = await evaluatePendingOrders("USD", usdUniverse);
+
+    expect(resolved).toEqual([]);
+    expect(updateLedger).not.toHaveBeenCalled();
+    expect(store.ledger.pendingOrders[0].status).toBe("open");
+  });
+
+  it("expires orders past their expiry", async () => {
+    store.ledger.pendingOrders = [
+      makePendingOrder({
+        expiresAt: new Date(Date.now() - 1000).toISOString(),
+      }),
+    ];
+
+    const resolved = await evaluatePendingOrders("USD", usdUniverse);
+
+    expect(resolved).toEqual([
+      expect.objectContaining({
+        status: "expired",
+        resolvedAt: expect.any(String),
+      }),
+    ]);
+    expect(store.ledger.orders).toHaveLength(0);
+  });
+
+  it("rejects a triggered sell that no longer fits the holding", async () => {
+    store.ledger.pendingOrders = [makePendingOrder({ side: "sell", type: "stop", triggerPrice: 55000 })];
+
+    const resolved = await evaluatePendingOrders("USD", usdUniverse);
+
+    expect(resolved).toEqual([
+      expect.objectContaining({
+        status: "rejected",
+        reason: ERROR_MESSAGES.INSUFFICIENT_HOLDINGS,
+      }),
+    ]);
+  });
+
+  it("logs and resolves nothing when the ledger cannot be read", async () => {
+    vi.mocked(readLedger).mockRejectedValueOnce(new Error("disk full"));
+
+    const resolved = await evaluatePendingOrders("USD", usdUniverse);
+
+    expect(resolved).toEqual([]);
+    expect(logger.error).toHaveBeenCalledWith("Pending order evaluation failed", expect.any(Object));
+  });
+
+  it("only triggers orders quoted in the refreshed currency", async () => {
+    store.ledger.pendingOrders = [makePendingOrder({ triggerPrice: 50000 })];
+
+    const resolved = await evaluatePendingOrders("EUR", [makeAsset({ EUR: 40000 })]);
+
+    expect(resolved).toEqual([]);
+    expect(getCachedUniverse).not.toHaveBeenCalled();
+  });
+
+  it("fills orders in another currency at the cost of a fresh base currency universe", async () => {
+    store.ledger.pendingOrders = [makePendingOrder({ currency: "EUR", triggerPrice: 40000 })];
+    vi.mocked(peekFreshUniverse).mockReturnValueOnce(usdUniverse);
+
+    const resolved = await evaluatePendingOrders("EUR", [makeAsset({ EUR: 40000 })]);
+
+    expect(resolved).toEqual([expect.objectContaining({ status: "filled" })]);
+    expect(store.ledger.orders[0].costBasis).toBeCloseTo(store.ledger.orders[0].fill.total * 1.25);
+  });
+
+  it("leaves triggered orders in another currency open without a fresh base currency universe", async () => {
+    store.ledger.pendingOrders = [makePendingOrder({ currency: "EUR", triggerPrice: 40000 })];
+
+    const resolved = await evaluatePendingOrders("EUR", [makeAsset({ EUR: 40000 })]);
+
+    expect(resolved).toEqual([]);
+    expect(peekFreshUniverse).toHaveBeenCalledWith("USD");
+    expect(getCachedUniverse).not.toHaveBeenCalled();
+  });
+});
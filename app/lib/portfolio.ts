@@ -0,0 +1,395 @@
+import { randomUUID } from "crypto";
+import {
+  CryptoAsset,
+  OrderRequest,
+  OrderSide,
+  PendingOrder,
+  PortfolioHolding,
+  PortfolioOrder,
+  PortfolioSummary,
+  QuoteCurrency,
+} from "../types";
+import { ERROR_MESSAGES, PORTFOLIO_CONFIG } from "../constants";
+import { logger } from "./logger";
+import { getCachedUniverse, peekFreshUniverse } from "./quoteCache";
+import { PortfolioLedger, readLedger, updateLedger } from "./portfolioStore";
+import {
+  amountToQuantity,
+  describeOrderLimits,
+  estimateOrder,
+  getOrderLimits,
+  isOrderTriggered,
+} from "../utils/orderPricing";
+
+/**
+ * Result of placing an order
+ * Holds the filled order (market), the pending order (limit/stop) or a
+ * user-facing rejection reason
+ */
+export type PlaceOrderResult =
+  | { order: PortfolioOrder; pendingOrder?: undefined; error?: undefined }
+  | { order?: undefined; pendingOrder: PendingOrder; error?: undefined }
+  | { order?: undefined; pendingOrder?: undefined; error: string };
+
+/**
+ * Result of cancelling a pending order
+ * Holds either the cancelled order or a user-facing rejection reason
+ */
+export type CancelOrderResult =
+  | { pendingOrder: PendingOrder; error?: undefined }
+  | { pendingOrder?: undefined; error: string };
+
+/**
+ * Loads the whole quoted universe in one currency, keyed by asset id
+ * Goes through the quote cache, so repeated orders share one upstream call per TTL
+ *
+ * @param {QuoteCurrency} convert - Quote currency
+ * @returns {Promise<Map<number, CryptoAsset>>} Assets by id
+ */
+const getQuotedAssets = async (convert: QuoteCurrency): Promise<Map<number, CryptoAsset>> => {
+  const assets = await getCachedUniverse(convert);
+  return new Map(assets.map((asset) => [asset.id, asset]));
+};
+
+/** Remaining quantity below which a sold-down position is closed */
+const DUST_QUANTITY = 1e-10;
+
+/**
+ * Fills an order against the ledger at a market price
+ *
+ * Fee and slippage are applied with estimateOrder, the same estimate the
+ * purchase form shows. Cost basis and realized P&L are recorded in
+ * PORTFOLIO_CONFIG.BASE_CURRENCY so positions traded in different currencies
+ * can be aggregated; sells release cost basis pro rata.
+ *
+ * @param {PortfolioLedger} ledger - Ledger to update in place
+ * @param {CryptoAsset} asset - Traded asset
+ * @param {OrderSide} side - Order side
+ * @param {QuoteCurrency} currency - Currency of `price`
+ * @param {number} quantity - Coins to buy or sell
+ * @param {number} price - Market price in the order currency
+ * @param {number} basePrice - Market price in the base currency
+ * @returns {PlaceOrderResult} Filled order, or rejection when a sell exceeds the holding
+ */
+const fillOrder = (
+  ledger: PortfolioLedger,
+  asset: CryptoAsset,
+  side: OrderSide,
+  currency: QuoteCurrency,
+  quantity: number,
+  price: number,
+  basePrice: number
+): PlaceOrderResult => {
+  const position = ledger.positions.find((entry) => entry.assetId === asset.id);
+  const fill = estimateOrder(side, quantity, price);
+  // Converts order currency amounts into the base currency at the current rate
+  const toBase = basePrice / price;
+  const order: PortfolioOrder = {
+    id: randomUUID(),
+    assetId: asset.id,
+    name: asset.name,
+    symbol: asset.symbol,
+    side,
+    currency,
+    price,
+    fill,
+    costBasis: 0,
+    createdAt: new Date().toISOString(),
+  };
+
+  if (side === "sell") {
+    if (!position || quantity > position.quantity + DUST_QUANTITY) {
+      return { error: ERROR_MESSAGES.INSUFFICIENT_HOLDINGS };
+    }
+
+    const soldShare = Math.min(quantity / position.quantity, 1);
+    order.costBasis = position.costBasis * soldShare;
+    order.realizedPnl = fill.total * toBase - order.costBasis;
+
+    position.quantity -= quantity;
+    position.costBasis -= order.costBasis;
+    position.lastPrice = basePrice;
+    if (position.quantity < DUST_QUANTITY) {
+      ledger.positions = ledger.positions.filter((entry) => entry !== position);
+    }
+  } else {
+    order.costBasis = fill.total * toBase;
+
+    if (position) {
+      position.quantity += quantity;
+      position.costBasis += order.costBasis;
+      position.lastPrice = basePrice;
+    } else {
+      ledger.positions.push({
+        assetId: asset.id,
+        name: asset.name,
+        symbol: asset.symbol,
+        quantity,
+        costBasis: order.costBasis,
+        lastPrice: basePrice,
+      });
+    }
+  }
+
+  ledger.orders.push(order);
+  return { order };
+};
+
+/**
+ * Places an order in the ledger
+ *
+ * Market orders are sized in coins (an `amount` is converted at the current
+ * cached price) and filled immediately, unless the price has moved beyond
+ * PORTFOLIO_CONFIG.REQUOTE_TOLERANCE from the `quotedPrice` the user confirmed. Limit and stop orders are sized at
+ * their trigger price and stored as open until evaluatePendingOrders fills
+ * them, they expire after PORTFOLIO_CONFIG.PENDING_ORDER_TTL_MS or they are
+ * cancelled.
+ *
+ * @param {OrderRequest} request - Validated order
+ * @returns {Promise<PlaceOrderResult>} Filled or pending order, or rejection when the asset
+ *   is not quoted, the price moved (ERROR_MESSAGES.PRICE_MOVED), the order value is
+ *   outside PURCHASE_LIMITS (converted at the asset's USD price, with the converted
+ *   bounds in the message) or a sell exceeds the holding
+ * @throws {Error} When prices cannot be loaded or the ledger cannot be written
+ */
+export async function placeOrder(request: OrderRequest): Promise<PlaceOrderResult> {
+  const baseCurrency = PORTFOLIO_CONFIG.BASE_CURRENCY;
+  const [quoted, baseQuoted] = await Promise.all([
+    getQuotedAssets(request.currency),
+    request.currency === baseCurrency ? null : getQuotedAssets(baseCurrency),
+  ]);
+
+  const asset = quoted.get(request.assetId);
+  const price = asset?.quote[request.currency]?.price;
+  const basePrice = (baseQuoted ?? quoted).get(request.assetId)?.quote[baseCurrency]?.price;
+  if (!asset || !price || !basePrice) {
+    return { error: ERROR_MESSAGES.ASSET_NOT_QUOTED };
+  }
+
+  if (
+    request.quotedPrice !== undefined &&
+    Math.abs(price - request.quotedPrice) / request.quotedPrice > PORTFOLIO_CONFIG.REQUOTE_TOLERANCE
+  ) {
+    return { error: ERROR_MESSAGES.PRICE_MOVED };
+  }
+
+  // Pending orders are sized and limit-checked at the price they will fill at
+  const sizingPrice = request.type === "market" ? price : request.triggerPrice ?? price;
+  const quantity = request.quantity ?? amountToQuantity(request.amount ?? 0, sizingPrice);
+  // Amounts are checked as requested. Quantities are valued at the price the user confirmed,
+  // and may be worth up to half a quantity step more or less than the amount they were
+  // rounded from, so a form amount within the limits is never rejected
+  const valuationPrice = request.quotedPrice ?? sizingPrice;
+  const rounding = request.amount === undefined
+    ? (valuationPrice * 10 ** -PORTFOLIO_CONFIG.QUANTITY_DECIMALS) / 2
+    : 0;
+  const value = request.amount ?? quantity * valuationPrice;
+  // The asset's USD and quote currency prices give the currency's USD rate
+  const limits = getOrderLimits(basePrice / price, request.currency);
+  if (quantity <= 0 || value + rounding < limits.min || value - rounding > limits.max) {
+    return { error: describeOrderLimits(limits, request.currency) };
+  }
+
+  return updateLedger((ledger): PlaceOrderResult => {
+    if (request.type === "market") {
+      return fillOrder(ledger, asset, request.side, request.currency, quantity, price, basePrice);
+    }
+
+    // Sells are checked now and again when they trigger
+    const position = ledger.positions.find((entry) => entry.assetId === asset.id);
+    if (request.side === "sell" && (!position || quantity > position.quantity + DUST_QUANTITY)) {
+      return { error: ERROR_MESSAGES.INSUFFICIENT_HOLDINGS };
+    }
+
+    const now = Date.now();
+    const pendingOrder: PendingOrder = {
+      id: randomUUID(),
+      assetId: asset.id,
+      name: asset.name,
+      symbol: asset.symbol,
+      side: request.side,
+      type: request.type,
+      currency: request.currency,
+      quantity,
+      triggerPrice: sizingPrice,
+      status: "open",
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + PORTFOLIO_CONFIG.PENDING_ORDER_TTL_MS).toISOString(),
+    };
+    ledger.pendingOrders.push(pendingOrder);
+    return { pendingOrder };
+  });
+}
+
+/**
+ * Evaluates open limit and stop orders against a freshly refreshed universe
+ *
+ * Called by the quote cache after every universe refresh, and once an order
+ * is placed, so orders resolve as prices move. Only orders quoted in the
+ * refreshed currency can trigger; they are filled at its market price when
+ * the base currency universe is also fresh in the cache (it is never
+ * refreshed for this), and otherwise wait for a later refresh. Sells that no
+ * longer fit the holding are rejected, and orders of every currency past
+ * their expiry are expired. The ledger is only rewritten when at least one
+ * order resolves.
+ *
+ * Never throws: failures are logged and the orders are retried on the next call.
+ *
+ * @param {QuoteCurrency} currency - Currency of the refreshed universe
+ * @param {CryptoAsset[]} assets - Refreshed universe
+ * @returns {Promise<PendingOrder[]>} Orders resolved by this evaluation
+ */
+export async function evaluatePendingOrders(currency: QuoteCurrency, assets: CryptoAsset[]): Promise<PendingOrder[]> {
+  try {
+    const { pendingOrders } = await readLedger();
+    const open = pendingOrders.filter((order) => order.status === "open");
+    if (open.length === 0) return [];
+
+    const baseCurrency = PORTFOLIO_CONFIG.BASE_CURRENCY;
+    const quoted = new Map(assets.map((asset) => [asset.id, asset]));
+    const baseAssets = currency === baseCurrency ? assets : peekFreshUniverse(baseCurrency) ?? [];
+    const basePrices = new Map(baseAssets.map((asset) => [asset.id, asset.quote[baseCurrency]?.price]));
+    const priceOf = (order: PendingOrder) =>
+      order.currency === currency ? quoted.get(order.assetId)?.quote[currency]?.price : undefined;
+
+    const isFillable = (order: PendingOrder) => {
+      const price = priceOf(order);
+      return price !== undefined && basePrices.get(order.assetId) !== undefined && isOrderTriggered(order, price);
+    };
+    const isDue = (order: PendingOrder, now: number) => Date.parse(order.expiresAt) <= now || isFillable(order);
+    if (!open.some((order) => isDue(order, Date.now()))) return [];
+
+    return await updateLedger((ledger) => {
+      const now = Date.now();
+      const resolved: PendingOrder[] = [];
+
+      for (const order of ledger.pendingOrders) {
+        if (order.status !== "open" || !isDue(order, now)) continue;
+
+        const asset = quoted.get(order.assetId);
+        const price = priceOf(order);
+        const basePrice = basePrices.get(order.assetId);
+        if (asset && price && basePrice && isFillable(order)) {
+          const result = fillOrder(ledger, asset, order.side, order.currency, order.quantity, price, basePrice);
+          if (result.order) {
+            order.status = "filled";
+            order.filledOrderId = result.order.id;
+          } else {
+            order.status = "rejected";
+            order.reason = result.error;
+          }
+        } else {
+          order.status = "expired";
+        }
+
+        order.resolvedAt = new Date(now).toISOString();
+        resolved.push(order);
+      }
+
+      return resolved;
+    });
+  } catch (error) {
+    logger.error("Pending order evaluation failed", { error });
+    return [];
+  }
+}
+
+/**
+ * Cancels an open limit or stop order
+ *
+ * @param {string} id - Pending order id
+ * @returns {Promise<CancelOrderResult>} Cancelled order, or rejection when the order
+ *   does not exist (ERROR_MESSAGES.ORDER_NOT_FOUND) or is no longer open
+ * @throws {Error} When the ledger cannot be written
+ */
+export async function cancelPendingOrder(id: string): Promise<CancelOrderResult> {
+  return updateLedger((ledger): CancelOrderResult => {
+    const pendingOrder = ledger.pendingOrders.find((order) => order.id === id);
+    if (!pendingOrder) {
+      return { error: ERROR_MESSAGES.ORDER_NOT_FOUND };
+    }
+    if (pendingOrder.status !== "open") {
+      return { error: ERROR_MESSAGES.ORDER_NOT_OPEN };
+    }
+
+    pendingOrder.status = "cancelled";
+    pendingOrder.resolvedAt = new Date().toISOString();
+    return { pendingOrder };
+  });
+}
+
+/**
+ * Lists open limit and stop orders, oldest first
+ *
+ * @returns {Promise<PendingOrder[]>} Open orders
+ * @throws {Error} When the ledger cannot be read
+ */
+export async function listOpenOrders(): Promise<PendingOrder[]> {
+  const { pendingOrders } = await readLedger();
+  return pendingOrders.filter((order) => order.status === "open");
+}
+
+/**
+ * Values every open position at the current cached price
+ *
+ * Positions whose asset is not currently quoted (or when prices cannot be
+ * loaded at all) are valued at their last known price and flagged `stale`.
+ * Open limit/stop orders and the most recently resolved ones are included so
+ * clients can list them and report fills.
+ *
+ * @returns {Promise<PortfolioSummary>} Holdings, totals and valuation time
+ * @throws {Error} When the ledger cannot be read
+ */
+export async function getPortfolio(): Promise<PortfolioSummary> {
+  const baseCurrency = PORTFOLIO_CONFIG.BASE_CURRENCY;
+  const [ledger, quoted] = await Promise.all([
+    readLedger(),
+    getQuotedAssets(baseCurrency).catch((error) => {
+      logger.error("Portfolio valuation is using last known prices", { error });
+      return new Map<number, CryptoAsset>();
+    }),
+  ]);
+
+  const holdings: PortfolioHolding[] = ledger.positions
+    .map((position) => {
+      const quotedPrice = quoted.get(position.assetId)?.quote[baseCurrency]?.price;
+      const currentPrice = quotedPrice ?? position.lastPrice;
+      const currentValue = position.quantity * currentPrice;
+      const unrealizedPnl = currentValue - position.costBasis;
+      return {
+        ...position,
+        currentPrice,
+        currentValue,
+        unrealizedPnl,
+        unrealizedPnlPercent: position.costBasis > 0 ? (unrealizedPnl / position.costBasis) * 100 : 0,
+        stale: quotedPrice === undefined,
+      };
+    })
+    .sort((a, b) => b.currentValue - a.currentValue);
+
+  const costBasis = holdings.reduce((sum, holding) => sum + holding.costBasis, 0);
+  const currentValue = holdings.reduce((sum, holding) => sum + holding.currentValue, 0);
+  const unrealizedPnl = currentValue - costBasis;
+  const realizedPnl = ledger.orders.reduce((sum, order) => sum + (order.realizedPnl ?? 0), 0);
+  const recentlyResolved = ledger.pendingOrders
+    .filter((order) => order.status !== "open")
+    .sort((a, b) => (b.resolvedAt ?? "").localeCompare(a.resolvedAt ?? ""))
+    .slice(0, PORTFOLIO_CONFIG.RECENT_RESOLVED_ORDERS);
+
+  return {
+    holdings,
+    totals: {
+      costBasis,
+      currentValue,
+      unrealizedPnl,
+      unrealizedPnlPercent: costBasis > 0 ? (unrealizedPnl / costBasis) * 100 : 0,
+      realizedPnl,
+    },
+    pendingOrders: [
+      ...ledger.pendingOrders.filter((order) => order.status === "open"),
+      ...recentlyResolved,
+    ],
+    currency: baseCurrency,
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,82 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { PendingOrder, PortfolioOrder, PortfolioPosition } from "../types";
+import { PORTFOLIO_CONFIG } from "../constants";
+import { globalState } from "./globalState";
+
+/**
+ * Persisted state of the simulated portfolio
+ */
+export interface PortfolioLedger {
+  /** Open positions, one per asset */
+  positions: PortfolioPosition[];
+  /** Filled orders, oldest first */
+  orders: PortfolioOrder[];
+  /** Limit and stop orders, open and resolved, oldest first */
+  pendingOrders: PendingOrder[];
+}
+
+const storePath = path.resolve(
+  process.env.PORTFOLIO_STORE_PATH || PORTFOLIO_CONFIG.DEFAULT_STORE_PATH
+);
+
+// Process-wide, so every ledger update in this server process is serialized
+const writeQueue = globalState("portfolioStoreQueue", () => ({ tail: Promise.resolve() as Promise<unknown> }));
+
+/**
+ * Reads the ledger from disk
+ * A missing file is treated as an empty portfolio
+ *
+ * @returns {Promise<PortfolioLedger>} Current ledger
+ * @throws {Error} When the file exists but cannot be read or parsed
+ */
+export async function readLedger(): Promise<PortfolioLedger> {
+  try {
+    const contents = await fs.readFile(storePath, "utf8");
+    const ledger = JSON.parse(contents) as Partial<PortfolioLedger>;
+    return {
+      positions: ledger.positions ?? [],
+      orders: ledger.orders ?? [],
+      pendingOrders: ledger.pendingOrders ?? [],
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { positions: [], orders: [], pendingOrders: [] };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Writes the ledger atomically (temporary file, then rename)
+ *
+ * @param {PortfolioLedger} ledger - Ledger to persist
+ */
+const writeLedger = async (ledger: PortfolioLedger) => {
+  await fs.mkdir(path.dirname(storePath), { recursive: true });
+  const tempPath = `${storePath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(ledger, null, 2), "utf8");
+  await fs.rename(tempPath, storePath);
+};
+
+/**
+ * Applies a change to the ledger and persists it
+ *
+ * Updates run one at a time so concurrent orders never overwrite each other.
+ * The ledger is only written when `mutate` returns without throwing.
+ *
+ * @param {Function} mutate - Modifies the ledger in place and returns a result
+ * @returns {Promise<T>} Result of `mutate`
+ */
+export function updateLedger<T>(mutate: (ledger: PortfolioLedger) => T | Promise<T>): Promise<T> {
+  const run = async () => {
+    const ledger = await readLedger();
+    const result = await mutate(ledger);
+    await writeLedger(ledger);
+    return result;
+  };
+
+  const queued = writeQueue.tail.then(run, run);
+  writeQueue.tail = queued.catch(() => undefined);
+  return queued;
+}
@@ -0,0 +1,173 @@
+import { ApiResponse, HistoryRequest, HistorySource, PriceCandle, QuoteCurrency } from "../types";
+import { HISTORY_CONFIG } from "../constants";
+import { aggregateCandles, PricePoint } from "../utils/candles";
+import { globalState } from "./globalState";
+import { logger } from "./logger";
+import { getMarketDataProvider } from "./providers";
+import { assertCreditsRemaining, chargeCredits } from "./quoteCache";
+
+/** Candles of a history request together with where they came from */
+export interface PriceHistory {
+  /** Candles in chronological order, oldest first */
+  candles: PriceCandle[];
+  /** Provider history, or prices recorded from the quote cache */
+  source: HistorySource;
+}
+
+/** Cached history for a single asset, currency and range */
+interface HistoryCacheEntry {
+  history: PriceHistory;
+  fetchedAt: number;
+  pending: Promise<PriceHistory> | null;
+}
+
+/** Process-wide recorded prices and history cache */
+interface PriceHistoryState {
+  /** Recorded prices keyed by `${id}:${convert}`, oldest first */
+  snapshots: Map<string, PricePoint[]>;
+  /** Fetched histories keyed by `${id}:${convert}:${range}`, least recently fetched first */
+  entries: Map<string, HistoryCacheEntry>;
+}
+
+// Process-wide, so the history route sees prices recorded by the listings routes
+const state = globalState<PriceHistoryState>("priceHistoryState", () => ({
+  snapshots: new Map(),
+  entries: new Map(),
+}));
+
+/**
+ * Records the prices of a listings response for the snapshot history
+ *
+ * Called after every upstream refresh of the quote cache. An asset is recorded
+ * at most once per HISTORY_CONFIG.SNAPSHOT_INTERVAL_MS per currency, and only
+ * the latest HISTORY_CONFIG.MAX_SNAPSHOTS prices are kept.
+ *
+ * @param {ApiResponse} response - Fresh listings response
+ * @param {QuoteCurrency} convert - Currency the listings were quoted in
+ */
+export function recordPriceSnapshot(response: ApiResponse, convert: QuoteCurrency): void {
+  const now = Date.now();
+  for (const asset of response.data) {
+    const price = asset.quote[convert]?.price;
+    if (price === undefined) continue;
+
+    const key = `${asset.id}:${convert}`;
+    const points = state.snapshots.get(key) ?? [];
+    const last = points[points.length - 1];
+    if (last && now - last[0] < HISTORY_CONFIG.SNAPSHOT_INTERVAL_MS) continue;
+
+    points.push([now, price]);
+    if (points.length > HISTORY_CONFIG.MAX_SNAPSHOTS) {
+      points.shift();
+    }
+    state.snapshots.set(key, points);
+  }
+}
+
+/**
+ * Builds a history from the prices recorded by the quote cache
+ *
+ * @param {HistoryRequest} request - Asset, currency and range
+ * @returns {PriceHistory} Candles aggregated from recorded prices (possibly none)
+ */
+const getRecordedHistory = ({ id, convert, range }: HistoryRequest): PriceHistory => ({
+  candles: aggregateCandles(state.snapshots.get(`${id}:${convert}`) ?? [], range),
+  source: "snapshots",
+});
+
+/**
+ * Loads a history from the provider, falling back to recorded prices
+ * Provider requests are charged to the quote cache's credit budget and not
+ * sent once it is spent
+ *
+ * @param {HistoryRequest} request - Asset, currency and range
+ * @returns {Promise<PriceHistory>} Provider or recorded history
+ * @throws {Error} When the provider fails and no prices were recorded
+ */
+const loadHistory = async (request: HistoryRequest): Promise<PriceHistory> => {
+  const provider = getMarketDataProvider();
+  if (!provider.fetchHistory) {
+    return getRecordedHistory(request);
+  }
+
+  try {
+    assertCreditsRemaining(provider.name);
+    const { candles, creditCount } = await provider.fetchHistory(request);
+    chargeCredits(creditCount ?? 0);
+    return { candles, source: "provider" };
+  } catch (error) {
+    const recorded = getRecordedHistory(request);
+    if (recorded.candles.length === 0) throw error;
+    logger.warn("Provider history unavailable, serving recorded snapshots", {
+      provider: provider.name,
+      error,
+    });
+    return recorded;
+  }
+};
+
+/**
+ * Caches an entry as the most recently fetched one
+ * Before a new key is added, expired entries are dropped, then the least
+ * recently fetched ones until there is room under HISTORY_CONFIG.MAX_CACHE_ENTRIES
+ *
+ * @param {string} key - History key
+ * @param {HistoryCacheEntry} entry - Entry to cache
+ */
+const storeEntry = (key: string, entry: HistoryCacheEntry) => {
+  if (!state.entries.delete(key)) {
+    const now = Date.now();
+    state.entries.forEach((cached, cachedKey) => {
+      if (!cached.pending && now - cached.fetchedAt >= HISTORY_CONFIG.CACHE_TTL_MS) {
+        state.entries.delete(cachedKey);
+      }
+    });
+    for (const cachedKey of state.entries.keys()) {
+      if (state.entries.size < HISTORY_CONFIG.MAX_CACHE_ENTRIES) break;
+      state.entries.delete(cachedKey);
+    }
+  }
+  state.entries.set(key, entry);
+};
+
+/**
+ * Returns price candles for one asset over a history range
+ *
+ * Behaviour:
+ * - Uses the provider's historical endpoint when it has one
+ * - Falls back to prices recorded from quote cache refreshes when the
+ *   provider has no history or fails
+ * - Reuses a fetched history for HISTORY_CONFIG.CACHE_TTL_MS; concurrent
+ *   callers share the same in-flight request
+ * - Keeps at most HISTORY_CONFIG.MAX_CACHE_ENTRIES histories; callers are
+ *   expected to pass only quoted asset ids (see isQuotedAsset)
+ *
+ * @param {HistoryRequest} request - Asset, currency and range
+ * @returns {Promise<PriceHistory>} Candles and their source
+ * @throws {Error} When the provider fails and no prices were recorded
+ */
+export async function getPriceHistory(request: HistoryRequest): Promise<PriceHistory> {
+  const key = `${request.id}:${request.convert}:${request.range}`;
+  const entry = state.entries.get(key);
+
+  if (entry && Date.now() - entry.fetchedAt < HISTORY_CONFIG.CACHE_TTL_MS) {
+    return entry.history;
+  }
+  if (entry?.pending) return entry.pending;
+
+  const pending = loadHistory(request);
+  storeEntry(key, {
+    history: entry?.history ?? { candles: [], source: "snapshots" },
+    fetchedAt: entry?.fetchedAt ?? 0,
+    pending,
+  });
+
+  try {
+    const history = await pending;
+    storeEntry(key, { history, fetchedAt: Date.now(), pending: null });
+    return history;
+  } catch (error) {
+    state.entries.delete(key);
+    throw error;
+  }
+}
@@ -0,0 +1,258 @@
+import { ApiResponse, CryptoAsset, HistoryRange, QuoteCurrency } from "../../types";
+import { API_CONFIG, LISTING_SORTS, MARKET_DATA_PROVIDERS } from "../../constants";
+import { HistoryRequest, ListingsRequest, MarketDataProvider, ProviderHistory, QuotesRequest } from "./types";
+import { sortAssets } from "../../utils/sorting";
+import { aggregateCandles, PricePoint } from "../../utils/candles";
+import { fetchUpstream, upstreamError } from "../upstream";
+
+const COINGECKO_BASE_URL = "https://api.coingecko.com/api/v3";
+
+/** CoinGecko caps the coins/markets page size at 250 entries */
+const COINGECKO_MAX_PAGE_SIZE = 250;
+
+/**
+ * `days` parameter of coins/{id}/market_chart per history range
+ * CoinGecko returns 5-minute prices for one day, hourly up to 90 days and daily beyond
+ */
+const COINGECKO_HISTORY_DAYS: Record<HistoryRange, number> = {
+  "1h": 1,
+  "24h": 1,
+  "7d": 7,
+  "30d": 30,
+  "1y": 365,
+};
+
+/** Subset of a CoinGecko coins/{id}/market_chart response */
+interface CoinGeckoMarketChart {
+  prices: PricePoint[];
+}
+
+/** Subset of a CoinGecko coins/markets entry that the dashboard consumes */
+interface CoinGeckoMarket {
+  id: string;
+  name: string;
+  symbol: string;
+  market_cap_rank: number | null;
+  current_price: number | null;
+  market_cap: number | null;
+  total_volume: number | null;
+  circulating_supply: number | null;
+  max_supply: number | null;
+  price_change_percentage_1h_in_currency?: number | null;
+  price_change_percentage_24h_in_currency?: number | null;
+  price_change_percentage_7d_in_currency?: number | null;
+}
+
+/**
+ * Derives a stable numeric id from a CoinGecko string id (FNV-1a hash)
+ * CryptoAsset ids are numeric, while CoinGecko identifies coins by slug
+ *
+ * @param {string} slug - CoinGecko coin id (e.g., "bitcoin")
+ * @returns {number} Positive 32-bit integer id
+ */
+const toNumericId = (slug: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < slug.length; i++) {
+    hash ^= slug.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Maps a CoinGecko market entry to the CryptoAsset shape
+ * A missing price is passed on as null, so response validation drops the
+ * asset and counts it in `dropped` instead of quoting it at 0
+ *
+ * @param {CoinGeckoMarket} market - Raw market entry
+ * @param {number} fallbackRank - Rank to use when CoinGecko has none (0 for unranked quotes)
+ * @param {QuoteCurrency} convert - Currency the market was quoted in
+ * @returns {CryptoAsset} Normalized asset
+ */
+const toCryptoAsset = (
+  market: CoinGeckoMarket,
+  fallbackRank: number,
+  convert: QuoteCurrency
+): CryptoAsset => ({
+  id: toNumericId(market.id),
+  name: market.name,
+  symbol: market.symbol?.toUpperCase(),
+  cmc_rank: market.market_cap_rank ?? fallbackRank,
+  circulating_supply: market.circulating_supply ?? 0,
+  max_supply: market.max_supply,
+  quote: {
+    [convert]: {
+      price: market.current_price as number,
+      volume_24h: market.total_volume ?? 0,
+      percent_change_1h: market.price_change_percentage_1h_in_currency ?? 0,
+      percent_change_24h: market.price_change_percentage_24h_in_currency ?? 0,
+      percent_change_7d: market.price_change_percentage_7d_in_currency ?? 0,
+      market_cap: market.market_cap ?? 0,
+    },
+  },
+});
+
+/**
+ * Keeps the highest-ranked market of each symbol
+ * The `symbols` filter of coins/markets returns every coin sharing a symbol;
+ * unranked coins lose to ranked ones
+ *
+ * @param {CoinGeckoMarket[]} markets - Markets returned for the requested symbols
+ * @returns {CoinGeckoMarket[]} One market per symbol
+ */
+const pickTopRanked = (markets: CoinGeckoMarket[]): CoinGeckoMarket[] => {
+  const bySymbol = new Map<string, CoinGeckoMarket>();
+  markets.forEach((market) => {
+    const symbol = market.symbol?.toUpperCase();
+    const current = bySymbol.get(symbol);
+    if (!current || (market.market_cap_rank ?? Infinity) < (current.market_cap_rank ?? Infinity)) {
+      bySymbol.set(symbol, market);
+    }
+  });
+  return [...bySymbol.values()];
+};
+
+/**
+ * Creates a market data provider backed by the CoinGecko coins/markets API
+ *
+ * CoinGecko paginates by page number and only orders by market cap, so the
+ * pages covering the requested window are fetched and sliced locally. Other
+ * orders are applied locally over the whole top-N universe. Price histories
+ * come from coins/{id}/market_chart, aggregated into candles locally; the
+ * slug behind a numeric id is learned from the listings fetched earlier.
+ * Quotes of selected assets use the `ids` (slugs) or `symbols` filters of
+ * coins/markets; ids whose slug was never seen cannot be quoted.
+ *
+ * @param {string} [apiKey] - Optional CoinGecko demo API key
+ * @returns {MarketDataProvider} Provider fetching coins/markets
+ */
+export function createCoinGeckoProvider(apiKey?: string): MarketDataProvider {
+  const headers: Record<string, string> = { Accept: "application/json" };
+  if (apiKey) {
+    headers["x-cg-demo-api-key"] = apiKey;
+  }
+  // CoinGecko slug per numeric asset id, filled from every markets page fetched
+  const slugs = new Map<number, string>();
+
+  /**
+   * Requests one coins/markets page and learns the slugs it contains
+   *
+   * @param {URLSearchParams} params - Query parameters (price change periods are added)
+   * @returns {Promise<CoinGeckoMarket[]>} Markets of the page
+   */
+  const requestMarkets = async (params: URLSearchParams): Promise<CoinGeckoMarket[]> => {
+    params.set("price_change_percentage", "1h,24h,7d");
+    const response = await fetchUpstream(
+      MARKET_DATA_PROVIDERS.COINGECKO,
+      `${COINGECKO_BASE_URL}/coins/markets?${params}`,
+      { headers }
+    );
+
+    const markets: unknown = await response.json();
+    if (!Array.isArray(markets)) {
+      throw upstreamError("CoinGecko API error: coins/markets did not return a list", {
+        kind: "failed",
+        provider: MARKET_DATA_PROVIDERS.COINGECKO,
+      });
+    }
+    // Entries without a slug cannot be identified; the others are validated once mapped
+    const identified = markets.filter((market): market is CoinGeckoMarket => typeof market?.id === "string");
+    identified.forEach((market) => slugs.set(toNumericId(market.id), market.id));
+    return identified;
+  };
+
+  /**
+   * Fetches the top `count` markets by market cap
+   * Pages are requested in parallel, so the universe arrives within one
+   * upstream deadline
+   *
+   * @param {number} count - Number of markets to fetch
+   * @param {QuoteCurrency} convert - Currency to quote prices in (vs_currency)
+   * @returns {Promise<CoinGeckoMarket[]>} Markets in market cap order
+   */
+  const fetchMarkets = async (count: number, convert: QuoteCurrency): Promise<CoinGeckoMarket[]> => {
+    const perPage = Math.min(count, COINGECKO_MAX_PAGE_SIZE);
+    const pages = Math.ceil(count / perPage);
+
+    const markets = await Promise.all(
+      Array.from({ length: pages }, (_, index) =>
+        requestMarkets(
+          new URLSearchParams({
+            vs_currency: convert.toLowerCase(),
+            order: "market_cap_desc",
+            per_page: perPage.toString(),
+            page: (index + 1).toString(),
+          })
+        )
+      )
+    );
+
+    return markets.flat().slice(0, count);
+  };
+
+  return {
+    name: MARKET_DATA_PROVIDERS.COINGECKO,
+
+    async fetchListings({ start, limit, convert, sort, sortDir }: ListingsRequest): Promise<ApiResponse> {
+      const offset = start - 1;
+      const nativeOrder = sort === LISTING_SORTS.MARKET_CAP && sortDir === "desc";
+
+      const markets = await fetchMarkets(
+        nativeOrder ? offset + limit : API_CONFIG.MAX_CRYPTO_ASSETS,
+        convert
+      );
+      const assets = markets.map((market, index) => toCryptoAsset(market, index + 1, convert));
+      const ordered = nativeOrder ? assets : sortAssets(assets, sort, sortDir, convert);
+
+      return {
+        data: ordered.slice(offset, offset + limit),
+        status: {
+          timestamp: new Date().toISOString(),
+          error_code: 0,
+          error_message: null,
+        },
+      };
+    },
+
+    async fetchQuotes({ ids, symbols, convert }: QuotesRequest): Promise<ApiResponse> {
+      const params = new URLSearchParams({
+        vs_currency: convert.toLowerCase(),
+        per_page: COINGECKO_MAX_PAGE_SIZE.toString(),
+      });
+      // Numeric ids map back to slugs only for assets seen in earlier responses
+      const knownSlugs = (ids ?? []).flatMap((id) => slugs.get(id) ?? []);
+      if (ids) {
+        params.set("ids", knownSlugs.join(","));
+      } else {
+        params.set("symbols", (symbols ?? []).join(",").toLowerCase());
+      }
+
+      const markets = ids && knownSlugs.length === 0 ? [] : await requestMarkets(params);
+
+      return {
+        data: (ids ? markets : pickTopRanked(markets)).map((market) => toCryptoAsset(market, 0, convert)),
+        status: {
+          timestamp: new Date().toISOString(),
+          error_code: 0,
+          error_message: null,
+        },
+      };
+    },
+
+    async fetchHistory({ id, convert, range }: HistoryRequest): Promise<ProviderHistory> {
+      const slug = slugs.get(id);
+      if (!slug) {
+        throw new Error(`CoinGecko slug for asset id ${id} is unknown until its listing is fetched`);
+      }
+
+      const response = await fetchUpstream(
+        MARKET_DATA_PROVIDERS.COINGECKO,
+        `${COINGECKO_BASE_URL}/coins/${encodeURIComponent(slug)}/market_chart?vs_currency=${convert.toLowerCase()}&days=${COINGECKO_HISTORY_DAYS[range]}`,
+        { headers }
+      );
+
+      const chart = (await response.json()) as CoinGeckoMarketChart;
+      return { candles: aggregateCandles(chart.prices ?? [], range) };
+    },
+  };
+}
@@ -0,0 +1,250 @@
+import { ApiResponse, CryptoAsset, HistoryRange, QuoteCurrency } from "../../types";
+import { API_CONFIG, HISTORY_RANGES, LISTING_SORTS, MARKET_DATA_PROVIDERS, SORT_DIRECTIONS } from "../../constants";
+import { HistoryRequest, ListingsRequest, MarketDataProvider, ProviderHistory, QuotesRequest } from "./types";
+import { sortAssets } from "../../utils/sorting";
+import { fetchUpstream, upstreamError } from "../upstream";
+
+const COINMARKETCAP_BASE_URL = "https://pro-api.coinmarketcap.com/v1";
+
+/** OHLCV history and symbol-safe quotes are only served by the v2 API */
+const COINMARKETCAP_V2_BASE_URL = "https://pro-api.coinmarketcap.com/v2";
+
+/**
+ * `time_period` and `interval` of ohlcv/historical per history range
+ * CoinMarketCap has no candles finer than one hour, so the 1h range is not
+ * offered and falls back to recorded snapshots
+ */
+const COINMARKETCAP_OHLCV_PERIODS: Record<HistoryRange, { timePeriod: string; interval: string } | null> = {
+  "1h": null,
+  "24h": { timePeriod: "hourly", interval: "hourly" },
+  "7d": { timePeriod: "hourly", interval: "2h" },
+  "30d": { timePeriod: "hourly", interval: "6h" },
+  "1y": { timePeriod: "daily", interval: "weekly" },
+};
+
+/** Market data of a CoinMarketCap listing in one convert currency */
+interface CoinMarketCapQuote {
+  price: number;
+  volume_24h: number | null;
+  percent_change_1h: number | null;
+  percent_change_24h: number | null;
+  percent_change_7d: number | null;
+  market_cap: number | null;
+}
+
+/** Subset of a CoinMarketCap listing that the dashboard consumes */
+interface CoinMarketCapListing {
+  id: number;
+  name: string;
+  symbol: string;
+  /** Null for untracked assets, which quotes/latest can return */
+  cmc_rank: number | null;
+  circulating_supply: number | null;
+  max_supply: number | null;
+  /** Quotes keyed by the requested convert currency */
+  quote: Record<string, CoinMarketCapQuote>;
+}
+
+/** Raw response body of the CoinMarketCap listings/latest endpoint */
+interface CoinMarketCapListingsResponse {
+  data?: CoinMarketCapListing[];
+  status: ApiResponse["status"];
+}
+
+/**
+ * Raw response body of the v2 quotes/latest endpoint
+ * Keyed by the requested id, or by symbol with every asset sharing that symbol
+ */
+interface CoinMarketCapQuotesResponse {
+  data?: Record<string, CoinMarketCapListing | CoinMarketCapListing[]>;
+  status: ApiResponse["status"];
+}
+
+/** One candle of the CoinMarketCap ohlcv/historical endpoint */
+interface CoinMarketCapOhlcvQuote {
+  time_open: string;
+  /** OHLC prices keyed by the requested convert currency */
+  quote: Record<string, { open: number; high: number; low: number; close: number }>;
+}
+
+/** Raw response body of the CoinMarketCap ohlcv/historical endpoint */
+interface CoinMarketCapOhlcvResponse {
+  data?: { quotes?: CoinMarketCapOhlcvQuote[] };
+  status: ApiResponse["status"];
+}
+
+/**
+ * Maps a raw CoinMarketCap listing to the CryptoAsset shape
+ * Drops every vendor field the dashboard does not use
+ *
+ * @param {CoinMarketCapListing} listing - Raw listing from the API
+ * @param {QuoteCurrency} convert - Currency the listing was quoted in
+ * @returns {CryptoAsset} Normalized asset
+ */
+const toCryptoAsset = (listing: CoinMarketCapListing, convert: QuoteCurrency): CryptoAsset => {
+  // A listing without a quote in the currency is passed on without one, for validation to report
+  const quote = listing.quote?.[convert];
+  return {
+    id: listing.id,
+    name: listing.name,
+    symbol: listing.symbol,
+    cmc_rank: listing.cmc_rank ?? 0,
+    circulating_supply: listing.circulating_supply ?? 0,
+    max_supply: listing.max_supply,
+    quote: quote
+      ? {
+          [convert]: {
+            price: quote.price,
+            volume_24h: quote.volume_24h ?? 0,
+            percent_change_1h: quote.percent_change_1h ?? 0,
+            percent_change_24h: quote.percent_change_24h ?? 0,
+            percent_change_7d: quote.percent_change_7d ?? 0,
+            market_cap: quote.market_cap ?? 0,
+          },
+        }
+      : {},
+  };
+};
+
+/**
+ * Checks that a CoinMarketCap response carries its status block
+ *
+ * @param {{ status?: unknown }} body - Parsed response body
+ * @throws {Error} With a `failed` upstream failure when the status block is missing
+ */
+const assertStatus = (body: { status?: unknown }) => {
+  if (typeof body?.status !== "object" || body.status === null) {
+    throw upstreamError("CoinMarketCap API error: response has no status", {
+      kind: "failed",
+      provider: MARKET_DATA_PROVIDERS.COINMARKETCAP,
+    });
+  }
+};
+
+/**
+ * Picks the highest-ranked listing among those sharing a symbol
+ * Untracked assets come without a rank and lose to ranked ones
+ *
+ * @param {CoinMarketCapListing[]} listings - Listings returned for one symbol
+ * @returns {CoinMarketCapListing | undefined} Highest-ranked listing
+ */
+const pickTopRanked = (listings: CoinMarketCapListing[]): CoinMarketCapListing | undefined =>
+  [...listings].sort((a, b) => (a.cmc_rank ?? Infinity) - (b.cmc_rank ?? Infinity))[0];
+
+/**
+ * Creates a market data provider backed by the CoinMarketCap Pro API
+ *
+ * @param {string} apiKey - CoinMarketCap Pro API key
+ * @returns {MarketDataProvider} Provider fetching listings/latest, quotes/latest and ohlcv/historical
+ */
+export function createCoinMarketCapProvider(apiKey: string): MarketDataProvider {
+  const headers = {
+    "X-CMC_PRO_API_KEY": apiKey,
+    Accept: "application/json",
+  };
+
+  return {
+    name: MARKET_DATA_PROVIDERS.COINMARKETCAP,
+
+    async fetchListings({ start, limit, convert, sort, sortDir }: ListingsRequest): Promise<ApiResponse> {
+      const offset = start - 1;
+      // Other orders would rank CoinMarketCap's whole universe, so they are applied locally to the top N
+      const nativeOrder = sort === LISTING_SORTS.MARKET_CAP && sortDir === SORT_DIRECTIONS.DESC;
+      const params = new URLSearchParams({
+        start: nativeOrder ? start.toString() : API_CONFIG.API_START_POSITION.toString(),
+        limit: nativeOrder ? limit.toString() : API_CONFIG.MAX_CRYPTO_ASSETS.toString(),
+        convert,
+        sort: LISTING_SORTS.MARKET_CAP,
+        sort_dir: SORT_DIRECTIONS.DESC,
+      });
+
+      const response = await fetchUpstream(
+        MARKET_DATA_PROVIDERS.COINMARKETCAP,
+        `${COINMARKETCAP_BASE_URL}/cryptocurrency/listings/latest?${params}`,
+        { headers }
+      );
+
+      const body: CoinMarketCapListingsResponse = await response.json();
+      assertStatus(body);
+
+      const assets = (body.data || []).map((listing) => toCryptoAsset(listing, convert));
+      const page = nativeOrder
+        ? assets.slice(0, limit)
+        : sortAssets(assets, sort, sortDir, convert).slice(offset, offset + limit);
+
+      return {
+        data: page,
+        status: {
+          timestamp: body.status.timestamp,
+          error_code: body.status.error_code,
+          error_message: body.status.error_message,
+          credit_count: body.status.credit_count,
+        },
+      };
+    },
+
+    async fetchQuotes({ ids, symbols, convert }: QuotesRequest): Promise<ApiResponse> {
+      const params = new URLSearchParams({ convert, skip_invalid: "true" });
+      if (ids) {
+        params.set("id", ids.join(","));
+      } else {
+        params.set("symbol", (symbols ?? []).join(","));
+      }
+
+      const response = await fetchUpstream(
+        MARKET_DATA_PROVIDERS.COINMARKETCAP,
+        `${COINMARKETCAP_V2_BASE_URL}/cryptocurrency/quotes/latest?${params}`,
+        { headers }
+      );
+
+      const body: CoinMarketCapQuotesResponse = await response.json();
+      assertStatus(body);
+      const listings = Object.values(body.data ?? {})
+        .map((entry) => (Array.isArray(entry) ? pickTopRanked(entry) : entry))
+        .filter((listing): listing is CoinMarketCapListing => Boolean(listing?.quote?.[convert]));
+
+      return {
+        data: listings.map((listing) => toCryptoAsset(listing, convert)),
+        status: {
+          timestamp: body.status.timestamp,
+          error_code: body.status.error_code,
+          error_message: body.status.error_message,
+          credit_count: body.status.credit_count,
+        },
+      };
+    },
+
+    async fetchHistory({ id, convert, range }: HistoryRequest): Promise<ProviderHistory> {
+      const period = COINMARKETCAP_OHLCV_PERIODS[range];
+      if (!period) {
+        throw new Error(`CoinMarketCap has no OHLCV candles for the ${range} range`);
+      }
+
+      const now = Date.now();
+      const params = new URLSearchParams({
+        id: id.toString(),
+        convert,
+        time_period: period.timePeriod,
+        interval: period.interval,
+        time_start: new Date(now - HISTORY_RANGES[range].durationMs).toISOString(),
+        time_end: new Date(now).toISOString(),
+      });
+
+      const response = await fetchUpstream(
+        MARKET_DATA_PROVIDERS.COINMARKETCAP,
+        `${COINMARKETCAP_V2_BASE_URL}/cryptocurrency/ohlcv/historical?${params}`,
+        { headers }
+      );
+
+      const body: CoinMarketCapOhlcvResponse = await response.json();
+
+      const candles = (body.data?.quotes ?? [])
+        .filter((candle) => candle.quote[convert])
+        .map((candle) => {
+          const { open, high, low, close } = candle.quote[convert];
+          return { time: Date.parse(candle.time_open), open, high, low, close };
+        });
+      return { candles, creditCount: body.status?.credit_count };
+    },
+  };
+}
@@ -0,0 +1,92 @@
+import { MarketDataProviderName } from "../../types";
+import { MARKET_DATA_PROVIDERS } from "../../constants";
+import { createCoinMarketCapProvider } from "./coinMarketCap";
+import { createCoinGeckoProvider } from "./coinGecko";
+import { logger } from "../logger";
+import { createMockProvider } from "./mock";
+import { MarketDataProvider } from "./types";
+
+export type { HistoryRequest, ListingsRequest, MarketDataProvider, QuotesRequest } from "./types";
+
+/**
+ * Provider instance shared across requests and route handlers (keeps mock
+ * random-walk state); stored on globalThis because routes are bundled separately
+ */
+const globalForProviders = globalThis as typeof globalThis & {
+  marketDataProvider?: MarketDataProvider;
+};
+
+/**
+ * Checks whether a string names a supported market data provider
+ *
+ * @param {string} value - Candidate provider name
+ * @returns {boolean} True if the value is a known provider
+ */
+const isProviderName = (value: string): value is MarketDataProviderName =>
+  (Object.values(MARKET_DATA_PROVIDERS) as string[]).includes(value);
+
+/**
+ * Resolves which provider to use from the environment
+ *
+ * Uses MARKET_DATA_PROVIDER when set. Otherwise falls back to CoinMarketCap if
+ * an API key is configured, and to the offline mock provider if not.
+ *
+ * @returns {MarketDataProviderName} Selected provider name
+ * @throws {Error} When MARKET_DATA_PROVIDER names an unknown provider
+ */
+const resolveProviderName = (): MarketDataProviderName => {
+  const configured = process.env.MARKET_DATA_PROVIDER?.trim().toLowerCase();
+
+  if (configured) {
+    if (!isProviderName(configured)) {
+      throw new Error(`Unknown MARKET_DATA_PROVIDER "${configured}"`);
+    }
+    return configured;
+  }
+
+  if (process.env.COINMARKETCAP_API_KEY) {
+    return MARKET_DATA_PROVIDERS.COINMARKETCAP;
+  }
+
+  logger.warn("COINMARKETCAP_API_KEY is not set, falling back to the mock market data provider");
+  return MARKET_DATA_PROVIDERS.MOCK;
+};
+
+/**
+ * Instantiates a provider by name with its environment configuration
+ *
+ * @param {MarketDataProviderName} name - Provider to create
+ * @returns {MarketDataProvider} Configured provider
+ * @throws {Error} When a required API key is missing
+ */
+const createProvider = (name: MarketDataProviderName): MarketDataProvider => {
+  switch (name) {
+    case MARKET_DATA_PROVIDERS.COINMARKETCAP: {
+      const apiKey = process.env.COINMARKETCAP_API_KEY;
+      if (!apiKey) {
+        throw new Error("COINMARKETCAP_API_KEY environment variable is not set");
+      }
+      return createCoinMarketCapProvider(apiKey);
+    }
+    case MARKET_DATA_PROVIDERS.COINGECKO:
+      return createCoinGeckoProvider(process.env.COINGECKO_API_KEY);
+    case MARKET_DATA_PROVIDERS.MOCK: {
+      const seed = parseInt(process.env.MOCK_PROVIDER_SEED ?? "", 10);
+      return createMockProvider(isNaN(seed) ? undefined : seed);
+    }
+  }
+};
+
+/**
+ * Returns the market data provider selected by the environment
+ * The provider is created lazily on first use and reused afterwards
+ *
+ * @returns {MarketDataProvider} Active provider
+ * @throws {Error} When the provider configuration is invalid
+ */
+export function getMarketDataProvider(): MarketDataProvider {
+  if (!globalForProviders.marketDataProvider) {
+    globalForProviders.marketDataProvider = createProvider(resolveProviderName());
+  }
+  return globalForProviders.marketDataProvider;
+}
@@ -0,0 +1,259 @@
+import { ApiResponse, CryptoAsset, PriceCandle, QuoteCurrency } from "../../types";
+import { API_CONFIG, HISTORY_RANGES, MARKET_DATA_PROVIDERS, MOCK_PROVIDER_CONFIG } from "../../constants";
+import { HistoryRequest, ListingsRequest, MarketDataProvider, ProviderHistory, QuotesRequest } from "./types";
+import { sortAssets } from "../../utils/sorting";
+
+/** Static description of a fixture asset used to seed the random walk */
+interface MockFixture {
+  id: number;
+  name: string;
+  symbol: string;
+  basePrice: number;
+  supply: number;
+  maxSupply: number | null;
+  /** Share of market cap traded per day */
+  volumeRatio: number;
+  stable?: boolean;
+}
+
+/** Fixture universe, ordered by market cap rank (ids match CoinMarketCap) */
+const MOCK_FIXTURES: MockFixture[] = [
+  { id: 1, name: "Bitcoin", symbol: "BTC", basePrice: 65000, supply: 19.7e6, maxSupply: 21e6, volumeRatio: 0.025 },
+  { id: 1027, name: "Ethereum", symbol: "ETH", basePrice: 3200, supply: 120e6, maxSupply: null, volumeRatio: 0.04 },
+  { id: 825, name: "Tether USDt", symbol: "USDT", basePrice: 1, supply: 110e9, maxSupply: null, volumeRatio: 0.5, stable: true },
+  { id: 1839, name: "BNB", symbol: "BNB", basePrice: 580, supply: 146e6, maxSupply: 200e6, volumeRatio: 0.02 },
+  { id: 5426, name: "Solana", symbol: "SOL", basePrice: 150, supply: 460e6, maxSupply: null, volumeRatio: 0.05 },
+  { id: 3408, name: "USDC", symbol: "USDC", basePrice: 1, supply: 33e9, maxSupply: null, volumeRatio: 0.15, stable: true },
+  { id: 52, name: "XRP", symbol: "XRP", basePrice: 0.52, supply: 55e9, maxSupply: 100e9, volumeRatio: 0.04 },
+  { id: 74, name: "Dogecoin", symbol: "DOGE", basePrice: 0.12, supply: 145e9, maxSupply: null, volumeRatio: 0.06 },
+  { id: 2010, name: "Cardano", symbol: "ADA", basePrice: 0.45, supply: 35e9, maxSupply: 45e9, volumeRatio: 0.03 },
+  { id: 1958, name: "TRON", symbol: "TRX", basePrice: 0.12, supply: 87e9, maxSupply: null, volumeRatio: 0.03 },
+  { id: 5805, name: "Avalanche", symbol: "AVAX", basePrice: 28, supply: 390e6, maxSupply: 720e6, volumeRatio: 0.04 },
+  { id: 1975, name: "Chainlink", symbol: "LINK", basePrice: 14, supply: 600e6, maxSupply: 1e9, volumeRatio: 0.04 },
+];
+
+/** Offset for synthetic asset ids, well clear of the fixture ids */
+const MOCK_SYNTHETIC_ID_OFFSET = 900000;
+
+/** Market cap of the first synthetic asset, later ranks get proportionally less */
+const MOCK_SYNTHETIC_MARKET_CAP = 5e10;
+
+/**
+ * Small seeded pseudo-random number generator (mulberry32)
+ * Produces the same sequence for the same seed on every run
+ *
+ * @param {number} seed - 32-bit seed value
+ * @returns {Function} Generator returning floats in [0, 1)
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Builds the mock asset universe: the real fixtures followed by synthetic
+ * assets up to API_CONFIG.MAX_CRYPTO_ASSETS, ordered by market cap rank
+ *
+ * @param {Function} random - Seeded random generator for synthetic base prices
+ * @returns {MockFixture[]} Universe in rank order
+ */
+const buildUniverse = (random: () => number): MockFixture[] => {
+  const synthetic: MockFixture[] = [];
+  for (let rank = MOCK_FIXTURES.length + 1; rank <= API_CONFIG.MAX_CRYPTO_ASSETS; rank++) {
+    // Spread base prices between $0.001 and $100, with market cap falling by rank
+    const basePrice = 10 ** (random() * 5 - 3);
+    const supply = MOCK_SYNTHETIC_MARKET_CAP / rank / basePrice;
+    synthetic.push({
+      id: MOCK_SYNTHETIC_ID_OFFSET + rank,
+      name: `Mock Asset ${rank}`,
+      symbol: `MCK${rank}`,
+      basePrice,
+      supply,
+      maxSupply: rank % 3 === 0 ? supply * 2 : null,
+      volumeRatio: 0.01 + random() * 0.1,
+    });
+  }
+  return [...MOCK_FIXTURES, ...synthetic];
+};
+
+/**
+ * Creates an offline market data provider with deterministic prices
+ *
+ * Every listings or quotes request advances each asset price by one
+ * random-walk step, so a given seed always yields the same sequence of
+ * snapshots. Price
+ * histories are generated by walking back from the current price with a
+ * generator seeded per asset and range, so charts keep their shape between
+ * requests. Useful for local development and tests without network access
+ * or an API key.
+ *
+ * @param {number} [seed] - Random walk seed (defaults to MOCK_PROVIDER_CONFIG.DEFAULT_SEED)
+ * @returns {MarketDataProvider} Mock provider
+ */
+export function createMockProvider(
+  seed: number = MOCK_PROVIDER_CONFIG.DEFAULT_SEED
+): MarketDataProvider {
+  const random = createRandom(seed);
+  const universe = buildUniverse(random);
+  // Price history per asset, most recent last, one entry per random-walk step
+  const history = new Map(universe.map((fixture) => [fixture.id, [fixture.basePrice]]));
+
+  /**
+   * Moves every asset price by a bounded random step
+   */
+  const step = () => {
+    for (const fixture of universe) {
+      const volatility = fixture.stable
+        ? MOCK_PROVIDER_CONFIG.STABLE_VOLATILITY
+        : MOCK_PROVIDER_CONFIG.VOLATILITY;
+      const change = (random() * 2 - 1) * volatility;
+      const prices = history.get(fixture.id) ?? [fixture.basePrice];
+      prices.push(prices[prices.length - 1] * (1 + change));
+      if (prices.length > MOCK_PROVIDER_CONFIG.HISTORY_STEPS + 1) {
+        prices.shift();
+      }
+    }
+  };
+
+  /**
+   * Percent change between the latest price and the price a number of hours ago
+   *
+   * @param {number[]} prices - Price history, most recent last
+   * @param {number} hours - Look-back window in hours
+   * @returns {number} Change in percent
+   */
+  const percentChange = (prices: number[], hours: number) => {
+    const current = prices[prices.length - 1];
+    const past = prices[Math.max(prices.length - 1 - hours * MOCK_PROVIDER_CONFIG.STEPS_PER_HOUR, 0)];
+    return (current / past - 1) * 100;
+  };
+
+  /**
+   * Converts a USD price history into another quote currency
+   * Fiat currencies use fixed rates; BTC and ETH divide by their own mock
+   * price at each step, so percent changes stay consistent in that currency
+   *
+   * @param {number[]} prices - USD price history, most recent last
+   * @param {QuoteCurrency} convert - Target quote currency
+   * @returns {number[]} Price history in the target currency
+   */
+  const convertHistory = (prices: number[], convert: QuoteCurrency) => {
+    if (convert in MOCK_PROVIDER_CONFIG.FIAT_RATES) {
+      const rate = MOCK_PROVIDER_CONFIG.FIAT_RATES[convert as keyof typeof MOCK_PROVIDER_CONFIG.FIAT_RATES];
+      return prices.map((price) => price * rate);
+    }
+    const reference = universe.find((fixture) => fixture.symbol === convert);
+    const referencePrices = (reference && history.get(reference.id)) || [];
+    return prices.map((price, index) => price / referencePrices[index]);
+  };
+
+  /**
+   * Quotes the whole universe in rank order at the current step
+   *
+   * @param {QuoteCurrency} convert - Quote currency
+   * @returns {CryptoAsset[]} Assets in rank order
+   */
+  const quoteUniverse = (convert: QuoteCurrency): CryptoAsset[] =>
+    universe.map((fixture, index) => {
+      const prices = convertHistory(history.get(fixture.id) ?? [fixture.basePrice], convert);
+      const price = prices[prices.length - 1];
+      const marketCap = price * fixture.supply;
+      return {
+        id: fixture.id,
+        name: fixture.name,
+        symbol: fixture.symbol,
+        cmc_rank: index + 1,
+        circulating_supply: fixture.supply,
+        max_supply: fixture.maxSupply,
+        quote: {
+          [convert]: {
+            price,
+            volume_24h: marketCap * fixture.volumeRatio,
+            percent_change_1h: percentChange(prices, 1),
+            percent_change_24h: percentChange(prices, 24),
+            percent_change_7d: percentChange(prices, 24 * 7),
+            market_cap: marketCap,
+          },
+        },
+      };
+    });
+
+  // Pre-fill a full week of history so percent changes are meaningful immediately
+  for (let i = 0; i < MOCK_PROVIDER_CONFIG.HISTORY_STEPS; i++) {
+    step();
+  }
+
+  return {
+    name: MARKET_DATA_PROVIDERS.MOCK,
+
+    async fetchListings({ start, limit, convert, sort, sortDir }: ListingsRequest): Promise<ApiResponse> {
+      step();
+
+      return {
+        data: sortAssets(quoteUniverse(convert), sort, sortDir, convert).slice(start - 1, start - 1 + limit),
+        status: {
+          timestamp: new Date().toISOString(),
+          error_code: 0,
+          error_message: null,
+        },
+      };
+    },
+
+    async fetchQuotes({ ids, symbols, convert }: QuotesRequest): Promise<ApiResponse> {
+      step();
+
+      const assets = quoteUniverse(convert).filter((asset) =>
+        ids ? ids.includes(asset.id) : symbols?.includes(asset.symbol)
+      );
+
+      return {
+        data: assets,
+        status: {
+          timestamp: new Date().toISOString(),
+          error_code: 0,
+          error_message: null,
+        },
+      };
+    },
+
+    async fetchHistory({ id, convert, range }: HistoryRequest): Promise<ProviderHistory> {
+      const fixture = universe.find((entry) => entry.id === id);
+      if (!fixture) {
+        throw new Error(`Unknown mock asset id ${id}`);
+      }
+
+      const { durationMs, intervalMs } = HISTORY_RANGES[range];
+      const count = Math.round(durationMs / intervalMs);
+      const prices = convertHistory(history.get(fixture.id) ?? [fixture.basePrice], convert);
+      // A candle spans many random-walk steps, so its move scales with the square root of that count
+      const stepsPerCandle = (intervalMs / 3600000) * MOCK_PROVIDER_CONFIG.STEPS_PER_HOUR;
+      const volatility = (fixture.stable
+        ? MOCK_PROVIDER_CONFIG.STABLE_VOLATILITY
+        : MOCK_PROVIDER_CONFIG.VOLATILITY) * Math.sqrt(stepsPerCandle);
+      const walk = createRandom(seed + id * 31 + count);
+      const since = Date.now() - durationMs;
+
+      // Walk back from the current price: each candle opens where the previous one closed
+      const candles: PriceCandle[] = [];
+      let close = prices[prices.length - 1];
+      for (let index = count - 1; index >= 0; index--) {
+        const open = close / (1 + (walk() * 2 - 1) * volatility);
+        candles.unshift({
+          time: since + index * intervalMs,
+          open,
+          high: Math.max(open, close) * (1 + (walk() * volatility) / 2),
+          low: Math.min(open, close) * (1 - (walk() * volatility) / 2),
+          close,
+        });
+        close = open;
+      }
+      return { candles };
+    },
+  };
+}
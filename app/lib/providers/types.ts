@@ -0,0 +1,46 @@
+import {
+  ApiResponse,
+  HistoryRequest,
+  ListingsRequest,
+  MarketDataProviderName,
+  ProviderHistory,
+  QuotesRequest,
+} from "../../types";
+
+export type { HistoryRequest, ListingsRequest, ProviderHistory, QuotesRequest };
+
+/**
+ * Contract every market data vendor implements
+ * Providers normalize their vendor payloads into the shared ApiResponse shape
+ * so that the route and the client hooks stay vendor-agnostic
+ */
+export interface MarketDataProvider {
+  /** Provider identifier, matches the MARKET_DATA_PROVIDER env value */
+  readonly name: MarketDataProviderName;
+  /**
+   * Fetches a page of the latest listings in the requested order
+   *
+   * @param {ListingsRequest} request - Pagination, sort and currency parameters
+   * @returns {Promise<ApiResponse>} Normalized listings and status
+   */
+  fetchListings(request: ListingsRequest): Promise<ApiResponse>;
+  /**
+   * Fetches the latest quotes of specific assets by id or by symbol,
+   * including assets outside the top-N listing
+   * Unknown ids and symbols are left out; for a symbol shared by several
+   * assets the highest-ranked one is returned
+   *
+   * @param {QuotesRequest} request - Selected assets and currency
+   * @returns {Promise<ApiResponse>} Normalized quotes in no particular order
+   */
+  fetchQuotes(request: QuotesRequest): Promise<ApiResponse>;
+  /**
+   * Fetches price candles for one asset over a history range
+   * Optional: without it (or when it fails) the history route serves prices
+   * recorded by the quote cache instead
+   *
+   * @param {HistoryRequest} request - Asset, currency and range
+   * @returns {Promise<ProviderHistory>} Candles in chronological order, and the credits consumed
+   */
+  fetchHistory?(request: HistoryRequest): Promise<ProviderHistory>;
+}
@@ -0,0 +1,264 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ListingsRequest } from "../types";
+import { QUOTE_CACHE_CONFIG } from "../constants";
+import { chargeCredits, getCachedListings, getCreditUsage, peekFreshUniverse } from "./quoteCache";
+import { evaluatePendingOrders } from "./portfolio";
+import { readUpstreamFailure } from "./upstream";
+
+const provider = vi.hoisted(() => ({
+  name: "coinmarketcap" as const,
+  fetchListings: vi.fn(),
+  fetchQuotes: vi.fn(),
+}));
+
+vi.mock("./providers", () => ({
+  getMarketDataProvider: () => provider,
+}));
+
+vi.mock("./portfolio", () => ({
+  evaluatePendingOrders: vi.fn(async () => []),
+}));
+
+vi.mock("./priceHistory", () => ({
+  recordPriceSnapshot: vi.fn(),
+}));
+
+vi.mock("./logger", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const request = {
+  start: 1,
+  limit: 10,
+  convert: "USD",
+  sort: "market_cap",
+  sortDir: "desc",
+} as const;
+
+/**
+ * Builds a raw provider listings response holding BTC at a price
+ *
+ * @param {number} price - BTC price in USD
+ * @param {number} [creditCount] - Credits the response reports
+ * @returns {object} Provider response
+ */
+const listings = (price: number, creditCount?: number) => ({
+  data: [
+    {
+      id: 1,
+      name: "Bitcoin",
+      symbol: "BTC",
+      cmc_rank: 1,
+      quote: { USD: { price } },
+    },
+  ],
+  status: {
+    timestamp: new Date().toISOString(),
+    error_code: 0,
+    error_message: null,
+    credit_count: creditCount,
+  },
+});
+
+/**
+ * Lets a background refresh settle
+ */
+const flushRefresh = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Moves the clock forward
+ *
+ * @param {number} ms - Milliseconds to advance by
+ */
+const advance = (ms: number) => vi.setSystemTime(Date.now() + ms);
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+  vi.clearAllMocks();
+
+  // The cache keeps its state on globalThis; start every test from an empty cache
+  const { quoteCacheState } = globalThis as typeof globalThis & {
+    quoteCacheState?: {
+      universes: Map<unknown, unknown>;
+      selections: Map<unknown, unknown>;
+    } & Record<string, unknown>;
+  };
+  quoteCacheState?.universes.clear();
+  quoteCacheState?.selections.clear();
+  Object.assign(quoteCacheState ?? {}, {
+    creditWindowStart: Date.now(),
+    creditsUsed: 0,
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("getCachedListings", () => {
+  it("serves a fresh snapshot from memory within the TTL", async () => {
+    provider.fetchListings.mockResolvedValue(listings(50000));
+
+    const first = await getCachedListings(request);
+    advance(QUOTE_CACHE_CONFIG.DEFAULT_TTL_MS - 1);
+    const second = await getCachedListings(request);
+
+    expect(first.cacheStatus).toBe("miss");
+    expect(second.cacheStatus).toBe("hit");
+    expect(second.response.data[0].quote.USD?.price).toBe(50000);
+    expect(provider.fetchListings).toHaveBeenCalledTimes(1);
+  });
+
+  it("shares one upstream request between concurrent callers", async () => {
+    provider.fetchListings.mockResolvedValue(listings(50000));
+
+    await Promise.all([getCachedListings(request), getCachedListings({ ...request, start: 11 })]);
+
+    expect(provider.fetchListings).toHaveBeenCalledTimes(1);
+  });
+
+  it("serves an expired snapshot while revalidating it in the background", async () => {
+    provider.fetchListings.mockResolvedValueOnce(listings(50000)).mockResolvedValueOnce(listings(51000));
+    await getCachedListings(request);
+
+    advance(QUOTE_CACHE_CONFIG.DEFAULT_TTL_MS);
+    const revalidating = await getCachedListings(request);
+    await flushRefresh();
+    const refreshed = await getCachedListings(request);
+
+    expect(revalidating.cacheStatus).toBe("revalidating");
+    expect(revalidating.response.data[0].quote.USD?.price).toBe(50000);
+    expect(refreshed.cacheStatus).toBe("hit");
+    expect(refreshed.response.data[0].quote.USD?.price).toBe(51000);
+  });
+
+  it("flags the snapshot stale once a background refresh failed", async () => {
+    provider.fetchListings.mockResolvedValueOnce(listings(50000)).mockRejectedValueOnce(new Error("upstream down"));
+    await getCachedListings(request);
+
+    advance(QUOTE_CACHE_CONFIG.DEFAULT_TTL_MS);
+    await getCachedListings(request);
+    await flushRefresh();
+    provider.fetchListings.mockReturnValueOnce(new Promise(() => undefined));
+    const stale = await getCachedListings(request);
+
+    expect(stale.cacheStatus).toBe("stale");
+    expect(stale.response.stale).toBe(true);
+  });
+
+  it("falls back to the last good snapshot when upstream fails past the stale window", async () => {
+    provider.fetchListings.mockResolvedValueOnce(listings(50000)).mockRejectedValueOnce(new Error("upstream down"));
+    await getCachedListings(request);
+
+    advance(QUOTE_CACHE_CONFIG.MAX_STALE_MS);
+    const result = await getCachedListings(request);
+
+    expect(result.cacheStatus).toBe("stale");
+    expect(result.response.stale).toBe(true);
+    expect(result.response.data[0].quote.USD?.price).toBe(50000);
+  });
+
+  it("throws when upstream fails before anything was cached", async () => {
+    provider.fetchListings.mockRejectedValue(new Error("upstream down"));
+
+    await expect(getCachedListings(request)).rejects.toThrow("upstream down");
+  });
+});
+
+describe("listings order", () => {
+  it("orders ties on the sort field by the secondary keys before paging", async () => {
+    const asset = (id: number, name: string) => ({
+      id,
+      name,
+      symbol: name,
+      cmc_rank: id,
+      quote: { USD: { price: 1 } },
+    });
+    provider.fetchListings.mockResolvedValue({ ...listings(50000), data: [asset(1, "Zeta"), asset(2, "Alpha")] });
+    const byPrice: ListingsRequest = {
+      ...request,
+      limit: 1,
+      sort: "price",
+      thenBy: [{ option: "name", direction: "asc" }],
+    };
+
+    const first = await getCachedListings(byPrice);
+    const second = await getCachedListings({ ...byPrice, start: 2 });
+
+    expect(first.response.data.map(({ name }) => name)).toEqual(["Alpha"]);
+    expect(second.response.data.map(({ name }) => name)).toEqual(["Zeta"]);
+  });
+});
+
+describe("pending order evaluation", () => {
+  it("evaluates orders against each refreshed universe in its own currency", async () => {
+    provider.fetchListings.mockResolvedValue(listings(50000));
+
+    const { response } = await getCachedListings(request);
+
+    expect(evaluatePendingOrders).toHaveBeenCalledTimes(1);
+    expect(evaluatePendingOrders).toHaveBeenCalledWith("USD", response.data);
+  });
+});
+
+describe("peekFreshUniverse", () => {
+  it("returns the cached universe only within the TTL, without refreshing it", async () => {
+    provider.fetchListings.mockResolvedValue(listings(50000));
+    expect(peekFreshUniverse("USD")).toBeNull();
+
+    await getCachedListings(request);
+    expect(peekFreshUniverse("USD")?.[0].quote.USD?.price).toBe(50000);
+
+    advance(QUOTE_CACHE_CONFIG.DEFAULT_TTL_MS);
+    expect(peekFreshUniverse("USD")).toBeNull();
+    expect(provider.fetchListings).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("credit budget", () => {
+  it("counts the credits reported by upstream", async () => {
+    provider.fetchListings.mockResolvedValue(listings(50000, 5));
+
+    await getCachedListings(request);
+
+    expect(getCreditUsage()).toEqual(
+      expect.objectContaining({
+        used: 5,
+        remaining: QUOTE_CACHE_CONFIG.DEFAULT_CREDIT_BUDGET - 5,
+      })
+    );
+  });
+
+  it("stops refreshing once the budget is spent and serves the cached snapshot", async () => {
+    provider.fetchListings.mockResolvedValue(listings(50000, QUOTE_CACHE_CONFIG.DEFAULT_CREDIT_BUDGET));
+    await getCachedListings(request);
+
+    advance(QUOTE_CACHE_CONFIG.MAX_STALE_MS);
+    const result = await getCachedListings(request);
+
+    expect(result.cacheStatus).toBe("stale");
+    expect(provider.fetchListings).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails fast as unavailable until the window resets when nothing is cached", async () => {
+    chargeCredits(QUOTE_CACHE_CONFIG.DEFAULT_CREDIT_BUDGET);
+    provider.fetchListings.mockResolvedValue(listings(50000));
+
+    const error = await getCachedListings(request).catch((caught) => caught);
+
+    expect(readUpstreamFailure(error)).toEqual(
+      expect.objectContaining({
+        kind: "unavailable",
+        retryAfterMs: QUOTE_CACHE_CONFIG.CREDIT_WINDOW_MS,
+      })
+    );
+    expect(provider.fetchListings).not.toHaveBeenCalled();
+
+    advance(QUOTE_CACHE_CONFIG.CREDIT_WINDOW_MS);
+    const result = await getCachedListings(request);
+
+    expect(result.cacheStatus).toBe("miss");
+    expect(getCreditUsage().used).toBe(0);
+  });
+});
@@ -0,0 +1,544 @@
+import { ApiResponse, CryptoAsset, QuoteCurrency } from "../types";
+import { API_CONFIG, ERROR_MESSAGES, LISTING_SORTS, QUOTE_CACHE_CONFIG, SORT_DIRECTIONS } from "../constants";
+import { reportDroppedRecords, validateApiResponse } from "../utils/apiValidation";
+import { filterAssets, sortByRelevance } from "../utils/assetFilters";
+import { buildListingsQuery } from "../utils/listingsQuery";
+import { sortAssetsBy } from "../utils/sorting";
+import { getMarketDataProvider, ListingsRequest, MarketDataProvider } from "./providers";
+import { recordPriceSnapshot } from "./priceHistory";
+import { evaluatePendingOrders } from "./portfolio";
+import { globalState } from "./globalState";
+import { logger } from "./logger";
+import { recordCacheLookup } from "./metrics";
+import { upstreamError } from "./upstream";
+
+/**
+ * How a cached listings response was produced
+ * - hit: fresh snapshot served from memory
+ * - miss: snapshot fetched from upstream for this request
+ * - revalidating: snapshot served while a background refresh runs
+ * - stale: upstream failed (or is out of credits), last good snapshot served
+ */
+export type CacheStatus = "hit" | "miss" | "revalidating" | "stale";
+
+/** Listings response together with the cache outcome */
+export interface CachedListings {
+  /** Normalized response, with `stale` set when upstream failed */
+  response: ApiResponse;
+  /** Cache outcome for this request */
+  cacheStatus: CacheStatus;
+}
+
+/** Upstream credit usage within the current budgeting window */
+export interface CreditUsage {
+  /** Credits consumed in the current window */
+  used: number;
+  /** Credits allowed per window */
+  budget: number;
+  /** Credits left before upstream refreshes are suspended */
+  remaining: number;
+  /** Epoch milliseconds at which the window resets */
+  resetsAt: number;
+}
+
+/** Cached snapshot and refresh state for a currency universe or a selection */
+interface CacheEntry {
+  snapshot: ApiResponse | null;
+  fetchedAt: number;
+  lastError: Error | null;
+  pending: Promise<ApiResponse> | null;
+}
+
+/**
+ * Reads a positive integer from the environment
+ *
+ * @param {string | undefined} value - Raw environment value
+ * @param {number} fallback - Value used when missing or invalid
+ * @returns {number} Parsed value or fallback
+ */
+const readPositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value ?? "", 10);
+  return isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+};
+
+const ttlMs = readPositiveInt(process.env.QUOTE_CACHE_TTL_MS, QUOTE_CACHE_CONFIG.DEFAULT_TTL_MS);
+const creditBudget = readPositiveInt(
+  process.env.UPSTREAM_CREDIT_BUDGET,
+  QUOTE_CACHE_CONFIG.DEFAULT_CREDIT_BUDGET
+);
+
+/** Process-wide cache state shared by every route handler */
+interface QuoteCacheState {
+  /** Top API_CONFIG.MAX_CRYPTO_ASSETS assets in market cap order, per quote currency */
+  universes: Map<QuoteCurrency, CacheEntry>;
+  /** Quotes of `ids`/`symbols` selections, least recently used first */
+  selections: Map<string, CacheEntry>;
+  creditWindowStart: number;
+  creditsUsed: number;
+}
+
+// A single cache (and credit budget) per server process
+const state = globalState<QuoteCacheState>("quoteCacheState", () => ({
+  universes: new Map(),
+  selections: new Map(),
+  creditWindowStart: Date.now(),
+  creditsUsed: 0,
+}));
+
+/**
+ * Starts a new credit window once the current one has elapsed
+ */
+const rollCreditWindow = () => {
+  const now = Date.now();
+  if (now - state.creditWindowStart >= QUOTE_CACHE_CONFIG.CREDIT_WINDOW_MS) {
+    state.creditWindowStart = now;
+    state.creditsUsed = 0;
+  }
+};
+
+/**
+ * Returns upstream credit usage for the current budgeting window
+ * Credits are reported by CoinMarketCap in `status.credit_count`; other
+ * providers report none and never exhaust the budget. Listings, quotes and
+ * price histories share the budget.
+ *
+ * @returns {CreditUsage} Current credit usage
+ */
+export function getCreditUsage(): CreditUsage {
+  rollCreditWindow();
+  return {
+    used: state.creditsUsed,
+    budget: creditBudget,
+    remaining: Math.max(creditBudget - state.creditsUsed, 0),
+    resetsAt: state.creditWindowStart + QUOTE_CACHE_CONFIG.CREDIT_WINDOW_MS,
+  };
+}
+
+
+/**
+ * Fails fast once the credit budget of the current window is spent
+ *
+ * @param {string} provider - Provider the request would be sent to
+ * @throws {Error} With an `unavailable` upstream failure, retryable when the window resets
+ */
+export function assertCreditsRemaining(provider: string): void {
+  const credits = getCreditUsage();
+  if (credits.remaining <= 0) {
+    throw upstreamError("Upstream credit budget exhausted", {
+      kind: "unavailable",
+      provider,
+      retryAfterMs: credits.resetsAt - Date.now(),
+    });
+  }
+}
+
+/**
+ * Counts credits consumed by an upstream request made outside the cache
+ * (e.g., a price history) against the budget of the current window
+ *
+ * @param {number} count - Credits reported by the provider
+ */
+export function chargeCredits(count: number): void {
+  rollCreditWindow();
+  state.creditsUsed += count;
+}
+
+/**
+ * Creates an entry that has never been refreshed
+ *
+ * @returns {CacheEntry} Empty entry
+ */
+const createEntry = (): CacheEntry => ({ snapshot: null, fetchedAt: 0, lastError: null, pending: null });
+
+/**
+ * Builds the provider request for the universe of a quote currency: the top
+ * API_CONFIG.MAX_CRYPTO_ASSETS assets in market cap order
+ *
+ * @param {QuoteCurrency} convert - Quote currency
+ * @returns {ListingsRequest} Universe request
+ */
+const universeRequest = (convert: QuoteCurrency): ListingsRequest => ({
+  start: API_CONFIG.API_START_POSITION,
+  limit: API_CONFIG.MAX_CRYPTO_ASSETS,
+  convert,
+  sort: LISTING_SORTS.MARKET_CAP,
+  sortDir: SORT_DIRECTIONS.DESC,
+});
+
+/**
+ * Validates a provider response before it is cached
+ * Malformed assets are left out with a structured warning; a malformed
+ * envelope fails the refresh like an upstream error
+ *
+ * @param {MarketDataProvider} provider - Provider that sent the response
+ * @param {string} query - Query of the universe or selection being refreshed
+ * @param {QuoteCurrency} convert - Quote currency of the response
+ * @param {unknown} response - Provider response
+ * @returns {ApiResponse} Response holding only valid assets
+ * @throws {Error} With a `failed` upstream failure when the response envelope is malformed
+ */
+const validateProviderResponse = (
+  provider: MarketDataProvider,
+  query: string,
+  convert: QuoteCurrency,
+  response: unknown
+): ApiResponse => {
+  const result = validateApiResponse(response, convert);
+  if (!result.value) {
+    throw upstreamError(`${ERROR_MESSAGES.INVALID_API_RESPONSE} from ${provider.name}: ${result.error}`, {
+      kind: "failed",
+      provider: provider.name,
+    });
+  }
+  reportDroppedRecords(`${provider.name} listings (${query})`, result.dropped, logger.warn);
+  return result.value;
+};
+
+/**
+ * Refreshes a cache entry from the upstream provider
+ * Concurrent callers share the same in-flight request; fresh prices are
+ * recorded for the snapshot price history
+ *
+ * @param {CacheEntry} entry - Entry to refresh
+ * @param {string} query - Query the entry caches, for logs and warnings
+ * @param {QuoteCurrency} convert - Quote currency of the entry
+ * @param {Function} load - Fetches the raw response from the provider
+ * @param {Function} [onRefreshed] - Called with the fresh snapshot once it is cached
+ * @returns {Promise<ApiResponse>} Fresh upstream response
+ */
+const refresh = (
+  entry: CacheEntry,
+  query: string,
+  convert: QuoteCurrency,
+  load: (provider: MarketDataProvider) => Promise<unknown>,
+  onRefreshed?: (response: ApiResponse) => void
+): Promise<ApiResponse> => {
+  if (entry.pending) return entry.pending;
+
+  const provider = getMarketDataProvider();
+  try {
+    assertCreditsRemaining(provider.name);
+  } catch (error) {
+    entry.lastError = error as Error;
+    return Promise.reject(error);
+  }
+
+  logger.info("Refreshing listings", { provider: provider.name, query });
+
+  entry.pending = load(provider)
+    .then((response) => validateProviderResponse(provider, query, convert, response))
+    .then(
+      (response) => {
+        state.creditsUsed += response.status.credit_count ?? 0;
+        entry.snapshot = response;
+        entry.fetchedAt = Date.now();
+        entry.lastError = null;
+        recordPriceSnapshot(response, convert);
+        onRefreshed?.(response);
+        return response;
+      },
+      (error) => {
+        entry.lastError = error instanceof Error ? error : new Error(String(error));
+        throw error;
+      }
+    )
+    .finally(() => {
+      entry.pending = null;
+    });
+
+  return entry.pending;
+};
+
+/**
+ * Serves a cache entry, refreshing it from upstream as its age requires
+ *
+ * Behaviour:
+ * - Serves the cached snapshot while it is younger than the TTL
+ * - Serves a snapshot younger than MAX_STALE_MS immediately and refreshes it
+ *   in the background (stale-while-revalidate)
+ * - Otherwise waits for upstream, falling back to the last good snapshot
+ *   flagged `stale: true` when upstream fails
+ *
+ * @param {CacheEntry} entry - Entry to serve
+ * @param {Function} refreshEntry - Refreshes the entry from upstream
+ * @returns {Promise<CachedListings>} Whole cached snapshot and cache outcome
+ * @throws {Error} When upstream fails and no snapshot has been cached yet
+ */
+const readThrough = async (
+  entry: CacheEntry,
+  refreshEntry: () => Promise<ApiResponse>
+): Promise<CachedListings> => {
+  const age = entry.snapshot ? Date.now() - entry.fetchedAt : Infinity;
+
+  /**
+   * Counts the cache outcome and builds the result
+   *
+   * @param {ApiResponse} response - Served response
+   * @param {CacheStatus} cacheStatus - Cache outcome
+   * @returns {CachedListings} Listings and cache outcome
+   */
+  const serve = (response: ApiResponse, cacheStatus: CacheStatus): CachedListings => {
+    recordCacheLookup(cacheStatus);
+    return { response, cacheStatus };
+  };
+
+  if (entry.snapshot && age < ttlMs) {
+    return serve({ ...entry.snapshot, stale: false }, "hit");
+  }
+
+  if (entry.snapshot && age < QUOTE_CACHE_CONFIG.MAX_STALE_MS) {
+    // Errors are recorded on the entry and reported through the stale flag
+    refreshEntry().catch(() => undefined);
+    const stale = entry.lastError !== null;
+    return serve({ ...entry.snapshot, stale }, stale ? "stale" : "revalidating");
+  }
+
+  try {
+    const response = await refreshEntry();
+    return serve({ ...response, stale: false }, "miss");
+  } catch (error) {
+    if (entry.snapshot) {
+      return serve({ ...entry.snapshot, stale: true }, "stale");
+    }
+    throw error;
+  }
+};
+
+/**
+ * Serves the universe of a quote currency, creating its entry on first use
+ * There is one entry per supported currency, so universes need no eviction.
+ * Open limit/stop orders in the currency are evaluated against every fresh
+ * universe, the only time the prices they trigger on change
+ *
+ * @param {QuoteCurrency} convert - Quote currency
+ * @returns {Promise<CachedListings>} Whole universe in market cap order and cache outcome
+ * @throws {Error} When upstream fails and no snapshot has been cached yet
+ */
+const readUniverse = (convert: QuoteCurrency): Promise<CachedListings> => {
+  const entry = state.universes.get(convert) ?? createEntry();
+  state.universes.set(convert, entry);
+  const request = universeRequest(convert);
+  return readThrough(entry, () =>
+    refresh(
+      entry,
+      buildListingsQuery(request),
+      convert,
+      (provider) => provider.fetchListings(request),
+      // Errors are logged by the evaluation itself
+      (response) => void evaluatePendingOrders(convert, response.data)
+    )
+  );
+};
+
+/**
+ * Returns the cache entry of a selection, marking it most recently used
+ * Before a new entry is added, entries too old to be served are dropped, then
+ * the least recently used ones until there is room under MAX_SELECTION_ENTRIES
+ *
+ * @param {string} key - Selection query
+ * @returns {CacheEntry} Existing or new entry
+ */
+const getSelectionEntry = (key: string): CacheEntry => {
+  const cached = state.selections.get(key);
+  if (cached) {
+    state.selections.delete(key);
+    state.selections.set(key, cached);
+    return cached;
+  }
+
+  const now = Date.now();
+  state.selections.forEach((entry, entryKey) => {
+    if (!entry.pending && now - entry.fetchedAt >= QUOTE_CACHE_CONFIG.MAX_STALE_MS) {
+      state.selections.delete(entryKey);
+    }
+  });
+  for (const entryKey of state.selections.keys()) {
+    if (state.selections.size < QUOTE_CACHE_CONFIG.MAX_SELECTION_ENTRIES) break;
+    state.selections.delete(entryKey);
+  }
+
+  const entry = createEntry();
+  state.selections.set(key, entry);
+  return entry;
+};
+
+/**
+ * Picks the assets of a selection out of a universe
+ * For a symbol shared by several assets the first (highest-ranked) one is
+ * kept; as the universe holds the top assets, it also ranks highest overall
+ *
+ * @param {CryptoAsset[]} universe - Assets in market cap order
+ * @param {ListingsRequest} request - Request with `ids` or `symbols`
+ * @returns {CryptoAsset[] | null} Selected assets, or null when the universe misses any of them
+ */
+const selectFromUniverse = (universe: CryptoAsset[], { ids, symbols }: ListingsRequest): CryptoAsset[] | null => {
+  const byKey = new Map<number | string, CryptoAsset>();
+  universe.forEach((asset) => {
+    const key = ids ? asset.id : asset.symbol;
+    if (!byKey.has(key)) byKey.set(key, asset);
+  });
+  const keys: (number | string)[] = ids ?? symbols ?? [];
+  const selected = keys.flatMap((key) => byKey.get(key) ?? []);
+  return selected.length === keys.length ? selected : null;
+};
+
+/**
+ * Filters, sorts and pages cached assets for a listings request
+ * Every sort key (`sort`, then `thenBy`) is applied before paging, so pages
+ * of a multi-column sort never overlap; the pagination total is the number
+ * of assets matching the filters
+ *
+ * @param {ApiResponse} response - Cached response the assets come from
+ * @param {CryptoAsset[]} assets - Assets to page through
+ * @param {ListingsRequest} request - Listings request
+ * @param {boolean} marketCapOrder - Whether the assets already are in market cap order
+ * @returns {ApiResponse} Requested page
+ */
+const pageListings = (
+  response: ApiResponse,
+  assets: CryptoAsset[],
+  request: ListingsRequest,
+  marketCapOrder: boolean
+): ApiResponse => {
+  const { start, limit, convert, sort, sortDir, filters, relevance, thenBy = [] } = request;
+  const matching = filters ? filterAssets(assets, filters, convert) : assets;
+  const inOrder =
+    marketCapOrder && sort === LISTING_SORTS.MARKET_CAP && sortDir === SORT_DIRECTIONS.DESC && thenBy.length === 0;
+  const ordered =
+    relevance && filters
+      ? sortByRelevance(matching, filters.query)
+      : inOrder
+        ? matching
+        : sortAssetsBy(matching, [{ option: sort, direction: sortDir }, ...thenBy], convert);
+
+  return {
+    ...response,
+    data: ordered.slice(start - 1, start - 1 + limit),
+    pagination: { start, limit, total: matching.length },
+  };
+};
+
+/**
+ * Returns listings through the in-process quote cache
+ *
+ * Behaviour:
+ * - Caches the universe once per quote currency and filters, sorts and pages
+ *   it locally, so every page, search and sort order shares one upstream
+ *   call per TTL
+ * - Serves selections (`ids` or `symbols`) from the universe when it holds
+ *   every selected asset; other selections are quoted as a whole and cached
+ *   separately, keeping at most MAX_SELECTION_ENTRIES of them
+ * - Never sends an empty selection upstream
+ * - Refreshes snapshots as described for the TTL, stale-while-revalidate and
+ *   stale fallback (see readThrough)
+ *
+ * @param {ListingsRequest} request - Pagination, sort, currency and selection parameters
+ * @returns {Promise<CachedListings>} Requested page and cache outcome
+ * @throws {Error} When upstream fails and no snapshot has been cached yet
+ */
+export async function getCachedListings(request: ListingsRequest): Promise<CachedListings> {
+  const { convert, ids, symbols } = request;
+  if (!ids && !symbols) {
+    const { response, cacheStatus } = await readUniverse(convert);
+    return { response: pageListings(response, response.data, request, true), cacheStatus };
+  }
+
+  if ((ids ?? symbols ?? []).length === 0) {
+    recordCacheLookup("hit");
+    const empty: ApiResponse = {
+      data: [],
+      status: { timestamp: new Date().toISOString(), error_code: 0, error_message: null },
+      stale: false,
+    };
+    return { response: pageListings(empty, [], request, false), cacheStatus: "hit" };
+  }
+
+  const universe = state.universes.get(convert)?.snapshot;
+  if (universe && selectFromUniverse(universe.data, request)) {
+    const { response, cacheStatus } = await readUniverse(convert);
+    // A refreshed universe may have lost an asset; the selection then shrinks until the next request
+    const selected = selectFromUniverse(response.data, request) ?? [];
+    return { response: pageListings(response, selected, request, false), cacheStatus };
+  }
+
+  const query = buildListingsQuery({ ...universeRequest(convert), ids, symbols });
+  const entry = getSelectionEntry(query);
+  const { response, cacheStatus } = await readThrough(entry, () =>
+    refresh(entry, query, convert, (provider) => provider.fetchQuotes({ ids, symbols, convert }))
+  );
+  return { response: pageListings(response, response.data, request, false), cacheStatus };
+}
+
+/**
+ * Returns the whole top API_CONFIG.MAX_CRYPTO_ASSETS universe in market cap
+ * order through the quote cache, so server-side lookups share one upstream
+ * call per TTL with each other and with the listings
+ *
+ * @param {QuoteCurrency} convert - Quote currency
+ * @returns {Promise<CryptoAsset[]>} Assets in rank order
+ * @throws {Error} When upstream fails and no snapshot has been cached yet
+ */
+export async function getCachedUniverse(convert: QuoteCurrency): Promise<CryptoAsset[]> {
+  const { response } = await readUniverse(convert);
+  return response.data;
+}
+
+/**
+ * Returns the cached universe of a quote currency while it is younger than
+ * the TTL, without refreshing it
+ * Lets background work use prices that are already current without spending
+ * upstream credits on currencies nobody is viewing
+ *
+ * @param {QuoteCurrency} convert - Quote currency
+ * @returns {CryptoAsset[] | null} Assets in rank order, or null when not cached or expired
+ */
+export function peekFreshUniverse(convert: QuoteCurrency): CryptoAsset[] | null {
+  const entry = state.universes.get(convert);
+  return entry?.snapshot && Date.now() - entry.fetchedAt < ttlMs ? entry.snapshot.data : null;
+}
+
+/**
+ * Returns the USD value of one unit of a quote currency
+ * Derived from the cached universes of USD and the currency, as the ratio of
+ * the prices of the highest-ranked asset quoted in both. Without a cached USD
+ * universe, one is fetched in the background for later calls.
+ *
+ * @param {QuoteCurrency} convert - Quote currency
+ * @returns {number | undefined} USD per unit, or undefined when not derivable yet
+ *
+ * @example
+ * getUsdRate("EUR") // Returns 1.087 when BTC is quoted at $66,000 and €60,720
+ */
+export function getUsdRate(convert: QuoteCurrency): number | undefined {
+  if (convert === "USD") return 1;
+
+  const usd = state.universes.get("USD")?.snapshot;
+  if (!usd) {
+    readUniverse("USD").catch(() => undefined);
+    return undefined;
+  }
+
+  const usdPrices = new Map(usd.data.map((asset) => [asset.id, asset.quote.USD?.price]));
+  for (const asset of state.universes.get(convert)?.snapshot?.data ?? []) {
+    const usdPrice = usdPrices.get(asset.id);
+    const price = asset.quote[convert]?.price;
+    if (usdPrice && price) return usdPrice / price;
+  }
+  return undefined;
+}
+
+/**
+ * Checks whether the cache quotes an asset: in the universe of the currency,
+ * or in a cached selection (e.g., a watchlisted asset outside the top N)
+ * Lets routes reject unknown ids before they reach upstream
+ *
+ * @param {number} id - Asset id
+ * @param {QuoteCurrency} convert - Quote currency
+ * @returns {Promise<boolean>} True when the asset is quoted
+ * @throws {Error} When upstream fails and no universe has been cached yet
+ */
+export async function isQuotedAsset(id: number, convert: QuoteCurrency): Promise<boolean> {
+  const universe = await getCachedUniverse(convert);
+  if (universe.some((asset) => asset.id === id)) return true;
+  return [...state.selections.values()].some((entry) => entry.snapshot?.data.some((asset) => asset.id === id));
+}
@@ -0,0 +1,60 @@
+import { randomUUID } from "crypto";
+import { NextRequest } from "next/server";
+import { ERROR_MESSAGES, OBSERVABILITY_CONFIG } from "../constants";
+import { apiErrorResponse } from "./apiErrors";
+import { logger, requestContext } from "./logger";
+import { recordRequest } from "./metrics";
+
+/** Request ids accepted from clients; others are replaced by a generated one */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Wraps a route handler with request ids, structured logging and metrics
+ *
+ * Features:
+ * - Reuses a well-formed incoming X-Request-Id or generates one, and returns it
+ *   in the X-Request-Id response header
+ * - Runs the handler in a request context, so every entry logged on its behalf
+ *   (including from the quote cache, providers and streams it starts) carries
+ *   the request id and route
+ * - Logs and counts each request with its status and duration
+ * - Turns an uncaught error into a logged 500 INTERNAL_ERROR response
+ *
+ * @param {string} route - Route pattern used in logs and metric labels (e.g., "/api/orders/[id]")
+ * @param {Function} handler - Route handler
+ * @returns {Function} Instrumented route handler
+ *
+ * @example
+ * export const GET = withRequestLogging("/api/portfolio", getPortfolioSummary);
+ */
+export function withRequestLogging<Args extends unknown[]>(
+  route: string,
+  handler: (request: NextRequest, ...args: Args) => Promise<Response>
+) {
+  return async (request: NextRequest, ...args: Args): Promise<Response> => {
+    const incomingId = request.headers.get(OBSERVABILITY_CONFIG.REQUEST_ID_HEADER);
+    const requestId = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : randomUUID();
+    const startedAt = performance.now();
+
+    return requestContext.run({ requestId, route }, async () => {
+      let response: Response;
+      try {
+        response = await handler(request, ...args);
+      } catch (error) {
+        logger.error("Unhandled route error", { error });
+        response = apiErrorResponse("INTERNAL_ERROR", ERROR_MESSAGES.GENERIC_ERROR);
+      }
+
+      const seconds = (performance.now() - startedAt) / 1000;
+      response.headers.set(OBSERVABILITY_CONFIG.REQUEST_ID_HEADER, requestId);
+      recordRequest(route, request.method, response.status, seconds);
+      logger.info("Handled request", {
+        method: request.method,
+        path: request.nextUrl.pathname,
+        status: response.status,
+        durationMs: Math.round(seconds * 1000),
+      });
+      return response;
+    });
+  };
+}
@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { UPSTREAM_CONFIG } from "../constants";
+import { fetchUpstream, readUpstreamFailure } from "./upstream";
+
+vi.mock("./logger", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const fetchMock = vi.fn<typeof fetch>();
+const url = "https://api.example.com/v1/listings?start=1";
+
+/**
+ * Builds an upstream response
+ *
+ * @param {number} status - HTTP status
+ * @param {Record<string, string>} [headers] - Response headers
+ * @returns {Response} Response with a short body
+ */
+const respond = (status: number, headers?: Record<string, string>) => new Response("{}", { status, headers });
+
+/**
+ * Starts a request whose rejection is captured, so timers can run before it is inspected
+ *
+ * @returns {Promise<Response | Error>} Response, or the error the request failed with
+ */
+const request = () => fetchUpstream("coinmarketcap", url).catch((error: Error) => error);
+
+/**
+ * Fails one request as a timeout, which is not retried
+ *
+ * @returns {Promise<Response | Error>} Error the request failed with
+ */
+const timeOut = () => {
+  fetchMock.mockRejectedValueOnce(new DOMException("The operation timed out", "TimeoutError"));
+  return request();
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal("fetch", fetchMock);
+  fetchMock.mockReset();
+  // Circuits live on globalThis; every test starts with a closed one
+  (globalThis as typeof globalThis & { upstreamCircuits?: Map<string, unknown> }).upstreamCircuits?.clear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("fetchUpstream retries", () => {
+  it("retries 5xx responses with exponential backoff", async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(503))
+      .mockResolvedValueOnce(respond(502))
+      .mockResolvedValueOnce(respond(200));
+
+    const result = request();
+    await vi.advanceTimersByTimeAsync(UPSTREAM_CONFIG.RETRY_BASE_DELAY_MS);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(UPSTREAM_CONFIG.RETRY_BASE_DELAY_MS * 2);
+
+    expect(((await result) as Response).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("waits for the Retry-After delay of a 429", async () => {
+    fetchMock.mockResolvedValueOnce(respond(429, { "Retry-After": "2" })).mockResolvedValueOnce(respond(200));
+
+    const result = request();
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(((await result) as Response).status).toBe(200);
+  });
+
+  it("fails as unavailable once the retries are used up", async () => {
+    fetchMock.mockImplementation(async () => respond(503));
+
+    const result = request();
+    await vi.runAllTimersAsync();
+
+    expect(readUpstreamFailure(await result)).toEqual(
+      expect.objectContaining({ kind: "unavailable", provider: "coinmarketcap", status: 503 })
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(UPSTREAM_CONFIG.MAX_RETRIES + 1);
+  });
+
+  it("does not retry when the delay would pass the deadline", async () => {
+    fetchMock.mockImplementation(async () => respond(503, { "Retry-After": "4" }));
+
+    const result = request();
+    await vi.runAllTimersAsync();
+
+    // The second attempt starts 4s in; another 4s would end after the 6s deadline
+    expect(readUpstreamFailure(await result)).toEqual(
+      expect.objectContaining({ kind: "unavailable", retryAfterMs: 4000 })
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("fails other error responses without retrying", async () => {
+    fetchMock.mockResolvedValueOnce(respond(401));
+
+    const result = await request();
+
+    expect(readUpstreamFailure(result)).toEqual(expect.objectContaining({ kind: "failed", status: 401 }));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries network errors and reports them as unavailable", async () => {
+    fetchMock.mockRejectedValue(new TypeError("fetch failed"));
+
+    const result = request();
+    await vi.runAllTimersAsync();
+
+    expect(readUpstreamFailure(await result)).toEqual(expect.objectContaining({ kind: "unavailable" }));
+    expect(fetchMock).toHaveBeenCalledTimes(UPSTREAM_CONFIG.MAX_RETRIES + 1);
+  });
+
+  it("reports timed out attempts as timeouts without retrying", async () => {
+    expect(readUpstreamFailure(await timeOut())).toEqual(expect.objectContaining({ kind: "timeout" }));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("fetchUpstream circuit breaker", () => {
+  /**
+   * Fails enough consecutive requests to open the circuit
+   */
+  const openCircuit = async () => {
+    for (let failure = 0; failure < UPSTREAM_CONFIG.CIRCUIT_FAILURE_THRESHOLD; failure++) {
+      await timeOut();
+    }
+    fetchMock.mockClear();
+  };
+
+  it("short-circuits requests once consecutive requests failed", async () => {
+    await openCircuit();
+
+    const result = await request();
+
+    expect(readUpstreamFailure(result)).toEqual(
+      expect.objectContaining({ kind: "unavailable", retryAfterMs: UPSTREAM_CONFIG.CIRCUIT_COOLDOWN_MS })
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("does not count failed (non-retryable) responses against the circuit", async () => {
+    for (let failure = 0; failure < UPSTREAM_CONFIG.CIRCUIT_FAILURE_THRESHOLD - 1; failure++) {
+      await timeOut();
+    }
+    fetchMock.mockResolvedValueOnce(respond(400));
+    await request();
+    await timeOut();
+
+    fetchMock.mockResolvedValueOnce(respond(200));
+    expect(((await request()) as Response).status).toBe(200);
+  });
+
+  it("lets one probe through after the cooldown and closes on success", async () => {
+    await openCircuit();
+    vi.advanceTimersByTime(UPSTREAM_CONFIG.CIRCUIT_COOLDOWN_MS);
+
+    let releaseProbe: (response: Response) => void = () => undefined;
+    fetchMock.mockReturnValueOnce(new Promise((resolve) => (releaseProbe = resolve)));
+    const probe = request();
+    const concurrent = await request();
+    releaseProbe(respond(200));
+
+    expect(readUpstreamFailure(concurrent)).toEqual(expect.objectContaining({ kind: "unavailable" }));
+    expect(((await probe) as Response).status).toBe(200);
+
+    fetchMock.mockResolvedValueOnce(respond(200));
+    expect(((await request()) as Response).status).toBe(200);
+  });
+
+  it("reopens at once when the probe fails", async () => {
+    await openCircuit();
+    vi.advanceTimersByTime(UPSTREAM_CONFIG.CIRCUIT_COOLDOWN_MS);
+
+    await timeOut();
+    fetchMock.mockClear();
+    const result = await request();
+
+    expect(readUpstreamFailure(result)).toEqual(expect.objectContaining({ kind: "unavailable" }));
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,257 @@
+import { UPSTREAM_CONFIG } from "../constants";
+import { logger } from "./logger";
+import { globalState } from "./globalState";
+import { recordUpstreamRequest } from "./metrics";
+
+/**
+ * How an upstream request failed
+ * - timeout: no response within UPSTREAM_CONFIG.TIMEOUT_MS, or none before the
+ *   UPSTREAM_CONFIG.DEADLINE_MS of the request
+ * - unavailable: unreachable, 429 or 5xx after retries, or short-circuited
+ * - failed: any other error response, or a malformed payload
+ */
+export type UpstreamFailureKind = "timeout" | "unavailable" | "failed";
+
+/** Failure of an upstream request, attached as the `cause` of the thrown error */
+export interface UpstreamFailure {
+  kind: UpstreamFailureKind;
+  /** Provider the request was sent to */
+  provider: string;
+  /** HTTP status of the last upstream response, if any */
+  status?: number;
+  /** Milliseconds before upstream should be asked again, when known */
+  retryAfterMs?: number;
+}
+
+/** Circuit breaker state of one provider */
+interface CircuitState {
+  /** Consecutive failed requests */
+  failures: number;
+  /** Epoch milliseconds until which requests are short-circuited (0 when closed) */
+  openUntil: number;
+  /** Whether the single request let through after the cooldown is in flight */
+  probing: boolean;
+}
+
+// One circuit per provider per server process
+const circuits = globalState("upstreamCircuits", () => new Map<string, CircuitState>());
+
+/**
+ * Creates an error carrying an upstream failure as its cause
+ * The message is logged server-side; responses only use the failure kind
+ *
+ * @param {string} message - Error message for the server log
+ * @param {UpstreamFailure} failure - Failure details
+ * @returns {Error} Error to throw
+ */
+export const upstreamError = (message: string, failure: UpstreamFailure): Error =>
+  new Error(message, { cause: failure });
+
+/**
+ * Reads the upstream failure behind an error
+ *
+ * @param {unknown} error - Caught value
+ * @returns {UpstreamFailure | null} Failure details, or null for other errors
+ */
+export function readUpstreamFailure(error: unknown): UpstreamFailure | null {
+  const cause = error instanceof Error ? error.cause : undefined;
+  return typeof cause === "object" && cause !== null && "kind" in cause && "provider" in cause
+    ? (cause as UpstreamFailure)
+    : null;
+}
+
+/**
+ * Parses a Retry-After header given in seconds or as an HTTP date
+ *
+ * @param {string | null} value - Header value
+ * @returns {number | undefined} Delay in milliseconds, or undefined when absent or invalid
+ */
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+};
+
+/**
+ * Waits for the given time
+ *
+ * @param {number} ms - Delay in milliseconds
+ * @returns {Promise<void>} Resolves after the delay
+ */
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Lets a request through the provider's circuit, or short-circuits it
+ * Once the cooldown of an open circuit has passed, one request is let through
+ * to probe upstream while the others keep failing fast
+ *
+ * @param {string} provider - Provider name
+ * @returns {CircuitState} Circuit of the provider
+ * @throws {Error} With an `unavailable` failure while the circuit is open
+ */
+const enterCircuit = (provider: string): CircuitState => {
+  let circuit = circuits.get(provider);
+  if (!circuit) {
+    circuit = { failures: 0, openUntil: 0, probing: false };
+    circuits.set(provider, circuit);
+  }
+
+  const now = Date.now();
+  if (circuit.openUntil > now || (circuit.openUntil > 0 && circuit.probing)) {
+    throw upstreamError(`${provider} circuit is open`, {
+      kind: "unavailable",
+      provider,
+      retryAfterMs: Math.max(circuit.openUntil - now, 0) || UPSTREAM_CONFIG.CIRCUIT_COOLDOWN_MS,
+    });
+  }
+  if (circuit.openUntil > 0) {
+    circuit.probing = true;
+  }
+  return circuit;
+};
+
+/**
+ * Records the outcome of a request in its circuit
+ * Timeouts and unavailability count as failures; a response of any other kind
+ * proves upstream reachable and closes the circuit
+ *
+ * @param {string} provider - Provider name
+ * @param {CircuitState} circuit - Circuit of the provider
+ * @param {UpstreamFailure | null} failure - Failure, or null on success
+ */
+const recordOutcome = (provider: string, circuit: CircuitState, failure: UpstreamFailure | null) => {
+  const wasProbing = circuit.probing;
+  circuit.probing = false;
+
+  if (!failure || failure.kind === "failed") {
+    circuit.failures = 0;
+    circuit.openUntil = 0;
+    return;
+  }
+
+  circuit.failures += 1;
+  if (wasProbing || circuit.failures >= UPSTREAM_CONFIG.CIRCUIT_FAILURE_THRESHOLD) {
+    circuit.openUntil = Date.now() + UPSTREAM_CONFIG.CIRCUIT_COOLDOWN_MS;
+    logger.warn("Opened upstream circuit", {
+      provider,
+      failures: circuit.failures,
+      cooldownMs: UPSTREAM_CONFIG.CIRCUIT_COOLDOWN_MS,
+    });
+  }
+};
+
+/**
+ * Sends one request, retrying 429, 5xx and network errors with exponential
+ * backoff or the Retry-After delay; every attempt is timed and logged
+ * Attempts and delays share one deadline: an attempt gets at most the time
+ * left, and a retry whose delay would pass the deadline is not made
+ *
+ * @param {string} provider - Provider name
+ * @param {string} url - Request URL
+ * @param {RequestInit} init - Request options
+ * @returns {Promise<Response>} Successful response
+ * @throws {Error} With an UpstreamFailure cause when no attempt succeeds
+ */
+const fetchWithRetries = async (provider: string, url: string, init: RequestInit): Promise<Response> => {
+  // Logged instead of the URL, whose query may identify the account
+  const path = new URL(url).pathname;
+  const deadline = Date.now() + UPSTREAM_CONFIG.DEADLINE_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    const backoff = UPSTREAM_CONFIG.RETRY_BASE_DELAY_MS * 2 ** attempt;
+    /**
+     * Checks whether another attempt may be made after a delay
+     *
+     * @param {number} delay - Delay before the retry in milliseconds
+     * @returns {boolean} True when retries remain and the delay ends before the deadline
+     */
+    const canRetry = (delay: number) => attempt < UPSTREAM_CONFIG.MAX_RETRIES && Date.now() + delay < deadline;
+    const timeoutMs = Math.min(UPSTREAM_CONFIG.TIMEOUT_MS, deadline - Date.now());
+    const startedAt = performance.now();
+    /**
+     * Records the attempt's latency and outcome
+     *
+     * @param {string} outcome - Response status, "timeout" or "network_error"
+     */
+    const recordAttempt = (outcome: string) => {
+      const seconds = (performance.now() - startedAt) / 1000;
+      recordUpstreamRequest(provider, outcome, seconds);
+      logger.debug("Upstream request", { provider, path, attempt, outcome, durationMs: Math.round(seconds * 1000) });
+    };
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+    } catch (error) {
+      const timedOut = error instanceof DOMException && error.name === "TimeoutError";
+      recordAttempt(timedOut ? "timeout" : "network_error");
+      if (timedOut) {
+        throw upstreamError(`${provider} did not respond within ${timeoutMs}ms`, {
+          kind: "timeout",
+          provider,
+        });
+      }
+      if (canRetry(backoff)) {
+        await sleep(backoff);
+        continue;
+      }
+      logger.warn("Upstream request failed", { provider, path, error });
+      throw upstreamError(`${provider} could not be reached`, { kind: "unavailable", provider });
+    }
+
+    const { status } = response;
+    recordAttempt(status.toString());
+    if (response.ok) return response;
+
+    const retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+    const retryable = (UPSTREAM_CONFIG.RETRYABLE_STATUSES as readonly number[]).includes(status);
+    const delay = retryAfterMs ?? backoff;
+    if (retryable && canRetry(delay) && delay <= UPSTREAM_CONFIG.MAX_RETRY_DELAY_MS) {
+      await response.body?.cancel();
+      await sleep(delay);
+      continue;
+    }
+
+    // Upstream error bodies may echo request details, so they are only logged
+    const errorText = await response.text().catch(() => "");
+    logger.warn("Upstream error response", { provider, path, status, body: errorText.slice(0, 500) });
+    throw upstreamError(`${provider} responded ${status}`, {
+      kind: retryable ? "unavailable" : "failed",
+      provider,
+      status,
+      retryAfterMs,
+    });
+  }
+};
+
+/**
+ * Fetches from an upstream market data provider
+ *
+ * Features:
+ * - Aborts each attempt after UPSTREAM_CONFIG.TIMEOUT_MS, and gives up once
+ *   UPSTREAM_CONFIG.DEADLINE_MS have passed, retries included
+ * - Retries 429, 5xx and network errors up to UPSTREAM_CONFIG.MAX_RETRIES times,
+ *   waiting for Retry-After when upstream sends one (up to MAX_RETRY_DELAY_MS)
+ * - Short-circuits requests for CIRCUIT_COOLDOWN_MS once CIRCUIT_FAILURE_THRESHOLD
+ *   consecutive requests failed, then lets one request through to probe upstream
+ * - Throws errors whose `cause` is an UpstreamFailure (see readUpstreamFailure)
+ *
+ * @param {string} provider - Provider name, keying its circuit breaker
+ * @param {string} url - Request URL
+ * @param {RequestInit} [init] - Request options (e.g., headers)
+ * @returns {Promise<Response>} Successful (2xx) response
+ * @throws {Error} With an UpstreamFailure cause when the request fails
+ */
+export async function fetchUpstream(provider: string, url: string, init: RequestInit = {}): Promise<Response> {
+  const circuit = enterCircuit(provider);
+  try {
+    const response = await fetchWithRetries(provider, url, init);
+    recordOutcome(provider, circuit, null);
+    return response;
+  } catch (error) {
+    recordOutcome(provider, circuit, readUpstreamFailure(error));
+    throw error;
+  }
+}
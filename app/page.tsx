@@ -1,49 +1,247 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { Suspense, useState, useEffect, useMemo, useCallback } from "react";
 import CryptoCard from "./components/CryptoCard";
 import ErrorBoundary from "./components/ErrorBoundary";
 import ListHeader from "./components/ListHeader";
 import Header from "./components/Header";
 import PurchaseForm from "./components/PurchaseForm";
 import Notification from "./components/Notification";
+import NotificationHistory from "./components/NotificationHistory";
+import Pagination from "./components/Pagination";
+import PortfolioPanel from "./components/PortfolioPanel";
+import OpenOrdersPanel from "./components/OpenOrdersPanel";
+import OrderConfirmDialog from "./components/OrderConfirmDialog";
+import AssetDetailView from "./components/AssetDetailView";
+import WatchlistManager from "./components/WatchlistManager";
+import AlertsPanel from "./components/AlertsPanel";
+import SearchFilters from "./components/SearchFilters";
+import DegradedBanner from "./components/DegradedBanner";
+import DashboardSkeleton from "./components/DashboardSkeleton";
+import VirtualAssetList from "./components/VirtualAssetList";
 import { useCryptoData } from "./hooks/useCryptoData";
 import { usePurchaseForm } from "./hooks/usePurchaseForm";
+import { usePortfolio } from "./hooks/usePortfolio";
 import { useNotification } from "./hooks/useNotification";
 import { useKeyboardNavigation } from "./hooks/useKeyboardNavigation";
-import { SortOption, SortDirection, ViewMode, CryptoAsset } from "./types";
-import { VIEW_MODES, ERROR_MESSAGES } from "./constants";
+import { useWatchlists } from "./hooks/useWatchlists";
+import { useDashboardState } from "./hooks/useDashboardState";
+import { usePriceAlerts } from "./hooks/usePriceAlerts";
+import { DEFAULT_SORT_KEYS, sortAssetsBy, toListingSort, updateSortKeys } from "./utils/sorting";
+import { hasAssetFilters } from "./utils/assetFilters";
+import { formatPendingOrder } from "./utils/formatters";
+import { SortOption, ViewMode, ListingsRequest, PendingOrder, CryptoAsset, AssetFilters } from "./types";
+import { API_CONFIG, VIEW_MODES, ERROR_MESSAGES, SUCCESS_MESSAGES, WATCHLIST_CONFIG } from "./constants";
 
-export default function Home() {
-  // Fetch cryptocurrency data with auto-refresh functionality
-  const { cryptoData, loading, error, countdown, getDefaultAsset } = useCryptoData();
+function Dashboard() {
+  // Sort, view mode (boxed grid or list), quote currency, the search and
+  // range filters applied server-side before paging, and the page, all kept
+  // in the URL - sort and view mode are kept when changing pages
+  const {
+    sortKeys,
+    viewMode,
+    currency,
+    filters,
+    page,
+    pageSize,
+    setSortKeys,
+    setViewMode,
+    setCurrency,
+    setFilters,
+    setPage,
+    setPageSize,
+  } = useDashboardState();
+
+  // Named watchlists persisted in this browser; the active one filters the listings
+  const {
+    watchlists,
+    activeWatchlist,
+    starTarget,
+    selectWatchlist,
+    createWatchlist,
+    renameWatchlist,
+    deleteWatchlist,
+    toggleSymbol,
+    addSymbol,
+    restoreSymbol,
+    exportWatchlists,
+    importWatchlists,
+  } = useWatchlists();
+  const watchlistSymbols = activeWatchlist?.symbols;
+
+  // Filters as last requested; typing only sends a request once it pauses
+  const [requestFilters, setRequestFilters] = useState<AssetFilters>(filters);
+  useEffect(() => {
+    const timer = setTimeout(() => setRequestFilters(filters), API_CONFIG.FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filters]);
+  const filtersActive = hasAssetFilters(filters);
+
+  // Without a column sort, search results are ordered by relevance and other
+  // listings by rank
+  const relevanceOrder = sortKeys.length === 0 && filters.query.trim() !== "";
+  const activeSortKeys = sortKeys.length > 0 ? sortKeys : relevanceOrder ? [] : DEFAULT_SORT_KEYS;
+
+  /**
+   * Listings page to load - the search and range filters and the most
+   * significant sort key are applied server-side, so every page is a slice of
+   * the same filtered ordering across the whole asset universe, or across the
+   * active watchlist's symbols when one is selected
+   */
+  const listingsRequest = useMemo<ListingsRequest>(
+    () => ({
+      start: (page - 1) * pageSize + 1,
+      limit: pageSize,
+      convert: currency,
+      ...toListingSort(sortKeys),
+      symbols: watchlistSymbols,
+      ...(hasAssetFilters(requestFilters) && { filters: requestFilters }),
+      ...(sortKeys.length === 0 && requestFilters.query.trim() !== "" && { relevance: true }),
+    }),
+    [page, pageSize, currency, sortKeys, watchlistSymbols, requestFilters]
+  );
+
+  // Notification queue and history for user feedback
+  const {
+    notifications,
+    history: notificationHistory,
+    showNotification,
+    showSuccess,
+    showError,
+    dismissNotification,
+    hideNotification,
+    pauseNotification,
+    resumeNotification,
+    clearHistory,
+  } = useNotification();
 
-  // Notification system for user feedback
-  const { notification, showSuccess, showError, hideNotification } =
-    useNotification();
+  // Price alert rules, evaluated on every data refresh and reported as notifications
+  const {
+    rules: alertRules,
+    unquotedSymbols: unquotedAlertSymbols,
+    browserNotifications,
+    addRule: addAlertRule,
+    removeRule: removeAlertRule,
+    toggleRule: toggleAlertRule,
+    setBrowserNotifications,
+    evaluate: evaluateAlerts,
+  } = usePriceAlerts({ onTrigger: (message) => showNotification(message, "info") });
+
+  // Fetch cryptocurrency data with live stream updates and polling fallback
+  // dataCurrency is the currency the loaded data is quoted in, which lags a
+  // currency switch until the new listings arrive
+  const {
+    cryptoData,
+    loading,
+    error,
+    degraded,
+    streamStatus,
+    lastUpdated,
+    pagination,
+    currency: dataCurrency,
+    usdRate,
+    sparklines,
+    priceChanges,
+    getDefaultAsset,
+    refetch,
+  } = useCryptoData(listingsRequest, { onRefresh: evaluateAlerts });
+
+  // Asset shown in the price chart detail view; refreshed from live data, and
+  // kept as last seen if it leaves the current page in the same currency
+  const [detailAsset, setDetailAsset] = useState<CryptoAsset | null>(null);
+  const liveDetailAsset = detailAsset
+    ? cryptoData.find((asset) => asset.id === detailAsset.id) ??
+      (detailAsset.quote[dataCurrency] ? detailAsset : null)
+    : null;
+
+  /**
+   * Reports a limit or stop order that filled, expired or was rejected
+   * @param order - Resolved order
+   */
+  const handlePendingOrderResolved = useCallback((order: PendingOrder) => {
+    const description = formatPendingOrder(order);
+    if (order.status === "filled") {
+      showSuccess(`${description} filled. Your portfolio has been updated.`);
+    } else if (order.status === "expired") {
+      showNotification(`${description} expired without filling.`, "info");
+    } else {
+      showError(`${description} was rejected: ${order.reason ?? ERROR_MESSAGES.ORDER_FAILED}`);
+    }
+  }, [showNotification, showSuccess, showError]);
 
-  // Sorting state management
-  const [sortBy, setSortBy] = useState<SortOption | null>(null);
-  const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
+  // Simulated portfolio filled by the purchase form and pending orders
+  const {
+    portfolio,
+    loading: portfolioLoading,
+    error: portfolioError,
+    updatePortfolio,
+    cancelOrder,
+  } = usePortfolio({ onPendingOrderResolved: handlePendingOrderResolved });
 
-  // View mode state (boxed grid or list view)
-  const [viewMode, setViewMode] = useState<ViewMode>("boxed");
+  // Open order whose cancellation is in flight
+  const [cancellingOrderId, setCancellingOrderId] = useState<string | null>(null);
+
+  /**
+   * Cancels an open limit or stop order and reports the outcome
+   * @param id - Pending order id
+   */
+  const handleCancelOrder = async (id: string) => {
+    setCancellingOrderId(id);
+    try {
+      await cancelOrder(id);
+      showSuccess(SUCCESS_MESSAGES.ORDER_CANCELLED);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : ERROR_MESSAGES.CANCEL_FAILED);
+    } finally {
+      setCancellingOrderId(null);
+    }
+  };
+
+  /**
+   * Reports a placed order, offering to show it among the open orders when it waits for its trigger
+   * @param message - Success message
+   * @param pendingOrder - Open limit or stop order, if one was placed
+   */
+  const handleOrderSuccess = (message: string, pendingOrder?: PendingOrder) => {
+    showSuccess(message, pendingOrder && {
+      action: { label: "View order", onClick: () => document.getElementById("open-orders")?.focus() },
+    });
+  };
 
   // Purchase form functionality with validation
-  const { formData, formErrors, handleSubmit, updateField } = usePurchaseForm({
+  const {
+    formData,
+    formErrors,
+    submitting,
+    estimate,
+    heldQuantity,
+    limits,
+    quote,
+    quoteStatus,
+    quoteSecondsLeft,
+    handleSubmit,
+    confirmOrder,
+    requote,
+    cancelConfirmation,
+    updateField,
+  } = usePurchaseForm({
     cryptoData,
+    currency: dataCurrency,
+    usdRate,
+    holdings: portfolio?.holdings ?? [],
     getDefaultAsset,
-    onSuccess: showSuccess,
+    onSuccess: handleOrderSuccess,
     onError: showError,
+    onOrderPlaced: ({ portfolio: updated }) => updatePortfolio(updated),
   });
 
   // Keyboard navigation support
-  const { focusElement } = useKeyboardNavigation({
+  const { focusElement, trapFocus } = useKeyboardNavigation({
     onViewModeToggle: () => {
-      setViewMode(current => current === VIEW_MODES.BOXED ? VIEW_MODES.LIST as ViewMode : VIEW_MODES.BOXED as ViewMode);
+      setViewMode(viewMode === VIEW_MODES.BOXED ? VIEW_MODES.LIST as ViewMode : VIEW_MODES.BOXED as ViewMode);
     },
     onFocusSearch: () => {
-      focusElement('purchase-amount');
+      focusElement('asset-search');
     },
     onEscape: () => {
       // Clear any focused elements or close notifications
@@ -54,60 +252,60 @@ export default function Home() {
   });
 
   /**
-   * Sorts cryptocurrency data based on the selected sort option and direction
-   * @param data - Array of cryptocurrency assets to sort
-   * @param sortOption - Field to sort by (name, symbol, or price)
-   * @param direction - Sort direction (asc or desc)
-   * @returns Sorted array of cryptocurrency assets
+   * Handles sorting column clicks - a plain click sorts by that column alone
+   * (toggling its direction), a shift-click adds or cycles a secondary key
+   * @param option - The sort option (column) that was clicked
+   * @param additive - Whether Shift was held
    */
-  const sortCryptoData = (
-    data: CryptoAsset[],
-    sortOption: SortOption | null,
-    direction: SortDirection
-  ) => {
-    if (!sortOption) return data;
-    return [...data].sort((a, b) => {
-      let result = 0;
-
-      switch (sortOption) {
-        case "name":
-          result = a.name.localeCompare(b.name);
-          break;
-        case "symbol":
-          result = a.symbol.localeCompare(b.symbol);
-          break;
-        case "price":
-          result = a.quote.USD.price - b.quote.USD.price;
-          break;
-      }
-
-      return direction === "desc" ? -result : result;
-    });
+  const handleSortClick = (option: SortOption, additive: boolean) => {
+    setSortKeys(updateSortKeys(activeSortKeys, option, additive));
+    // A new ordering starts from its first page
+    setPage(1);
   };
 
   /**
-   * Handles sorting column clicks - toggles direction if same column, sets new column otherwise
-   * @param option - The sort option (column) that was clicked
+   * Filters the listings to a watchlist, starting from its first page
+   * @param id - Watchlist id, or null for all assets
    */
-  const handleSortClick = (option: SortOption) => {
-    if (sortBy === option) {
-      // Toggle sort direction for the same column
-      setSortDirection(sortDirection === "asc" ? "desc" : "asc");
-    } else {
-      // Set new sort column and default to ascending
-      setSortBy(option);
-      setSortDirection("asc");
+  const handleWatchlistChange = (id: string | null) => {
+    selectWatchlist(id);
+    setPage(1);
+  };
+
+  /**
+   * Replaces the search and range filters; new matches start from their first page
+   * @param next - New filters
+   */
+  const handleFiltersChange = (next: AssetFilters) => {
+    setFilters(next);
+    setPage(1);
+  };
+
+  /**
+   * Stars or unstars an asset in the watchlist stars act on
+   * @param crypto - Asset whose star was toggled
+   */
+  const handleToggleStar = (crypto: CryptoAsset) => {
+    const target = starTarget;
+    const starError = toggleSymbol(crypto.symbol);
+    if (starError) {
+      showError(starError);
+    } else if (target?.symbols.includes(crypto.symbol)) {
+      showNotification(`Removed ${crypto.symbol} from ${target.name}.`, "info", {
+        action: { label: "Undo", onClick: () => restoreSymbol(target.id, crypto.symbol) },
+      });
     }
   };
 
   /**
-   * Memoized sorted cryptocurrency data - applies sorting or defaults to alphabetical by name
+   * Memoized page in display order - applies every sort key in priority
+   * order, defaulting to rank order, or keeps the server's best-match-first
+   * order for search results without a column sort
    */
-  const sortedCryptoData = useMemo(() => {
-    return sortBy
-      ? sortCryptoData(cryptoData, sortBy, sortDirection)
-      : [...cryptoData].sort((a, b) => a.name.localeCompare(b.name)); // Default: alphabetical by name
-  }, [cryptoData, sortBy, sortDirection]);
+  const visibleCryptoData = useMemo(() => {
+    if (listingsRequest.relevance) return cryptoData;
+    return sortAssetsBy(cryptoData, sortKeys.length > 0 ? sortKeys : DEFAULT_SORT_KEYS, dataCurrency);
+  }, [cryptoData, sortKeys, dataCurrency, listingsRequest.relevance]);
 
   return (
     <div className="font-sans min-h-screen p-8 pb-20 gap-16 sm:p-20">
@@ -120,27 +318,100 @@ export default function Home() {
         >
           Skip to main content
         </a>
-        <Notification notification={notification} onClose={hideNotification} />
+        <Notification
+          notifications={notifications}
+          onDismiss={dismissNotification}
+          onPause={pauseNotification}
+          onResume={resumeNotification}
+        />
+        <NotificationHistory history={notificationHistory} onClear={clearHistory} />
 
         <Header
-          countdown={countdown}
+          streamStatus={streamStatus}
+          lastUpdated={lastUpdated}
           loading={loading}
           error={error}
           hasData={cryptoData.length > 0}
           viewMode={viewMode}
           onViewModeChange={setViewMode}
+          currency={currency}
+          onCurrencyChange={setCurrency}
+          watchlists={watchlists}
+          activeWatchlistId={activeWatchlist?.id ?? null}
+          onWatchlistChange={handleWatchlistChange}
         />
 
         {!loading && !error && cryptoData.length > 0 && (
           <PurchaseForm
-            cryptoData={sortedCryptoData}
+            cryptoData={visibleCryptoData}
+            currency={dataCurrency}
             formData={formData}
             formErrors={formErrors}
+            submitting={submitting}
+            estimate={estimate}
+            heldQuantity={heldQuantity}
+            limits={limits}
             onSubmit={handleSubmit}
             onUpdateField={updateField}
           />
         )}
 
+        {quote && quoteStatus && (
+          <OrderConfirmDialog
+            quote={quote}
+            status={quoteStatus}
+            secondsLeft={quoteSecondsLeft}
+            submitting={submitting}
+            onConfirm={confirmOrder}
+            onRequote={requote}
+            onCancel={cancelConfirmation}
+            trapFocus={trapFocus}
+          />
+        )}
+
+        {liveDetailAsset && (
+          <AssetDetailView
+            asset={liveDetailAsset}
+            currency={dataCurrency}
+            onClose={() => setDetailAsset(null)}
+            trapFocus={trapFocus}
+          />
+        )}
+
+        <PortfolioPanel
+          portfolio={portfolio}
+          loading={portfolioLoading}
+          error={portfolioError}
+        />
+
+        <OpenOrdersPanel
+          orders={portfolio?.pendingOrders ?? []}
+          cancellingId={cancellingOrderId}
+          onCancel={handleCancelOrder}
+        />
+
+        <WatchlistManager
+          watchlists={watchlists}
+          starTarget={starTarget}
+          onCreate={createWatchlist}
+          onRename={renameWatchlist}
+          onDelete={deleteWatchlist}
+          onAddSymbol={addSymbol}
+          onExport={exportWatchlists}
+          onImport={importWatchlists}
+        />
+
+        <AlertsPanel
+          rules={alertRules}
+          unquotedSymbols={unquotedAlertSymbols}
+          currency={currency}
+          browserNotifications={browserNotifications}
+          onAdd={addAlertRule}
+          onRemove={removeAlertRule}
+          onToggle={toggleAlertRule}
+          onBrowserNotificationsChange={setBrowserNotifications}
+        />
+
         {loading && (
           <div 
             className="flex flex-col items-center justify-center py-12"
@@ -170,56 +441,71 @@ export default function Home() {
           </div>
         )}
 
+        {!loading && !error && (
+          <DegradedBanner degraded={degraded} lastUpdated={lastUpdated} onRetry={refetch} />
+        )}
+
+        {/* Stays mounted while matches load, so typing keeps focus */}
+        {(cryptoData.length > 0 || filtersActive) && (
+          <SearchFilters
+            filters={filters}
+            currency={dataCurrency}
+            resultCount={loading ? null : pagination?.total ?? cryptoData.length}
+            onChange={handleFiltersChange}
+          />
+        )}
+
         {!loading && !error && cryptoData.length > 0 && (
-          <ErrorBoundary>
+          <ErrorBoundary onRetry={refetch}>
             <section id="main-content" aria-label="Cryptocurrency data display">
-            {viewMode === VIEW_MODES.LIST && (
-              <div 
-                className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 overflow-hidden"
-                role="table"
-                aria-label="Cryptocurrency prices in list format"
-              >
+            <VirtualAssetList
+              assets={visibleCryptoData}
+              viewMode={viewMode}
+              header={
                 <ListHeader
                   onSortClick={handleSortClick}
-                  sortBy={sortBy}
-                  sortDirection={sortDirection}
+                  sortKeys={activeSortKeys}
+                  currency={dataCurrency}
                 />
-
-                <div className="divide-y divide-gray-200 dark:divide-gray-700">
-                  {sortedCryptoData.map((crypto) => (
-                    <CryptoCard
-                      key={crypto.id}
-                      crypto={crypto}
-                      viewMode="list"
-                    />
-                  ))}
-                </div>
-              </div>
-            )}
-
-            {viewMode === VIEW_MODES.BOXED && (
-              <div 
-                className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4"
-                role="grid"
-                aria-label="Cryptocurrency prices in card format"
-              >
-                {sortedCryptoData.map((crypto) => (
-                  <CryptoCard
-                    key={crypto.id}
-                    crypto={crypto}
-                    viewMode="boxed"
-                  />
-                ))}
-              </div>
-            )}
+              }
+              renderAsset={(crypto, position) => (
+                <CryptoCard
+                  key={crypto.id}
+                  crypto={crypto}
+                  currency={dataCurrency}
+                  viewMode={viewMode}
+                  sparkline={sparklines[crypto.id] ?? []}
+                  priceChange={priceChanges[crypto.id]}
+                  starred={starTarget?.symbols.includes(crypto.symbol) ?? false}
+                  watchlistName={starTarget?.name ?? WATCHLIST_CONFIG.DEFAULT_NAME}
+                  onSelect={setDetailAsset}
+                  onToggleStar={handleToggleStar}
+                  position={position}
+                />
+              )}
+            />
             </section>
           </ErrorBoundary>
         )}
 
+        {!loading && !error && pagination && (
+          <Pagination
+            page={page}
+            pageSize={pageSize}
+            total={pagination.total}
+            onPageChange={setPage}
+            onPageSizeChange={setPageSize}
+          />
+        )}
+
         {!loading && !error && cryptoData.length === 0 && (
           <div className="text-center py-12">
             <p className="text-gray-600 dark:text-gray-400">
-              {ERROR_MESSAGES.NO_DATA}
+              {filtersActive
+                ? "No assets match your search and filters."
+                : activeWatchlist
+                  ? `No assets in ${activeWatchlist.name} yet. Star assets or add symbols under Watchlists.`
+                  : ERROR_MESSAGES.NO_DATA}
             </p>
           </div>
         )}
@@ -227,3 +513,17 @@ export default function Home() {
     </div>
   );
 }
+
+/**
+ * Home page rendering the dashboard
+ * The Suspense boundary lets the page prerender while the dashboard reads its
+ * state from the query string on the client; the prerendered page shows a
+ * skeleton of the dashboard until then
+ */
+export default function Home() {
+  return (
+    <Suspense fallback={<DashboardSkeleton />}>
+      <Dashboard />
+    </Suspense>
+  );
+}
@@ -11,14 +11,35 @@ export interface CryptoAsset {
   symbol: string;
   /** Market capitalization ranking */
   cmc_rank: number;
-  /** Price information in different currencies */
-  quote: {
-    /** USD pricing data */
-    USD: {
-      /** Current price in USD */
-      price: number;
-    };
-  };
+  /** Number of coins currently in circulation */
+  circulating_supply: number;
+  /** Maximum number of coins that will ever exist, null when uncapped */
+  max_supply: number | null;
+  /** Price information keyed by quote currency (only the requested currency is present) */
+  quote: Partial<Record<QuoteCurrency, AssetQuote>>;
+}
+
+/**
+ * Currency an asset can be quoted in: fiat currencies plus BTC/ETH
+ */
+export type QuoteCurrency = "USD" | "EUR" | "GBP" | "JPY" | "BTC" | "ETH";
+
+/**
+ * Market data for an asset quoted in a single currency
+ */
+export interface AssetQuote {
+  /** Current price */
+  price: number;
+  /** Trading volume over the last 24 hours */
+  volume_24h: number;
+  /** Price change over the last hour, in percent */
+  percent_change_1h: number;
+  /** Price change over the last 24 hours, in percent */
+  percent_change_24h: number;
+  /** Price change over the last 7 days, in percent */
+  percent_change_7d: number;
+  /** Market capitalization (price × circulating supply) */
+  market_cap: number;
 }
 
 /**
@@ -36,15 +57,474 @@ export interface ApiResponse {
     error_code: number;
     /** Error message if request failed, null on success */
     error_message: string | null;
+    /** Upstream API credits consumed by the request (CoinMarketCap only) */
+    credit_count?: number;
   };
+  /** True when upstream refresh failed and the last good snapshot is served */
+  stale?: boolean;
+  /** Pagination details for the returned page */
+  pagination?: PaginationInfo;
+  /** Number of malformed upstream records left out of `data` */
+  dropped?: number;
+  /** USD value of one unit of the quote currency, when the server can derive it */
+  usdRate?: number;
+}
+
+/**
+ * Machine-readable code of an API error
+ * - INVALID_QUERY / INVALID_ORDER: malformed request (400)
+ * - ORDER_REJECTED: valid order that cannot be filled (422)
+ * - PRICE_MOVED: market order quote outside the requote tolerance (409)
+ * - ORDER_NOT_FOUND / ORDER_NOT_OPEN: cancelled order missing (404) or resolved (409)
+ * - ASSET_NOT_FOUND: history requested for an asset the server does not quote (404)
+ * - UPSTREAM_FAILED: market data provider failed or sent malformed data (502)
+ * - UPSTREAM_UNAVAILABLE: market data provider unreachable, overloaded or rate limiting (503)
+ * - UPSTREAM_TIMEOUT: market data provider did not respond in time (504)
+ * - INVALID_REPORT / RATE_LIMITED / REPORT_TOO_LARGE: client error report
+ *   malformed (400), over its rate limit (429) or too large (413)
+ * - INTERNAL_ERROR: unexpected server failure (500)
+ */
+export type ApiErrorCode =
+  | "INVALID_QUERY"
+  | "INVALID_ORDER"
+  | "ORDER_REJECTED"
+  | "PRICE_MOVED"
+  | "ORDER_NOT_FOUND"
+  | "ORDER_NOT_OPEN"
+  | "ASSET_NOT_FOUND"
+  | "UPSTREAM_FAILED"
+  | "UPSTREAM_UNAVAILABLE"
+  | "UPSTREAM_TIMEOUT"
+  | "INVALID_REPORT"
+  | "RATE_LIMITED"
+  | "REPORT_TOO_LARGE"
+  | "INTERNAL_ERROR";
+
+/** Error reported by an API route */
+export interface ApiError {
+  code: ApiErrorCode;
+  /** User-facing summary (e.g., "Invalid listings query") */
+  message: string;
+  /** Whether repeating the same request may succeed */
+  retryable: boolean;
+  /** Specific cause (e.g., the rejected parameter) */
+  details?: string;
+}
+
+/** Body of every API error response */
+export interface ApiErrorResponse {
+  error: ApiError;
+}
+
+/** Why a record was left out of a payload by runtime validation */
+export interface RecordDiagnostic {
+  /** Position of the record in the payload */
+  index: number;
+  /** Asset id, when the record had a usable one */
+  id: number | null;
+  /** Every problem found (e.g., "quote.USD.price is not a finite number") */
+  issues: string[];
+}
+
+/**
+ * Server-side sort fields accepted by /api/crypto
+ * Rank order is requested as market cap order
+ */
+export type ListingSort = Exclude<SortOption, "rank">;
+
+/**
+ * Parameters of a listings request to /api/crypto
+ * Shared by the client hooks, the route handlers and the market data providers
+ */
+export interface ListingsRequest {
+  /** Starting position in the sorted asset universe (1-based) */
+  start: number;
+  /** Maximum number of assets to return */
+  limit: number;
+  /** Quote currency code (e.g., "USD") */
+  convert: QuoteCurrency;
+  /** Field the asset universe is sorted by */
+  sort: ListingSort;
+  /** Sort direction */
+  sortDir: SortDirection;
+  /**
+   * Restricts the listings to these asset ids, which may lie outside the
+   * top-N universe; `start` and `limit` then page through the selection
+   */
+  ids?: number[];
+  /** Restricts the listings to these ticker symbols (exclusive with `ids`) */
+  symbols?: string[];
+  /**
+   * Search and range filters applied to the universe or selection before
+   * paging; `pagination.total` then counts the matching assets
+   */
+  filters?: AssetFilters;
+  /** Orders matches of `filters.query` best first instead of by `sort` */
+  relevance?: boolean;
+  /** Further sort keys ordering assets that tie on `sort`, most significant first */
+  thenBy?: SortKey[];
 }
 
+/**
+ * Assets requested by id or by symbol from a market data provider
+ * Exactly one of the two lists is set
+ */
+export interface QuotesRequest {
+  /** Asset ids to quote */
+  ids?: number[];
+  /** Ticker symbols to quote, upper case */
+  symbols?: string[];
+  /** Quote currency code */
+  convert: QuoteCurrency;
+}
+
+/**
+ * Pagination details returned alongside a listings page
+ */
+export interface PaginationInfo {
+  /** Starting position of the returned page (1-based) */
+  start: number;
+  /** Page size that was applied after capping */
+  limit: number;
+  /** Total number of assets available for browsing */
+  total: number;
+}
+
+/** Direction of a price change between two data refreshes */
+export type PriceDirection = "up" | "down";
+
+/**
+ * Recent prices per asset id, oldest first, recorded on every data refresh
+ * Persisted to sessionStorage so sparklines survive a page reload
+ */
+export interface PriceBuffer {
+  /** Quote currency of every recorded price; a currency switch starts over */
+  currency: QuoteCurrency;
+  /** Rolling price series keyed by asset id */
+  prices: Record<number, number[]>;
+}
+
+/**
+ * Named list of assets pinned by the user
+ * Members are kept by ticker symbol, so lists can be exported, edited by hand
+ * and include assets outside the top-N listing
+ */
+export interface Watchlist {
+  /** Locally generated identifier */
+  id: string;
+  /** Display name, unique among the user's watchlists */
+  name: string;
+  /** Member ticker symbols, upper case, in the order they were added */
+  symbols: string[];
+}
+
+/**
+ * Watchlists persisted to localStorage
+ */
+export interface WatchlistState {
+  /** Every watchlist in creation order */
+  lists: Watchlist[];
+  /** Watchlist the asset list is filtered to, null to show all assets */
+  activeId: string | null;
+}
+
+/**
+ * JSON file format of exported watchlists
+ * Ids are left out; imported lists get fresh ones
+ */
+export interface WatchlistExport {
+  /** Format version (WATCHLIST_CONFIG.EXPORT_VERSION) */
+  version: number;
+  /** Exported watchlists */
+  watchlists: Array<Pick<Watchlist, "name" | "symbols">>;
+}
+
+/**
+ * What a price alert watches for
+ * - above/below: the price crosses the threshold level between two refreshes
+ * - change: the percent change over the rule's window reaches the threshold
+ *   in either direction
+ */
+export type AlertCondition = "above" | "below" | "change";
+
+/** Percent change windows reported with each quote */
+export type ChangeWindow = "1h" | "24h" | "7d";
+
+/**
+ * Price alert rule evaluated on each data refresh
+ */
+export interface AlertRule {
+  /** Locally unique id */
+  id: string;
+  /** Ticker symbol watched, null for every loaded asset (change rules only) */
+  symbol: string | null;
+  condition: AlertCondition;
+  /** Price level in `currency` (above/below), or percent move (change) */
+  threshold: number;
+  /** Quote currency of the price level */
+  currency: QuoteCurrency;
+  /** Window of the percent change (change rules) */
+  window: ChangeWindow;
+  /** Minutes before the rule can fire again for the same asset */
+  cooldownMinutes: number;
+  /** Disabled rules are kept but not evaluated */
+  enabled: boolean;
+  /** Epoch milliseconds of the last trigger per symbol */
+  lastTriggeredAt: Record<string, number>;
+}
+
+/** Fields of a new alert rule, as entered in the alerts panel */
+export type AlertRuleDraft = Pick<AlertRule, "symbol" | "condition" | "threshold" | "currency" | "window" | "cooldownMinutes">;
+
+/** Alert rule that fired for an asset in the latest refresh */
+export interface AlertTrigger {
+  rule: AlertRule;
+  asset: CryptoAsset;
+}
+
+/**
+ * Alert rules and delivery settings persisted to localStorage
+ */
+export interface AlertState {
+  /** Every rule in creation order */
+  rules: AlertRule[];
+  /** Whether triggers are also shown as browser notifications */
+  browserNotifications: boolean;
+}
+
+/**
+ * Client-side filters over the loaded asset list
+ * Range bounds are inclusive; null leaves that side open
+ */
+export interface AssetFilters {
+  /** Fuzzy search text matched against name and symbol */
+  query: string;
+  /** Lowest price, in the quote currency of the loaded data */
+  minPrice: number | null;
+  /** Highest price, in the quote currency of the loaded data */
+  maxPrice: number | null;
+  /** Best (lowest) market cap rank */
+  minRank: number | null;
+  /** Worst (highest) market cap rank */
+  maxRank: number | null;
+}
+
+/** Filter groups shown as removable chips */
+export type AssetFilterKey = "query" | "price" | "rank";
+
+/** Active filter shown as a removable chip */
+export interface FilterChip {
+  /** Filter group the chip clears */
+  key: AssetFilterKey;
+  /** Human-readable description (e.g., "Price $1.00 – $100.00") */
+  label: string;
+}
+
+/**
+ * Dashboard state mirrored in the home page URL so views can be shared
+ */
+export interface DashboardState {
+  /** Column sorts in priority order, empty for the default rank order */
+  sortKeys: SortKey[];
+  /** Tiles or list layout */
+  viewMode: ViewMode;
+  /** Quote currency */
+  currency: QuoteCurrency;
+  /** Search and range filters */
+  filters: AssetFilters;
+  /** Listings page (1-based) */
+  page: number;
+  /** Assets per page, one of API_CONFIG.PAGE_SIZE_OPTIONS */
+  pageSize: number;
+}
+
+/**
+ * Part of the dashboard state remembered in localStorage and restored when
+ * the page is opened without state in its URL
+ */
+export type DashboardPreferences = Pick<DashboardState, "sortKeys" | "viewMode" | "currency">;
+
+/** Connection state of the live price stream */
+export type StreamStatus = "connecting" | "live" | "reconnecting" | "polling";
+
+/**
+ * Why the dashboard shows its last good data instead of fresh data
+ * - offline: the browser reports no network connection
+ * - refresh-failed: the latest refresh failed
+ * - stale: the server is serving its last good snapshot because upstream failed
+ */
+export type DegradedReason = "offline" | "refresh-failed" | "stale";
+
+/** Degraded state of the displayed market data */
+export interface DegradedState {
+  reason: DegradedReason;
+  /** Cause of a failed refresh */
+  message: string | null;
+  /** When the next automatic retry runs, or null when none is scheduled */
+  retryAt: Date | null;
+}
+
+/**
+ * Where a client error was caught
+ * - boundary: an ErrorBoundary caught a render error
+ * - window: an uncaught error reached window.onerror
+ * - unhandledrejection: a promise was rejected without a handler
+ */
+export type ClientErrorSource = "boundary" | "window" | "unhandledrejection";
+
+/** Sanitized error report sent to POST /api/client-errors */
+export interface ClientErrorReport {
+  source: ClientErrorSource;
+  /** Error message, without URL queries and fragments */
+  message: string;
+  /** Stack trace, when the error had one */
+  stack?: string;
+  /** React component stack, for errors caught by an ErrorBoundary */
+  componentStack?: string;
+  /** Path of the page the error occurred on (e.g., "/asset/btc"), without query */
+  route: string;
+  /** Version of the client build (package.json version) */
+  appVersion: string;
+}
+
+/**
+ * Payload of the `snapshot` event sent when a stream connection opens
+ * Contains the full set of tracked assets
+ */
+export interface PriceStreamSnapshot {
+  /** All tracked cryptocurrency assets */
+  data: CryptoAsset[];
+  /** Timestamp of the underlying market data */
+  timestamp: string;
+  /** True when the server is serving its last good snapshot */
+  stale?: boolean;
+}
+
+/**
+ * Payload of the `prices` event sent when tracked assets change
+ * Only carries the assets that differ from the previous push
+ */
+export interface PriceStreamUpdate {
+  /** Assets that were added or whose data changed */
+  updates: CryptoAsset[];
+  /** IDs of assets that are no longer tracked */
+  removed: number[];
+  /** Timestamp of the underlying market data */
+  timestamp: string;
+  /** True when the server is serving its last good snapshot */
+  stale?: boolean;
+}
+
+/** Time span covered by a price history, as selected on the asset chart */
+export type HistoryRange = "1h" | "24h" | "7d" | "30d" | "1y";
+
+/** How the asset chart draws a price history */
+export type ChartType = "line" | "candles";
+
+/**
+ * Open, high, low and close prices of an asset over one chart interval
+ */
+export interface PriceCandle {
+  /** Start of the interval, epoch milliseconds */
+  time: number;
+  /** First price of the interval */
+  open: number;
+  /** Highest price of the interval */
+  high: number;
+  /** Lowest price of the interval */
+  low: number;
+  /** Last price of the interval */
+  close: number;
+}
+
+/**
+ * Price candles fetched from a market data provider
+ */
+export interface ProviderHistory {
+  /** Candles in chronological order, oldest first */
+  candles: PriceCandle[];
+  /** Upstream API credits consumed by the request (CoinMarketCap only) */
+  creditCount?: number;
+}
+
+/**
+ * Parameters of a price history request to /api/crypto/[id]/history
+ * Shared by the route handler, the history service and the providers
+ */
+export interface HistoryRequest {
+  /** Asset id as returned by /api/crypto */
+  id: number;
+  /** Quote currency code (e.g., "USD") */
+  convert: QuoteCurrency;
+  /** Time span to cover, ending now */
+  range: HistoryRange;
+}
+
+/**
+ * Where a price history came from
+ * - provider: the market data provider's historical endpoint
+ * - snapshots: prices recorded by the server-side quote cache
+ */
+export type HistorySource = "provider" | "snapshots";
+
+/**
+ * Response body of GET /api/crypto/[id]/history
+ */
+export interface PriceHistoryResponse {
+  /** Candles in chronological order, oldest first */
+  data: PriceCandle[];
+  /** Asset id the history belongs to */
+  id: number;
+  /** Quote currency of the prices */
+  convert: QuoteCurrency;
+  /** Time span covered */
+  range: HistoryRange;
+  /** Where the candles came from */
+  source: HistorySource;
+}
+
+/** Identifiers of the market data providers behind /api/crypto */
+export type MarketDataProviderName = "coinmarketcap" | "coingecko" | "mock";
+
 /** Available sorting options for cryptocurrency list */
-export type SortOption = "name" | "symbol" | "price";
+export type SortOption =
+  | "rank"
+  | "name"
+  | "symbol"
+  | "price"
+  | "percent_change_1h"
+  | "percent_change_24h"
+  | "percent_change_7d"
+  | "market_cap"
+  | "volume_24h"
+  | "circulating_supply";
 
 /** Sort direction options */
 export type SortDirection = "asc" | "desc";
 
+/**
+ * One column of a multi-column sort
+ * Later keys only order assets that tie on every earlier key
+ */
+export interface SortKey {
+  option: SortOption;
+  direction: SortDirection;
+}
+
+/**
+ * Position of an asset rendered in the virtualized list or grid
+ */
+export interface VirtualItemPosition {
+  /** Index among every asset of the list or grid */
+  index: number;
+  /** 1-based row number for aria-rowindex (the list header is row 1) */
+  row: number;
+  /** 1-based column number for aria-colindex */
+  column: number;
+  /** Whether the item is the tab stop of the list or grid */
+  active: boolean;
+}
+
 /** Available view modes for displaying cryptocurrency data */
 export type ViewMode = "list" | "boxed";
 
@@ -52,12 +532,25 @@ export type ViewMode = "list" | "boxed";
  * Form data structure for cryptocurrency purchase form
  */
 export interface PurchaseFormData {
-  /** USD amount to purchase (as string for form input) */
+  /** Whether the order buys or sells the asset */
+  side: OrderSide;
+  /** Fill immediately (market) or once the price crosses the trigger */
+  orderType: OrderType;
+  /** Limit or stop price in the selected quote currency (as string for form input) */
+  triggerPrice: string;
+  /** Which field the user typed last; the other one is converted from it */
+  entryMode: OrderEntryMode;
+  /** Order value in the selected quote currency (as string for form input) */
   amount: string;
+  /** Order size in coin units (as string for form input) */
+  quantity: string;
   /** Selected cryptocurrency asset ID (as string) */
   selectedAsset: string;
 }
 
+/** Field an order size is entered in: quote currency amount or coin units */
+export type OrderEntryMode = "amount" | "quantity";
+
 /**
  * Form validation errors for purchase form
  * Fields are optional - undefined means no error for that field
@@ -65,19 +558,277 @@ export interface PurchaseFormData {
 export interface FormErrors {
   /** Error message for amount field validation */
   amount?: string;
+  /** Error message for quantity field validation (including sell balance) */
+  quantity?: string;
+  /** Error message for the limit/stop price */
+  triggerPrice?: string;
   /** Error message for asset selection validation */
   asset?: string;
 }
 
+/** Notification type affects color scheme and icon */
+export type NotificationType = "success" | "error" | "info";
+
+/** Button offered on a toast; clicking it also dismisses the toast */
+export interface NotificationAction {
+  /** Button text (e.g., "Undo") */
+  label: string;
+  onClick: () => void;
+}
+
+/** Options of a single notification */
+export interface NotificationOptions {
+  /** Milliseconds on screen; null keeps the toast until dismissed (default per type) */
+  duration?: number | null;
+  action?: NotificationAction;
+}
+
 /**
- * State structure for notification system
+ * Toast in the notification queue
  * Controls display and styling of toast notifications
  */
-export interface NotificationState {
+export interface ToastNotification {
+  id: string;
   /** Message text to display */
   message: string;
-  /** Notification type affects color scheme and icon */
-  type: "success" | "error" | "info";
-  /** Whether notification is currently visible */
-  show: boolean;
-}
\ No newline at end of file
+  type: NotificationType;
+  /** Times the message was shown while this toast was on screen */
+  count: number;
+  /** Epoch milliseconds the message was last shown */
+  shownAt: number;
+  /** Milliseconds on screen, or null until dismissed */
+  duration: number | null;
+  action?: NotificationAction;
+}
+
+/** Past notification listed in the history drawer */
+export type NotificationHistoryEntry = Pick<ToastNotification, "id" | "message" | "type" | "count" | "shownAt">;
+
+/** Side of a simulated order */
+export type OrderSide = "buy" | "sell";
+
+/**
+ * How a simulated order executes
+ * - market: fills immediately at the cached price
+ * - limit: buys at or below / sells at or above the trigger price
+ * - stop: buys at or above / sells at or below the trigger price (stop-loss)
+ */
+export type OrderType = "market" | "limit" | "stop";
+
+/** Lifecycle of a limit or stop order */
+export type PendingOrderStatus = "open" | "filled" | "expired" | "cancelled" | "rejected";
+
+/**
+ * Order submitted to POST /api/orders
+ * Sized by either `amount` or `quantity`; the server prices the order itself
+ * from the quote cache
+ */
+export interface OrderRequest {
+  /** Asset to trade */
+  assetId: number;
+  /** Order side */
+  side: OrderSide;
+  /** Execution type */
+  type: OrderType;
+  /** Limit or stop price in the order currency (limit and stop orders only) */
+  triggerPrice?: number;
+  /**
+   * Price the user confirmed (market orders only); the fill is refused when
+   * the cached price has moved beyond PORTFOLIO_CONFIG.REQUOTE_TOLERANCE
+   */
+  quotedPrice?: number;
+  /** Order value at the market price, in the order currency */
+  amount?: number;
+  /** Order size in coin units */
+  quantity?: number;
+  /** Currency the order is priced in */
+  currency: QuoteCurrency;
+}
+
+/**
+ * Order awaiting confirmation, with the price it was quoted at
+ */
+export interface OrderQuote {
+  /** Request sent when the user confirms, sized by the quoted quantity */
+  order: OrderRequest;
+  /** Asset name */
+  name: string;
+  /** Asset symbol */
+  symbol: string;
+  /** Locked market price, or the trigger price for limit and stop orders */
+  price: number;
+  /** Fill estimate at the quoted price */
+  estimate: OrderEstimate;
+  /** Epoch milliseconds the price lock ends; null for limit and stop orders */
+  expiresAt: number | null;
+  /** Set when the server refused the fill because the price had moved */
+  requoteRequired: boolean;
+}
+
+/**
+ * State of a quote awaiting confirmation
+ * - locked: can be confirmed
+ * - expired: the price lock ran out
+ * - moved: the live price moved beyond the tolerance
+ */
+export type QuoteStatus = "locked" | "expired" | "moved";
+
+/**
+ * Expected execution of an order at a given market price
+ * Shared by the purchase form preview and the server-side fill
+ */
+export interface OrderEstimate {
+  /** Coins bought or sold */
+  quantity: number;
+  /** Order value at the market price (quantity × price) */
+  value: number;
+  /** Market price adjusted for slippage */
+  fillPrice: number;
+  /** Extra cost (buy) or lost proceeds (sell) caused by slippage */
+  slippage: number;
+  /** Trading fee charged on the filled value */
+  fee: number;
+  /** Cash paid for a buy, or received for a sell, including fee and slippage */
+  total: number;
+}
+
+/**
+ * Smallest and largest order value in a quote currency
+ * PURCHASE_LIMITS converted from USD (see getOrderLimits)
+ */
+export interface OrderLimits {
+  /** Smallest order value */
+  min: number;
+  /** Largest order value */
+  max: number;
+}
+
+/**
+ * Filled order recorded in the portfolio ledger
+ */
+export interface PortfolioOrder {
+  /** Unique order identifier */
+  id: string;
+  /** Traded asset */
+  assetId: number;
+  /** Asset name at the time of the order */
+  name: string;
+  /** Asset symbol at the time of the order */
+  symbol: string;
+  /** Order side */
+  side: OrderSide;
+  /** Currency the order was priced in */
+  currency: QuoteCurrency;
+  /** Market price at the time of the fill, in the order currency */
+  price: number;
+  /** Execution details: quantity, fill price, fee, slippage and total */
+  fill: OrderEstimate;
+  /** Buy: cost added to the position; sell: cost removed from it (base currency) */
+  costBasis: number;
+  /** Profit or loss realized by a sell, in the base currency */
+  realizedPnl?: number;
+  /** ISO timestamp of the fill */
+  createdAt: string;
+}
+
+/**
+ * Limit or stop order waiting for its trigger price
+ * Kept in the ledger after it resolves so clients can report the outcome
+ */
+export interface PendingOrder {
+  /** Unique order identifier */
+  id: string;
+  /** Traded asset */
+  assetId: number;
+  /** Asset name at the time of the order */
+  name: string;
+  /** Asset symbol at the time of the order */
+  symbol: string;
+  /** Order side */
+  side: OrderSide;
+  /** Execution type */
+  type: Exclude<OrderType, "market">;
+  /** Currency the trigger price is expressed in */
+  currency: QuoteCurrency;
+  /** Coins to buy or sell (amounts are converted at the trigger price) */
+  quantity: number;
+  /** Price at which the order fills, in the order currency */
+  triggerPrice: number;
+  /** Current state of the order */
+  status: PendingOrderStatus;
+  /** ISO timestamp the order was placed */
+  createdAt: string;
+  /** ISO timestamp after which an open order expires */
+  expiresAt: string;
+  /** ISO timestamp the order was filled, expired, cancelled or rejected */
+  resolvedAt?: string;
+  /** Id of the PortfolioOrder recording the fill */
+  filledOrderId?: string;
+  /** Why the order was rejected when it triggered */
+  reason?: string;
+}
+
+/**
+ * Open position in the portfolio ledger
+ */
+export interface PortfolioPosition {
+  /** Held asset */
+  assetId: number;
+  /** Asset name */
+  name: string;
+  /** Asset symbol */
+  symbol: string;
+  /** Coins held */
+  quantity: number;
+  /** Total cost of the position in the portfolio base currency */
+  costBasis: number;
+  /** Last known price in the base currency, used when the asset is not quoted */
+  lastPrice: number;
+}
+
+/**
+ * Position valued at the current cached price
+ */
+export interface PortfolioHolding extends PortfolioPosition {
+  /** Current price in the base currency */
+  currentPrice: number;
+  /** Current value of the position (quantity × current price) */
+  currentValue: number;
+  /** Current value minus cost basis */
+  unrealizedPnl: number;
+  /** Unrealized P&L relative to cost basis, in percent */
+  unrealizedPnlPercent: number;
+  /** True when the asset has no current quote and lastPrice was used */
+  stale: boolean;
+}
+
+/**
+ * Response of GET /api/portfolio
+ */
+export interface PortfolioSummary {
+  /** Holdings valued at current prices, largest value first */
+  holdings: PortfolioHolding[];
+  /** Aggregates over all holdings */
+  totals: {
+    costBasis: number;
+    currentValue: number;
+    unrealizedPnl: number;
+    unrealizedPnlPercent: number;
+    /** Profit or loss realized by sells so far */
+    realizedPnl: number;
+  };
+  /** Open limit/stop orders followed by the most recently resolved ones */
+  pendingOrders: PendingOrder[];
+  /** Currency all values are expressed in */
+  currency: QuoteCurrency;
+  /** Timestamp of the valuation */
+  timestamp: string;
+}
+
+/**
+ * Response of POST /api/orders
+ * Market orders return the fill; limit and stop orders return the pending order
+ */
+export type OrderResponse =
+  | { order: PortfolioOrder; pendingOrder?: undefined; portfolio: PortfolioSummary }
+  | { order?: undefined; pendingOrder: PendingOrder; portfolio: PortfolioSummary };
@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  describeApiError,
+  parseApiError,
+  reportDroppedRecords,
+  validateApiResponse,
+  validateStreamUpdate,
+} from "./apiValidation";
+
+const status = { timestamp: "2026-01-01T00:00:00.000Z", error_code: 0, error_message: null };
+const btc = { id: 1, name: "Bitcoin", symbol: "BTC", cmc_rank: 1, quote: { USD: { price: 50000 } } };
+
+describe("validateApiResponse", () => {
+  it("normalizes assets, defaulting missing optional fields", () => {
+    const result = validateApiResponse({ data: [btc], status }, "USD");
+
+    expect(result.dropped).toEqual([]);
+    expect(result.value?.data).toEqual([
+      {
+        id: 1,
+        name: "Bitcoin",
+        symbol: "BTC",
+        cmc_rank: 1,
+        circulating_supply: 0,
+        max_supply: null,
+        quote: {
+          USD: {
+            price: 50000,
+            volume_24h: 0,
+            percent_change_1h: 0,
+            percent_change_24h: 0,
+            percent_change_7d: 0,
+            market_cap: 0,
+          },
+        },
+      },
+    ]);
+  });
+
+  it("drops malformed assets and reports why", () => {
+    const result = validateApiResponse(
+      {
+        data: [btc, { id: 2, name: "Ether", symbol: "ETH", quote: { USD: { price: "n/a" } } }, { id: 3 }],
+        status,
+      },
+      "USD"
+    );
+
+    expect(result.value?.data.map((asset) => asset.id)).toEqual([1]);
+    expect(result.value?.dropped).toBe(2);
+    expect(result.dropped).toEqual([
+      { index: 1, id: 2, issues: ["quote.USD.price is not a finite non-negative number"] },
+      { index: 2, id: 3, issues: ["name is missing", "symbol is missing", "quote.USD is missing"] },
+    ]);
+  });
+
+  it("drops assets without a quote in the requested currency", () => {
+    const result = validateApiResponse({ data: [btc], status }, "EUR");
+
+    expect(result.value?.data).toEqual([]);
+    expect(result.dropped?.[0].issues).toEqual(["quote.EUR is missing"]);
+  });
+
+  it("keeps counting records a server already dropped", () => {
+    const result = validateApiResponse({ data: [btc, { id: 4 }], status, dropped: 3 }, "USD");
+
+    expect(result.value?.dropped).toBe(4);
+  });
+
+  it.each([
+    [null, "response is not an object"],
+    [{ data: {}, status }, "data is not an array"],
+    [{ data: [], status: { error_code: 0 } }, "status is missing its timestamp or error code"],
+    [{ data: [], status, pagination: { start: 1, limit: -1, total: 0 } }, "pagination is malformed"],
+    [{ data: [], status, usdRate: 0 }, "usdRate is not a positive number"],
+  ])("rejects a malformed envelope (%#)", (body, error) => {
+    expect(validateApiResponse(body, "USD")).toEqual({ error });
+  });
+});
+
+describe("validateStreamUpdate", () => {
+  it("validates updates and keeps only numeric removals", () => {
+    const result = validateStreamUpdate(
+      { updates: [btc, { id: 5 }], removed: [2, "3"], timestamp: status.timestamp },
+      "USD"
+    );
+
+    expect(result.value).toEqual(expect.objectContaining({ removed: [2], stale: false }));
+    expect(result.value?.updates).toHaveLength(1);
+    expect(result.dropped).toHaveLength(1);
+  });
+});
+
+describe("reportDroppedRecords", () => {
+  it("warns once with every dropped record", () => {
+    const warn = vi.fn();
+    const dropped = [{ index: 0, id: 7, issues: ["name is missing"] }];
+
+    reportDroppedRecords("coinmarketcap listings", dropped, warn);
+
+    expect(warn).toHaveBeenCalledWith("Dropped malformed records", {
+      source: "coinmarketcap listings",
+      count: 1,
+      records: dropped,
+    });
+  });
+
+  it("stays silent when nothing was dropped", () => {
+    const warn = vi.fn();
+
+    reportDroppedRecords("coinmarketcap listings", [], warn);
+
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
+
+describe("parseApiError", () => {
+  it("reads the error envelope", () => {
+    const body = {
+      error: { code: "RATE_LIMITED", message: "Too many requests", retryable: true, details: "Retry in 30s" },
+    };
+
+    const error = parseApiError(body, 429, "Request failed");
+
+    expect(error).toEqual({
+      code: "RATE_LIMITED",
+      message: "Too many requests",
+      retryable: true,
+      details: "Retry in 30s",
+    });
+    expect(describeApiError(error)).toBe("Retry in 30s");
+  });
+
+  it("falls back to a generic error, retryable for 5xx statuses", () => {
+    expect(parseApiError(null, 502, "Request failed")).toEqual({
+      code: "INTERNAL_ERROR",
+      message: "Request failed",
+      retryable: true,
+    });
+    expect(parseApiError({ error: "bad" }, 400, "Request failed").retryable).toBe(false);
+  });
+});
@@ -0,0 +1,343 @@
+import {
+  ApiError,
+  ApiResponse,
+  AssetQuote,
+  CryptoAsset,
+  PaginationInfo,
+  PriceStreamSnapshot,
+  PriceStreamUpdate,
+  QuoteCurrency,
+  RecordDiagnostic,
+} from "../types";
+
+/**
+ * Result of validating a whole payload
+ * Holds either the normalized payload with the records left out of it, or the
+ * reason the payload as a whole was rejected
+ */
+export type PayloadResult<T> =
+  | { value: T; dropped: RecordDiagnostic[]; error?: undefined }
+  | { value?: undefined; dropped?: undefined; error: string };
+
+/** Result of validating a single asset */
+type AssetResult =
+  | { asset: CryptoAsset; issues?: undefined }
+  | { asset?: undefined; issues: string[] };
+
+/** Quote fields that default to 0 when upstream has no value */
+const OPTIONAL_QUOTE_FIELDS = [
+  "volume_24h",
+  "percent_change_1h",
+  "percent_change_24h",
+  "percent_change_7d",
+  "market_cap",
+] as const;
+
+/**
+ * Checks whether a value is a plain object
+ *
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True for non-null, non-array objects
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Checks whether a value is a finite number
+ *
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True for numbers other than NaN and ±Infinity
+ */
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Reads an optional numeric field, treating null and absent values as a default
+ *
+ * @param {Record<string, unknown>} input - Object holding the field
+ * @param {string} field - Field name
+ * @param {string} path - Field path used in diagnostics
+ * @param {number | null} fallback - Value for null or absent fields
+ * @param {string[]} issues - Collected problems, appended to when the value is invalid
+ * @returns {number | null} Field value or fallback
+ */
+const readOptionalNumber = (
+  input: Record<string, unknown>,
+  field: string,
+  path: string,
+  fallback: number | null,
+  issues: string[]
+): number | null => {
+  const value = input[field];
+  if (value === null || value === undefined) return fallback;
+  if (!isFiniteNumber(value)) {
+    issues.push(`${path} is not a finite number`);
+    return fallback;
+  }
+  return value;
+};
+
+/**
+ * Validates and normalizes one asset quoted in a currency
+ *
+ * `id`, `name`, `symbol` and a non-negative `quote[currency].price` are
+ * required. Missing ranks, supplies, volumes, market caps and percent changes
+ * become 0 (`max_supply` null), as the providers do; present values of the
+ * wrong type reject the asset. Quotes in other currencies are left out.
+ *
+ * @param {unknown} value - Candidate asset
+ * @param {QuoteCurrency} currency - Currency the asset must be quoted in
+ * @returns {AssetResult} Normalized asset or its problems
+ */
+const validateCryptoAsset = (value: unknown, currency: QuoteCurrency): AssetResult => {
+  if (!isRecord(value)) return { issues: ["record is not an object"] };
+
+  const issues: string[] = [];
+  const { id, name, symbol } = value;
+  if (typeof id !== "number" || !Number.isInteger(id) || id <= 0) issues.push("id is not a positive integer");
+  if (typeof name !== "string" || name.trim() === "") issues.push("name is missing");
+  if (typeof symbol !== "string" || symbol.trim() === "") issues.push("symbol is missing");
+
+  const cmcRank = readOptionalNumber(value, "cmc_rank", "cmc_rank", 0, issues);
+  const circulatingSupply = readOptionalNumber(value, "circulating_supply", "circulating_supply", 0, issues);
+  const maxSupply = readOptionalNumber(value, "max_supply", "max_supply", null, issues);
+
+  const quotes = value.quote;
+  const rawQuote = isRecord(quotes) ? quotes[currency] : undefined;
+  if (!isRecord(rawQuote)) {
+    issues.push(`quote.${currency} is missing`);
+    return { issues };
+  }
+  if (!isFiniteNumber(rawQuote.price) || rawQuote.price < 0) {
+    issues.push(`quote.${currency}.price is not a finite non-negative number`);
+  }
+  const quote = { price: rawQuote.price } as AssetQuote;
+  OPTIONAL_QUOTE_FIELDS.forEach((field) => {
+    quote[field] = readOptionalNumber(rawQuote, field, `quote.${currency}.${field}`, 0, issues) ?? 0;
+  });
+
+  if (issues.length > 0) return { issues };
+  return {
+    asset: {
+      id: id as number,
+      name: name as string,
+      symbol: symbol as string,
+      cmc_rank: cmcRank ?? 0,
+      circulating_supply: circulatingSupply ?? 0,
+      max_supply: maxSupply,
+      quote: { [currency]: quote },
+    },
+  };
+};
+
+/**
+ * Validates a list of assets, leaving out malformed ones
+ *
+ * @param {unknown[]} values - Candidate assets
+ * @param {QuoteCurrency} currency - Currency the assets must be quoted in
+ * @returns {{ assets: CryptoAsset[]; dropped: RecordDiagnostic[] }} Valid assets in input order and diagnostics of the others
+ */
+export function validateAssets(
+  values: unknown[],
+  currency: QuoteCurrency
+): { assets: CryptoAsset[]; dropped: RecordDiagnostic[] } {
+  const assets: CryptoAsset[] = [];
+  const dropped: RecordDiagnostic[] = [];
+  values.forEach((value, index) => {
+    const result = validateCryptoAsset(value, currency);
+    if (result.asset) {
+      assets.push(result.asset);
+    } else {
+      const id = isRecord(value) && isFiniteNumber(value.id) ? value.id : null;
+      dropped.push({ index, id, issues: result.issues });
+    }
+  });
+  return { assets, dropped };
+}
+
+/**
+ * Checks that a value is a parseable timestamp string
+ *
+ * @param {unknown} value - Candidate timestamp
+ * @returns {boolean} True for strings Date.parse understands
+ */
+const isTimestamp = (value: unknown): value is string =>
+  typeof value === "string" && !isNaN(Date.parse(value));
+
+/**
+ * Validates the pagination block of a listings response
+ *
+ * @param {unknown} value - Candidate pagination
+ * @returns {boolean} True when start, limit and total are non-negative integers
+ */
+const isPagination = (value: unknown): value is PaginationInfo =>
+  isRecord(value) &&
+  [value.start, value.limit, value.total].every(
+    (field) => typeof field === "number" && Number.isInteger(field) && field >= 0
+  );
+
+/**
+ * Validates a listings response (from a provider or /api/crypto)
+ *
+ * The envelope must hold a `data` array and a `status` with a timestamp and
+ * numeric error code; `stale`, `pagination` and `credit_count` are checked
+ * when present. Malformed assets are left out of `data` and reported in
+ * `dropped`, and `dropped` in the result counts them.
+ *
+ * @param {unknown} value - Parsed response body
+ * @param {QuoteCurrency} currency - Currency the listings were requested in
+ * @returns {PayloadResult<ApiResponse>} Normalized response or rejection reason
+ *
+ * @example
+ * validateApiResponse({ data: [btc, { id: 2 }], status }, "USD")
+ * // Returns { value: { data: [btc], status, dropped: 1 }, dropped: [{ index: 1, id: 2, issues: [...] }] }
+ */
+export function validateApiResponse(value: unknown, currency: QuoteCurrency): PayloadResult<ApiResponse> {
+  if (!isRecord(value)) return { error: "response is not an object" };
+  if (!Array.isArray(value.data)) return { error: "data is not an array" };
+
+  const status = value.status;
+  if (!isRecord(status) || !isTimestamp(status.timestamp) || !isFiniteNumber(status.error_code)) {
+    return { error: "status is missing its timestamp or error code" };
+  }
+  if (status.credit_count !== undefined && !isFiniteNumber(status.credit_count)) {
+    return { error: "status.credit_count is not a number" };
+  }
+  if (value.stale !== undefined && typeof value.stale !== "boolean") {
+    return { error: "stale is not a boolean" };
+  }
+  if (value.pagination !== undefined && !isPagination(value.pagination)) {
+    return { error: "pagination is malformed" };
+  }
+  if (value.usdRate !== undefined && !(isFiniteNumber(value.usdRate) && value.usdRate > 0)) {
+    return { error: "usdRate is not a positive number" };
+  }
+
+  const { assets, dropped } = validateAssets(value.data, currency);
+  // Records a server already dropped stay counted when the client validates again
+  const previouslyDropped = isFiniteNumber(value.dropped) ? value.dropped : 0;
+  const response: ApiResponse = {
+    data: assets,
+    status: {
+      timestamp: status.timestamp,
+      error_code: status.error_code,
+      error_message: typeof status.error_message === "string" ? status.error_message : null,
+      ...(status.credit_count !== undefined && { credit_count: status.credit_count as number }),
+    },
+    ...(value.stale !== undefined && { stale: value.stale }),
+    ...(value.pagination !== undefined && { pagination: value.pagination }),
+    ...(value.usdRate !== undefined && { usdRate: value.usdRate }),
+    ...(previouslyDropped + dropped.length > 0 && { dropped: previouslyDropped + dropped.length }),
+  };
+  return { value: response, dropped };
+}
+
+/**
+ * Validates the payload of a price stream `snapshot` event
+ *
+ * @param {unknown} value - Parsed event data
+ * @param {QuoteCurrency} currency - Currency of the stream
+ * @returns {PayloadResult<PriceStreamSnapshot>} Normalized snapshot or rejection reason
+ */
+export function validateStreamSnapshot(value: unknown, currency: QuoteCurrency): PayloadResult<PriceStreamSnapshot> {
+  if (!isRecord(value) || !Array.isArray(value.data) || !isTimestamp(value.timestamp)) {
+    return { error: "snapshot is missing its data or timestamp" };
+  }
+  const { assets, dropped } = validateAssets(value.data, currency);
+  return {
+    value: { data: assets, timestamp: value.timestamp, stale: value.stale === true },
+    dropped,
+  };
+}
+
+/**
+ * Validates the payload of a price stream `prices` event
+ *
+ * @param {unknown} value - Parsed event data
+ * @param {QuoteCurrency} currency - Currency of the stream
+ * @returns {PayloadResult<PriceStreamUpdate>} Normalized update or rejection reason
+ */
+export function validateStreamUpdate(value: unknown, currency: QuoteCurrency): PayloadResult<PriceStreamUpdate> {
+  if (
+    !isRecord(value) ||
+    !Array.isArray(value.updates) ||
+    !Array.isArray(value.removed) ||
+    !isTimestamp(value.timestamp)
+  ) {
+    return { error: "price update is missing its updates, removals or timestamp" };
+  }
+  const { assets, dropped } = validateAssets(value.updates, currency);
+  return {
+    value: {
+      updates: assets,
+      removed: value.removed.filter(isFiniteNumber),
+      timestamp: value.timestamp,
+      stale: value.stale === true,
+    },
+    dropped,
+  };
+}
+
+/**
+ * Logs records left out of a payload as one structured warning
+ * This module also runs in the browser, so the server passes its own logger
+ *
+ * @param {string} source - Where the payload came from (e.g., "coinmarketcap listings")
+ * @param {RecordDiagnostic[]} dropped - Records left out
+ * @param {Function} [warn] - Writes the warning; defaults to the console
+ *
+ * @example
+ * reportDroppedRecords("coinmarketcap listings", result.dropped, logger.warn);
+ */
+export function reportDroppedRecords(
+  source: string,
+  dropped: RecordDiagnostic[],
+  warn: (message: string, fields: Record<string, unknown>) => void = console.warn
+) {
+  if (dropped.length === 0) return;
+  warn("Dropped malformed records", { source, count: dropped.length, records: dropped });
+}
+
+/**
+ * Reads the error envelope of a failed API response
+ * Bodies that are not an envelope yield a generic error, retryable for 5xx statuses
+ *
+ * @param {unknown} body - Parsed response body, or null when it was not JSON
+ * @param {number} status - HTTP status of the response
+ * @param {string} fallback - Message used when the body carries no error
+ * @returns {ApiError} Reported or generic error
+ */
+export function parseApiError(body: unknown, status: number, fallback: string): ApiError {
+  const error = isRecord(body) ? body.error : undefined;
+  if (isRecord(error) && typeof error.code === "string" && typeof error.message === "string") {
+    return {
+      code: error.code as ApiError["code"],
+      message: error.message,
+      retryable: error.retryable === true,
+      ...(typeof error.details === "string" && { details: error.details }),
+    };
+  }
+  return { code: "INTERNAL_ERROR", message: fallback, retryable: status >= 500 };
+}
+
+/**
+ * Message to show for an API error: its specific cause when known
+ *
+ * @param {ApiError} error - Reported error
+ * @returns {string} User-facing message
+ */
+export const describeApiError = (error: ApiError): string => error.details ?? error.message;
+
+/**
+ * Reads a response body as JSON, or null when it is not JSON
+ *
+ * @param {Response} response - Fetch response
+ * @returns {Promise<unknown>} Parsed body or null
+ */
+export async function readJson(response: Response): Promise<unknown> {
+  try {
+    return await response.json();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,185 @@
+import { AssetFilterKey, AssetFilters, CryptoAsset, FilterChip, QuoteCurrency } from "../types";
+import { formatPrice } from "./formatters";
+import { getAssetQuote } from "./quotes";
+
+/** Filters with nothing set, which keep every asset */
+export const EMPTY_ASSET_FILTERS: AssetFilters = {
+  query: "",
+  minPrice: null,
+  maxPrice: null,
+  minRank: null,
+  maxRank: null,
+};
+
+/**
+ * Checks whether any search or range filter is set
+ *
+ * @param {AssetFilters} filters - Filters to check
+ * @returns {boolean} True when the filters may leave out assets
+ */
+export function hasAssetFilters(filters: AssetFilters): boolean {
+  return (
+    filters.query.trim() !== "" ||
+    filters.minPrice !== null ||
+    filters.maxPrice !== null ||
+    filters.minRank !== null ||
+    filters.maxRank !== null
+  );
+}
+
+/**
+ * Scores how well a search query matches a piece of text
+ *
+ * Exact matches score 4, prefixes 3 and other substrings 2. Otherwise the
+ * query characters must appear in order (e.g., "btcn" in "Bitcoin"), scoring
+ * between 0 and 1 depending on how spread out they are.
+ *
+ * @param {string} query - Lower case search query
+ * @param {string} text - Text to match
+ * @returns {number | null} Match score (higher is better), or null when it does not match
+ *
+ * @example
+ * fuzzyScore("eth", "ETH") // Returns 4
+ * fuzzyScore("btcn", "Bitcoin") // Returns 0.25
+ * fuzzyScore("xyz", "Bitcoin") // Returns null
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const target = text.toLowerCase();
+  if (target === query) return 4;
+  const index = target.indexOf(query);
+  if (index === 0) return 3;
+  if (index > 0) return 2;
+
+  // Characters skipped between the first and last matched character
+  let position = -1;
+  let gaps = 0;
+  for (const char of query) {
+    const next = target.indexOf(char, position + 1);
+    if (next === -1) return null;
+    if (position !== -1) gaps += next - position - 1;
+    position = next;
+  }
+  return 1 / (1 + gaps);
+}
+
+/**
+ * Scores an asset against a search query, using its better-matching name or symbol
+ *
+ * @param {CryptoAsset} asset - Asset to match
+ * @param {string} query - Search query (any case)
+ * @returns {number | null} Match score, or null when neither name nor symbol matches
+ */
+export function scoreAsset(asset: CryptoAsset, query: string): number | null {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) return 0;
+  const scores = [fuzzyScore(normalized, asset.name), fuzzyScore(normalized, asset.symbol)].filter(
+    (score): score is number => score !== null
+  );
+  return scores.length > 0 ? Math.max(...scores) : null;
+}
+
+/**
+ * Checks a value against an inclusive range with optional bounds
+ *
+ * @param {number} value - Value to check
+ * @param {number | null} min - Lower bound, null for none
+ * @param {number | null} max - Upper bound, null for none
+ * @returns {boolean} True when the value lies within the range
+ */
+const inRange = (value: number, min: number | null, max: number | null): boolean =>
+  (min === null || value >= min) && (max === null || value <= max);
+
+/**
+ * Keeps the assets matching the search query and the price and rank ranges
+ * The input order is preserved
+ *
+ * @param {CryptoAsset[]} assets - Assets to filter
+ * @param {AssetFilters} filters - Active filters
+ * @param {QuoteCurrency} currency - Quote currency the price range is expressed in
+ * @returns {CryptoAsset[]} Matching assets
+ */
+export function filterAssets(
+  assets: CryptoAsset[],
+  filters: AssetFilters,
+  currency: QuoteCurrency
+): CryptoAsset[] {
+  return assets.filter(
+    (asset) =>
+      scoreAsset(asset, filters.query) !== null &&
+      inRange(getAssetQuote(asset, currency).price, filters.minPrice, filters.maxPrice) &&
+      inRange(asset.cmc_rank, filters.minRank, filters.maxRank)
+  );
+}
+
+/**
+ * Orders assets by how well they match a search query, best first
+ * Equal scores fall back to the asset name
+ *
+ * @param {CryptoAsset[]} assets - Assets that match the query
+ * @param {string} query - Search query
+ * @returns {CryptoAsset[]} New array in relevance order
+ */
+export function sortByRelevance(assets: CryptoAsset[], query: string): CryptoAsset[] {
+  const scores = new Map(assets.map((asset) => [asset.id, scoreAsset(asset, query) ?? 0]));
+  return [...assets].sort(
+    (a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0) || a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Describes an inclusive range for a chip label
+ *
+ * @param {string} label - Field name
+ * @param {number | null} min - Lower bound
+ * @param {number | null} max - Upper bound
+ * @param {Function} format - Formats a bound
+ * @returns {string | null} Description, or null when neither bound is set
+ */
+const describeRange = (
+  label: string,
+  min: number | null,
+  max: number | null,
+  format: (value: number) => string
+): string | null => {
+  if (min !== null && max !== null) return `${label} ${format(min)} – ${format(max)}`;
+  if (min !== null) return `${label} ≥ ${format(min)}`;
+  if (max !== null) return `${label} ≤ ${format(max)}`;
+  return null;
+};
+
+/**
+ * Lists the active filters as removable chips
+ *
+ * @param {AssetFilters} filters - Active filters
+ * @param {QuoteCurrency} currency - Quote currency of the price range
+ * @returns {FilterChip[]} One chip per active filter group
+ */
+export function getFilterChips(filters: AssetFilters, currency: QuoteCurrency): FilterChip[] {
+  const labels: Record<AssetFilterKey, string | null> = {
+    query: filters.query.trim() ? `Search “${filters.query.trim()}”` : null,
+    price: describeRange("Price", filters.minPrice, filters.maxPrice, (value) => formatPrice(value, currency)),
+    rank: describeRange("Rank", filters.minRank, filters.maxRank, (value) => `#${value}`),
+  };
+  return (Object.keys(labels) as AssetFilterKey[]).flatMap((key) => {
+    const label = labels[key];
+    return label ? [{ key, label }] : [];
+  });
+}
+
+/**
+ * Clears one filter group
+ *
+ * @param {AssetFilters} filters - Active filters
+ * @param {AssetFilterKey} key - Group to clear
+ * @returns {AssetFilters} Filters without that group
+ */
+export function clearFilter(filters: AssetFilters, key: AssetFilterKey): AssetFilters {
+  switch (key) {
+    case "query":
+      return { ...filters, query: "" };
+    case "price":
+      return { ...filters, minPrice: null, maxPrice: null };
+    case "rank":
+      return { ...filters, minRank: null, maxRank: null };
+  }
+}
@@ -0,0 +1,37 @@
+import { QuoteCurrency } from "../types";
+import { API_CONFIG } from "../constants";
+
+/**
+ * Builds the URL of an asset's detail page
+ * The quote currency is only added when it differs from the default
+ *
+ * @param {string} symbol - Ticker symbol
+ * @param {QuoteCurrency} [currency] - Quote currency to show prices in
+ * @returns {string} Relative page URL
+ *
+ * @example
+ * buildAssetPath("BTC") // Returns "/asset/BTC"
+ * buildAssetPath("ETH", "EUR") // Returns "/asset/ETH?convert=EUR"
+ */
+export function buildAssetPath(symbol: string, currency?: QuoteCurrency): string {
+  const path = `/asset/${encodeURIComponent(symbol)}`;
+  return currency && currency !== API_CONFIG.DEFAULT_CONVERT ? `${path}?convert=${currency}` : path;
+}
+
+/**
+ * Resolves the quote currency of an asset page from its `convert` search parameter
+ * Missing, repeated or unsupported values fall back to API_CONFIG.DEFAULT_CONVERT
+ *
+ * @param {string | string[] | undefined} convert - Raw search parameter
+ * @returns {QuoteCurrency} Quote currency
+ *
+ * @example
+ * resolveAssetCurrency("eur") // Returns "EUR"
+ * resolveAssetCurrency("XYZ") // Returns "USD"
+ */
+export function resolveAssetCurrency(convert: string | string[] | undefined): QuoteCurrency {
+  const value = typeof convert === "string" ? convert.toUpperCase() : "";
+  return (API_CONFIG.SUPPORTED_CONVERT as readonly string[]).includes(value)
+    ? (value as QuoteCurrency)
+    : API_CONFIG.DEFAULT_CONVERT;
+}
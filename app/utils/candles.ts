@@ -0,0 +1,48 @@
+import { HistoryRange, PriceCandle } from "../types";
+import { HISTORY_RANGES } from "../constants";
+
+/** Timestamped price sample, epoch milliseconds first */
+export type PricePoint = [time: number, price: number];
+
+/**
+ * Groups price samples into the candles of a history range
+ *
+ * Samples older than the range are dropped and the rest are bucketed by the
+ * range's interval, aligned to the end time. Intervals without samples are
+ * skipped rather than filled, so sparse sources produce fewer candles.
+ *
+ * @param {PricePoint[]} points - Price samples in any order
+ * @param {HistoryRange} range - History range defining span and candle width
+ * @param {number} [now] - End of the range in epoch milliseconds
+ * @returns {PriceCandle[]} Candles in chronological order
+ *
+ * @example
+ * aggregateCandles([[t, 100], [t + 30000, 104], [t + 50000, 98]], "1h", t + 60000)
+ * // Returns [{ time: t, open: 100, high: 104, low: 98, close: 98 }]
+ */
+export function aggregateCandles(
+  points: PricePoint[],
+  range: HistoryRange,
+  now: number = Date.now()
+): PriceCandle[] {
+  const { durationMs, intervalMs } = HISTORY_RANGES[range];
+  const since = now - durationMs;
+  const candles = new Map<number, PriceCandle>();
+
+  [...points]
+    .filter(([time, price]) => time >= since && time <= now && Number.isFinite(price))
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([time, price]) => {
+      const bucket = since + Math.floor((time - since) / intervalMs) * intervalMs;
+      const candle = candles.get(bucket);
+      if (!candle) {
+        candles.set(bucket, { time: bucket, open: price, high: price, low: price, close: price });
+        return;
+      }
+      candle.high = Math.max(candle.high, price);
+      candle.low = Math.min(candle.low, price);
+      candle.close = price;
+    });
+
+  return [...candles.values()];
+}
@@ -0,0 +1,162 @@
+import { ClientErrorReport, ClientErrorSource } from "../types";
+import { CLIENT_ERROR_CONFIG, ERROR_MESSAGES } from "../constants";
+
+/**
+ * Result of parsing a client error report body
+ * Holds either a sanitized report or a validation error
+ */
+export type ClientErrorReportResult =
+  | { report: ClientErrorReport; error?: undefined }
+  | { report?: undefined; error: string };
+
+const CLIENT_ERROR_SOURCES: readonly ClientErrorSource[] = ["boundary", "window", "unhandledrejection"];
+
+/** Reports sent by this page, by source and message, so each error is sent once */
+const sentReports = new Set<string>();
+
+/**
+ * Removes URL queries and fragments, which may hold tokens or personal data,
+ * and truncates the text
+ * Line and column suffixes of stack frames are kept
+ *
+ * @param {string} text - Message or stack
+ * @param {number} maxLength - Longest text kept
+ * @returns {string} Sanitized text
+ *
+ * @example
+ * sanitizeErrorText("at load (https://app.test/_next/page.js?token=abc:12:5)", 1000)
+ * // Returns "at load (https://app.test/_next/page.js:12:5)"
+ */
+export function sanitizeErrorText(text: string, maxLength: number): string {
+  return text
+    .replace(/(https?:\/\/[^\s?#)]+)[?#][^\s)]*?((?::\d+){0,2})(?=[\s)]|$)/g, "$1$2")
+    .slice(0, maxLength);
+}
+
+/**
+ * Validates and sanitizes the JSON body of a POST /api/client-errors request
+ *
+ * Expects a known `source`, a non-empty `message`, an optional `stack` and
+ * `componentStack`, and the `route` and `appVersion` the error occurred in.
+ * Text fields are sanitized again (see sanitizeErrorText) since the body is
+ * not trusted; the route loses any query or fragment.
+ *
+ * @param {unknown} body - Parsed request body
+ * @returns {ClientErrorReportResult} Sanitized report or validation error
+ *
+ * @example
+ * parseClientErrorReport({ source: "window", message: "x is undefined", route: "/?q=btc", appVersion: "0.1.0" })
+ * // Returns { report: { source: "window", message: "x is undefined", route: "/", appVersion: "0.1.0" } }
+ */
+export function parseClientErrorReport(body: unknown): ClientErrorReportResult {
+  if (typeof body !== "object" || body === null) {
+    return { error: ERROR_MESSAGES.INVALID_REPORT };
+  }
+  const input = body as Record<string, unknown>;
+
+  const source = input.source;
+  if (typeof source !== "string" || !CLIENT_ERROR_SOURCES.includes(source as ClientErrorSource)) {
+    return { error: ERROR_MESSAGES.INVALID_REPORT_SOURCE };
+  }
+
+  const message = input.message;
+  if (typeof message !== "string" || message.trim() === "") {
+    return { error: ERROR_MESSAGES.INVALID_REPORT_MESSAGE };
+  }
+
+  const { stack, componentStack } = input;
+  if (
+    (stack !== undefined && typeof stack !== "string") ||
+    (componentStack !== undefined && typeof componentStack !== "string")
+  ) {
+    return { error: ERROR_MESSAGES.INVALID_REPORT_FIELD };
+  }
+
+  const route = typeof input.route === "string" ? input.route.split(/[?#]/)[0] : undefined;
+  const appVersion = input.appVersion;
+  if (
+    route === undefined ||
+    typeof appVersion !== "string" ||
+    route === "" ||
+    appVersion === "" ||
+    route.length > CLIENT_ERROR_CONFIG.MAX_FIELD_LENGTH ||
+    appVersion.length > CLIENT_ERROR_CONFIG.MAX_FIELD_LENGTH
+  ) {
+    return { error: ERROR_MESSAGES.INVALID_REPORT_CONTEXT };
+  }
+
+  return {
+    report: {
+      source: source as ClientErrorSource,
+      message: sanitizeErrorText(message, CLIENT_ERROR_CONFIG.MAX_MESSAGE_LENGTH),
+      ...(stack && { stack: sanitizeErrorText(stack, CLIENT_ERROR_CONFIG.MAX_STACK_LENGTH) }),
+      ...(componentStack && {
+        componentStack: sanitizeErrorText(componentStack, CLIENT_ERROR_CONFIG.MAX_STACK_LENGTH),
+      }),
+      route,
+      appVersion,
+    },
+  };
+}
+
+/**
+ * Builds a sanitized report for a caught value
+ * Non-Error values (e.g., a rejected string) are reported by their string form
+ *
+ * @param {ClientErrorSource} source - Where the error was caught
+ * @param {unknown} error - Caught value
+ * @param {string | null} [componentStack] - React component stack, for boundary errors
+ * @returns {ClientErrorReport} Report for the current page
+ */
+export function buildClientErrorReport(
+  source: ClientErrorSource,
+  error: unknown,
+  componentStack?: string | null
+): ClientErrorReport {
+  const message = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+  const stack = error instanceof Error ? error.stack : undefined;
+
+  return {
+    source,
+    message: sanitizeErrorText(message || ERROR_MESSAGES.GENERIC_ERROR, CLIENT_ERROR_CONFIG.MAX_MESSAGE_LENGTH),
+    ...(stack && { stack: sanitizeErrorText(stack, CLIENT_ERROR_CONFIG.MAX_STACK_LENGTH) }),
+    ...(componentStack && {
+      componentStack: sanitizeErrorText(componentStack, CLIENT_ERROR_CONFIG.MAX_STACK_LENGTH),
+    }),
+    route: window.location.pathname,
+    appVersion: process.env.NEXT_PUBLIC_APP_VERSION || "unknown",
+  };
+}
+
+/**
+ * Sends an error caught in the browser to POST /api/client-errors
+ *
+ * Features:
+ * - Sanitizes the report before it leaves the browser (see buildClientErrorReport)
+ * - Sends each distinct error once per page, and at most
+ *   CLIENT_ERROR_CONFIG.MAX_REPORTS_PER_PAGE reports, so render loops cannot flood the endpoint
+ * - Uses a keepalive request, so reports sent while the page unloads still arrive
+ * - Never throws: a report that cannot be sent is only logged to the console
+ *
+ * @param {ClientErrorSource} source - Where the error was caught
+ * @param {unknown} error - Caught value
+ * @param {string | null} [componentStack] - React component stack, for boundary errors
+ *
+ * @example
+ * reportClientError("boundary", error, errorInfo.componentStack);
+ */
+export function reportClientError(source: ClientErrorSource, error: unknown, componentStack?: string | null) {
+  const report = buildClientErrorReport(source, error, componentStack);
+  const key = `${report.source}:${report.message}`;
+  if (sentReports.has(key) || sentReports.size >= CLIENT_ERROR_CONFIG.MAX_REPORTS_PER_PAGE) return;
+  sentReports.add(key);
+
+  fetch(CLIENT_ERROR_CONFIG.ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(report),
+    keepalive: true,
+  }).catch((sendError) => {
+    console.warn("Failed to report client error:", sendError);
+  });
+}
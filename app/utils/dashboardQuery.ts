@@ -0,0 +1,186 @@
+import { DashboardPreferences, DashboardState, QuoteCurrency, SortKey, SortOption, ViewMode } from "../types";
+import { API_CONFIG, DEFAULTS, LISTING_SORTS, SORT_CONFIG, SORT_DIRECTIONS, VIEW_MODES } from "../constants";
+import { EMPTY_ASSET_FILTERS } from "./assetFilters";
+
+/** State of a dashboard opened without query parameters */
+export const DEFAULT_DASHBOARD_STATE: DashboardState = {
+  sortKeys: [],
+  viewMode: DEFAULTS.VIEW_MODE,
+  currency: API_CONFIG.DEFAULT_CONVERT,
+  filters: EMPTY_ASSET_FILTERS,
+  page: 1,
+  pageSize: API_CONFIG.DEFAULT_PAGE_SIZE,
+};
+
+/**
+ * Query parameter per dashboard field
+ * Sort, direction and currency reuse the /api/crypto parameter names, with
+ * comma-separated columns and directions for multi-column sorts
+ */
+const PARAMS = {
+  sortKeys: "sort",
+  sortDirection: "sort_dir",
+  viewMode: "view",
+  currency: "convert",
+  query: "q",
+  minPrice: "min_price",
+  maxPrice: "max_price",
+  minRank: "min_rank",
+  maxRank: "max_rank",
+  page: "page",
+  pageSize: "limit",
+} as const;
+
+/**
+ * Checks whether a value is one of the allowed values
+ *
+ * @param {readonly string[]} allowed - Allowed values
+ * @param {unknown} value - Candidate value
+ * @returns {boolean} True when the value is allowed
+ */
+const isOneOf = <T extends string>(allowed: readonly T[], value: unknown): value is T =>
+  typeof value === "string" && (allowed as readonly string[]).includes(value);
+
+const SORT_OPTIONS: SortOption[] = [SORT_CONFIG.RANK, ...Object.values(LISTING_SORTS)];
+const VIEW_MODE_VALUES = Object.values(VIEW_MODES) as ViewMode[];
+const SORT_DIRECTION_VALUES = Object.values(SORT_DIRECTIONS);
+
+/**
+ * Parses an optional non-negative number parameter
+ *
+ * @param {string | null} value - Raw parameter value
+ * @param {boolean} integer - Whether only positive integers are accepted
+ * @returns {number | null} Parsed value, or null when absent or invalid
+ */
+const parseBoundParam = (value: string | null, integer: boolean): number | null => {
+  if (value === null || value.trim() === "") return null;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) return null;
+  return integer && (!Number.isInteger(parsed) || parsed < 1) ? null : parsed;
+};
+
+/**
+ * Validates sort keys, dropping unknown and repeated columns
+ * Keys with an unknown direction fall back to the default direction
+ *
+ * @param {unknown} value - Raw sort keys
+ * @returns {SortKey[]} At most SORT_CONFIG.MAX_KEYS valid keys
+ */
+const parseSortKeys = (value: unknown): SortKey[] => {
+  if (!Array.isArray(value)) return [];
+  const keys: SortKey[] = [];
+  for (const entry of value as Array<Partial<Record<keyof SortKey, unknown>> | null>) {
+    const option = entry?.option;
+    if (!isOneOf(SORT_OPTIONS, option) || keys.some((key) => key.option === option)) continue;
+    const direction = isOneOf(SORT_DIRECTION_VALUES, entry?.direction) ? entry.direction : DEFAULTS.SORT_DIRECTION;
+    keys.push({ option, direction });
+  }
+  return keys.slice(0, SORT_CONFIG.MAX_KEYS);
+};
+
+/**
+ * Validates the sort, view mode and currency read from the URL or from storage
+ * Unknown values fall back to their defaults
+ *
+ * @param {unknown} value - Raw preferences (e.g., parsed storage value)
+ * @returns {DashboardPreferences} Validated preferences
+ */
+export function parseDashboardPreferences(value: unknown): DashboardPreferences {
+  const stored = (value ?? {}) as Partial<Record<keyof DashboardPreferences, unknown>>;
+  return {
+    sortKeys: parseSortKeys(stored.sortKeys),
+    viewMode: isOneOf(VIEW_MODE_VALUES, stored.viewMode) ? stored.viewMode : DEFAULT_DASHBOARD_STATE.viewMode,
+    currency: isOneOf<QuoteCurrency>(API_CONFIG.SUPPORTED_CONVERT, stored.currency)
+      ? stored.currency
+      : DEFAULT_DASHBOARD_STATE.currency,
+  };
+}
+
+/**
+ * Reads the dashboard state from home page query parameters
+ * Unknown or repeated sort fields are dropped; unknown directions, view modes
+ * and currencies, malformed range bounds, page sizes outside
+ * API_CONFIG.PAGE_SIZE_OPTIONS and pages past the asset universe fall back to
+ * their defaults
+ *
+ * @param {URLSearchParams} params - Page query parameters
+ * @returns {DashboardState} Validated dashboard state
+ *
+ * @example
+ * parseDashboardQuery(new URLSearchParams("view=list&sort=price,name&sort_dir=desc,asc"))
+ * // Returns list view sorted by price, largest first, then by name, other fields at their defaults
+ */
+export function parseDashboardQuery(params: URLSearchParams): DashboardState {
+  const directions = params.get(PARAMS.sortDirection)?.split(",") ?? [];
+  const requestedPageSize = parseBoundParam(params.get(PARAMS.pageSize), true);
+  const pageSize = (API_CONFIG.PAGE_SIZE_OPTIONS as readonly number[]).includes(requestedPageSize ?? 0)
+    ? (requestedPageSize as number)
+    : DEFAULT_DASHBOARD_STATE.pageSize;
+  const page = parseBoundParam(params.get(PARAMS.page), true);
+  return {
+    ...parseDashboardPreferences({
+      sortKeys: params.get(PARAMS.sortKeys)?.split(",").map((option, index) => ({
+        option,
+        direction: directions[index],
+      })),
+      viewMode: params.get(PARAMS.viewMode),
+      currency: params.get(PARAMS.currency)?.toUpperCase(),
+    }),
+    filters: {
+      query: (params.get(PARAMS.query) ?? "").slice(0, API_CONFIG.MAX_SEARCH_LENGTH),
+      minPrice: parseBoundParam(params.get(PARAMS.minPrice), false),
+      maxPrice: parseBoundParam(params.get(PARAMS.maxPrice), false),
+      minRank: parseBoundParam(params.get(PARAMS.minRank), true),
+      maxRank: parseBoundParam(params.get(PARAMS.maxRank), true),
+    },
+    page:
+      page !== null && page <= Math.ceil(API_CONFIG.MAX_CRYPTO_ASSETS / pageSize)
+        ? page
+        : DEFAULT_DASHBOARD_STATE.page,
+    pageSize,
+  };
+}
+
+/**
+ * Serializes the dashboard state into home page query parameters
+ * Fields at their default value are left out, so the default dashboard has
+ * no query string
+ *
+ * @param {DashboardState} state - Dashboard state
+ * @returns {string} Query string without the leading "?"
+ *
+ * @example
+ * buildDashboardQuery({ ...DEFAULT_DASHBOARD_STATE, viewMode: "list", sortKeys: [{ option: "price", direction: "desc" }] })
+ * // Returns "sort=price&sort_dir=desc&view=list"
+ */
+export function buildDashboardQuery(state: DashboardState): string {
+  const params = new URLSearchParams();
+  const { filters } = state;
+
+  if (state.sortKeys.length > 0) {
+    params.set(PARAMS.sortKeys, state.sortKeys.map((key) => key.option).join(","));
+    params.set(PARAMS.sortDirection, state.sortKeys.map((key) => key.direction).join(","));
+  }
+  if (state.viewMode !== DEFAULT_DASHBOARD_STATE.viewMode) params.set(PARAMS.viewMode, state.viewMode);
+  if (state.currency !== DEFAULT_DASHBOARD_STATE.currency) params.set(PARAMS.currency, state.currency);
+  if (filters.query) params.set(PARAMS.query, filters.query);
+  if (filters.minPrice !== null) params.set(PARAMS.minPrice, filters.minPrice.toString());
+  if (filters.maxPrice !== null) params.set(PARAMS.maxPrice, filters.maxPrice.toString());
+  if (filters.minRank !== null) params.set(PARAMS.minRank, filters.minRank.toString());
+  if (filters.maxRank !== null) params.set(PARAMS.maxRank, filters.maxRank.toString());
+  if (state.page !== DEFAULT_DASHBOARD_STATE.page) params.set(PARAMS.page, state.page.toString());
+  if (state.pageSize !== DEFAULT_DASHBOARD_STATE.pageSize) params.set(PARAMS.pageSize, state.pageSize.toString());
+
+  // Commas separate sort columns and are safe in query strings, so keep them readable
+  return params.toString().replace(/%2C/gi, ",");
+}
+
+/**
+ * Checks whether home page query parameters carry any dashboard state
+ *
+ * @param {URLSearchParams} params - Page query parameters
+ * @returns {boolean} True when at least one dashboard parameter is present
+ */
+export function hasDashboardQuery(params: URLSearchParams): boolean {
+  return Object.values(PARAMS).some((name) => params.has(name));
+}
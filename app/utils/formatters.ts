@@ -1,21 +1,188 @@
+import { HistoryRange, PendingOrder, QuoteCurrency } from "../types";
+import { DEFAULTS, ORDER_TYPES, QUOTE_CURRENCIES } from "../constants";
+
 /**
- * Formats a numeric price value as a USD currency string
+ * Formats a numeric price value in a quote currency
  * 
  * Uses the Intl.NumberFormat API for proper locale-aware currency formatting
- * Always displays exactly 2 decimal places for consistency
+ * Fiat currencies use their usual decimals (2 for USD/EUR/GBP, 0 for JPY);
+ * crypto quote currencies (BTC, ETH) are prefixed with their symbol and keep
+ * up to 8 (BTC) or 6 (ETH) decimals so small-cap prices stay readable
  * 
  * @param {number} price - The price value to format
+ * @param {QuoteCurrency} [currency="USD"] - Currency the price is quoted in
+ * @param {string} [locale] - BCP 47 locale (defaults to DEFAULTS.LOCALE)
  * @returns {string} Formatted price string (e.g., "$1,234.56")
  * 
  * @example
  * formatPrice(1234.567) // Returns "$1,234.57"
  * formatPrice(50) // Returns "$50.00"
+ * formatPrice(1234.5, "EUR", "de-DE") // Returns "1.234,50 €"
+ * formatPrice(0.0000123, "BTC") // Returns "₿0.0000123"
  */
-export const formatPrice = (price: number): string => {
-  return new Intl.NumberFormat("en-US", {
+export const formatPrice = (
+  price: number,
+  currency: QuoteCurrency = "USD",
+  locale: string = DEFAULTS.LOCALE
+): string => {
+  const config = QUOTE_CURRENCIES[currency];
+
+  if (config.crypto) {
+    const amount = new Intl.NumberFormat(locale, {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: config.fractionDigits,
+    }).format(price);
+    return `${config.symbol}${amount}`;
+  }
+
+  return new Intl.NumberFormat(locale, {
     style: "currency",
-    currency: "USD",
+    currency,
+    minimumFractionDigits: config.fractionDigits,
+    maximumFractionDigits: config.fractionDigits,
+  }).format(price);
+};
+
+/**
+ * Formats a timestamp as a local wall-clock time string
+ * 
+ * @param {Date} date - The timestamp to format
+ * @returns {string} Formatted time string (e.g., "14:05:09")
+ * 
+ * @example
+ * formatTime(new Date("2024-01-01T14:05:09")) // Returns "14:05:09"
+ */
+export const formatTime = (date: Date): string => {
+  return new Intl.DateTimeFormat("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+  }).format(date);
+};
+
+/**
+ * Formats a chart timestamp with the precision a history range needs
+ * Intraday ranges show the time, multi-day ranges the date (with the time
+ * when `detailed`), and the 1-year range includes the year
+ * 
+ * @param {number} time - Epoch milliseconds
+ * @param {HistoryRange} range - Range the timestamp belongs to
+ * @param {boolean} [detailed=false] - Include the time on multi-day ranges
+ * @returns {string} Formatted timestamp (e.g., "14:05" or "Mar 5, 14:00")
+ * 
+ * @example
+ * formatChartTime(Date.parse("2024-03-05T14:05:00"), "24h") // Returns "14:05"
+ * formatChartTime(Date.parse("2024-03-05T14:00:00"), "7d", true) // Returns "Mar 5, 14:00"
+ * formatChartTime(Date.parse("2024-03-05T00:00:00"), "1y") // Returns "Mar 5, 2024"
+ */
+export const formatChartTime = (time: number, range: HistoryRange, detailed: boolean = false): string => {
+  const intraday = range === "1h" || range === "24h";
+  return new Intl.DateTimeFormat(DEFAULTS.LOCALE, {
+    ...(intraday ? {} : { month: "short", day: "numeric" }),
+    ...(range === "1y" ? { year: "numeric" } : {}),
+    ...(intraday || (detailed && range !== "1y") ? { hour: "2-digit", minute: "2-digit", hour12: false } : {}),
+  }).format(new Date(time));
+};
+
+/**
+ * Formats a percent change with an explicit sign
+ * 
+ * @param {number} value - Change in percent (e.g., 1.234 for +1.234%)
+ * @returns {string} Formatted change (e.g., "+1.23%")
+ * 
+ * @example
+ * formatPercentChange(1.234) // Returns "+1.23%"
+ * formatPercentChange(-0.5) // Returns "-0.50%"
+ */
+export const formatPercentChange = (value: number): string => {
+  return new Intl.NumberFormat("en-US", {
+    style: "percent",
+    signDisplay: "exceptZero",
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
-  }).format(price);
-};
\ No newline at end of file
+  }).format(value / 100);
+};
+
+/**
+ * Formats a large amount in compact notation
+ * 
+ * @param {number} value - Amount in the quote currency
+ * @param {QuoteCurrency} [currency="USD"] - Currency the amount is quoted in
+ * @param {string} [locale] - BCP 47 locale (defaults to DEFAULTS.LOCALE)
+ * @returns {string} Compact amount (e.g., "$1.28T")
+ * 
+ * @example
+ * formatCompactPrice(1283000000000) // Returns "$1.28T"
+ * formatCompactPrice(19700000, "BTC") // Returns "₿19.7M"
+ */
+export const formatCompactPrice = (
+  value: number,
+  currency: QuoteCurrency = "USD",
+  locale: string = DEFAULTS.LOCALE
+): string => {
+  const config = QUOTE_CURRENCIES[currency];
+
+  if (config.crypto) {
+    const amount = new Intl.NumberFormat(locale, {
+      notation: "compact",
+      maximumFractionDigits: 2,
+    }).format(value);
+    return `${config.symbol}${amount}`;
+  }
+
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+    notation: "compact",
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+/**
+ * Formats a coin supply in compact notation with the asset symbol
+ * 
+ * @param {number} value - Number of coins
+ * @param {string} symbol - Asset ticker symbol
+ * @returns {string} Compact supply (e.g., "19.7M BTC")
+ * 
+ * @example
+ * formatSupply(19700000, "BTC") // Returns "19.7M BTC"
+ */
+export const formatSupply = (value: number, symbol: string): string => {
+  const amount = new Intl.NumberFormat("en-US", {
+    notation: "compact",
+    maximumFractionDigits: 2,
+  }).format(value);
+  return `${amount} ${symbol}`;
+};
+
+/**
+ * Formats a coin quantity with enough precision for fractional holdings
+ * 
+ * @param {number} value - Number of coins
+ * @param {string} symbol - Asset ticker symbol
+ * @returns {string} Quantity with symbol (e.g., "0.00384615 BTC")
+ * 
+ * @example
+ * formatQuantity(0.0038461538, "BTC") // Returns "0.00384615 BTC"
+ * formatQuantity(1250, "DOGE") // Returns "1,250 DOGE"
+ */
+export const formatQuantity = (value: number, symbol: string): string => {
+  const amount = new Intl.NumberFormat(DEFAULTS.LOCALE, {
+    maximumFractionDigits: 8,
+  }).format(value);
+  return `${amount} ${symbol}`;
+};
+
+/**
+ * Describes a limit or stop order in one line
+ * 
+ * @param {PendingOrder} order - Order to describe
+ * @returns {string} Type, side, quantity and trigger price
+ * 
+ * @example
+ * formatPendingOrder(order) // Returns "Limit buy 0.01 BTC @ $60,000.00"
+ */
+export const formatPendingOrder = (order: PendingOrder): string =>
+  `${ORDER_TYPES[order.type].label} ${order.side} ${formatQuantity(order.quantity, order.symbol)} @ ${formatPrice(order.triggerPrice, order.currency)}`;
@@ -0,0 +1,63 @@
+import { HistoryRange, HistoryRequest, QuoteCurrency } from "../types";
+import { API_CONFIG, ERROR_MESSAGES, HISTORY_CONFIG, HISTORY_RANGES } from "../constants";
+
+/**
+ * Result of parsing a price history request
+ * Holds either a validated request or a user-facing validation error
+ */
+export type HistoryQueryResult =
+  | { request: HistoryRequest; error?: undefined }
+  | { request?: undefined; error: string };
+
+/**
+ * Validates the /api/crypto/[id]/history path id and query parameters
+ *
+ * Accepts `range` and `convert`; missing values fall back to
+ * HISTORY_CONFIG.DEFAULT_RANGE and API_CONFIG.DEFAULT_CONVERT.
+ *
+ * @param {string} id - Raw asset id path segment
+ * @param {URLSearchParams} params - Request query parameters
+ * @returns {HistoryQueryResult} Validated request or validation error
+ *
+ * @example
+ * parseHistoryQuery("1", new URLSearchParams("range=7d&convert=eur"))
+ * // Returns { request: { id: 1, convert: "EUR", range: "7d" } }
+ */
+export function parseHistoryQuery(id: string, params: URLSearchParams): HistoryQueryResult {
+  if (!/^\d+$/.test(id) || parseInt(id, 10) <= 0) {
+    return { error: ERROR_MESSAGES.INVALID_ASSET_ID };
+  }
+
+  const range = (params.get("range") || HISTORY_CONFIG.DEFAULT_RANGE).toLowerCase();
+  if (!Object.keys(HISTORY_RANGES).includes(range)) {
+    return { error: ERROR_MESSAGES.INVALID_HISTORY_RANGE };
+  }
+
+  const convert = (params.get("convert") || API_CONFIG.DEFAULT_CONVERT).toUpperCase();
+  if (!(API_CONFIG.SUPPORTED_CONVERT as readonly string[]).includes(convert)) {
+    return { error: ERROR_MESSAGES.INVALID_CONVERT };
+  }
+
+  return {
+    request: {
+      id: parseInt(id, 10),
+      convert: convert as QuoteCurrency,
+      range: range as HistoryRange,
+    },
+  };
+}
+
+/**
+ * Builds the /api/crypto/[id]/history URL for a history request
+ *
+ * @param {HistoryRequest} request - History request
+ * @returns {string} Relative endpoint URL with query string
+ *
+ * @example
+ * buildHistoryUrl({ id: 1, convert: "USD", range: "24h" })
+ * // Returns "/api/crypto/1/history?range=24h&convert=USD"
+ */
+export function buildHistoryUrl(request: HistoryRequest): string {
+  const query = new URLSearchParams({ range: request.range, convert: request.convert });
+  return `/api/crypto/${request.id}/history?${query}`;
+}
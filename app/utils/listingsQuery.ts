@@ -0,0 +1,279 @@
+import { AssetFilters, ListingSort, ListingsRequest, QuoteCurrency, SortDirection, SortKey, SortOption } from "../types";
+import { API_CONFIG, ERROR_MESSAGES, LISTING_SORTS, SORT_CONFIG, SORT_DIRECTIONS } from "../constants";
+import { hasAssetFilters } from "./assetFilters";
+
+/**
+ * Result of parsing listings query parameters
+ * Holds either a validated request or a user-facing validation error
+ */
+export type ListingsQueryResult =
+  | { request: ListingsRequest; error?: undefined }
+  | { request?: undefined; error: string };
+
+/**
+ * Parses an optional positive integer query parameter
+ *
+ * @param {string | null} value - Raw parameter value
+ * @param {number} fallback - Value used when the parameter is absent
+ * @returns {number | null} Parsed integer, or null when invalid
+ */
+const parseIntegerParam = (value: string | null, fallback: number): number | null => {
+  if (value === null || value.trim() === "") return fallback;
+  if (!/^\d+$/.test(value.trim())) return null;
+  return parseInt(value, 10);
+};
+
+/**
+ * Parses an optional filter bound
+ *
+ * @param {string | null} value - Raw parameter value
+ * @param {boolean} integer - Whether only positive integers are accepted
+ * @returns {number | null | undefined} Parsed bound, null when absent, or undefined when invalid
+ */
+const parseBoundParam = (value: string | null, integer: boolean): number | null | undefined => {
+  if (value === null || value.trim() === "") return null;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) return undefined;
+  return integer && (!Number.isInteger(parsed) || parsed < 1) ? undefined : parsed;
+};
+
+/** Ticker symbols accepted in selections: letters and digits only */
+const SYMBOL_PATTERN = /^[A-Z0-9]{1,20}$/;
+
+/**
+ * Normalizes a ticker symbol to upper case
+ *
+ * @param {string} value - Raw symbol
+ * @returns {string | null} Upper case symbol, or null when it is not a ticker symbol
+ *
+ * @example
+ * normalizeSymbol(" eth ") // Returns "ETH"
+ * normalizeSymbol("e-th") // Returns null
+ */
+export const normalizeSymbol = (value: string): string | null => {
+  const symbol = value.trim().toUpperCase();
+  return SYMBOL_PATTERN.test(symbol) ? symbol : null;
+};
+
+/**
+ * Parses a comma-separated selection parameter into a sorted list without duplicates
+ * An empty value selects no assets
+ *
+ * @param {string} value - Raw parameter value
+ * @param {Function} parseEntry - Parses one entry, returning null when invalid
+ * @returns {T[] | null} Sorted distinct entries, or null when an entry is invalid or there are too many
+ */
+const parseSelectionParam = <T extends number | string>(
+  value: string,
+  parseEntry: (entry: string) => T | null
+): T[] | null => {
+  const entries = value.trim() === "" ? [] : value.split(",").map(parseEntry);
+  if (entries.some((entry) => entry === null)) return null;
+  const distinct = [...new Set(entries as T[])].sort((a, b) =>
+    typeof a === "number" && typeof b === "number" ? a - b : String(a).localeCompare(String(b))
+  );
+  return distinct.length <= API_CONFIG.MAX_SELECTION_SIZE ? distinct : null;
+};
+
+/**
+ * Returns the default sort direction for a listing sort field
+ * Text fields default to A→Z, numeric fields to largest first
+ *
+ * @param {ListingSort} sort - Sort field
+ * @returns {SortDirection} Default direction
+ */
+const defaultSortDirection = (sort: ListingSort): SortDirection =>
+  sort === LISTING_SORTS.NAME || sort === LISTING_SORTS.SYMBOL
+    ? SORT_DIRECTIONS.ASC
+    : SORT_DIRECTIONS.DESC;
+
+/**
+ * Parses secondary sort keys given as comma-separated `field:direction` pairs
+ *
+ * @param {string} value - Raw `then_by` parameter value
+ * @returns {SortKey[] | null} Sort keys, or null when an entry is invalid or there are too many
+ *
+ * @example
+ * parseSortKeys("name:asc,rank:desc")
+ * // Returns [{ option: "name", direction: "asc" }, { option: "rank", direction: "desc" }]
+ */
+const parseSortKeys = (value: string): SortKey[] | null => {
+  const options: string[] = [SORT_CONFIG.RANK, ...Object.values(LISTING_SORTS)];
+  const entries = value.split(",").filter((entry) => entry.trim() !== "");
+  if (entries.length > SORT_CONFIG.MAX_KEYS - 1) return null;
+
+  const keys: SortKey[] = [];
+  for (const entry of entries) {
+    const [option, direction] = entry.trim().toLowerCase().split(":");
+    if (!options.includes(option) || (direction !== SORT_DIRECTIONS.ASC && direction !== SORT_DIRECTIONS.DESC)) {
+      return null;
+    }
+    keys.push({ option: option as SortOption, direction });
+  }
+  return keys;
+};
+
+/**
+ * Validates and normalizes the /api/crypto query parameters
+ *
+ * Accepts `start`, `limit`, `convert`, `sort` and `sort_dir`. Missing values
+ * fall back to API_CONFIG defaults; `limit` is capped at API_CONFIG.MAX_PAGE_SIZE
+ * and to the end of the API_CONFIG.MAX_CRYPTO_ASSETS universe. `then_by`
+ * (e.g., `name:asc,rank:desc`) orders assets tying on `sort` before paging, so
+ * a multi-column sort stays consistent across pages.
+ *
+ * Either `ids` or `symbols` (comma-separated, up to API_CONFIG.MAX_SELECTION_SIZE)
+ * restricts the listings to the named assets; they are normalized to a sorted
+ * list without duplicates so equal selections share one cache entry.
+ *
+ * `q` (fuzzy name/symbol search), `min_price`/`max_price` (in the quote
+ * currency) and `min_rank`/`max_rank` filter the assets before they are paged.
+ * `sort=relevance` orders search matches best first; without `q` it falls
+ * back to market cap order.
+ *
+ * @param {URLSearchParams} params - Request query parameters
+ * @returns {ListingsQueryResult} Validated request or validation error
+ *
+ * @example
+ * parseListingsQuery(new URLSearchParams("start=11&limit=500"))
+ * // Returns { request: { start: 11, limit: 100, convert: "USD", sort: "market_cap", sortDir: "desc" } }
+ */
+export function parseListingsQuery(params: URLSearchParams): ListingsQueryResult {
+  const start = parseIntegerParam(params.get("start"), API_CONFIG.API_START_POSITION);
+  if (start === null || start < 1 || start > API_CONFIG.MAX_CRYPTO_ASSETS) {
+    return { error: ERROR_MESSAGES.INVALID_START };
+  }
+
+  const limit = parseIntegerParam(params.get("limit"), API_CONFIG.DEFAULT_PAGE_SIZE);
+  if (limit === null || limit < 1) {
+    return { error: ERROR_MESSAGES.INVALID_LIMIT };
+  }
+
+  const convert = (params.get("convert") || API_CONFIG.DEFAULT_CONVERT).toUpperCase();
+  if (!(API_CONFIG.SUPPORTED_CONVERT as readonly string[]).includes(convert)) {
+    return { error: ERROR_MESSAGES.INVALID_CONVERT };
+  }
+
+  const requestedSort = (params.get("sort") || API_CONFIG.DEFAULT_LISTING_SORT).toLowerCase();
+  const relevance = requestedSort === API_CONFIG.RELEVANCE_SORT;
+  const sort = relevance ? LISTING_SORTS.MARKET_CAP : requestedSort;
+  if (!(Object.values(LISTING_SORTS) as string[]).includes(sort)) {
+    return { error: ERROR_MESSAGES.INVALID_SORT };
+  }
+
+  const sortDir = relevance
+    ? SORT_DIRECTIONS.DESC
+    : (params.get("sort_dir") || defaultSortDirection(sort as ListingSort)).toLowerCase();
+  if (sortDir !== SORT_DIRECTIONS.ASC && sortDir !== SORT_DIRECTIONS.DESC) {
+    return { error: ERROR_MESSAGES.INVALID_SORT_DIR };
+  }
+
+  const thenBy = parseSortKeys(params.get("then_by") ?? "");
+  if (!thenBy) {
+    return { error: ERROR_MESSAGES.INVALID_THEN_BY };
+  }
+
+  const idsParam = params.get("ids");
+  const symbolsParam = params.get("symbols");
+  if (idsParam !== null && symbolsParam !== null) {
+    return { error: ERROR_MESSAGES.INVALID_SELECTION };
+  }
+
+  const request: ListingsRequest = {
+    start,
+    limit: Math.min(limit, API_CONFIG.MAX_PAGE_SIZE, API_CONFIG.MAX_CRYPTO_ASSETS - start + 1),
+    convert: convert as QuoteCurrency,
+    sort: sort as ListingSort,
+    sortDir,
+  };
+
+  if (idsParam !== null) {
+    const ids = parseSelectionParam(idsParam, (entry) => {
+      const id = parseIntegerParam(entry, 0);
+      return id !== null && id > 0 ? id : null;
+    });
+    if (!ids) {
+      return { error: ERROR_MESSAGES.INVALID_IDS };
+    }
+    request.ids = ids;
+  }
+
+  if (symbolsParam !== null) {
+    const symbols = parseSelectionParam(symbolsParam, normalizeSymbol);
+    if (!symbols) {
+      return { error: ERROR_MESSAGES.INVALID_SYMBOLS };
+    }
+    request.symbols = symbols;
+  }
+
+  const query = params.get("q")?.trim() ?? "";
+  if (query.length > API_CONFIG.MAX_SEARCH_LENGTH) {
+    return { error: ERROR_MESSAGES.INVALID_SEARCH };
+  }
+  const minPrice = parseBoundParam(params.get("min_price"), false);
+  const maxPrice = parseBoundParam(params.get("max_price"), false);
+  if (minPrice === undefined || maxPrice === undefined) {
+    return { error: ERROR_MESSAGES.INVALID_PRICE_BOUND };
+  }
+  const minRank = parseBoundParam(params.get("min_rank"), true);
+  const maxRank = parseBoundParam(params.get("max_rank"), true);
+  if (minRank === undefined || maxRank === undefined) {
+    return { error: ERROR_MESSAGES.INVALID_RANK_BOUND };
+  }
+
+  const filters: AssetFilters = { query, minPrice, maxPrice, minRank, maxRank };
+  if (hasAssetFilters(filters)) {
+    request.filters = filters;
+  }
+  if (relevance && query !== "") {
+    request.relevance = true;
+  } else if (thenBy.length > 0) {
+    request.thenBy = thenBy;
+  }
+
+  return { request };
+}
+
+/**
+ * Serializes a listings request into /api/crypto query parameters
+ *
+ * @param {ListingsRequest} request - Listings request
+ * @returns {string} Query string without the leading "?"
+ *
+ * @example
+ * buildListingsQuery({ start: 11, limit: 10, convert: "USD", sort: "price", sortDir: "desc" })
+ * // Returns "start=11&limit=10&convert=USD&sort=price&sort_dir=desc"
+ * buildListingsQuery({ ...request, thenBy: [{ option: "name", direction: "asc" }] })
+ * // Returns "start=11&limit=10&convert=USD&sort=price&sort_dir=desc&then_by=name%3Aasc"
+ * buildListingsQuery({ start: 1, limit: 10, convert: "USD", sort: "name", sortDir: "asc", symbols: ["BTC", "ETH"] })
+ * // Returns "start=1&limit=10&convert=USD&sort=name&sort_dir=asc&symbols=BTC%2CETH"
+ * buildListingsQuery({ ...request, relevance: true, filters: { ...EMPTY_ASSET_FILTERS, query: "bit" } })
+ * // Returns "start=1&limit=10&convert=USD&sort=relevance&sort_dir=desc&q=bit"
+ */
+export function buildListingsQuery(request: ListingsRequest): string {
+  const params = new URLSearchParams({
+    start: request.start.toString(),
+    limit: request.limit.toString(),
+    convert: request.convert,
+    sort: request.relevance ? API_CONFIG.RELEVANCE_SORT : request.sort,
+    sort_dir: request.relevance ? SORT_DIRECTIONS.DESC : request.sortDir,
+  });
+  if (request.thenBy?.length && !request.relevance) {
+    params.set("then_by", request.thenBy.map(({ option, direction }) => `${option}:${direction}`).join(","));
+  }
+  if (request.ids) {
+    params.set("ids", request.ids.join(","));
+  }
+  if (request.symbols) {
+    params.set("symbols", request.symbols.join(","));
+  }
+  const { filters } = request;
+  if (filters) {
+    if (filters.query.trim()) params.set("q", filters.query.trim());
+    if (filters.minPrice !== null) params.set("min_price", filters.minPrice.toString());
+    if (filters.maxPrice !== null) params.set("max_price", filters.maxPrice.toString());
+    if (filters.minRank !== null) params.set("min_rank", filters.minRank.toString());
+    if (filters.maxRank !== null) params.set("max_rank", filters.maxRank.toString());
+  }
+  return params.toString();
+}
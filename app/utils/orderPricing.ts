@@ -0,0 +1,111 @@
+import { OrderEstimate, OrderLimits, OrderSide, PendingOrder, QuoteCurrency } from "../types";
+import { PORTFOLIO_CONFIG, PURCHASE_LIMITS, QUOTE_CURRENCIES } from "../constants";
+import { formatPrice } from "./formatters";
+
+/** Tolerance for float noise when rounding limits to the currency's decimals */
+const ROUNDING_EPSILON = 1e-9;
+
+/**
+ * Estimates how an order executes at a market price
+ *
+ * Slippage moves the fill price against the order (up for buys, down for
+ * sells) by PORTFOLIO_CONFIG.SLIPPAGE_RATE, and PORTFOLIO_CONFIG.FEE_RATE is
+ * charged on the filled value. Buys pay value + slippage + fee; sells receive
+ * value - slippage - fee.
+ *
+ * @param {OrderSide} side - Order side
+ * @param {number} quantity - Coins to buy or sell
+ * @param {number} price - Current market price in the order currency
+ * @returns {OrderEstimate} Fill price, costs and total
+ *
+ * @example
+ * estimateOrder("buy", 2, 100)
+ * // Returns { quantity: 2, value: 200, fillPrice: 100.1, slippage: 0.2, fee: 1.001, total: 201.201 }
+ */
+export const estimateOrder = (side: OrderSide, quantity: number, price: number): OrderEstimate => {
+  const direction = side === "buy" ? 1 : -1;
+  const fillPrice = price * (1 + direction * PORTFOLIO_CONFIG.SLIPPAGE_RATE);
+  const value = quantity * price;
+  const filledValue = quantity * fillPrice;
+  const fee = filledValue * PORTFOLIO_CONFIG.FEE_RATE;
+
+  return {
+    quantity,
+    value,
+    fillPrice,
+    slippage: Math.abs(filledValue - value),
+    fee,
+    total: filledValue + direction * fee,
+  };
+};
+
+/**
+ * Converts an order value in the quote currency to coin units
+ *
+ * @param {number} amount - Order value at the market price
+ * @param {number} price - Current market price
+ * @returns {number} Coin quantity, rounded to PORTFOLIO_CONFIG.QUANTITY_DECIMALS
+ *
+ * @example
+ * amountToQuantity(100, 65000) // Returns 0.00153846
+ */
+export const amountToQuantity = (amount: number, price: number): number => {
+  const factor = 10 ** PORTFOLIO_CONFIG.QUANTITY_DECIMALS;
+  return Math.round((amount / price) * factor) / factor;
+};
+
+/**
+ * Converts PURCHASE_LIMITS from USD to a quote currency
+ * The minimum is rounded up and the maximum down to the currency's decimals,
+ * so bounds shown to the user are accepted as entered
+ *
+ * @param {number} usdRate - USD value of one unit of the quote currency
+ * @param {QuoteCurrency} currency - Quote currency
+ * @returns {OrderLimits} Smallest and largest order value in the currency
+ *
+ * @example
+ * getOrderLimits(1, "USD") // Returns { min: 0.01, max: 5000 }
+ * getOrderLimits(1 / 151.5, "JPY") // Returns { min: 2, max: 757500 }
+ */
+export const getOrderLimits = (usdRate: number, currency: QuoteCurrency): OrderLimits => {
+  const factor = 10 ** QUOTE_CURRENCIES[currency].fractionDigits;
+  return {
+    min: Math.ceil((PURCHASE_LIMITS.MIN_AMOUNT / usdRate) * factor - ROUNDING_EPSILON) / factor,
+    max: Math.floor((PURCHASE_LIMITS.MAX_AMOUNT / usdRate) * factor + ROUNDING_EPSILON) / factor,
+  };
+};
+
+/**
+ * Describes the order limits of a quote currency as a validation message
+ *
+ * @param {OrderLimits} limits - Limits in the quote currency
+ * @param {QuoteCurrency} currency - Quote currency
+ * @returns {string} Message naming both bounds
+ *
+ * @example
+ * describeOrderLimits({ min: 0.01, max: 4600 }, "EUR") // Returns "Order value must be between €0.01 and €4,600.00"
+ */
+export const describeOrderLimits = (limits: OrderLimits, currency: QuoteCurrency): string =>
+  `Order value must be between ${formatPrice(limits.min, currency)} and ${formatPrice(limits.max, currency)}`;
+
+/**
+ * Checks whether a limit or stop order should fill at a market price
+ *
+ * Limit orders fill at a better price than the trigger (buy at or below,
+ * sell at or above); stop orders fill once the price moves through the
+ * trigger (buy at or above, sell at or below).
+ *
+ * @param {PendingOrder} order - Order type, side and trigger price
+ * @param {number} price - Current market price in the order currency
+ * @returns {boolean} True when the trigger has been crossed
+ *
+ * @example
+ * isOrderTriggered({ type: "stop", side: "sell", triggerPrice: 60000 }, 59900) // Returns true
+ */
+export const isOrderTriggered = (
+  order: Pick<PendingOrder, "type" | "side" | "triggerPrice">,
+  price: number
+): boolean => {
+  const fillsBelow = (order.type === "limit") === (order.side === "buy");
+  return fillsBelow ? price <= order.triggerPrice : price >= order.triggerPrice;
+};
@@ -0,0 +1,108 @@
+import { OrderRequest, QuoteCurrency } from "../types";
+import { API_CONFIG, ERROR_MESSAGES } from "../constants";
+
+/**
+ * Result of parsing an order request body
+ * Holds either a validated order or a user-facing validation error
+ */
+export type OrderRequestResult =
+  | { order: OrderRequest; error?: undefined }
+  | { order?: undefined; error: string };
+
+/**
+ * Validates the JSON body of a POST /api/orders request
+ *
+ * Expects `assetId`, `currency` and exactly one of `amount` (order value in
+ * the currency) or `quantity` (coin units); `side` defaults to "buy",
+ * `type` to "market" and `currency` to API_CONFIG.DEFAULT_CONVERT. Limit and
+ * stop orders also need a positive `triggerPrice`; market orders may carry the
+ * `quotedPrice` the user confirmed. Amounts and quantities must be positive;
+ * the order value is checked against PURCHASE_LIMITS once the order is priced,
+ * as the limits are converted from USD at the current rate.
+ *
+ * @param {unknown} body - Parsed request body
+ * @returns {OrderRequestResult} Validated order or validation error
+ *
+ * @example
+ * parseOrderRequest({ assetId: 1, amount: 250, currency: "EUR" })
+ * // Returns { order: { assetId: 1, side: "buy", type: "market", amount: 250, currency: "EUR" } }
+ * parseOrderRequest({ assetId: 1, side: "sell", type: "stop", triggerPrice: 60000, quantity: 0.01 })
+ * // Returns { order: { assetId: 1, side: "sell", type: "stop", triggerPrice: 60000, quantity: 0.01, currency: "USD" } }
+ */
+export function parseOrderRequest(body: unknown): OrderRequestResult {
+  if (typeof body !== "object" || body === null) {
+    return { error: ERROR_MESSAGES.INVALID_ORDER };
+  }
+  const input = body as Record<string, unknown>;
+
+  const assetId = input.assetId;
+  if (typeof assetId !== "number" || !Number.isInteger(assetId) || assetId <= 0) {
+    return { error: ERROR_MESSAGES.INVALID_ORDER_ASSET };
+  }
+
+  const side = input.side ?? "buy";
+  if (side !== "buy" && side !== "sell") {
+    return { error: ERROR_MESSAGES.INVALID_ORDER_SIDE };
+  }
+
+  const type = input.type ?? "market";
+  if (type !== "market" && type !== "limit" && type !== "stop") {
+    return { error: ERROR_MESSAGES.INVALID_ORDER_TYPE };
+  }
+
+  const triggerPrice = input.triggerPrice;
+  if (
+    type !== "market" &&
+    (typeof triggerPrice !== "number" || !Number.isFinite(triggerPrice) || triggerPrice <= 0)
+  ) {
+    return { error: ERROR_MESSAGES.INVALID_ORDER_TRIGGER };
+  }
+
+  const quotedPrice = input.quotedPrice;
+  if (
+    quotedPrice !== undefined &&
+    (typeof quotedPrice !== "number" || !Number.isFinite(quotedPrice) || quotedPrice <= 0)
+  ) {
+    return { error: ERROR_MESSAGES.INVALID_ORDER_QUOTED_PRICE };
+  }
+
+  const { amount, quantity } = input;
+  if ((amount === undefined) === (quantity === undefined)) {
+    return { error: ERROR_MESSAGES.INVALID_ORDER_SIZE };
+  }
+
+  if (
+    amount !== undefined &&
+    (typeof amount !== "number" ||
+      !Number.isFinite(amount) ||
+      amount <= 0)
+  ) {
+    return { error: ERROR_MESSAGES.INVALID_ORDER_AMOUNT };
+  }
+
+  if (
+    quantity !== undefined &&
+    (typeof quantity !== "number" || !Number.isFinite(quantity) || quantity <= 0)
+  ) {
+    return { error: ERROR_MESSAGES.INVALID_ORDER_QUANTITY };
+  }
+
+  const currency = typeof input.currency === "string"
+    ? input.currency.toUpperCase()
+    : API_CONFIG.DEFAULT_CONVERT;
+  if (!(API_CONFIG.SUPPORTED_CONVERT as readonly string[]).includes(currency)) {
+    return { error: ERROR_MESSAGES.INVALID_ORDER_CURRENCY };
+  }
+
+  return {
+    order: {
+      assetId,
+      side,
+      type,
+      ...(type !== "market" ? { triggerPrice: triggerPrice as number } : {}),
+      ...(type === "market" && quotedPrice !== undefined ? { quotedPrice } : {}),
+      ...(amount !== undefined ? { amount: amount as number } : { quantity: quantity as number }),
+      currency: currency as QuoteCurrency,
+    },
+  };
+}
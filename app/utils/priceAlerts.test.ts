@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import { AlertRule, AlertRuleDraft, CryptoAsset } from "../types";
+import { ALERT_CONFIG, ERROR_MESSAGES } from "../constants";
+import {
+  createAlertRule,
+  describeAlertTriggers,
+  evaluateAlertRules,
+  markAlertsTriggered,
+  validateAlertDraft,
+} from "./priceAlerts";
+
+const now = Date.parse("2026-01-01T12:00:00Z");
+
+const draft: AlertRuleDraft = {
+  symbol: "BTC",
+  condition: "above",
+  threshold: 70000,
+  currency: "USD",
+  window: "1h",
+  cooldownMinutes: 15,
+};
+
+/**
+ * Builds an asset quoted in USD
+ *
+ * @param {number} id - Asset id
+ * @param {string} symbol - Ticker symbol
+ * @param {number} price - USD price
+ * @param {number} [change1h] - Percent change over 1 hour
+ * @returns {CryptoAsset} Asset
+ */
+const makeAsset = (id: number, symbol: string, price: number, change1h = 0): CryptoAsset => ({
+  id,
+  name: symbol,
+  symbol,
+  cmc_rank: id,
+  circulating_supply: 0,
+  max_supply: null,
+  quote: {
+    USD: {
+      price,
+      volume_24h: 0,
+      percent_change_1h: change1h,
+      percent_change_24h: 0,
+      percent_change_7d: 0,
+      market_cap: 0,
+    },
+  },
+});
+
+/**
+ * Builds an enabled rule
+ *
+ * @param {Partial<AlertRule>} overrides - Fields that differ from "BTC above $70,000"
+ * @returns {AlertRule} Rule that has never fired
+ */
+const makeRule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+  ...createAlertRule(draft),
+  ...overrides,
+});
+
+describe("validateAlertDraft", () => {
+  it("accepts a complete rule", () => {
+    expect(validateAlertDraft(draft, 0)).toBeNull();
+  });
+
+  it("requires a symbol for price rules only", () => {
+    expect(validateAlertDraft({ ...draft, symbol: null }, 0)).toBe(ERROR_MESSAGES.ALERT_SYMBOL_REQUIRED);
+    expect(validateAlertDraft({ ...draft, symbol: null, condition: "change", threshold: 5 }, 0)).toBeNull();
+  });
+
+  it("rejects invalid symbols and thresholds", () => {
+    expect(validateAlertDraft({ ...draft, symbol: "b-tc" }, 0)).toBe(ERROR_MESSAGES.INVALID_ALERT_SYMBOL);
+    expect(validateAlertDraft({ ...draft, threshold: 0 }, 0)).toBe(ERROR_MESSAGES.INVALID_ALERT_THRESHOLD);
+    expect(validateAlertDraft({ ...draft, threshold: NaN }, 0)).toBe(ERROR_MESSAGES.INVALID_ALERT_THRESHOLD);
+  });
+
+  it("rejects rules beyond the limit", () => {
+    expect(validateAlertDraft(draft, ALERT_CONFIG.MAX_RULES)).toBe(ERROR_MESSAGES.ALERT_LIMIT_REACHED);
+  });
+});
+
+describe("createAlertRule", () => {
+  it("normalizes the symbol and starts enabled", () => {
+    const rule = createAlertRule({ ...draft, symbol: " btc " });
+
+    expect(rule).toEqual(expect.objectContaining({ symbol: "BTC", enabled: true, lastTriggeredAt: {} }));
+  });
+});
+
+describe("evaluateAlertRules", () => {
+  const btcAt = (price: number) => [makeAsset(1, "BTC", price)];
+
+  it("fires a price rule when the price crosses its level", () => {
+    const rule = makeRule();
+
+    const triggers = evaluateAlertRules([rule], btcAt(70500), "USD", new Map([[1, 69500]]), now);
+
+    expect(triggers).toEqual([{ rule, asset: btcAt(70500)[0] }]);
+  });
+
+  it("does not fire while the price stays beyond the level", () => {
+    const triggers = evaluateAlertRules([makeRule()], btcAt(71000), "USD", new Map([[1, 70500]]), now);
+
+    expect(triggers).toEqual([]);
+  });
+
+  it("does not fire without a previous price", () => {
+    expect(evaluateAlertRules([makeRule()], btcAt(70500), "USD", new Map(), now)).toEqual([]);
+  });
+
+  it("fires a below rule when the price falls through its level", () => {
+    const rule = makeRule({ condition: "below", threshold: 60000 });
+
+    expect(evaluateAlertRules([rule], btcAt(59000), "USD", new Map([[1, 61000]]), now)).toHaveLength(1);
+  });
+
+  it("ignores price rules set in another currency", () => {
+    const rule = makeRule({ currency: "EUR" });
+
+    expect(evaluateAlertRules([rule], btcAt(70500), "USD", new Map([[1, 69500]]), now)).toEqual([]);
+  });
+
+  it("fires change rules for every asset moving at least the threshold", () => {
+    const rule = makeRule({ symbol: null, condition: "change", threshold: 5 });
+    const assets = [makeAsset(1, "BTC", 70000, 1), makeAsset(2, "ETH", 3000, -6), makeAsset(3, "SOL", 150, 5)];
+
+    const triggers = evaluateAlertRules([rule], assets, "USD", new Map(), now);
+
+    expect(triggers.map(({ asset }) => asset.symbol)).toEqual(["ETH", "SOL"]);
+  });
+
+  it("skips disabled rules", () => {
+    const rule = makeRule({ enabled: false });
+
+    expect(evaluateAlertRules([rule], btcAt(70500), "USD", new Map([[1, 69500]]), now)).toEqual([]);
+  });
+
+  it("does not fire again for the same asset within the cooldown", () => {
+    const rule = makeRule({ lastTriggeredAt: { BTC: now - 14 * 60 * 1000 } });
+    const previous = new Map([[1, 69500]]);
+
+    expect(evaluateAlertRules([rule], btcAt(70500), "USD", previous, now)).toEqual([]);
+    expect(evaluateAlertRules([rule], btcAt(70500), "USD", previous, now + 60 * 1000)).toHaveLength(1);
+  });
+});
+
+describe("markAlertsTriggered", () => {
+  it("records the trigger time per asset of the rules that fired", () => {
+    const fired = makeRule({ symbol: null, condition: "change", threshold: 5, lastTriggeredAt: { BTC: 1 } });
+    const idle = makeRule();
+    const eth = makeAsset(2, "ETH", 3000, 6);
+
+    const [updatedFired, updatedIdle] = markAlertsTriggered([fired, idle], [{ rule: fired, asset: eth }], now);
+
+    expect(updatedFired.lastTriggeredAt).toEqual({ BTC: 1, ETH: now });
+    expect(fired.lastTriggeredAt).toEqual({ BTC: 1 });
+    expect(updatedIdle).toBe(idle);
+  });
+});
+
+describe("describeAlertTriggers", () => {
+  it("names price crossings and percent moves", () => {
+    const crossing = { rule: makeRule(), asset: makeAsset(1, "BTC", 70500) };
+    const move = {
+      rule: makeRule({ symbol: null, condition: "change", threshold: 5 }),
+      asset: makeAsset(2, "ETH", 3000, 5.2),
+    };
+
+    expect(describeAlertTriggers([crossing, move], "USD")).toBe("BTC rose above $70,000.00; ETH moved +5.20% in 1h");
+  });
+
+  it("counts triggers beyond the listed ones", () => {
+    const rule = makeRule({ symbol: null, condition: "change", threshold: 5 });
+    const triggers = ["ETH", "SOL", "ADA", "XRP", "DOT"].map((symbol, index) => ({
+      rule,
+      asset: makeAsset(index + 2, symbol, 1, -6.1),
+    }));
+
+    expect(describeAlertTriggers(triggers, "USD")).toBe(
+      "ETH moved -6.10% in 1h; SOL moved -6.10% in 1h; ADA moved -6.10% in 1h (+2 more)"
+    );
+  });
+});
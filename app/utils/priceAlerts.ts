@@ -0,0 +1,181 @@
+import { AlertRule, AlertRuleDraft, AlertTrigger, ChangeWindow, CryptoAsset, QuoteCurrency } from "../types";
+import { ALERT_CONFIG, ERROR_MESSAGES } from "../constants";
+import { formatPercentChange, formatPrice } from "./formatters";
+import { normalizeSymbol } from "./listingsQuery";
+import { getAssetQuote } from "./quotes";
+
+/** Quote field holding the percent change of each window */
+const CHANGE_FIELDS: Record<ChangeWindow, "percent_change_1h" | "percent_change_24h" | "percent_change_7d"> = {
+  "1h": "percent_change_1h",
+  "24h": "percent_change_24h",
+  "7d": "percent_change_7d",
+};
+
+/**
+ * Generates a locally unique alert rule id
+ *
+ * @returns {string} New rule id
+ */
+const createAlertId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Checks a new alert rule before it is added
+ *
+ * @param {AlertRuleDraft} draft - Rule fields as entered
+ * @param {number} ruleCount - Number of rules already defined
+ * @returns {string | null} Validation error, or null when the rule is valid
+ */
+export function validateAlertDraft(draft: AlertRuleDraft, ruleCount: number): string | null {
+  if (ruleCount >= ALERT_CONFIG.MAX_RULES) return ERROR_MESSAGES.ALERT_LIMIT_REACHED;
+  if (draft.condition !== "change" && !draft.symbol) return ERROR_MESSAGES.ALERT_SYMBOL_REQUIRED;
+  if (draft.symbol !== null && !normalizeSymbol(draft.symbol)) return ERROR_MESSAGES.INVALID_ALERT_SYMBOL;
+  if (!Number.isFinite(draft.threshold) || draft.threshold <= 0) return ERROR_MESSAGES.INVALID_ALERT_THRESHOLD;
+  return null;
+}
+
+/**
+ * Creates an enabled alert rule from validated fields
+ *
+ * @param {AlertRuleDraft} draft - Validated rule fields
+ * @returns {AlertRule} New rule that has never fired
+ */
+export function createAlertRule(draft: AlertRuleDraft): AlertRule {
+  return {
+    ...draft,
+    id: createAlertId(),
+    symbol: draft.symbol === null ? null : normalizeSymbol(draft.symbol),
+    enabled: true,
+    lastTriggeredAt: {},
+  };
+}
+
+/**
+ * Describes what an alert rule watches for
+ *
+ * @param {AlertRule} rule - Alert rule
+ * @returns {string} Description
+ *
+ * @example
+ * describeAlertRule(btcAbove70k) // Returns "BTC above $70,000.00"
+ * describeAlertRule(anyMoves5PercentIn1h) // Returns "Any asset moves 5% in 1h"
+ */
+export function describeAlertRule(rule: AlertRule): string {
+  if (rule.condition === "change") {
+    return `${rule.symbol ?? "Any asset"} moves ${rule.threshold}% in ${rule.window}`;
+  }
+  return `${rule.symbol} ${rule.condition} ${formatPrice(rule.threshold, rule.currency)}`;
+}
+
+/**
+ * Checks whether a rule matches an asset in the latest refresh
+ *
+ * @param {AlertRule} rule - Alert rule
+ * @param {CryptoAsset} asset - Asset from the latest refresh
+ * @param {QuoteCurrency} currency - Quote currency of the refresh
+ * @param {number | undefined} previousPrice - Price in the previous refresh, if seen
+ * @returns {boolean} True when the rule fires for the asset
+ */
+const matchesRule = (
+  rule: AlertRule,
+  asset: CryptoAsset,
+  currency: QuoteCurrency,
+  previousPrice: number | undefined
+): boolean => {
+  const quote = getAssetQuote(asset, currency);
+  switch (rule.condition) {
+    case "change":
+      return Math.abs(quote[CHANGE_FIELDS[rule.window]]) >= rule.threshold;
+    case "above":
+      return rule.currency === currency && previousPrice !== undefined &&
+        previousPrice < rule.threshold && quote.price >= rule.threshold;
+    case "below":
+      return rule.currency === currency && previousPrice !== undefined &&
+        previousPrice > rule.threshold && quote.price <= rule.threshold;
+  }
+};
+
+/**
+ * Evaluates the enabled rules against a data refresh
+ *
+ * Price rules fire when the price crosses their level between two refreshes;
+ * change rules fire while the move is at least their threshold. A rule does
+ * not fire again for the same asset until its cooldown has passed.
+ *
+ * @param {AlertRule[]} rules - Alert rules
+ * @param {CryptoAsset[]} assets - Assets of the latest refresh
+ * @param {QuoteCurrency} currency - Quote currency of the refresh
+ * @param {Map<number, number>} previousPrices - Prices of the previous refresh by asset id
+ * @param {number} now - Current epoch milliseconds
+ * @returns {AlertTrigger[]} Rules that fired, with the asset they fired for
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  assets: CryptoAsset[],
+  currency: QuoteCurrency,
+  previousPrices: Map<number, number>,
+  now: number
+): AlertTrigger[] {
+  return rules.flatMap((rule) => {
+    if (!rule.enabled) return [];
+    const cooldownMs = rule.cooldownMinutes * 60 * 1000;
+    return assets
+      .filter((asset) => rule.symbol === null || asset.symbol === rule.symbol)
+      .filter((asset) => now - (rule.lastTriggeredAt[asset.symbol] ?? 0) >= cooldownMs)
+      .filter((asset) => matchesRule(rule, asset, currency, previousPrices.get(asset.id)))
+      .map((asset) => ({ rule, asset }));
+  });
+}
+
+/**
+ * Records the trigger time of fired rules, starting their cooldown
+ *
+ * @param {AlertRule[]} rules - Alert rules
+ * @param {AlertTrigger[]} triggers - Rules that fired
+ * @param {number} now - Current epoch milliseconds
+ * @returns {AlertRule[]} Rules with updated trigger times
+ */
+export function markAlertsTriggered(rules: AlertRule[], triggers: AlertTrigger[], now: number): AlertRule[] {
+  return rules.map((rule) => {
+    const fired = triggers.filter((trigger) => trigger.rule.id === rule.id);
+    if (fired.length === 0) return rule;
+    const lastTriggeredAt = { ...rule.lastTriggeredAt };
+    fired.forEach(({ asset }) => {
+      lastTriggeredAt[asset.symbol] = now;
+    });
+    return { ...rule, lastTriggeredAt };
+  });
+}
+
+/**
+ * Describes a fired rule
+ *
+ * @param {AlertTrigger} trigger - Fired rule and asset
+ * @param {QuoteCurrency} currency - Quote currency of the refresh
+ * @returns {string} Description (e.g., "BTC rose above $70,000.00")
+ */
+const describeTrigger = ({ rule, asset }: AlertTrigger, currency: QuoteCurrency): string => {
+  if (rule.condition === "change") {
+    const change = getAssetQuote(asset, currency)[CHANGE_FIELDS[rule.window]];
+    return `${asset.symbol} moved ${formatPercentChange(change)} in ${rule.window}`;
+  }
+  const direction = rule.condition === "above" ? "rose above" : "fell below";
+  return `${asset.symbol} ${direction} ${formatPrice(rule.threshold, rule.currency)}`;
+};
+
+/**
+ * Summarizes the rules fired by one refresh in a single message
+ * Only the first ALERT_CONFIG.MAX_LISTED_TRIGGERS are named
+ *
+ * @param {AlertTrigger[]} triggers - Fired rules (at least one)
+ * @param {QuoteCurrency} currency - Quote currency of the refresh
+ * @returns {string} Notification message
+ *
+ * @example
+ * describeAlertTriggers(triggers, "USD")
+ * // Returns "ETH moved +5.20% in 1h; SOL moved -6.10% in 1h (+2 more)"
+ */
+export function describeAlertTriggers(triggers: AlertTrigger[], currency: QuoteCurrency): string {
+  const listed = triggers.slice(0, ALERT_CONFIG.MAX_LISTED_TRIGGERS).map((trigger) => describeTrigger(trigger, currency));
+  const more = triggers.length - listed.length;
+  return `${listed.join("; ")}${more > 0 ? ` (+${more} more)` : ""}`;
+}
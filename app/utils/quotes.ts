@@ -0,0 +1,23 @@
+import { AssetQuote, CryptoAsset, QuoteCurrency } from "../types";
+
+/**
+ * Returns an asset's market data in the given quote currency
+ * 
+ * Listings only carry the currency they were requested in, so callers must
+ * pass the currency the data was loaded with rather than the one selected
+ * 
+ * @param {CryptoAsset} asset - Asset to read
+ * @param {QuoteCurrency} currency - Quote currency of the loaded listings
+ * @returns {AssetQuote} Market data in that currency
+ * @throws {Error} When the asset has no quote in that currency
+ * 
+ * @example
+ * getAssetQuote(bitcoin, "EUR").price // Returns the EUR price
+ */
+export const getAssetQuote = (asset: CryptoAsset, currency: QuoteCurrency): AssetQuote => {
+  const quote = asset.quote[currency];
+  if (!quote) {
+    throw new Error(`${asset.symbol} has no ${currency} quote`);
+  }
+  return quote;
+};
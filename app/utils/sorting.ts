@@ -0,0 +1,148 @@
+import { CryptoAsset, ListingsRequest, QuoteCurrency, SortDirection, SortKey, SortOption } from "../types";
+import { API_CONFIG, DEFAULTS, SORT_CONFIG, SORT_DIRECTIONS } from "../constants";
+import { getAssetQuote } from "./quotes";
+
+/** Order of the asset list when no column sort is selected: best rank first */
+export const DEFAULT_SORT_KEYS: SortKey[] = [{ option: SORT_CONFIG.RANK, direction: SORT_DIRECTIONS.ASC }];
+
+/**
+ * Rank used for ordering - assets without a rank (reported as 0) sort last
+ *
+ * @param {CryptoAsset} asset - Asset to rank
+ * @returns {number} Sortable rank
+ */
+const rankOrder = (asset: CryptoAsset): number =>
+  asset.cmc_rank > 0 ? asset.cmc_rank : Number.MAX_SAFE_INTEGER;
+
+/**
+ * Compares two cryptocurrency assets by a single sort option (ascending)
+ * 
+ * @param {CryptoAsset} a - First asset
+ * @param {CryptoAsset} b - Second asset
+ * @param {SortOption} option - Field to compare
+ * @param {QuoteCurrency} currency - Quote currency used for market fields
+ * @returns {number} Negative if a sorts first, positive if b sorts first, 0 if equal
+ */
+export const compareAssets = (
+  a: CryptoAsset,
+  b: CryptoAsset,
+  option: SortOption,
+  currency: QuoteCurrency
+): number => {
+  switch (option) {
+    case "rank":
+      return rankOrder(a) - rankOrder(b);
+    case "name":
+      return a.name.localeCompare(b.name);
+    case "symbol":
+      return a.symbol.localeCompare(b.symbol);
+    case "circulating_supply":
+      return a.circulating_supply - b.circulating_supply;
+    case "price":
+    case "percent_change_1h":
+    case "percent_change_24h":
+    case "percent_change_7d":
+    case "market_cap":
+    case "volume_24h":
+      return getAssetQuote(a, currency)[option] - getAssetQuote(b, currency)[option];
+  }
+};
+
+/**
+ * Sorts cryptocurrency assets by several sort keys in priority order
+ * Assets tying on every key are ordered by rank, then id, so the order stays
+ * the same across refreshes
+ *
+ * @param {CryptoAsset[]} data - Assets to sort
+ * @param {SortKey[]} keys - Sort keys, most significant first
+ * @param {QuoteCurrency} currency - Quote currency used for market fields
+ * @returns {CryptoAsset[]} New sorted array
+ */
+export const sortAssetsBy = (
+  data: CryptoAsset[],
+  keys: SortKey[],
+  currency: QuoteCurrency
+): CryptoAsset[] => {
+  return [...data].sort((a, b) => {
+    for (const { option, direction } of keys) {
+      const result = compareAssets(a, b, option, currency);
+      if (result !== 0) {
+        return direction === "desc" ? -result : result;
+      }
+    }
+    return rankOrder(a) - rankOrder(b) || a.id - b.id;
+  });
+};
+
+/**
+ * Sorts cryptocurrency assets by a sort option and direction
+ * Shared by the dashboard and by providers that sort listings locally
+ * 
+ * @param {CryptoAsset[]} data - Assets to sort
+ * @param {SortOption} option - Field to sort by
+ * @param {SortDirection} direction - Sort direction
+ * @param {QuoteCurrency} currency - Quote currency used for market fields
+ * @returns {CryptoAsset[]} New sorted array
+ */
+export const sortAssets = (
+  data: CryptoAsset[],
+  option: SortOption,
+  direction: SortDirection,
+  currency: QuoteCurrency
+): CryptoAsset[] => sortAssetsBy(data, [{ option, direction }], currency);
+
+/**
+ * Server-side order used to page through the listings for a multi-column sort
+ * The most significant key becomes the listings sort (rank as reverse market
+ * cap order) and the remaining keys are sent as `thenBy`, so ties are ordered
+ * over the whole universe before it is paged
+ *
+ * @param {SortKey[]} keys - Sort keys, most significant first
+ * @returns {Pick<ListingsRequest, "sort" | "sortDir" | "thenBy">} Listings sort, direction and secondary keys
+ */
+export const toListingSort = (keys: SortKey[]): Pick<ListingsRequest, "sort" | "sortDir" | "thenBy"> => {
+  const [primary, ...rest] = keys;
+  const thenBy = rest.length > 0 ? { thenBy: rest } : {};
+  if (!primary || primary.option === SORT_CONFIG.RANK) {
+    const ascendingRank = primary?.direction !== SORT_DIRECTIONS.DESC;
+    return {
+      sort: API_CONFIG.DEFAULT_LISTING_SORT,
+      sortDir: ascendingRank ? SORT_DIRECTIONS.DESC : SORT_DIRECTIONS.ASC,
+      ...thenBy,
+    };
+  }
+  return { sort: primary.option, sortDir: primary.direction, ...thenBy };
+};
+
+/**
+ * Applies a column header click to the sort keys
+ *
+ * A plain click sorts by that column alone, toggling its direction when it
+ * already was the only key. An additive (shift) click appends the column as
+ * the least significant key, or cycles an existing key from ascending to
+ * descending to removed.
+ *
+ * @param {SortKey[]} keys - Current sort keys, most significant first
+ * @param {SortOption} option - Clicked column
+ * @param {boolean} additive - Whether the click adds to the existing keys
+ * @returns {SortKey[]} Updated sort keys
+ *
+ * @example
+ * updateSortKeys([{ option: "price", direction: "desc" }], "name", true)
+ * // Returns [{ option: "price", direction: "desc" }, { option: "name", direction: "asc" }]
+ */
+export const updateSortKeys = (keys: SortKey[], option: SortOption, additive: boolean): SortKey[] => {
+  const existing = keys.find((key) => key.option === option);
+
+  if (!additive) {
+    const toggle = keys.length === 1 && existing;
+    const direction = toggle && existing.direction === SORT_DIRECTIONS.ASC ? SORT_DIRECTIONS.DESC : DEFAULTS.SORT_DIRECTION;
+    return [{ option, direction }];
+  }
+  if (!existing) {
+    return keys.length < SORT_CONFIG.MAX_KEYS ? [...keys, { option, direction: DEFAULTS.SORT_DIRECTION }] : keys;
+  }
+  return existing.direction === SORT_DIRECTIONS.ASC
+    ? keys.map((key) => (key.option === option ? { ...key, direction: SORT_DIRECTIONS.DESC } : key))
+    : keys.filter((key) => key.option !== option);
+};
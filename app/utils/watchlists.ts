@@ -0,0 +1,123 @@
+import { Watchlist, WatchlistExport } from "../types";
+import { ERROR_MESSAGES, WATCHLIST_CONFIG } from "../constants";
+import { normalizeSymbol } from "./listingsQuery";
+
+/**
+ * Result of parsing an imported watchlist file
+ * Holds either the lists it contains or a user-facing error
+ */
+export type WatchlistImportResult =
+  | { watchlists: WatchlistExport["watchlists"]; error?: undefined }
+  | { watchlists?: undefined; error: string };
+
+/**
+ * Generates a locally unique watchlist id
+ * Ids only need to be unique within one browser's storage
+ *
+ * @returns {string} New watchlist id
+ */
+export const createWatchlistId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Checks a watchlist name against the length limit and the other lists
+ * Names are compared case-insensitively after trimming
+ *
+ * @param {string} name - Candidate name
+ * @param {Watchlist[]} lists - Existing watchlists
+ * @param {string} [exceptId] - Watchlist being renamed, which may keep its name
+ * @returns {string | null} Validation error, or null when the name is valid
+ */
+export function validateWatchlistName(name: string, lists: Watchlist[], exceptId?: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return ERROR_MESSAGES.WATCHLIST_NAME_REQUIRED;
+  if (trimmed.length > WATCHLIST_CONFIG.MAX_NAME_LENGTH) return ERROR_MESSAGES.WATCHLIST_NAME_TOO_LONG;
+  const taken = lists.some(
+    (list) => list.id !== exceptId && list.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  return taken ? ERROR_MESSAGES.WATCHLIST_NAME_TAKEN : null;
+}
+
+/**
+ * Serializes watchlists into the export file format
+ *
+ * @param {Watchlist[]} lists - Watchlists to export
+ * @returns {string} Pretty-printed JSON
+ */
+export function serializeWatchlists(lists: Watchlist[]): string {
+  const file: WatchlistExport = {
+    version: WATCHLIST_CONFIG.EXPORT_VERSION,
+    watchlists: lists.map(({ name, symbols }) => ({ name, symbols })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parses and validates an exported watchlist file
+ *
+ * Names are trimmed and symbols normalized to upper case without duplicates.
+ * A file with an unknown version, a missing or overlong name, an invalid
+ * symbol or more than WATCHLIST_CONFIG.MAX_ASSETS symbols is rejected whole.
+ *
+ * @param {string} text - File contents
+ * @returns {WatchlistImportResult} Lists in the file or an error
+ *
+ * @example
+ * parseWatchlistImport('{"version":1,"watchlists":[{"name":"L1","symbols":["eth","btc"]}]}')
+ * // Returns { watchlists: [{ name: "L1", symbols: ["ETH", "BTC"] }] }
+ */
+export function parseWatchlistImport(text: string): WatchlistImportResult {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return { error: ERROR_MESSAGES.WATCHLIST_IMPORT_FAILED };
+  }
+
+  const { version, watchlists } = (file ?? {}) as Partial<Record<keyof WatchlistExport, unknown>>;
+  if (version !== WATCHLIST_CONFIG.EXPORT_VERSION || !Array.isArray(watchlists)) {
+    return { error: ERROR_MESSAGES.WATCHLIST_IMPORT_FAILED };
+  }
+
+  const parsed: WatchlistExport["watchlists"] = [];
+  for (const entry of watchlists as Array<{ name?: unknown; symbols?: unknown }>) {
+    const name = typeof entry?.name === "string" ? entry.name.trim() : "";
+    if (!name || name.length > WATCHLIST_CONFIG.MAX_NAME_LENGTH || !Array.isArray(entry.symbols)) {
+      return { error: ERROR_MESSAGES.WATCHLIST_IMPORT_FAILED };
+    }
+    const symbols = entry.symbols.map((symbol) => (typeof symbol === "string" ? normalizeSymbol(symbol) : null));
+    if (symbols.some((symbol) => symbol === null)) {
+      return { error: ERROR_MESSAGES.INVALID_WATCHLIST_SYMBOL };
+    }
+    const distinct = [...new Set(symbols as string[])];
+    if (distinct.length > WATCHLIST_CONFIG.MAX_ASSETS) {
+      return { error: ERROR_MESSAGES.WATCHLIST_FULL };
+    }
+    parsed.push({ name, symbols: distinct });
+  }
+
+  return { watchlists: parsed };
+}
+
+/**
+ * Merges imported lists into the existing watchlists
+ * A list whose name matches an existing one (case-insensitively) adds its
+ * symbols to it, up to WATCHLIST_CONFIG.MAX_ASSETS; others are appended
+ *
+ * @param {Watchlist[]} lists - Existing watchlists
+ * @param {WatchlistExport["watchlists"]} imported - Lists read from a file
+ * @returns {Watchlist[]} Merged watchlists
+ */
+export function mergeWatchlists(lists: Watchlist[], imported: WatchlistExport["watchlists"]): Watchlist[] {
+  const merged = [...lists];
+  for (const { name, symbols } of imported) {
+    const index = merged.findIndex((list) => list.name.toLowerCase() === name.toLowerCase());
+    if (index === -1) {
+      merged.push({ id: createWatchlistId(), name, symbols });
+    } else {
+      const combined = [...new Set([...merged[index].symbols, ...symbols])];
+      merged[index] = { ...merged[index], symbols: combined.slice(0, WATCHLIST_CONFIG.MAX_ASSETS) };
+    }
+  }
+  return merged;
+}
@@ -1,7 +1,11 @@
 import type { NextConfig } from "next";
+import packageJson from "./package.json";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  env: {
+    // Sent with client error reports (see app/utils/clientErrors)
+    NEXT_PUBLIC_APP_VERSION: packageJson.version,
+  },
 };
 
 export default nextConfig;